@@ -1,5 +1,7 @@
 import type {
 	ColorReviewCase,
+	FocusRingReviewCase,
+	GradientReviewCase,
 	ReviewControl,
 	ReviewModeGroup,
 	ShadowReviewCase,
@@ -42,18 +44,38 @@ export function colorStyle(reviewCase: ColorReviewCase, draft: DraftValues, alph
 	return `oklch(${l} ${c} ${h}${alpha === 1 ? '' : ` / ${alpha}`})`;
 }
 
+/** Preview a mix variant from the drafted color, as the generated `color-mix()` would. */
+export function mixStyle(
+	reviewCase: ColorReviewCase,
+	draft: DraftValues,
+	mix: ColorReviewCase['mixVariants'][number]
+): string {
+	return `color-mix(in oklch, ${colorStyle(reviewCase, draft)} ${mix.weight * 100}%, ${mix.surfaceCss})`;
+}
+
 export function canvasVariables(
 	modeGroups: ReviewModeGroup[],
 	colorMode: string,
-	sizeMode: string
+	sizeMode: string,
+	axisModes: Record<string, string> = {},
+	contrastPreference = 'no-preference'
 ): string {
+	const color = modeGroups
+		.find((group) => group.category === 'color')
+		?.modes.find((mode) => mode.name === colorMode);
+	const axes = modeGroups
+		.filter((group) => group.category === 'axis')
+		.map((group) => group.modes.find((mode) => mode.name === axisModes[group.axis!]));
 	const selected = [
-		modeGroups
-			.find((group) => group.category === 'color')
-			?.modes.find((mode) => mode.name === colorMode),
+		color,
+		// A simulated contrast preference layers the color mode's refinement over it.
+		{ tokens: color?.preferences?.[contrastPreference as 'more' | 'forced'] },
 		modeGroups
 			.find((group) => group.category === 'size')
 			?.modes.find((mode) => mode.name === sizeMode),
+		...axes,
+		// Where the color mode is selected too, an axis mode's derived colors resolve over it.
+		...axes.map((mode) => ({ tokens: mode?.colorModes?.[colorMode] })),
 	];
 	return selected
 		.flatMap((mode) => Object.entries(mode?.tokens ?? {}))
@@ -149,3 +171,38 @@ export function shadowStyle(reviewCase: ShadowReviewCase, draft: DraftValues): s
 		.join(', ');
 	return `${reviewCase.shadowKind === 'box' ? 'box-shadow' : 'text-shadow'}:${css}`;
 }
+
+export function focusRingStyle(reviewCase: FocusRingReviewCase, draft: DraftValues): string {
+	const controls = Object.fromEntries(
+		reviewCase.controls.map((control) => [control.id, controlValue(control, draft)])
+	);
+	const style = controls.style ?? reviewCase.style;
+	const offset = controls.offset ?? reviewCase.offset;
+	return [
+		`outline:var(--${reviewCase.width.token}) ${style} ${reviewCase.color.css}`,
+		`outline-offset:${offset}${reviewCase.unit}`,
+	].join(';');
+}
+
+/** Rebuild the gradient with drafted controls, optionally over one mode's resolved stop colors. */
+export function gradientStyle(
+	reviewCase: GradientReviewCase,
+	draft: DraftValues,
+	colors: string[] = reviewCase.stops.map((stop) => stop.color.css)
+): string {
+	const controls = Object.fromEntries(
+		reviewCase.controls.map((control) => [control.id, controlValue(control, draft)])
+	);
+	const interpolation = controls.interpolation ?? reviewCase.interpolation;
+	const angle = controls.angle ?? reviewCase.angle;
+	const method = `in ${interpolation}${reviewCase.hue ? ` ${reviewCase.hue} hue` : ''}`;
+	const at = reviewCase.at ? `at ${reviewCase.at.x}% ${reviewCase.at.y}%` : '';
+	const prelude =
+		reviewCase.gradientKind === 'linear'
+			? `${angle}deg ${method}`
+			: reviewCase.gradientKind === 'radial'
+				? `${reviewCase.shape} ${at} ${method}`
+				: `from ${angle}deg ${at} ${method}`;
+	const stops = reviewCase.stops.map((stop, index) => `${colors[index]} ${stop.position}%`);
+	return `background-image:${reviewCase.gradientKind}-gradient(${prelude}, ${stops.join(', ')})`;
+}
@@ -109,6 +109,17 @@ export async function buildCommand(filePath: string, options: BuildOptions): Pro
 				for (const tool of plan.prerequisites.externalTools) {
 					console.error(`Requires ${tool.id}: ${tool.reason}`);
 				}
+				for (const entry of plan.gamut?.colors ?? []) {
+					if (entry.affectedOutputs.length === 0) continue;
+					const outputs = entry.affectedOutputs
+						.map((target) => `${target.output} (${target.gamut})`)
+						.join(', ');
+					console.error(
+						chalk.yellow(
+							`Gamut: ${entry.color} in ${entry.mode} is mapped for ${outputs}; ΔE ${entry.srgb.deltaE.toFixed(4)} sRGB, ${entry.displayP3.deltaE.toFixed(4)} Display-P3`
+						)
+					);
+				}
 			}
 			return;
 		}
@@ -464,7 +464,20 @@ async function loadColorSystem(filePath: string): Promise<PartialDesignSystem> {
 	// Figma sync is deliberately color-only. Do not leak a project typography
 	// input (whose fonts are resolved by the full project compiler) into the core
 	// PartialDesignSystem contract.
-	return { colors: designSystem.colors };
+	// Only color modes reach Figma, so mode axes keep just their color members.
+	const colorModeNames = new Set(designSystem.colors.modes.map((mode) => mode.name));
+	const modeAxes = Object.fromEntries(
+		Object.entries(designSystem.modeAxes ?? {}).flatMap(([axisName, axis]) => {
+			const modes = axis.modes.filter((modeName) => colorModeNames.has(modeName));
+			return axis.families.includes('colors') && modes.length > 0
+				? [[axisName, { ...axis, families: ['colors' as const], modes }]]
+				: [];
+		})
+	);
+	return {
+		colors: designSystem.colors,
+		...(Object.keys(modeAxes).length > 0 ? { modeAxes } : {}),
+	};
 }
 
 export interface FigmaSyncOptions {
@@ -509,11 +522,14 @@ export async function figmaSyncCommand(filePath: string, options: FigmaSyncOptio
 	);
 
 	const parsed = JSON.parse(jsonStr);
-	const collection: FigmaCollection = parsed.collections[0];
+	// The first collection holds color modes; each mode axis follows in its own.
+	const collections: FigmaCollection[] = parsed.collections;
 
-	console.log(chalk.cyan(`Syncing "${collection.name}" to Figma...`));
-	console.log(chalk.gray(`  Modes: ${collection.modes.join(', ')}`));
-	console.log(chalk.gray(`  Variables: ${collection.variables.length}`));
+	for (const collection of collections) {
+		console.log(chalk.cyan(`Syncing "${collection.name}" to Figma...`));
+		console.log(chalk.gray(`  Modes: ${collection.modes.join(', ')}`));
+		console.log(chalk.gray(`  Variables: ${collection.variables.length}`));
+	}
 	console.log(chalk.gray(`  Color space: ${options.colorSpace ?? 'srgb'}`));
 	console.log(chalk.gray(`  Policy: ${options.policy ?? 'merge'}`));
 
@@ -534,47 +550,54 @@ export async function figmaSyncCommand(filePath: string, options: FigmaSyncOptio
 		};
 	}
 
-	const existingCollection = Object.values(existing.meta.variableCollections).find(
-		(c) => c.name === collection.name
-	);
+	// Step 2: Build and report every plan before any POST
+	const plans = collections.map((collection) => {
+		const existingCollection = Object.values(existing.meta.variableCollections).find(
+			(c) => c.name === collection.name
+		);
 
-	if (existingCollection) {
-		console.log(chalk.gray(`  Found existing collection "${collection.name}" — will update`));
-	} else {
-		console.log(chalk.gray(`  Collection "${collection.name}" not found — will create`));
-	}
+		if (existingCollection) {
+			console.log(chalk.gray(`  Found existing collection "${collection.name}" — will update`));
+		} else {
+			console.log(chalk.gray(`  Collection "${collection.name}" not found — will create`));
+		}
 
-	// Step 2: Build, report, and optionally POST the plan
-	const plan = buildSyncPlan(collection, existing.meta, options.policy);
-	const { payload, summary } = plan;
-
-	console.log(
-		chalk.gray(
-			`  Collections: +${summary.collections.create} ~${summary.collections.update} -${summary.collections.delete}; ` +
-				`modes: +${summary.modes.create} ~${summary.modes.update} -${summary.modes.delete}; ` +
-				`variables: +${summary.variables.create} ~${summary.variables.update} -${summary.variables.delete}; ` +
-				`values: ${summary.values}`
-		)
-	);
+		const plan = buildSyncPlan(collection, existing.meta, options.policy);
+		const { summary } = plan;
+
+		console.log(
+			chalk.gray(
+				`  Collections: +${summary.collections.create} ~${summary.collections.update} -${summary.collections.delete}; ` +
+					`modes: +${summary.modes.create} ~${summary.modes.update} -${summary.modes.delete}; ` +
+					`variables: +${summary.variables.create} ~${summary.variables.update} -${summary.variables.delete}; ` +
+					`values: ${summary.values}`
+			)
+		);
+		return plan;
+	});
 
 	if (options.dryRun) {
 		console.log(chalk.yellow('\n[DRY RUN] Would send this payload:\n'));
-		console.log(JSON.stringify(payload, null, 2));
+		for (const plan of plans) console.log(JSON.stringify(plan.payload, null, 2));
 		return;
 	}
-	if (plan.hasDeletions && !options.yes) {
+	if (plans.some((plan) => plan.hasDeletions) && !options.yes) {
 		throw new Error(
 			'Authoritative Figma sync would delete modes or variables. Re-run with --yes after reviewing --dry-run.'
 		);
 	}
 
-	const result = await figmaPost(options.fileKey, token!, payload);
+	// Temporary IDs are only unique within one plan, so each collection is posted on its own.
+	let created = 0;
+	for (const plan of plans) {
+		const result = await figmaPost(options.fileKey, token!, plan.payload);
 
-	if (result.error) {
-		throw new Error(`Figma sync failed: ${JSON.stringify(result)}`);
-	}
+		if (result.error) {
+			throw new Error(`Figma sync failed: ${JSON.stringify(result)}`);
+		}
 
-	const created = result.meta?.tempIdToRealId ? Object.keys(result.meta.tempIdToRealId).length : 0;
+		created += result.meta?.tempIdToRealId ? Object.keys(result.meta.tempIdToRealId).length : 0;
+	}
 
 	console.log(chalk.green(`✓ Synced to Figma (${created} new entities created)`));
 }
@@ -0,0 +1,43 @@
+import {
+	analyzeGamut,
+	cssGamutOutputs,
+	resolveGeneratorConfig,
+	type GamutColorDiagnostic,
+	type GamutOutputTarget,
+	type GeneratorOptions,
+	type PartialDesignSystem,
+} from '@three-forma-styli/core';
+import type { ProjectJsonOutput } from './project.js';
+
+type DesignJsonOptions = Pick<ProjectJsonOutput, 'colorSpace'> | undefined;
+
+export interface ProjectGamutReport {
+	/** Outputs that encode colors in a fixed gamut rather than native `oklch()`. */
+	outputs: GamutOutputTarget[];
+	colors: GamutColorDiagnostic[];
+}
+
+/**
+ * Resolve the gamut-mapped targets a project emits. Color CSS is emitted by every
+ * layout that carries colors, so its configured color format always applies.
+ */
+export function projectGamutOutputs(
+	generator: GeneratorOptions | undefined,
+	design: { dtcg?: DesignJsonOptions; figmaVariables?: DesignJsonOptions }
+): GamutOutputTarget[] {
+	return [
+		...cssGamutOutputs(resolveGeneratorConfig(generator).colorFormat),
+		...(design.dtcg ? [{ output: 'dtcg' as const, gamut: design.dtcg.colorSpace ?? 'srgb' }] : []),
+		...(design.figmaVariables
+			? [{ output: 'figma-variables' as const, gamut: design.figmaVariables.colorSpace ?? 'srgb' }]
+			: []),
+	];
+}
+
+export function projectGamutReport(
+	system: Pick<PartialDesignSystem, 'colors'>,
+	outputs: GamutOutputTarget[]
+): ProjectGamutReport | undefined {
+	if (!system.colors) return undefined;
+	return { outputs, colors: analyzeGamut(system, { outputs }) };
+}
@@ -34,7 +34,12 @@ export function typographyCssOptions(output: LegacyTfsProjectOutput) {
 
 export function tokenCssOptions(output: LegacyTfsProjectOutput) {
 	const configured = output.css && output.css !== true ? output.css : {};
-	return { selectors: configured.selectors };
+	return {
+		selectors: configured.selectors,
+		colorModes: configured.colorModes,
+		alphaVariants: configured.alphaVariants,
+		nestedRadii: configured.nestedRadii,
+	};
 }
 
 export function assertPortableRelativePath(value: string, label: string): string {
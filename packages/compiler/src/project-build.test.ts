@@ -97,6 +97,53 @@ describe('portable project build', () => {
 		expect(await fs.pathExists(path.join(directory, 'dist'))).toBe(false);
 	});
 
+	it('plans gamut diagnostics against the configured design JSON color spaces', async () => {
+		const directory = await fixtureDirectory();
+		const project = defineTfsProject({
+			system: {
+				colors: {
+					alphaSchedule: { lo: 0.25 },
+					modes: [
+						{
+							name: 'dark',
+							isDefault: true,
+							tokens: {
+								bg: { mode: 'oklch', l: 0.18, c: 0, h: 0 },
+								lime: { mode: 'oklch', l: 0.85, c: 0.25, h: 135 },
+							},
+						},
+					],
+				},
+			},
+			generator: { colorFormat: { alpha: 'rgba' } },
+			output: {
+				directory: './dist',
+				css: true,
+				dtcg: { colorSpace: 'display-p3' },
+				figmaVariables: true,
+			},
+		});
+		const plan = await planProject(project, path.join(directory, 'tfs.config.ts'));
+
+		expect(plan.gamut?.outputs).toEqual([
+			{ output: 'css', gamut: 'srgb' },
+			{ output: 'dtcg', gamut: 'display-p3' },
+			{ output: 'figma-variables', gamut: 'srgb' },
+		]);
+		expect(plan.gamut?.colors.map((entry) => [entry.color, entry.srgb.inGamut])).toEqual([
+			['bg', true],
+			['lime', false],
+		]);
+		expect(plan.gamut?.colors[1]).toMatchObject({
+			path: '/colors/modes/0/tokens/lime',
+			displayP3: { inGamut: true, deltaE: 0 },
+			affectedOutputs: [
+				{ output: 'css', gamut: 'srgb' },
+				{ output: 'figma-variables', gamut: 'srgb' },
+			],
+		});
+	});
+
 	it('builds and replaces one deterministic owned output tree', async () => {
 		const directory = await fixtureDirectory();
 		const project = defineTfsProject({
@@ -9,6 +9,7 @@ import {
 	generateTypographyTypescript,
 	toTypographyCss,
 	toTypographyCssModuleTypes,
+	type GamutOutputTarget,
 	type PartialDesignSystem,
 	type TypographySystem,
 } from '@three-forma-styli/core';
@@ -38,6 +39,7 @@ import { workspacePlanContext } from './workspace/context.js';
 import { assertGeneratedOutputCurrent } from './generated-check.js';
 import { fontAssetUrl, relativeUrl, validateFontAssetUrlPolicy } from './font-url.js';
 import { acquireBuildLock } from './build-lock.js';
+import { projectGamutOutputs, projectGamutReport } from './gamut.js';
 import {
 	fontAssetsOptions,
 	jsonOutput,
@@ -244,12 +246,20 @@ async function buildLegacyProject<const Fonts extends Record<string, ProjectFont
 		const system: PartialDesignSystem = { ...project.system, typography };
 		const ir = generate(system, project.generator);
 
-		if (plan.css)
-			await writeOutputFile(
-				staging,
-				plan.css,
-				generateCss(system, { ...project.generator, ...tokenCssOptions(project.output) })
-			);
+		const cssOptions = { ...project.generator, ...tokenCssOptions(project.output) };
+		let alphaVariantSizes: { bytes: number; literalBytes: number } | undefined;
+		if (plan.css) {
+			const css = generateCss(system, cssOptions);
+			await writeOutputFile(staging, plan.css, css);
+			if (cssOptions.alphaVariants === 'relative') {
+				alphaVariantSizes = {
+					bytes: Buffer.byteLength(css),
+					literalBytes: Buffer.byteLength(
+						generateCss(system, { ...cssOptions, alphaVariants: 'literal' })
+					),
+				};
+			}
+		}
 		if (plan.typographyCss) {
 			const fontFaceCss =
 				preparedFonts && fontFacesMode === 'include'
@@ -457,6 +467,9 @@ async function buildLegacyProject<const Fonts extends Record<string, ProjectFont
 							: undefined,
 					}
 				: undefined,
+			alphaVariants: alphaVariantSizes
+				? { strategy: 'relative', file: plan.css, ...alphaVariantSizes }
+				: undefined,
 			limitations: {
 				dtcg: plan.dtcg
 					? 'DTCG 2025.10 color, dimension, duration, cubicBezier, transition, typography, and shadow; TFS modes and CSS-only metadata use namespaced extensions'
@@ -488,6 +501,7 @@ export async function planProject<const Fonts extends Record<string, ProjectFont
 	let outputDirectory: string;
 	let artifacts: ProjectPlanArtifact[];
 	let hostPackage: ProjectBuildPlan['hostPackage'];
+	let gamutOutputs: GamutOutputTarget[];
 
 	if (layout === 'workspace-package') {
 		const output = project.output as WorkspacePackageOutput;
@@ -512,9 +526,17 @@ export async function planProject<const Fonts extends Record<string, ProjectFont
 			generatedFromHost: host.generatedFromHost,
 			requiredExports: host.requiredExports,
 		};
+		gamutOutputs = projectGamutOutputs(project.generator, workspacePlan.design);
 	} else {
 		const context = await legacyProjectContext(project as LegacyProject<Fonts>, resolvedConfig);
 		outputDirectory = context.outputDirectory;
+		const legacyOutput = project.output as LegacyTfsProjectOutput;
+		gamutOutputs = projectGamutOutputs(project.generator, {
+			dtcg: context.plan.dtcg ? jsonOutput(legacyOutput.dtcg) : undefined,
+			figmaVariables: context.plan.figmaVariables
+				? jsonOutput(legacyOutput.figmaVariables)
+				: undefined,
+		});
 		const kindFor = (name: keyof LegacyOutputPlan): ProjectPlanArtifact['kind'] =>
 			name === 'specimen'
 				? 'review'
@@ -589,6 +611,7 @@ export async function planProject<const Fonts extends Record<string, ProjectFont
 		dependencies: artifacts.map((artifact) => artifact.path).sort(),
 	});
 	artifacts.sort((left, right) => left.path.localeCompare(right.path));
+	const gamut = projectGamutReport(project.system, gamutOutputs);
 	return {
 		schemaVersion: 1,
 		project: { schemaVersion: 1, config: resolvedConfig },
@@ -596,6 +619,7 @@ export async function planProject<const Fonts extends Record<string, ProjectFont
 		artifacts,
 		...fontPlan,
 		...(hostPackage ? { hostPackage } : {}),
+		...(gamut ? { gamut } : {}),
 	};
 }
 
@@ -1,5 +1,6 @@
 import path from 'node:path';
 import fs from 'fs-extra';
+import type { ProjectGamutReport } from './gamut.js';
 import type { ProjectFont, TfsProject } from './project.js';
 import { inspectFontFiles } from './fonts/inspect.js';
 
@@ -38,6 +39,8 @@ export interface ProjectBuildPlan {
 			requiredBy: string[];
 		}>;
 	};
+	/** Present when the system has colors; lists build-time gamut mapping per mode and token. */
+	gamut?: ProjectGamutReport;
 	hostPackage?: {
 		manifest: string;
 		generatedFromHost: string;
@@ -45,6 +45,12 @@ export interface ProjectOutputFormat {
 export interface ProjectCssOutput extends ProjectOutputFormat {
 	/** Selectors used for root tokens and independent color and size modes. */
 	selectors?: CssTransformerConfig['selectors'];
+	/** `light-dark` folds a two-polarity color system into `color-scheme`-driven values. */
+	colorModes?: CssTransformerConfig['colorModes'];
+	/** `relative` derives alpha variants from base colors with relative color syntax. */
+	alphaVariants?: CssTransformerConfig['alphaVariants'];
+	/** `calc` writes nested border radii as `max()` expressions over their source variables. */
+	nestedRadii?: CssTransformerConfig['nestedRadii'];
 }
 
 export interface ProjectTypographyCssOutput extends ProjectOutputFormat {
@@ -63,6 +69,13 @@ export interface ProjectShadowCssOutput extends ProjectOutputFormat {
 	specificity?: 'class' | 'zero';
 }
 
+export interface ProjectFocusRingCssOutput extends ProjectOutputFormat {
+	/** Global helper namespace without punctuation. Defaults to `ring`; TFS adds `--`. */
+	classPrefix?: string;
+	/** Defaults to ordinary class specificity. `zero` wraps global helpers in :where(). */
+	specificity?: 'class' | 'zero';
+}
+
 export type ProjectFontAssetUrlPolicy =
 	{ mode: 'relative' } | { mode: 'public'; prefix: string } | { mode: 'absolute'; prefix: string };
 
@@ -130,6 +143,8 @@ export interface WorkspaceRuntimeCssOutput {
 	shadows?: boolean | Omit<ProjectShadowCssOutput, 'file'>;
 	/** Emit kebab-case shadow CSS Module helpers and their declaration. */
 	shadowModule?: boolean;
+	/** Emit global `:focus-visible` outline helpers when focus-ring recipes exist. */
+	focusRings?: boolean | Omit<ProjectFocusRingCssOutput, 'file'>;
 	/** URL policy for runtime font-face sources. Review always uses relative prepared assets. */
 	fontUrls?: ProjectFontAssetUrlPolicy;
 }
@@ -143,6 +158,10 @@ export interface WorkspaceRuntimeContractsOutput {
 	nativeColorModes?: boolean;
 	/** Emit the strict runtime custom-theme policy when luminance and runtime-theme policies exist. */
 	runtimeColorTheme?: boolean;
+	/** Emit named viewport and container widths with their queries. Defaults to true for breakpoints. */
+	breakpoints?: boolean;
+	/** Emit the ordered stacking layers and their z-index values. Defaults to true for layers. */
+	layers?: boolean;
 }
 
 export interface WorkspaceRuntimeOutput {
@@ -7,6 +7,9 @@ describe('project system TypeScript contract', () => {
 		const system = {
 			colors: {
 				alphaSchedule: { min: 0.08 },
+				semantic: {
+					'surface-hover': { color: 'bg', alpha: 'min', modes: { light: { color: 'bg' } } },
+				},
 				modes: [
 					{
 						name: 'default',
@@ -64,6 +67,17 @@ describe('project system TypeScript contract', () => {
 			bg: { mode: 'oklch', l: 0.98, c: 0.01, h: 90 },
 		});
 		expect(contract.modes.color.entries.light.resolvedTokens['clr-bg']).toContain('oklch(');
+		expect(contract.modes.color.entries.light.resolvedTokens['clr-surface-hover']).toBe(
+			'var(--clr-bg)'
+		);
+		expect(contract.semanticColors?.['surface-hover']).toEqual({
+			token: 'clr-surface-hover',
+			css: 'var(--clr-surface-hover)',
+			modes: {
+				default: { name: 'bg', alpha: 'min', token: 'clr-bg-a-min', css: 'var(--clr-bg-a-min)' },
+				light: { name: 'bg', token: 'clr-bg', css: 'var(--clr-bg)' },
+			},
+		});
 		expect(contract.scales.time.default).toBe('interaction');
 		expect(contract.scales.time.entries.interaction.metadata).toEqual({
 			label: 'Interaction',
@@ -98,5 +112,89 @@ describe('project system TypeScript contract', () => {
 		expect(generateProjectSystemTypescript(system, generate(system))).toContain(
 			'export type TfsTimeScale'
 		);
+		expect(generateProjectSystemTypescript(system, generate(system))).toContain(
+			'export type TfsSemanticColor'
+		);
+	});
+
+	it('exports mode axes apart from the color mode category', () => {
+		const system = {
+			colors: {
+				modes: [
+					{ name: 'dark', isDefault: true, tokens: { bg: oklch(0.2, 0, 0) } },
+					{ name: 'light', tokens: { bg: oklch(0.98, 0, 0) } },
+					{ name: 'zest', tokens: { bg: oklch(0.3, 0.1, 120) } },
+				],
+			},
+			modeAxes: { brand: { default: 'acme', families: ['colors'], modes: ['zest'] } },
+		} satisfies PartialDesignSystem;
+		const contract = projectSystemContract(system, generate(system));
+
+		expect(Object.keys(contract.modes.color.entries)).toEqual(['dark', 'light']);
+		expect(contract.axes?.brand).toMatchObject({
+			default: 'acme',
+			selector: '[data-brand-mode="{mode}"]',
+			families: ['colors'],
+			entries: {
+				acme: { isDefault: true, systems: {} },
+				zest: { isDefault: false, systems: { colors: { bg: { l: 0.3, c: 0.1, h: 120 } } } },
+			},
+		});
+		expect(contract.axes?.brand.entries.zest.resolvedTokens['clr-bg']).toContain('oklch(0.3');
+		expect(generateProjectSystemTypescript(system, generate(system))).toContain(
+			'export type TfsModeAxis'
+		);
+	});
+
+	const sizingSystem = (modeAxes?: PartialDesignSystem['modeAxes']) =>
+		({
+			spacing: {
+				modes: [
+					{ name: 'default', isDefault: true, tokens: { unit: 'px', base: 8, min: 4, range: 4 } },
+					{ name: 'touch', tokens: { unit: 'px', base: 11, min: 6, range: 4 } },
+				],
+			},
+			sizing: {
+				modes: [
+					{ name: 'default', isDefault: true, tokens: { sizes: { 'control-m': { spacing: 4 } } } },
+					{ name: 'touch', tokens: { sizes: { 'control-m': { spacing: 4 } }, minHitTarget: 44 } },
+				],
+			},
+			...(modeAxes ? { modeAxes } : {}),
+		}) satisfies PartialDesignSystem;
+
+	it('files sizing modes and tokens under the size category', () => {
+		const system = sizingSystem();
+		const contract = projectSystemContract(system, generate(system));
+
+		expect(contract.modes.size.entries.touch).toMatchObject({
+			isDefault: false,
+			systems: {
+				spacing: { base: 11 },
+				sizing: { sizes: { 'control-m': { spacing: 4 } }, minHitTarget: 44 },
+			},
+			resolvedTokens: { 'size-control-m': '44px', 'sp-4': '44px' },
+		});
+		expect(contract.modes.size.entries.default.resolvedTokens['size-control-m']).toBe('32px');
+	});
+
+	it('lets a mode axis claim sizing modes and their tokens', () => {
+		const system = sizingSystem({
+			density: { default: 'regular', families: ['spacing', 'sizing'], modes: ['touch'] },
+		});
+		const contract = projectSystemContract(system, generate(system));
+
+		expect(Object.keys(contract.modes.size.entries)).toEqual(['default']);
+		expect(contract.axes?.density.entries.touch).toMatchObject({
+			systems: { spacing: { base: 11 }, sizing: { minHitTarget: 44 } },
+			resolvedTokens: { 'size-control-m': '44px', 'sp-4': '44px' },
+		});
+		expect(() =>
+			generate(
+				sizingSystem({ density: { default: 'regular', families: ['spacing'], modes: ['touch'] } })
+			)
+		).toThrowError(
+			'modeAxes.density.modes "touch" is a sizing mode, but the axis does not list sizing'
+		);
 	});
 });
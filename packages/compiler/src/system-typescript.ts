@@ -1,7 +1,8 @@
-import type { IR, PartialDesignSystem, TokenValue } from '@three-forma-styli/core';
+import type { IR, ModeAxisFamily, PartialDesignSystem, TokenValue } from '@three-forma-styli/core';
 
-type ModeCategory = keyof IR['modes'];
-type TokenCategory = ModeCategory | 'time' | 'motion' | 'shadow';
+type ModeCategory = 'color' | 'size';
+type TokenCategory =
+	ModeCategory | 'time' | 'motion' | 'shadow' | 'focusRing' | 'gradient' | 'breakpoint' | 'layer';
 type SourceMode = { name: string; isDefault?: boolean; tokens: unknown; metadata?: unknown };
 type ProjectModeEntry = {
 	isDefault: boolean;
@@ -32,8 +33,20 @@ type ProjectSystemContract = {
 			>;
 		};
 	};
+	axes?: Record<
+		string,
+		{
+			default: string;
+			selector: string;
+			families: ModeAxisFamily[];
+			entries: Record<string, ProjectModeEntry>;
+		}
+	>;
 	motion?: IR['motion'];
 	shadows?: IR['shadows'];
+	focusRings?: IR['focusRings'];
+	gradients?: IR['gradients'];
+	semanticColors?: IR['semanticColors'];
 };
 
 const FAMILY_CATEGORIES: Record<TokenValue['family'], TokenCategory> = {
@@ -43,18 +56,45 @@ const FAMILY_CATEGORIES: Record<TokenValue['family'], TokenCategory> = {
 	typography: 'size',
 	borderRadius: 'size',
 	borderWidth: 'size',
+	sizing: 'size',
 	time: 'time',
 	motion: 'motion',
 	shadow: 'shadow',
+	focusRing: 'focusRing',
+	gradient: 'gradient',
+	breakpoint: 'breakpoint',
+	layer: 'layer',
+};
+
+const AXIS_SOURCE_SYSTEMS: Record<ModeAxisFamily, string[]> = {
+	colors: ['colors'],
+	spacing: ['spacing'],
+	gap: ['gap'],
+	typography: ['typography'],
+	border: ['borderRadius', 'borderWidth'],
+	sizing: ['sizing'],
+};
+
+const AXIS_TOKEN_FAMILIES: Record<ModeAxisFamily, Array<TokenValue['family']>> = {
+	colors: ['color'],
+	spacing: ['spacing'],
+	gap: ['gap'],
+	typography: ['typography'],
+	border: ['borderRadius', 'borderWidth'],
+	sizing: ['sizing'],
 };
 
 function tokenValues(
 	tokens: Record<string, TokenValue>,
-	category: TokenCategory
+	category: TokenCategory | ((token: TokenValue) => boolean)
 ): Record<string, string> {
 	return Object.fromEntries(
 		Object.values(tokens)
-			.filter((token) => FAMILY_CATEGORIES[token.family] === category)
+			.filter((token) =>
+				typeof category === 'function'
+					? category(token)
+					: FAMILY_CATEGORIES[token.family] === category
+			)
 			.sort((left, right) => left.name.localeCompare(right.name))
 			.map((token) => [token.name, token.value])
 	);
@@ -77,6 +117,7 @@ function sourceModes(
 	if (system.border?.width) {
 		sources.push({ system: 'borderWidth', modes: system.border.width.modes });
 	}
+	if (system.sizing) sources.push({ system: 'sizing', modes: system.sizing.modes });
 	return sources;
 }
 
@@ -93,13 +134,13 @@ function timeScaleTokenValues(
 }
 
 function entrySource(
-	system: PartialDesignSystem,
-	category: ModeCategory,
+	sources: Array<{ system: string; modes: SourceMode[] }>,
+	category: string,
 	modeName: string
 ): { metadata?: unknown; systems: Record<string, unknown> } {
 	let metadata: unknown;
 	const systems: Record<string, unknown> = {};
-	for (const source of sourceModes(system, category)) {
+	for (const source of sources) {
 		const mode = source.modes.find((candidate) => candidate.name === modeName);
 		if (!mode) continue;
 		systems[source.system] = mode.tokens;
@@ -130,7 +171,7 @@ export function projectSystemContract(system: PartialDesignSystem, ir: IR): Proj
 							name,
 							{
 								isDefault: name === info.default,
-								...entrySource(system, category, name),
+								...entrySource(sourceModes(system, category), category, name),
 								resolvedTokens: tokenValues(
 									name === info.default ? ir.tokens : (ir.overrideTokens[name] ?? {}),
 									category
@@ -142,6 +183,41 @@ export function projectSystemContract(system: PartialDesignSystem, ir: IR): Proj
 			];
 		})
 	);
+	const axes = ir.modes.axes
+		? Object.fromEntries(
+				Object.entries(ir.modes.axes).map(([axisName, info]) => {
+					const systems = new Set(info.families.flatMap((family) => AXIS_SOURCE_SYSTEMS[family]));
+					const families = new Set(info.families.flatMap((family) => AXIS_TOKEN_FAMILIES[family]));
+					const sources = [...sourceModes(system, 'color'), ...sourceModes(system, 'size')].filter(
+						(source) => systems.has(source.system)
+					);
+					const names = [info.default, ...info.overrides];
+					return [
+						axisName,
+						{
+							default: info.default,
+							selector: info.selector,
+							families: info.families,
+							entries: Object.fromEntries(
+								names.map((name) => [
+									name,
+									{
+										isDefault: name === info.default,
+										...(name === info.default
+											? { systems: {} }
+											: entrySource(sources, axisName, name)),
+										resolvedTokens: tokenValues(
+											name === info.default ? ir.tokens : (ir.overrideTokens[name] ?? {}),
+											(token) => families.has(token.family)
+										),
+									},
+								])
+							),
+						},
+					];
+				})
+			)
+		: undefined;
 	const scales = {
 		time: {
 			default: ir.scales.time.default,
@@ -163,8 +239,12 @@ export function projectSystemContract(system: PartialDesignSystem, ir: IR): Proj
 		schemaVersion: 2,
 		modes: modes as ProjectSystemContract['modes'],
 		scales,
+		...(axes ? { axes } : {}),
 		...(ir.motion ? { motion: ir.motion } : {}),
 		...(ir.shadows ? { shadows: ir.shadows } : {}),
+		...(ir.focusRings ? { focusRings: ir.focusRings } : {}),
+		...(ir.gradients ? { gradients: ir.gradients } : {}),
+		...(ir.semanticColors ? { semanticColors: ir.semanticColors } : {}),
 	} as const;
 }
 
@@ -178,6 +258,10 @@ export function generateProjectSystemTypescript(system: PartialDesignSystem, ir:
 		'export type TfsColorMode = keyof typeof tfsSystem.modes.color.entries;',
 		'export type TfsSizeMode = keyof typeof tfsSystem.modes.size.entries;',
 		'export type TfsTimeScale = keyof typeof tfsSystem.scales.time.entries;',
+		...(contract.axes ? ['export type TfsModeAxis = keyof typeof tfsSystem.axes;'] : []),
+		...(contract.semanticColors
+			? ['export type TfsSemanticColor = keyof typeof tfsSystem.semanticColors;']
+			: []),
 		'',
 	].join('\n');
 }
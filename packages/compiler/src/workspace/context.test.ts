@@ -54,9 +54,13 @@ describe('workspacePlanContext', () => {
 
 		expect(context).toEqual({
 			hasColors: true,
+			hasLuminancePolicy: true,
 			hasRuntimeColorPolicy: true,
 			hasTypography: false,
 			hasShadows: true,
+			hasBreakpoints: false,
+			hasLayers: false,
+			hasFocusRings: false,
 			hasFonts: false,
 		});
 	});
@@ -77,6 +81,7 @@ describe('workspacePlanContext', () => {
 		);
 
 		expect(context.hasColors).toBe(true);
+		expect(context.hasLuminancePolicy).toBe(true);
 		expect(context.hasRuntimeColorPolicy).toBe(false);
 	});
 
@@ -9,11 +9,15 @@ export function workspacePlanContext<const Fonts extends Record<string, ProjectF
 	const typography = project.system.typography;
 	return {
 		hasColors: Boolean(project.system.colors),
+		hasLuminancePolicy: Boolean(project.system.colors?.luminance),
 		hasRuntimeColorPolicy: Boolean(
 			project.system.colors?.luminance && project.system.colors.runtimeThemes
 		),
 		hasTypography: Boolean(typography?.roles && Object.keys(typography.roles).length > 0),
 		hasShadows: Boolean(project.system.shadows),
+		hasBreakpoints: Boolean(project.system.breakpoints),
+		hasLayers: Boolean(project.system.layers),
+		hasFocusRings: Boolean(project.system.border?.focusRings),
 		hasFonts: Object.keys(project.fonts ?? {}).length > 0,
 		...overrides,
 	};
@@ -6,6 +6,8 @@ import {
 } from '@three-forma-styli/core';
 import {
 	nativeColorModesContract,
+	renderBreakpointsContract,
+	renderLayersContract,
 	renderNativeColorModesContract,
 	renderRuntimeColorThemeContract,
 	renderSystemContract,
@@ -129,6 +131,7 @@ describe('workspace runtime contracts', () => {
 					},
 					{
 						name: 'warm',
+						extends: 'light',
 						tokens: {
 							brand: { mode: 'oklch', l: 0.8, c: 0.15, h: 70 },
 							accent: { mode: 'oklch', l: 0.75, c: 0.1, h: 110 },
@@ -143,6 +146,9 @@ describe('workspace runtime contracts', () => {
 		expect(contract.colorNames).toEqual(['neutral', 'brand', 'accent']);
 		expect(contract.alphaSchedule).toEqual({ min: 0.1, max: 0.9 });
 		expect(contract.modes.map((mode) => mode.name)).toEqual(['dark', 'light', 'warm']);
+		expect(contract.switching).toBe('attribute');
+		expect(nativeColorModesContract(system, 'light-dark').switching).toBe('color-scheme');
+		expect(contract.modes.map((mode) => mode.extends)).toEqual([null, 'dark', 'light']);
 		expect(contract.modes[0]!.metadata).toBeNull();
 		expect(contract.modes[0]!.source.colors.neutral).toEqual({ l: 0.2, c: 0, h: 0 });
 		expect(contract.modes[1]!.source.colors).toEqual({ neutral: { l: 0.95, c: 0, h: 0 } });
@@ -226,6 +232,10 @@ describe('workspace runtime contracts', () => {
 			prefixes: { color: 'palette' },
 			colorFormat: { alphaModifier: 'opacity' },
 		});
+		expect(runtimeColorThemeContract(system, generator, 'relative').colorFormat).toEqual({
+			alphaModifier: 'opacity',
+			alphaVariants: 'relative',
+		});
 
 		const rendered = renderRuntimeColorThemeContract(system, generator);
 		expect(rendered.javascript).toContain('export const runtimeColorThemeConfig');
@@ -234,4 +244,34 @@ describe('workspace runtime contracts', () => {
 		expect(rendered.declaration).toContain('export type RuntimeColorName =');
 		expect(rendered.declaration).toContain('export type RuntimeColorThemeInput =');
 	});
+
+	it('types viewport and container breakpoints by name, narrowest first', () => {
+		const system: PartialDesignSystem = {
+			breakpoints: { viewport: { lg: 1024, md: 768 }, container: { card: 320 } },
+		};
+		const rendered = renderBreakpointsContract(generate(system));
+		expect(rendered.javascript).toContain('export const breakpoints');
+		expect(rendered.javascript.indexOf('"md"')).toBeLessThan(rendered.javascript.indexOf('"lg"'));
+		expect(rendered.declaration).toContain('readonly customMedia: "--bp-md";');
+		expect(rendered.declaration).toContain('readonly query: "(width >= 320px)";');
+		expect(rendered.declaration).toContain(
+			'export type ViewportBreakpoint = keyof typeof breakpoints.viewport;'
+		);
+		expect(rendered.declaration).toContain(
+			'export type ContainerBreakpoint = keyof typeof breakpoints.container;'
+		);
+	});
+
+	it('types stacking layers in declared order', () => {
+		const rendered = renderLayersContract(
+			generate({ layers: { order: ['base', 'dropdown', { name: 'modal', value: 100 }] } })
+		);
+		expect(rendered.declaration).toContain(
+			'readonly order: readonly [\n\t\t"base",\n\t\t"dropdown",\n\t\t"modal"\n\t];'
+		);
+		expect(rendered.declaration).toContain('readonly token: "z-modal";');
+		expect(rendered.declaration).toContain(
+			'export type StackingLayer = (typeof layers.order)[number];'
+		);
+	});
 });
@@ -1,4 +1,10 @@
-import type { GeneratorConfig, IR, PartialDesignSystem } from '@three-forma-styli/core';
+import type {
+	CssAlphaVariantStrategy,
+	CssColorModeStrategy,
+	GeneratorConfig,
+	IR,
+	PartialDesignSystem,
+} from '@three-forma-styli/core';
 import {
 	typographyClassResolverDeclaration,
 	typographyClassResolverJavascript,
@@ -105,6 +111,7 @@ export function renderSystemContract(system: PartialDesignSystem, ir: IR) {
 		'export type TfsColorMode = keyof typeof tfsSystem.modes.color.entries;',
 		'export type TfsSizeMode = keyof typeof tfsSystem.modes.size.entries;',
 		'export type TfsTimeScale = keyof typeof tfsSystem.scales.time.entries;',
+		...(legacy.axes ? ['export type TfsModeAxis = keyof typeof tfsSystem.axes;'] : []),
 	]);
 }
 
@@ -122,6 +129,21 @@ export function renderTypographyContract(ir: IR) {
 	};
 }
 
+export function renderBreakpointsContract(ir: IR) {
+	if (!ir.breakpoints) throw new Error('A breakpoint system is required.');
+	return renderLiteralModule('breakpoints', ir.breakpoints, [
+		'export type ViewportBreakpoint = keyof typeof breakpoints.viewport;',
+		'export type ContainerBreakpoint = keyof typeof breakpoints.container;',
+	]);
+}
+
+export function renderLayersContract(ir: IR) {
+	if (!ir.layers) throw new Error('A layer system is required.');
+	return renderLiteralModule('layers', ir.layers, [
+		'export type StackingLayer = (typeof layers.order)[number];',
+	]);
+}
+
 function normalizedColor(color: unknown): { l: number; c: number; h: number } {
 	if (!color || typeof color !== 'object') throw new Error('Color tokens must be OKLCH objects.');
 	const candidate = color as { l?: unknown; c?: unknown; h?: unknown };
@@ -143,8 +165,15 @@ function normalizedColor(color: unknown): { l: number; c: number; h: number } {
 	};
 }
 
-/** Compact author-facing mode data: complete default palette, named authored patches. */
-export function nativeColorModesContract(system: PartialDesignSystem) {
+/**
+ * Compact author-facing mode data: complete default palette, named authored
+ * patches, and the mode each patch applies over. `switching` records whether
+ * the emitted CSS selects a mode by attribute or by `color-scheme`.
+ */
+export function nativeColorModesContract(
+	system: PartialDesignSystem,
+	colorModes: CssColorModeStrategy = 'selectors'
+) {
 	if (!system.colors) throw new Error('A color system is required for native color modes.');
 	const defaultMode = system.colors.modes.find((mode) => mode.isDefault) ?? system.colors.modes[0];
 	if (!defaultMode) throw new Error('Native color modes require one default color mode.');
@@ -153,11 +182,13 @@ export function nativeColorModesContract(system: PartialDesignSystem) {
 	return {
 		schemaVersion: 1,
 		defaultMode: defaultMode.name,
+		switching: colorModes === 'light-dark' ? 'color-scheme' : 'attribute',
 		colorNames,
 		alphaSchedule: defaultMode.alphaSchedule ?? system.colors.alphaSchedule ?? null,
 		modes: ordered.map((mode) => ({
 			name: mode.name,
 			isDefault: mode === defaultMode,
+			extends: mode === defaultMode ? null : (!mode.isDefault && mode.extends) || defaultMode.name,
 			metadata: mode.metadata ?? null,
 			source: {
 				colors: Object.fromEntries(
@@ -169,10 +200,13 @@ export function nativeColorModesContract(system: PartialDesignSystem) {
 	} as const;
 }
 
-export function renderNativeColorModesContract(system: PartialDesignSystem) {
+export function renderNativeColorModesContract(
+	system: PartialDesignSystem,
+	colorModes?: CssColorModeStrategy
+) {
 	return renderLiteralModule(
 		'nativeColorModes',
-		nativeColorModesContract(system),
+		nativeColorModesContract(system, colorModes),
 		['export type NativeColorMode = typeof nativeColorModes.modes[number]["name"];'],
 		{
 			widenNumber: (path) => {
@@ -188,7 +222,11 @@ export function renderNativeColorModesContract(system: PartialDesignSystem) {
 }
 
 /** Strict runtime-theme policy derived from the same authored color system and generator config. */
-export function runtimeColorThemeContract(system: PartialDesignSystem, generator: GeneratorConfig) {
+export function runtimeColorThemeContract(
+	system: PartialDesignSystem,
+	generator: GeneratorConfig,
+	alphaVariants: CssAlphaVariantStrategy = 'literal'
+) {
 	if (!system.colors?.luminance || !system.colors.runtimeThemes) {
 		throw new Error(
 			'colors.luminance and colors.runtimeThemes are required for runtime color themes.'
@@ -203,17 +241,21 @@ export function runtimeColorThemeContract(system: PartialDesignSystem, generator
 		...(alphaSchedule ? { alphaSchedule } : {}),
 		luminance: system.colors.luminance,
 		prefixes: { color: generator.prefixes.color },
-		colorFormat: { alphaModifier: generator.colorFormat.alphaModifier },
+		colorFormat: {
+			alphaModifier: generator.colorFormat.alphaModifier,
+			...(alphaVariants === 'relative' ? { alphaVariants } : {}),
+		},
 	} as const;
 }
 
 export function renderRuntimeColorThemeContract(
 	system: PartialDesignSystem,
-	generator: GeneratorConfig
+	generator: GeneratorConfig,
+	alphaVariants?: CssAlphaVariantStrategy
 ) {
 	return renderLiteralModule(
 		'runtimeColorThemeConfig',
-		runtimeColorThemeContract(system, generator),
+		runtimeColorThemeContract(system, generator, alphaVariants),
 		[
 			'export type RuntimeColorName = typeof runtimeColorThemeConfig.colorNames[number];',
 			'export type RuntimeColorThemeInput = {',
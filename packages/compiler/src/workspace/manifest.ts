@@ -94,6 +94,9 @@ export async function createWorkspaceManifest(
 			runtime: {
 				entrypoints,
 				fontUrls: render.preparedFonts ? plan.runtimeFontUrls : undefined,
+				alphaVariants: render.alphaVariantSizes
+					? { strategy: 'relative', file: plan.css.files.tokens, ...render.alphaVariantSizes }
+					: undefined,
 			},
 			review:
 				plan.review.workbench || plan.review.specimen || plan.review.shadowSpecimen
@@ -101,6 +104,9 @@ export async function createWorkspaceManifest(
 							entrypoint: plan.review.workbench ? 'review/index.html' : undefined,
 							contract: plan.review.workbench ? 'review/workbench.json' : undefined,
 							captures: plan.review.workbench ? 'review/captures.json' : undefined,
+							contrastMatrix: plan.review.contrastMatrix
+								? 'review/contrast-matrix.json'
+								: undefined,
 							legacy:
 								plan.review.specimen || plan.review.shadowSpecimen
 									? {
@@ -18,9 +18,13 @@ export interface WorkspaceArtifact {
 
 export interface WorkspacePlanContext {
 	hasColors: boolean;
+	hasLuminancePolicy?: boolean;
 	hasRuntimeColorPolicy?: boolean;
 	hasTypography: boolean;
 	hasShadows: boolean;
+	hasBreakpoints?: boolean;
+	hasLayers?: boolean;
+	hasFocusRings?: boolean;
 	hasFonts: boolean;
 }
 
@@ -39,10 +43,14 @@ export interface WorkspacePlan {
 			shadows: string;
 			shadowModule: string;
 			shadowModuleTypes: string;
+			focusRings: string;
 		};
 		entry: boolean;
 		tokens: boolean;
 		tokenSelectors?: import('@three-forma-styli/core').CssTransformerConfig['selectors'];
+		tokenColorModes: import('@three-forma-styli/core').CssColorModeStrategy;
+		tokenAlphaVariants: import('@three-forma-styli/core').CssAlphaVariantStrategy;
+		tokenNestedRadii: import('@three-forma-styli/core').CssNestedRadiusStrategy;
 		typography: boolean;
 		typographyClassPrefix?: string;
 		typographySpecificity: 'class' | 'zero';
@@ -51,6 +59,9 @@ export interface WorkspacePlan {
 		shadowClassPrefix?: string;
 		shadowSpecificity: 'class' | 'zero';
 		shadowModule: boolean;
+		focusRings: boolean;
+		focusRingClassPrefix?: string;
+		focusRingSpecificity: 'class' | 'zero';
 		separateFonts: boolean;
 	};
 	contracts: {
@@ -58,10 +69,14 @@ export interface WorkspacePlan {
 		typography: boolean;
 		nativeColorModes: boolean;
 		runtimeColorTheme: boolean;
+		breakpoints: boolean;
+		layers: boolean;
 	};
 	review: {
 		workbench: boolean;
 		workbenchTitle?: string;
+		/** Pairwise color contrast report; follows the workbench when a luminance policy exists. */
+		contrastMatrix: boolean;
 		specimen: boolean;
 		title?: string;
 		interactive?: boolean;
@@ -138,6 +153,7 @@ function runtimeCssFiles(fileStem: string | undefined): WorkspacePlan['css']['fi
 		shadows: facet('shadows'),
 		shadowModule,
 		shadowModuleTypes: `${shadowModule}.d.ts`,
+		focusRings: facet('focus-rings'),
 	};
 }
 
@@ -185,6 +201,9 @@ export function planWorkspacePackage(
 	const shadowModuleRequested = Boolean(
 		css && css.shadowModule !== undefined ? css.shadowModule : allCss && context.hasShadows
 	);
+	const focusRingsRequested = Boolean(
+		css && css.focusRings !== undefined ? css.focusRings : allCss && context.hasFocusRings
+	);
 	if (css && css.typography && !context.hasTypography) {
 		throw new Error('runtime.css.typography requires semantic typography roles.');
 	}
@@ -197,11 +216,15 @@ export function planWorkspacePackage(
 	if (css && css.shadowModule && !context.hasShadows) {
 		throw new Error('runtime.css.shadowModule requires shadow recipes.');
 	}
+	if (css && css.focusRings && !context.hasFocusRings) {
+		throw new Error('runtime.css.focusRings requires focus-ring recipes.');
+	}
 	const tokensRequested = Boolean(css && css.tokens !== undefined ? css.tokens : allCss);
 	const entryRequested = Boolean(css && css.entry !== undefined ? css.entry : allCss);
 	const tokenConfig = css?.tokens && css.tokens !== true ? css.tokens : {};
 	const typographyConfig = css?.typography && css.typography !== true ? css.typography : {};
 	const shadowConfig = css?.shadows && css.shadows !== true ? css.shadows : {};
+	const focusRingConfig = css?.focusRings && css.focusRings !== true ? css.focusRings : {};
 	const cssFiles = runtimeCssFiles(css?.fileStem);
 	const runtimeFontUrls = css?.fontUrls ?? ({ mode: 'relative' } as const);
 	const separateFonts = context.hasFonts && moduleRequested && !typographyRequested;
@@ -224,6 +247,16 @@ export function planWorkspacePackage(
 			? contracts.runtimeColorTheme
 			: allContracts && context.hasRuntimeColorPolicy
 	);
+	const breakpointsContract = Boolean(
+		contracts && contracts.breakpoints !== undefined
+			? contracts.breakpoints
+			: allContracts && context.hasBreakpoints
+	);
+	const layersContract = Boolean(
+		contracts && contracts.layers !== undefined
+			? contracts.layers
+			: allContracts && context.hasLayers
+	);
 	if (contracts && contracts.typography && !context.hasTypography) {
 		throw new Error('runtime.contracts.typography requires semantic typography roles.');
 	}
@@ -235,12 +268,19 @@ export function planWorkspacePackage(
 			'runtime.contracts.runtimeColorTheme requires colors.luminance and colors.runtimeThemes.'
 		);
 	}
+	if (contracts && contracts.breakpoints && !context.hasBreakpoints) {
+		throw new Error('runtime.contracts.breakpoints requires a breakpoint system.');
+	}
+	if (contracts && contracts.layers && !context.hasLayers) {
+		throw new Error('runtime.contracts.layers requires a layer system.');
+	}
 
 	const reviewTarget = output.targets.review;
 	const review = reviewTarget === true ? { workbench: true } : reviewTarget || {};
 	const workbenchOption = review.workbench;
 	const workbench = Boolean(workbenchOption);
 	const workbenchConfig = workbenchOption && workbenchOption !== true ? workbenchOption : {};
+	const contrastMatrix = workbench && Boolean(context.hasLuminancePolicy);
 	const specimenOption = review.specimen;
 	const specimen = Boolean(specimenOption);
 	if (specimen && !context.hasTypography) {
@@ -321,12 +361,21 @@ export function planWorkspacePackage(
 			dependencies: [cssFiles.shadowModule],
 		});
 	}
+	if (focusRingsRequested) {
+		add(artifacts, {
+			path: cssFiles.focusRings,
+			kind: 'runtime-css',
+			target: 'runtime',
+			dependencies: tokensRequested ? [cssFiles.tokens] : [],
+		});
+	}
 	if (entryRequested) {
 		const dependencies = [
 			...(separateFonts ? [cssFiles.fonts] : []),
 			...(tokensRequested ? [cssFiles.tokens] : []),
 			...(typographyRequested ? [cssFiles.typography] : []),
 			...(shadowsRequested ? [cssFiles.shadows] : []),
+			...(focusRingsRequested ? [cssFiles.focusRings] : []),
 		];
 		if (dependencies.length === 0) {
 			throw new Error('runtime.css.entry requires at least one emitted stylesheet.');
@@ -344,6 +393,8 @@ export function planWorkspacePackage(
 		[typographyContract, 'typography'],
 		[nativeColorModes, 'native-color-modes'],
 		[runtimeColorTheme, 'runtime-color-theme'],
+		[breakpointsContract, 'breakpoints'],
+		[layersContract, 'layers'],
 	] as const) {
 		if (!enabled) continue;
 		add(artifacts, { path: `runtime/${name}.js`, kind: 'runtime-js', target: 'runtime' });
@@ -356,13 +407,20 @@ export function planWorkspacePackage(
 	}
 	if (
 		rootExport &&
-		(systemContract || typographyContract || nativeColorModes || runtimeColorTheme)
+		(systemContract ||
+			typographyContract ||
+			nativeColorModes ||
+			runtimeColorTheme ||
+			breakpointsContract ||
+			layersContract)
 	) {
 		const modules = [
 			...(systemContract ? ['system'] : []),
 			...(typographyContract ? ['typography'] : []),
 			...(nativeColorModes ? ['native-color-modes'] : []),
 			...(runtimeColorTheme ? ['runtime-color-theme'] : []),
+			...(breakpointsContract ? ['breakpoints'] : []),
+			...(layersContract ? ['layers'] : []),
 		];
 		add(artifacts, {
 			path: 'runtime/index.js',
@@ -396,6 +454,7 @@ export function planWorkspacePackage(
 			],
 			['review/captures.json', ['review/index.html', 'review/workbench.json']],
 			['review/system.css', []],
+			...(contrastMatrix ? [['review/contrast-matrix.json', []] as const] : []),
 		] as const) {
 			add(artifacts, {
 				path: file,
@@ -457,6 +516,9 @@ export function planWorkspacePackage(
 			entry: entryRequested,
 			tokens: tokensRequested,
 			tokenSelectors: tokenConfig.selectors,
+			tokenColorModes: tokenConfig.colorModes ?? 'selectors',
+			tokenAlphaVariants: tokenConfig.alphaVariants ?? 'literal',
+			tokenNestedRadii: tokenConfig.nestedRadii ?? 'resolved',
 			typography: typographyRequested,
 			typographyClassPrefix: typographyConfig.classPrefix,
 			typographySpecificity: typographyConfig.specificity ?? 'class',
@@ -465,6 +527,9 @@ export function planWorkspacePackage(
 			shadowClassPrefix: shadowConfig.classPrefix,
 			shadowSpecificity: shadowConfig.specificity ?? 'class',
 			shadowModule: shadowModuleRequested,
+			focusRings: focusRingsRequested,
+			focusRingClassPrefix: focusRingConfig.classPrefix,
+			focusRingSpecificity: focusRingConfig.specificity ?? 'class',
 			separateFonts,
 		},
 		contracts: {
@@ -472,10 +537,13 @@ export function planWorkspacePackage(
 			typography: typographyContract,
 			nativeColorModes,
 			runtimeColorTheme,
+			breakpoints: breakpointsContract,
+			layers: layersContract,
 		},
 		review: {
 			workbench,
 			workbenchTitle: workbenchConfig.title,
+			contrastMatrix,
 			specimen,
 			title: specimenConfig.title,
 			interactive: specimenConfig.interactive,
@@ -568,6 +636,12 @@ export function requiredPackageExports(
 			},
 		});
 	}
+	if (plan.css.focusRings) {
+		required.push({
+			subpath: './focus-rings.css',
+			target: packageTarget(generatedFromHost, plan.css.files.focusRings),
+		});
+	}
 	if (plan.css.separateFonts) {
 		required.push({
 			subpath: './fonts.css',
@@ -4,6 +4,7 @@ import { fileURLToPath } from 'node:url';
 import fs from 'fs-extra';
 import {
 	createWorkbenchContract,
+	createContrastMatrix,
 	createReviewCapturePlan,
 	fontFromManifest,
 	generate,
@@ -14,6 +15,7 @@ import {
 	toTypographyCss,
 	toTypographyCssModuleTypes,
 	toShadowCss,
+	toFocusRingCss,
 	toShadowCssModuleTypes,
 	toShadowSpecimen,
 	type IR,
@@ -21,6 +23,7 @@ import {
 	type TypographySystem,
 } from '@three-forma-styli/core';
 import { COMPILER_VERSION } from '../version.js';
+import { projectGamutOutputs } from '../gamut.js';
 import {
 	prepareFonts,
 	renderFontFaceCss,
@@ -39,6 +42,8 @@ import type {
 	WorkspacePackageOutput,
 } from '../project.js';
 import {
+	renderBreakpointsContract,
+	renderLayersContract,
 	renderNativeColorModesContract,
 	renderRuntimeColorThemeContract,
 	renderSystemContract,
@@ -56,6 +61,8 @@ export interface WorkspaceRenderResult {
 	ir: IR;
 	preparedFonts?: PrepareFontsResult;
 	adjustedFallbacks?: AdjustedFallbackBuildResult;
+	/** Token CSS bytes with relative alpha variants, beside the literal output they replace. */
+	alphaVariantSizes?: { bytes: number; literalBytes: number };
 }
 
 async function writeText(staging: string, relative: string, contents: string): Promise<void> {
@@ -188,11 +195,20 @@ export async function renderWorkspacePackage<const Fonts extends Record<string,
 	const { system, ir, preparedFonts, adjustedFallbacks } = result;
 
 	if (plan.css.tokens) {
-		await writeText(
-			staging,
-			plan.css.files.tokens,
-			generateCss(system, { ...project.generator, selectors: plan.css.tokenSelectors })
-		);
+		const cssOptions = {
+			...project.generator,
+			selectors: plan.css.tokenSelectors,
+			colorModes: plan.css.tokenColorModes,
+			nestedRadii: plan.css.tokenNestedRadii,
+		};
+		const css = generateCss(system, { ...cssOptions, alphaVariants: plan.css.tokenAlphaVariants });
+		await writeText(staging, plan.css.files.tokens, css);
+		if (plan.css.tokenAlphaVariants === 'relative') {
+			result.alphaVariantSizes = {
+				bytes: Buffer.byteLength(css),
+				literalBytes: Buffer.byteLength(generateCss(system, cssOptions)),
+			};
+		}
 	}
 
 	const runtimeFaceTarget = plan.css.typography
@@ -243,12 +259,23 @@ export async function renderWorkspacePackage<const Fonts extends Record<string,
 		await writeText(staging, plan.css.files.shadowModule, toShadowCss(ir, { scope: 'module' }));
 		await writeText(staging, plan.css.files.shadowModuleTypes, toShadowCssModuleTypes(ir));
 	}
+	if (plan.css.focusRings) {
+		await writeText(
+			staging,
+			plan.css.files.focusRings,
+			toFocusRingCss(ir, {
+				classPrefix: plan.css.focusRingClassPrefix,
+				specificity: plan.css.focusRingSpecificity,
+			})
+		);
+	}
 	if (plan.css.entry) {
 		const imports = [
 			...(plan.css.separateFonts ? [plan.css.files.fonts] : []),
 			...(plan.css.tokens ? [plan.css.files.tokens] : []),
 			...(plan.css.typography ? [plan.css.files.typography] : []),
 			...(plan.css.shadows ? [plan.css.files.shadows] : []),
+			...(plan.css.focusRings ? [plan.css.files.focusRings] : []),
 		];
 		await writeText(
 			staging,
@@ -271,14 +298,27 @@ export async function renderWorkspacePackage<const Fonts extends Record<string,
 		await writeContract('typography', renderTypographyContract(ir));
 	}
 	if (plan.contracts.nativeColorModes) {
-		await writeContract('native-color-modes', renderNativeColorModesContract(system));
+		await writeContract(
+			'native-color-modes',
+			renderNativeColorModesContract(system, plan.css.tokenColorModes)
+		);
 	}
 	if (plan.contracts.runtimeColorTheme) {
 		await writeContract(
 			'runtime-color-theme',
-			renderRuntimeColorThemeContract(system, resolveGeneratorConfig(project.generator))
+			renderRuntimeColorThemeContract(
+				system,
+				resolveGeneratorConfig(project.generator),
+				plan.css.tokenAlphaVariants
+			)
 		);
 	}
+	if (plan.contracts.breakpoints) {
+		await writeContract('breakpoints', renderBreakpointsContract(ir));
+	}
+	if (plan.contracts.layers) {
+		await writeContract('layers', renderLayersContract(ir));
+	}
 	if (modules.length > 0 && plan.host.rootExport) {
 		const js = modules
 			.map(
@@ -345,6 +385,7 @@ export async function renderWorkspacePackage<const Fonts extends Record<string,
 						])
 					)
 				: undefined,
+			gamutOutputs: projectGamutOutputs(project.generator, plan.design),
 		});
 		const captures = createReviewCapturePlan(contract);
 		await Promise.all([
@@ -354,6 +395,19 @@ export async function renderWorkspacePackage<const Fonts extends Record<string,
 			writeText(staging, 'review/system.css', systemCss),
 			writeText(staging, 'review/workbench.json', `${JSON.stringify(contract, null, 2)}\n`),
 			writeText(staging, 'review/captures.json', `${JSON.stringify(captures, null, 2)}\n`),
+			...(plan.review.contrastMatrix
+				? [
+						writeText(
+							staging,
+							'review/contrast-matrix.json',
+							`${JSON.stringify(
+								createContrastMatrix(system, ir, { systemFingerprint: fingerprint }),
+								null,
+								2
+							)}\n`
+						),
+					]
+				: []),
 		]);
 	}
 	if (plan.review.shadowSpecimen) {
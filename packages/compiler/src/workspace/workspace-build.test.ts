@@ -336,6 +336,53 @@ describe('workspace-package build', () => {
 		expect(dtcg.color).toHaveProperty('palette-pri-opacity-min');
 	});
 
+	it('emits a contrast matrix beside the workbench when a luminance policy exists', async () => {
+		const { directory, configPath } = await fixture();
+		const project = defineTfsProject({
+			system: {
+				colors: {
+					...colors(),
+					luminance: {
+						minimumLuminanceDelta: 0.2,
+						backgroundColors: ['pri'],
+						foregroundColors: ['ink'],
+					},
+				},
+				typography: defaultTypography,
+			},
+			output: {
+				layout: 'workspace-package',
+				directory: './generated',
+				targets: { runtime: true, review: true, design: true },
+			},
+		});
+		const result = await buildProject(project, configPath);
+		const generated = path.join(directory, 'generated');
+		const matrix = JSON.parse(
+			await fs.readFile(path.join(generated, 'review/contrast-matrix.json'), 'utf8')
+		);
+		const manifest = JSON.parse(
+			await fs.readFile(path.join(generated, 'build.manifest.json'), 'utf8')
+		);
+
+		expect(result.files).toContain('review/contrast-matrix.json');
+		expect(manifest.targets.review.contrastMatrix).toBe('review/contrast-matrix.json');
+		expect(matrix).toMatchObject({
+			kind: 'three-forma-styli/contrast-matrix',
+			schemaVersion: 1,
+			requirements: { minimumContrastRatio: 4.5 },
+		});
+		expect(
+			matrix.modes.map((mode: { mode: string; foregrounds: Array<{ token: string }> }) => [
+				mode.mode,
+				mode.foregrounds.map((foreground) => foreground.token),
+			])
+		).toEqual([
+			['night', ['clr-ink', 'clr-ink-a-min', 'clr-ink-a-max']],
+			['paper', ['clr-ink', 'clr-ink-a-min', 'clr-ink-a-max']],
+		]);
+	});
+
 	it('emits global and module shadow helpers as explicit package surfaces', async () => {
 		const manifest = hostManifest({
 			exports: {
@@ -405,6 +452,48 @@ describe('workspace-package build', () => {
 		).toContain('class="box-stage clipped"');
 	});
 
+	it('emits focus-ring helpers as an explicit package surface', async () => {
+		const manifest = hostManifest({
+			exports: {
+				'./styles.css': './generated/runtime/styles/index.css',
+				'./tokens.css': './generated/runtime/styles/tokens.css',
+				'./focus-rings.css': './generated/runtime/styles/focus-rings.css',
+				'./package.json': './package.json',
+			},
+		});
+		const { directory, configPath } = await fixture(manifest);
+		const project = defineTfsProject({
+			system: {
+				colors: colors(),
+				border: {
+					width: {
+						modes: [{ name: 'default', tokens: { unit: 'px', scale: { s: 1, focus: 2 } } }],
+					},
+					focusRings: {
+						default: { width: 'focus', color: { color: 'pri' }, offset: 2 },
+					},
+				},
+			},
+			output: {
+				layout: 'workspace-package',
+				directory: './generated',
+				targets: {
+					runtime: { css: { entry: true, tokens: true, focusRings: { specificity: 'zero' } } },
+				},
+			},
+		});
+		const result = await buildProject(project, configPath);
+		const styles = path.join(directory, 'generated/runtime/styles');
+
+		expect(result.files).toContain('runtime/styles/focus-rings.css');
+		expect(await fs.readFile(path.join(styles, 'focus-rings.css'), 'utf8')).toContain(
+			':where(.ring--default:focus-visible) {'
+		);
+		expect(await fs.readFile(path.join(styles, 'index.css'), 'utf8')).toContain(
+			'@import "./focus-rings.css";'
+		);
+	});
+
 	it('checks a package-shaped tree without replacing or repairing it', async () => {
 		const { directory, configPath, packagePath } = await fixture();
 		const project = fullProject();
@@ -538,6 +627,61 @@ describe('workspace-package build', () => {
 		);
 	});
 
+	it('emits light-dark() tokens and records color-scheme switching in the native contract', async () => {
+		const { configPath, directory } = await fixture();
+		const project = defineTfsProject({
+			system: { colors: colors(), typography: defaultTypography },
+			output: {
+				layout: 'workspace-package',
+				directory: './generated',
+				targets: {
+					runtime: { css: { tokens: { colorModes: 'light-dark' } }, contracts: {} },
+				},
+			},
+		});
+		await buildProject(project, configPath);
+		const generated = path.join(directory, 'generated/runtime');
+		const css = await fs.readFile(path.join(generated, 'styles/tokens.css'), 'utf8');
+		const native = await fs.readFile(path.join(generated, 'native-color-modes.js'), 'utf8');
+
+		expect(css).toContain('  color-scheme: dark;');
+		expect(css).toMatch(/--clr-ink: light-dark\(oklch\(0\.1000 [^)]*\), oklch\(0\.9500 [^)]*\)\);/);
+		expect(css).toContain('[data-color-mode="paper"] {\n  color-scheme: light;\n}');
+		expect(native).toContain('"switching": "color-scheme"');
+	});
+
+	it('derives alpha variants from base colors and records the size comparison', async () => {
+		const { configPath, directory } = await fixture();
+		const project = defineTfsProject({
+			system: { colors: colors(), typography: defaultTypography },
+			output: {
+				layout: 'workspace-package',
+				directory: './generated',
+				targets: {
+					runtime: { css: { tokens: { alphaVariants: 'relative' } }, contracts: {} },
+				},
+			},
+		});
+		await buildProject(project, configPath);
+		const generated = path.join(directory, 'generated');
+		const css = await fs.readFile(path.join(generated, 'runtime/styles/tokens.css'), 'utf8');
+		const manifest = JSON.parse(
+			await fs.readFile(path.join(generated, 'build.manifest.json'), 'utf8')
+		);
+
+		expect(css).toContain(
+			':root,\n[data-color-mode="paper"] {\n  --clr-pri-a-min: oklch(from var(--clr-pri) l c h / 0.1);'
+		);
+		// Paper's own alpha schedule still overrides the shared variants.
+		expect(css).toContain('  --clr-ink-a-min: oklch(from var(--clr-ink) l c h / 0.2);');
+		expect(manifest.targets.runtime.alphaVariants).toEqual({
+			strategy: 'relative',
+			file: 'runtime/styles/tokens.css',
+			bytes: Buffer.byteLength(css),
+			literalBytes: expect.any(Number),
+		});
+	});
+
 	it.each([
 		['module mode', { type: 'commonjs' }, 'must declare "type": "module"'],
 		[
@@ -3229,6 +3229,40 @@ function from_html(content, flags2) {
     return clone;
   };
 }
+// @__NO_SIDE_EFFECTS__
+function from_namespace(content, flags2, ns = "svg") {
+  var has_start = !content.startsWith("<!>");
+  var wrapped = `<${ns}>${has_start ? content : "<!>" + content}</${ns}>`;
+  var node;
+  return () => {
+    if (!node) {
+      var fragment = (
+        /** @type {DocumentFragment} */
+        create_fragment_from_html(wrapped)
+      );
+      var root2 = (
+        /** @type {Element} */
+        /* @__PURE__ */ get_first_child(fragment)
+      );
+      {
+        node = /** @type {Element} */
+        /* @__PURE__ */ get_first_child(root2);
+      }
+    }
+    var clone = (
+      /** @type {TemplateNode} */
+      node.cloneNode(true)
+    );
+    {
+      assign_nodes(clone, clone);
+    }
+    return clone;
+  };
+}
+// @__NO_SIDE_EFFECTS__
+function from_svg(content, flags2) {
+  return /* @__PURE__ */ from_namespace(content, flags2, "svg");
+}
 function comment() {
   var frag = document.createDocumentFragment();
   var start2 = document.createComment("");
@@ -4395,11 +4429,24 @@ function colorStyle(reviewCase, draft, alpha = 1) {
   const h = values.h ?? reviewCase.value.h;
   return `oklch(${l} ${c} ${h}${alpha === 1 ? "" : ` / ${alpha}`})`;
 }
-function canvasVariables(modeGroups, colorMode, sizeMode) {
-  var _a2, _b2;
+function mixStyle(reviewCase, draft, mix) {
+  return `color-mix(in oklch, ${colorStyle(reviewCase, draft)} ${mix.weight * 100}%, ${mix.surfaceCss})`;
+}
+function canvasVariables(modeGroups, colorMode, sizeMode, axisModes = {}, contrastPreference = "no-preference") {
+  var _a2, _b2, _c2;
+  const color = (_a2 = modeGroups.find((group) => group.category === "color")) == null ? void 0 : _a2.modes.find((mode) => mode.name === colorMode);
+  const axes = modeGroups.filter((group) => group.category === "axis").map((group) => group.modes.find((mode) => mode.name === axisModes[group.axis]));
   const selected = [
-    (_a2 = modeGroups.find((group) => group.category === "color")) == null ? void 0 : _a2.modes.find((mode) => mode.name === colorMode),
-    (_b2 = modeGroups.find((group) => group.category === "size")) == null ? void 0 : _b2.modes.find((mode) => mode.name === sizeMode)
+    color,
+    // A simulated contrast preference layers the color mode's refinement over it.
+    { tokens: (_b2 = color == null ? void 0 : color.preferences) == null ? void 0 : _b2[contrastPreference] },
+    (_c2 = modeGroups.find((group) => group.category === "size")) == null ? void 0 : _c2.modes.find((mode) => mode.name === sizeMode),
+    ...axes,
+    // Where the color mode is selected too, an axis mode's derived colors resolve over it.
+    ...axes.map((mode) => {
+      var _a3;
+      return { tokens: (_a3 = mode == null ? void 0 : mode.colorModes) == null ? void 0 : _a3[colorMode] };
+    })
   ];
   return selected.flatMap((mode) => Object.entries((mode == null ? void 0 : mode.tokens) ?? {})).map(([name, value]) => `${name}:${value}`).join(";");
 }
@@ -4459,13 +4506,38 @@ function shadowStyle(reviewCase, draft) {
   }).join(", ");
   return `${reviewCase.shadowKind === "box" ? "box-shadow" : "text-shadow"}:${css}`;
 }
-var root$7 = /* @__PURE__ */ from_html(`<div class="matrix-color"></div> <code> </code>`, 1);
-var root_1$6 = /* @__PURE__ */ from_html(`<span class="matrix-type">Sphinx of black quartz, judge my vow.</span> <code> </code>`, 1);
-var root_2$3 = /* @__PURE__ */ from_html(`<div class="matrix-shadow"><span>Aa</span></div> <code> </code>`, 1);
-var root_3$3 = /* @__PURE__ */ from_html(`<div class="matrix-motion"><span></span></div> <code> </code>`, 1);
-var root_4$2 = /* @__PURE__ */ from_html(`<div class="matrix-foundation"><strong> </strong> <span>generated tokens</span></div> <code> </code>`, 1);
-var root_5$2 = /* @__PURE__ */ from_html(`<button class="matrix-card"><header><strong> </strong> <code> </code></header> <!></button>`);
-var root_6$2 = /* @__PURE__ */ from_html(`<div></div>`);
+function focusRingStyle(reviewCase, draft) {
+  const controls = Object.fromEntries(
+    reviewCase.controls.map((control) => [control.id, controlValue(control, draft)])
+  );
+  const style = controls.style ?? reviewCase.style;
+  const offset = controls.offset ?? reviewCase.offset;
+  return [
+    `outline:var(--${reviewCase.width.token}) ${style} ${reviewCase.color.css}`,
+    `outline-offset:${offset}${reviewCase.unit}`
+  ].join(";");
+}
+function gradientStyle(reviewCase, draft, colors = reviewCase.stops.map((stop) => stop.color.css)) {
+  const controls = Object.fromEntries(
+    reviewCase.controls.map((control) => [control.id, controlValue(control, draft)])
+  );
+  const interpolation = controls.interpolation ?? reviewCase.interpolation;
+  const angle = controls.angle ?? reviewCase.angle;
+  const method = `in ${interpolation}${reviewCase.hue ? ` ${reviewCase.hue} hue` : ""}`;
+  const at = reviewCase.at ? `at ${reviewCase.at.x}% ${reviewCase.at.y}%` : "";
+  const prelude = reviewCase.gradientKind === "linear" ? `${angle}deg ${method}` : reviewCase.gradientKind === "radial" ? `${reviewCase.shape} ${at} ${method}` : `from ${angle}deg ${at} ${method}`;
+  const stops = reviewCase.stops.map((stop, index2) => `${colors[index2]} ${stop.position}%`);
+  return `background-image:${reviewCase.gradientKind}-gradient(${prelude}, ${stops.join(", ")})`;
+}
+var root$b = /* @__PURE__ */ from_html(`<div class="matrix-color"></div> <code> </code>`, 1);
+var root_1$a = /* @__PURE__ */ from_html(`<span class="matrix-type">Sphinx of black quartz, judge my vow.</span> <code> </code>`, 1);
+var root_2$7 = /* @__PURE__ */ from_html(`<div class="matrix-shadow"><span>Aa</span></div> <code> </code>`, 1);
+var root_3$6 = /* @__PURE__ */ from_html(`<div class="matrix-focus-ring"><span>Aa</span></div> <code> </code>`, 1);
+var root_4$4 = /* @__PURE__ */ from_html(`<div class="matrix-gradient"></div> <code> </code>`, 1);
+var root_5$4 = /* @__PURE__ */ from_html(`<div class="matrix-motion"><span></span></div> <code> </code>`, 1);
+var root_6$2 = /* @__PURE__ */ from_html(`<div class="matrix-foundation"><strong> </strong> <span>generated tokens</span></div> <code> </code>`, 1);
+var root_7$2 = /* @__PURE__ */ from_html(`<button class="matrix-card"><header><strong> </strong> <code> </code></header> <!></button>`);
+var root_8$2 = /* @__PURE__ */ from_html(`<div></div>`);
 function CaseMatrix($$anchor, $$props) {
   push($$props, true);
   let compact = prop($$props, "compact", 3, false);
@@ -4473,10 +4545,10 @@ function CaseMatrix($$anchor, $$props) {
     var _a2;
     return ((_a2 = $$props.cases[0]) == null ? void 0 : _a2.kind) ?? "empty";
   });
-  var div = root_6$2();
+  var div = root_8$2();
   let classes;
   each(div, 21, () => $$props.cases, index, ($$anchor2, reviewCase) => {
-    var button = root_5$2();
+    var button = root_7$2();
     var header = child(button);
     var strong = child(header);
     var text = child(strong);
@@ -4485,7 +4557,7 @@ function CaseMatrix($$anchor, $$props) {
     var node = sibling(header, 2);
     {
       var consequent = ($$anchor3) => {
-        var fragment = root$7();
+        var fragment = root$b();
         var div_1 = first_child(fragment);
         var code_1 = sibling(div_1, 2);
         var text_2 = child(code_1);
@@ -4502,7 +4574,7 @@ function CaseMatrix($$anchor, $$props) {
         append($$anchor3, fragment);
       };
       var consequent_1 = ($$anchor3) => {
-        var fragment_1 = root_1$6();
+        var fragment_1 = root_1$a();
         var span = first_child(fragment_1);
         var code_2 = sibling(span, 2);
         var text_3 = child(code_2);
@@ -4517,7 +4589,7 @@ function CaseMatrix($$anchor, $$props) {
         append($$anchor3, fragment_1);
       };
       var consequent_2 = ($$anchor3) => {
-        var fragment_2 = root_2$3();
+        var fragment_2 = root_2$7();
         var div_2 = first_child(fragment_2);
         var span_1 = child(div_2);
         var code_3 = sibling(div_2, 2);
@@ -4532,7 +4604,7 @@ function CaseMatrix($$anchor, $$props) {
         append($$anchor3, fragment_2);
       };
       var consequent_3 = ($$anchor3) => {
-        var fragment_3 = root_3$3();
+        var fragment_3 = root_3$6();
         var div_3 = first_child(fragment_3);
         var span_2 = child(div_3);
         var code_4 = sibling(div_3, 2);
@@ -4540,40 +4612,71 @@ function CaseMatrix($$anchor, $$props) {
         template_effect(
           ($0) => {
             set_style(span_2, $0);
-            set_text(text_5, `${get(reviewCase).duration.milliseconds ?? ""}ms · ${get(reviewCase).easing.name ?? ""}`);
+            set_text(text_5, get(reviewCase).css);
           },
-          [
-            () => `width:${Math.max(8, Math.min(100, get(reviewCase).duration.milliseconds / 4))}%`
-          ]
+          [() => focusRingStyle(get(reviewCase), $$props.draft)]
         );
         append($$anchor3, fragment_3);
       };
       var consequent_4 = ($$anchor3) => {
-        var fragment_4 = root_4$2();
+        var fragment_4 = root_4$4();
         var div_4 = first_child(fragment_4);
-        var strong_1 = child(div_4);
-        var text_6 = child(strong_1);
         var code_5 = sibling(div_4, 2);
-        var text_7 = child(code_5);
+        var text_6 = child(code_5);
+        template_effect(
+          ($0) => {
+            set_style(div_4, $0);
+            set_text(text_6, get(reviewCase).css);
+          },
+          [() => gradientStyle(get(reviewCase), $$props.draft)]
+        );
+        append($$anchor3, fragment_4);
+      };
+      var consequent_5 = ($$anchor3) => {
+        var fragment_5 = root_5$4();
+        var div_5 = first_child(fragment_5);
+        var span_3 = child(div_5);
+        var code_6 = sibling(div_5, 2);
+        var text_7 = child(code_6);
+        template_effect(
+          ($0) => {
+            set_style(span_3, $0);
+            set_text(text_7, `${get(reviewCase).duration.milliseconds ?? ""}ms · ${get(reviewCase).easing.name ?? ""}`);
+          },
+          [
+            () => `width:${Math.max(8, Math.min(100, get(reviewCase).duration.milliseconds / 4))}%`
+          ]
+        );
+        append($$anchor3, fragment_5);
+      };
+      var consequent_6 = ($$anchor3) => {
+        var fragment_6 = root_6$2();
+        var div_6 = first_child(fragment_6);
+        var strong_1 = child(div_6);
+        var text_8 = child(strong_1);
+        var code_7 = sibling(div_6, 2);
+        var text_9 = child(code_7);
         template_effect(
           ($0) => {
             var _a2;
-            set_text(text_6, get(reviewCase).tokens.length);
-            set_text(text_7, `${((_a2 = get(reviewCase).tokens[0]) == null ? void 0 : _a2.value) ?? ""} → ${$0 ?? ""}`);
+            set_text(text_8, get(reviewCase).tokens.length);
+            set_text(text_9, `${((_a2 = get(reviewCase).tokens[0]) == null ? void 0 : _a2.value) ?? ""} → ${$0 ?? ""}`);
           },
           [() => {
             var _a2;
             return (_a2 = get(reviewCase).tokens.at(-1)) == null ? void 0 : _a2.value;
           }]
         );
-        append($$anchor3, fragment_4);
+        append($$anchor3, fragment_6);
       };
       if_block(node, ($$render) => {
         if (get(reviewCase).kind === "color") $$render(consequent);
         else if (get(reviewCase).kind === "typography") $$render(consequent_1, 1);
         else if (get(reviewCase).kind === "shadow") $$render(consequent_2, 2);
-        else if (get(reviewCase).kind === "motion") $$render(consequent_3, 3);
-        else if (get(reviewCase).kind === "foundation") $$render(consequent_4, 4);
+        else if (get(reviewCase).kind === "focusRing") $$render(consequent_3, 3);
+        else if (get(reviewCase).kind === "gradient") $$render(consequent_4, 4);
+        else if (get(reviewCase).kind === "motion") $$render(consequent_5, 5);
+        else if (get(reviewCase).kind === "foundation") $$render(consequent_6, 6);
       });
     }
     template_effect(() => {
@@ -4591,11 +4694,94 @@ function CaseMatrix($$anchor, $$props) {
   pop();
 }
 delegate(["click"]);
-var root$6 = /* @__PURE__ */ from_html(`<article><div class="alpha-chip"></div> <strong> </strong> <small> </small> <code> </code></article>`);
-var root_1$5 = /* @__PURE__ */ from_html(`<div class="color-stage"><div class="color-hero"><div class="color-chip"><strong> </strong> <span> </span> <code> </code></div></div> <div class="alpha-ramp"></div></div>`);
+var root$a = /* @__PURE__ */ from_html(`<th scope="col"><code> </code></th>`);
+var root_1$9 = /* @__PURE__ */ from_html(`<span> </span>`);
+var root_2$6 = /* @__PURE__ */ from_html(`<code> </code>`);
+var root_3$5 = /* @__PURE__ */ from_html(`<td><div class="contrast-sample">Aa</div> <!></td>`);
+var root_4$3 = /* @__PURE__ */ from_html(`<tr><th scope="row"><code> </code> <!></th><!></tr>`);
+var root_5$3 = /* @__PURE__ */ from_html(`<div class="contrast-matrix" data-testid="contrast-matrix"><p> </p> <table><thead><tr><th scope="col">foreground</th><!></tr></thead><tbody></tbody></table></div>`);
+function ContrastMatrix($$anchor, $$props) {
+  push($$props, true);
+  function cell(foreground, background) {
+    return $$props.mode.cells.find((entry) => entry.foreground === foreground && entry.background === background);
+  }
+  var div = root_5$3();
+  var p = child(div);
+  var text = child(p);
+  var table = sibling(p, 2);
+  var thead = child(table);
+  var tr = child(thead);
+  var node = sibling(child(tr));
+  each(node, 17, () => $$props.mode.backgrounds, index, ($$anchor2, background) => {
+    var th = root$a();
+    var code = child(th);
+    var text_1 = child(code);
+    template_effect(() => set_text(text_1, `--${get(background).token ?? ""}`));
+    append($$anchor2, th);
+  });
+  var tbody = sibling(thead);
+  each(tbody, 21, () => $$props.mode.foregrounds, index, ($$anchor2, foreground) => {
+    var tr_1 = root_4$3();
+    var th_1 = child(tr_1);
+    var code_1 = child(th_1);
+    var text_2 = child(code_1);
+    var node_1 = sibling(code_1, 2);
+    {
+      var consequent = ($$anchor3) => {
+        var span = root_1$9();
+        var text_3 = child(span);
+        template_effect(() => set_text(text_3, get(foreground).level));
+        append($$anchor3, span);
+      };
+      if_block(node_1, ($$render) => {
+        if (get(foreground).level) $$render(consequent);
+      });
+    }
+    var node_2 = sibling(th_1);
+    each(node_2, 17, () => $$props.mode.backgrounds, index, ($$anchor3, background) => {
+      const measured = /* @__PURE__ */ user_derived(() => cell(get(foreground).token, get(background).token));
+      var td = root_3$5();
+      var div_1 = child(td);
+      var node_3 = sibling(div_1, 2);
+      {
+        var consequent_1 = ($$anchor4) => {
+          var code_2 = root_2$6();
+          var text_4 = child(code_2);
+          template_effect(($0, $1) => set_text(text_4, `${$0 ?? ""}:1 · Lc ${$1 ?? ""}`), [
+            () => get(measured).ratio.toFixed(2),
+            () => get(measured).lc.toFixed(1)
+          ]);
+          append($$anchor4, code_2);
+        };
+        if_block(node_3, ($$render) => {
+          if (get(measured)) $$render(consequent_1);
+        });
+      }
+      template_effect(() => {
+        var _a2;
+        set_attribute(td, "data-passes", (_a2 = get(measured)) == null ? void 0 : _a2.passes);
+        set_style(div_1, `background:var(--${get(background).token});color:var(--${get(foreground).token})`);
+      });
+      append($$anchor3, td);
+    });
+    template_effect(() => set_text(text_2, `--${get(foreground).token ?? ""}`));
+    append($$anchor2, tr_1);
+  });
+  template_effect(() => set_text(text, `baseline values · WCAG ${$$props.requirements.minimumContrastRatio ?? ""}:1${$$props.requirements.minimumLc === void 0 ? "" : ` · APCA Lc ${$$props.requirements.minimumLc}`}`));
+  append($$anchor, div);
+  pop();
+}
+var root$9 = /* @__PURE__ */ from_html(`<article><div class="alpha-chip"></div> <strong> </strong> <small> </small> <code> </code></article>`);
+var root_1$8 = /* @__PURE__ */ from_html(`<div class="alpha-ramp"></div>`);
+var root_2$5 = /* @__PURE__ */ from_html(`<div class="alpha-ramp semantic-aliases"></div>`);
+var root_3$4 = /* @__PURE__ */ from_html(`<div class="color-stage"><div class="color-hero"><div class="color-chip"><strong> </strong> <span> </span> <code> </code></div></div> <div class="alpha-ramp"></div> <!> <!></div>`);
 function ColorCase($$anchor, $$props) {
   push($$props, true);
-  var div = root_1$5();
+  function aliasAlpha(label) {
+    var _a2;
+    return (_a2 = $$props.reviewCase.alphaVariants.find((variant) => variant.label === label)) == null ? void 0 : _a2.alpha;
+  }
+  var div = root_3$4();
   var div_1 = child(div);
   var div_2 = child(div_1);
   var strong = child(div_2);
@@ -4606,7 +4792,7 @@ function ColorCase($$anchor, $$props) {
   var text_2 = child(code);
   var div_3 = sibling(div_1, 2);
   each(div_3, 21, () => $$props.reviewCase.alphaVariants, index, ($$anchor2, alpha) => {
-    var article = root$6();
+    var article = root$9();
     var div_4 = child(article);
     var strong_1 = sibling(div_4, 2);
     var text_3 = child(strong_1);
@@ -4628,6 +4814,71 @@ function ColorCase($$anchor, $$props) {
     );
     append($$anchor2, article);
   });
+  var node = sibling(div_3, 2);
+  {
+    var consequent = ($$anchor2) => {
+      var div_5 = root_1$8();
+      each(div_5, 21, () => $$props.reviewCase.mixVariants, index, ($$anchor3, mix) => {
+        var article_1 = root$9();
+        var div_6 = child(article_1);
+        var strong_2 = sibling(div_6, 2);
+        var text_6 = child(strong_2);
+        var small_1 = sibling(strong_2, 2);
+        var text_7 = child(small_1);
+        var code_2 = sibling(small_1, 2);
+        var text_8 = child(code_2);
+        template_effect(
+          ($0, $1) => {
+            set_style(div_6, $0);
+            set_text(text_6, get(mix).label);
+            set_text(text_7, `${$1 ?? ""}% / ${get(mix).surface ?? ""}`);
+            set_text(text_8, `--${get(mix).token ?? ""}`);
+          },
+          [
+            () => `--review-color:${mixStyle($$props.reviewCase, $$props.draft, get(mix))}`,
+            () => Math.round(get(mix).weight * 100)
+          ]
+        );
+        append($$anchor3, article_1);
+      });
+      append($$anchor2, div_5);
+    };
+    if_block(node, ($$render) => {
+      if ($$props.reviewCase.mixVariants.length > 0) $$render(consequent);
+    });
+  }
+  var node_1 = sibling(node, 2);
+  {
+    var consequent_1 = ($$anchor2) => {
+      var div_7 = root_2$5();
+      each(div_7, 21, () => $$props.reviewCase.semanticAliases, index, ($$anchor3, alias) => {
+        var article_2 = root$9();
+        var div_8 = child(article_2);
+        var strong_3 = sibling(div_8, 2);
+        var text_9 = child(strong_3);
+        var small_2 = sibling(strong_3, 2);
+        var text_10 = child(small_2);
+        var code_3 = sibling(small_2, 2);
+        var text_11 = child(code_3);
+        template_effect(
+          ($0) => {
+            set_style(div_8, $0);
+            set_text(text_9, get(alias).name);
+            set_text(text_10, get(alias).alpha ?? "base");
+            set_text(text_11, `--${get(alias).token ?? ""}`);
+          },
+          [
+            () => `--review-color:${colorStyle($$props.reviewCase, $$props.draft, aliasAlpha(get(alias).alpha))}`
+          ]
+        );
+        append($$anchor3, article_2);
+      });
+      append($$anchor2, div_7);
+    };
+    if_block(node_1, ($$render) => {
+      if ($$props.reviewCase.semanticAliases.length > 0) $$render(consequent_1);
+    });
+  }
   template_effect(
     ($0, $1) => {
       set_style(div_1, $0);
@@ -4643,6 +4894,35 @@ function ColorCase($$anchor, $$props) {
   append($$anchor, div);
   pop();
 }
+var root$8 = /* @__PURE__ */ from_svg(`<filter color-interpolation-filters="linearRGB"><feColorMatrix type="matrix"></feColorMatrix></filter>`);
+var root_1$7 = /* @__PURE__ */ from_svg(`<svg class="color-vision-filters" aria-hidden="true" focusable="false"><defs></defs></svg>`);
+function ColorVisionFilters($$anchor, $$props) {
+  push($$props, true);
+  function feMatrix({ matrix: m }) {
+    return [
+      [m[0], m[1], m[2], 0, 0],
+      [m[3], m[4], m[5], 0, 0],
+      [m[6], m[7], m[8], 0, 0],
+      [0, 0, 0, 1, 0]
+    ].map((row) => row.join(" ")).join(" ");
+  }
+  var svg = root_1$7();
+  var defs = child(svg);
+  each(defs, 21, () => $$props.simulations, index, ($$anchor2, simulation) => {
+    var filter = root$8();
+    var feColorMatrix = child(filter);
+    template_effect(
+      ($0) => {
+        set_attribute(filter, "id", `tfs-vision-${get(simulation).deficiency}`);
+        set_attribute(feColorMatrix, "values", $0);
+      },
+      [() => feMatrix(get(simulation))]
+    );
+    append($$anchor2, filter);
+  });
+  append($$anchor, svg);
+  pop();
+}
 function isObject(value) {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
 }
@@ -4750,18 +5030,133 @@ function downloadJson(name, value) {
   link2.click();
   URL.revokeObjectURL(url);
 }
-var root$5 = /* @__PURE__ */ from_html(`<article class="foundation-item"><div class="foundation-sample"></div> <strong> </strong> <code> </code></article>`);
-var root_1$4 = /* @__PURE__ */ from_html(`<div class="foundation-stage"></div>`);
+var root$7 = /* @__PURE__ */ from_html(`<div class="focus-ring-stage"><div class="focus-ring-pair"><span class="focus-ring-object">Button</span> <span class="focus-ring-object filled">Button</span></div> <pre> </pre> <p class="focus-ring-width">Width step <strong> </strong> <code> </code></p></div>`);
+function FocusRingCase($$anchor, $$props) {
+  push($$props, true);
+  var div = root$7();
+  var div_1 = child(div);
+  var span = child(div_1);
+  var span_1 = sibling(span, 2);
+  var pre = sibling(div_1, 2);
+  var text = child(pre);
+  var p = sibling(pre, 2);
+  var strong = sibling(child(p));
+  var text_1 = child(strong);
+  var code = sibling(strong, 2);
+  var text_2 = child(code);
+  template_effect(
+    ($0, $1, $2) => {
+      set_style(span, $0);
+      set_style(span_1, $1);
+      set_text(text, $2);
+      set_text(text_1, $$props.reviewCase.width.step);
+      set_text(text_2, `--${$$props.reviewCase.width.token ?? ""}: ${$$props.reviewCase.width.value ?? ""}${$$props.reviewCase.width.unit ?? ""}`);
+    },
+    [
+      () => focusRingStyle($$props.reviewCase, $$props.draft),
+      () => focusRingStyle($$props.reviewCase, $$props.draft),
+      () => focusRingStyle($$props.reviewCase, $$props.draft)
+    ]
+  );
+  append($$anchor, div);
+  pop();
+}
+var root$6 = /* @__PURE__ */ from_html(`<li><span> </span> <code> </code></li>`);
+var root_1$6 = /* @__PURE__ */ from_html(`<section class="gradient-mode"><header><strong> </strong> <small> </small></header> <div class="gradient-strip"></div> <ul></ul></section>`);
+var root_2$4 = /* @__PURE__ */ from_html(`<div class="gradient-stage"><div class="gradient-surface"></div> <pre> </pre> <div class="gradient-modes"></div></div>`);
+function GradientCase($$anchor, $$props) {
+  push($$props, true);
+  var div = root_2$4();
+  var div_1 = child(div);
+  var pre = sibling(div_1, 2);
+  var text = child(pre);
+  var div_2 = sibling(pre, 2);
+  each(div_2, 21, () => $$props.reviewCase.modes, index, ($$anchor2, mode) => {
+    var section = root_1$6();
+    var header = child(section);
+    var strong = child(header);
+    var text_1 = child(strong);
+    var small = sibling(strong, 2);
+    var text_2 = child(small);
+    var div_3 = sibling(header, 2);
+    var ul = sibling(div_3, 2);
+    each(ul, 21, () => get(mode).segments, index, ($$anchor3, segment) => {
+      var li = root$6();
+      var span = child(li);
+      var text_3 = child(span);
+      var code = sibling(span, 2);
+      var text_4 = child(code);
+      template_effect(() => {
+        set_attribute(li, "data-banded", get(segment).banded);
+        set_text(text_3, `stops ${get(segment).from + 1}–${get(segment).from + 2}`);
+        set_text(text_4, `${get(segment).levels ?? ""} levels · ~${get(segment).bandWidth ?? ""}px bands`);
+      });
+      append($$anchor3, li);
+    });
+    template_effect(
+      ($0) => {
+        set_text(text_1, get(mode).mode);
+        set_text(text_2, `banding across ${$$props.reviewCase.referenceWidth ?? ""}px`);
+        set_style(div_3, $0);
+      },
+      [
+        () => gradientStyle($$props.reviewCase, $$props.draft, get(mode).colors)
+      ]
+    );
+    append($$anchor2, section);
+  });
+  template_effect(
+    ($0, $1) => {
+      set_style(div_1, $0);
+      set_text(text, $1);
+    },
+    [
+      () => gradientStyle($$props.reviewCase, $$props.draft),
+      () => gradientStyle($$props.reviewCase, $$props.draft)
+    ]
+  );
+  append($$anchor, div);
+  pop();
+}
+var root$5 = /* @__PURE__ */ from_html(`<div><dt> </dt> <dd> </dd></div>`);
+var root_1$5 = /* @__PURE__ */ from_html(`<dl class="viewport-values" aria-label="Resolved at each viewport"></dl>`);
+var root_2$3 = /* @__PURE__ */ from_html(`<article class="foundation-item"><div class="foundation-sample"></div> <strong> </strong> <code> </code> <!></article>`);
+var root_3$3 = /* @__PURE__ */ from_html(`<div class="foundation-stage"></div>`);
 function FoundationCase($$anchor, $$props) {
   push($$props, true);
-  var div = root_1$4();
+  var div = root_3$3();
   each(div, 21, () => $$props.reviewCase.tokens, index, ($$anchor2, token) => {
-    var article = root$5();
+    var article = root_2$3();
     var div_1 = child(article);
     var strong = sibling(div_1, 2);
     var text = child(strong);
     var code = sibling(strong, 2);
     var text_1 = child(code);
+    var node = sibling(code, 2);
+    {
+      var consequent = ($$anchor3) => {
+        var dl = root_1$5();
+        each(dl, 21, () => Object.entries(get(token).viewportValues), index, ($$anchor4, $$item) => {
+          var $$array = /* @__PURE__ */ user_derived(() => to_array(get($$item), 2));
+          let viewport = () => get($$array)[0];
+          let value = () => get($$array)[1];
+          var div_2 = root$5();
+          var dt = child(div_2);
+          var text_2 = child(dt);
+          var dd = sibling(dt, 2);
+          var text_3 = child(dd);
+          template_effect(() => {
+            set_text(text_2, viewport());
+            set_text(text_3, value());
+          });
+          append($$anchor4, div_2);
+        });
+        append($$anchor3, dl);
+      };
+      if_block(node, ($$render) => {
+        if (get(token).viewportValues) $$render(consequent);
+      });
+    }
     template_effect(() => {
       set_attribute(div_1, "data-family", $$props.reviewCase.family);
       set_style(div_1, `--review-value:var(--${get(token).name});--review-raw:${get(token).rawValue ?? 0}`);
@@ -4774,7 +5169,7 @@ function FoundationCase($$anchor, $$props) {
   pop();
 }
 var root$4 = /* @__PURE__ */ from_html(`<div></div>`);
-var root_1$3 = /* @__PURE__ */ from_html(`<div class="motion-stage"><div class="motion-preference" aria-label="Motion preference"><button>standard</button> <button>reduced</button> <span> </span></div> <div class="motion-meta"><article><span>duration</span> <strong> </strong> <code> </code></article> <article><span>delay</span> <strong> </strong> <code> </code></article> <article><span>easing</span> <strong> </strong> <code> </code></article></div> <div class="motion-track"><!></div> <button class="motion-play">play once</button> <code class="motion-tuple"> </code></div>`);
+var root_1$4 = /* @__PURE__ */ from_html(`<div class="motion-stage"><div class="motion-preference" aria-label="Motion preference"><button>standard</button> <button>reduced</button> <span> </span></div> <div class="motion-meta"><article><span>duration</span> <strong> </strong> <code> </code></article> <article><span>delay</span> <strong> </strong> <code> </code></article> <article><span>easing</span> <strong> </strong> <code> </code></article></div> <div class="motion-track"><!></div> <button class="motion-play">play once</button> <code class="motion-tuple"> </code></div>`);
 function MotionCase($$anchor, $$props) {
   push($$props, true);
   let motionRun = /* @__PURE__ */ state(0);
@@ -4787,7 +5182,7 @@ function MotionCase($$anchor, $$props) {
     url.searchParams.set("motion", next ? "reduce" : "no-preference");
     history.replaceState(null, "", url);
   }
-  var div = root_1$3();
+  var div = root_1$4();
   var div_1 = child(div);
   var button = child(div_1);
   let classes;
@@ -4846,16 +5241,35 @@ function MotionCase($$anchor, $$props) {
   pop();
 }
 delegate(["click"]);
-var root$3 = /* @__PURE__ */ from_html(`<div class="shadow-stage"><div class="shadow-pair"><div class="shadow-object">Aa</div> <div class="clip-boundary"><div class="shadow-object">Aa</div></div></div> <pre> </pre></div>`);
+var root$3 = /* @__PURE__ */ from_html(`<p class="stacking-layer">Pairs with layer <strong> </strong> <code> </code></p>`);
+var root_1$3 = /* @__PURE__ */ from_html(`<div class="shadow-stage"><div class="shadow-pair"><div class="shadow-object">Aa</div> <div class="clip-boundary"><div class="shadow-object">Aa</div></div></div> <pre> </pre> <!></div>`);
 function ShadowCase($$anchor, $$props) {
   push($$props, true);
-  var div = root$3();
+  var div = root_1$3();
   var div_1 = child(div);
   var div_2 = child(div_1);
   var div_3 = sibling(div_2, 2);
   var div_4 = child(div_3);
   var pre = sibling(div_1, 2);
   var text = child(pre);
+  var node = sibling(pre, 2);
+  {
+    var consequent = ($$anchor2) => {
+      var p = root$3();
+      var strong = sibling(child(p));
+      var text_1 = child(strong);
+      var code = sibling(strong, 2);
+      var text_2 = child(code);
+      template_effect(() => {
+        set_text(text_1, $$props.reviewCase.stackingLayer.name);
+        set_text(text_2, `--${$$props.reviewCase.stackingLayer.token ?? ""}: ${$$props.reviewCase.stackingLayer.value ?? ""}`);
+      });
+      append($$anchor2, p);
+    };
+    if_block(node, ($$render) => {
+      if ($$props.reviewCase.stackingLayer) $$render(consequent);
+    });
+  }
   template_effect(
     ($0, $1, $2) => {
       set_style(div_2, $0);
@@ -4872,9 +5286,11 @@ function ShadowCase($$anchor, $$props) {
   pop();
 }
 var root$2 = /* @__PURE__ */ from_html(`<label><input type="checkbox"/> adjusted fallback</label> <output> </output>`, 1);
-var root_1$2 = /* @__PURE__ */ from_html(`<div class="metric-overlay" aria-hidden="true"><i class="metric-line" style="top:0"><span>line top</span></i> <i class="metric-line"><span>line bottom</span></i> <i class="metric-cap"><span>1cap</span></i> <i class="metric-ex"><span>1ex</span></i> <i class="metric-baseline"><span>baseline</span></i></div>`);
-var root_2$2 = /* @__PURE__ */ from_html(`<article><code> </code> <span>Aa 0123</span></article>`);
-var root_3$2 = /* @__PURE__ */ from_html(`<div><div class="type-tools"><label><input type="checkbox"/> metrics</label> <label><input type="checkbox"/> light surface</label> <label><input type="checkbox"/> WCAG spacing stress</label> <!></div> <div class="type-stage-body"><p class="eyebrow"> </p> <div><p class="type-short" contenteditable="true" aria-label="Editable typography sample" spellcheck="false">Sphinx of black quartz, judge my vow.</p> <span class="metric-probe">Hhx<span class="baseline-probe"></span><i class="cap-probe"></i><i class="ex-probe"></i></span> <!></div> <div class="type-columns"><div><span class="type-caption">narrow wrapping</span> <p>Typography becomes a system when every choice remains intentional under density, wrapping,
+var root_1$2 = /* @__PURE__ */ from_html(`<div><dt> </dt> <dd> </dd></div>`);
+var root_2$2 = /* @__PURE__ */ from_html(`<dl class="viewport-values" aria-label="Font size at each viewport"></dl>`);
+var root_3$2 = /* @__PURE__ */ from_html(`<div class="metric-overlay" aria-hidden="true"><i class="metric-line" style="top:0"><span>line top</span></i> <i class="metric-line"><span>line bottom</span></i> <i class="metric-cap"><span>1cap</span></i> <i class="metric-ex"><span>1ex</span></i> <i class="metric-baseline"><span>baseline</span></i></div>`);
+var root_4$2 = /* @__PURE__ */ from_html(`<article><code> </code> <span>Aa 0123</span></article>`);
+var root_5$2 = /* @__PURE__ */ from_html(`<div><div class="type-tools"><label><input type="checkbox"/> metrics</label> <label><input type="checkbox"/> light surface</label> <label><input type="checkbox"/> WCAG spacing stress</label> <!></div> <div class="type-stage-body"><p class="eyebrow"> </p> <!> <div><p class="type-short" contenteditable="true" aria-label="Editable typography sample" spellcheck="false">Sphinx of black quartz, judge my vow.</p> <span class="metric-probe">Hhx<span class="baseline-probe"></span><i class="cap-probe"></i><i class="ex-probe"></i></span> <!></div> <div class="type-columns"><div><span class="type-caption">narrow wrapping</span> <p>Typography becomes a system when every choice remains intentional under density, wrapping,
 					different surfaces, real content and imperfect loading conditions.</p></div> <div><span class="type-caption">glyph stress</span> <p class="glyph-stress">ABCDEFGHIJKLMNOPQRSTUVWXYZ · abcdefghijklmnopqrstuvwxyz · 0123456789 · $€£¥ ₿ ± × ÷ → ← ↑
 					↓ &#123; &#125; [ ] ( )</p></div></div> <div class="weight-matrix"></div></div></div>`);
 function TypographyCase($$anchor, $$props) {
@@ -5003,7 +5419,7 @@ function TypographyCase($$anchor, $$props) {
       true
     );
   }
-  var div = root_3$2();
+  var div = root_5$2();
   let classes;
   var div_1 = child(div);
   var label = child(div_1);
@@ -5031,9 +5447,34 @@ function TypographyCase($$anchor, $$props) {
   var div_2 = sibling(div_1, 2);
   var p = child(div_2);
   var text_2 = child(p);
-  var div_3 = sibling(p, 2);
+  var node_1 = sibling(p, 2);
+  {
+    var consequent_1 = ($$anchor2) => {
+      var dl = root_2$2();
+      each(dl, 21, () => Object.entries($$props.reviewCase.viewportFontSizes), index, ($$anchor3, $$item) => {
+        var $$array = /* @__PURE__ */ user_derived(() => to_array(get($$item), 2));
+        let viewport = () => get($$array)[0];
+        let value = () => get($$array)[1];
+        var div_3 = root_1$2();
+        var dt = child(div_3);
+        var text_3 = child(dt);
+        var dd = sibling(dt, 2);
+        var text_4 = child(dd);
+        template_effect(() => {
+          set_text(text_3, viewport());
+          set_text(text_4, value());
+        });
+        append($$anchor3, div_3);
+      });
+      append($$anchor2, dl);
+    };
+    if_block(node_1, ($$render) => {
+      if ($$props.reviewCase.viewportFontSizes) $$render(consequent_1);
+    });
+  }
+  var div_4 = sibling(node_1, 2);
   let classes_1;
-  var p_1 = child(div_3);
+  var p_1 = child(div_4);
   bind_this(p_1, ($$value) => set(typeSample, $$value), () => get(typeSample));
   var span = sibling(p_1, 2);
   var span_1 = sibling(child(span));
@@ -5043,11 +5484,11 @@ function TypographyCase($$anchor, $$props) {
   var i_1 = sibling(i);
   bind_this(i_1, ($$value) => set(exProbe, $$value), () => get(exProbe));
   bind_this(span, ($$value) => set(metricProbe, $$value), () => get(metricProbe));
-  var node_1 = sibling(span, 2);
+  var node_2 = sibling(span, 2);
   {
-    var consequent_1 = ($$anchor2) => {
-      var div_4 = root_1$2();
-      var i_2 = sibling(child(div_4), 2);
+    var consequent_2 = ($$anchor2) => {
+      var div_5 = root_3$2();
+      var i_2 = sibling(child(div_5), 2);
       var i_3 = sibling(i_2, 2);
       var i_4 = sibling(i_3, 2);
       var i_5 = sibling(i_4, 2);
@@ -5057,34 +5498,34 @@ function TypographyCase($$anchor, $$props) {
         set_style(i_4, `top:${get(metricGuides).ex}px`);
         set_style(i_5, `top:${get(metricGuides).baseline}px`);
       });
-      append($$anchor2, div_4);
+      append($$anchor2, div_5);
     };
-    if_block(node_1, ($$render) => {
-      if (get(lineDiagnostics)) $$render(consequent_1);
+    if_block(node_2, ($$render) => {
+      if (get(lineDiagnostics)) $$render(consequent_2);
     });
   }
-  var div_5 = sibling(div_3, 2);
-  var div_6 = child(div_5);
-  var p_2 = sibling(child(div_6), 2);
+  var div_6 = sibling(div_4, 2);
+  var div_7 = child(div_6);
+  var p_2 = sibling(child(div_7), 2);
   bind_this(p_2, ($$value) => set(wrapSample, $$value), () => get(wrapSample));
-  var div_7 = sibling(div_6, 2);
-  var p_3 = sibling(child(div_7), 2);
+  var div_8 = sibling(div_7, 2);
+  var p_3 = sibling(child(div_8), 2);
   bind_this(p_3, ($$value) => set(glyphSample, $$value), () => get(glyphSample));
-  var div_8 = sibling(div_5, 2);
-  each(div_8, 21, () => Object.entries($$props.reviewCase.styleWeights), index, ($$anchor2, $$item) => {
-    var $$array = /* @__PURE__ */ user_derived(() => to_array(get($$item), 2));
-    let style = () => get($$array)[0];
-    let weights = () => get($$array)[1];
+  var div_9 = sibling(div_6, 2);
+  each(div_9, 21, () => Object.entries($$props.reviewCase.styleWeights), index, ($$anchor2, $$item) => {
+    var $$array_1 = /* @__PURE__ */ user_derived(() => to_array(get($$item), 2));
+    let style = () => get($$array_1)[0];
+    let weights = () => get($$array_1)[1];
     var fragment_1 = comment();
-    var node_2 = first_child(fragment_1);
-    each(node_2, 17, weights, index, ($$anchor3, weight) => {
-      var article = root_2$2();
+    var node_3 = first_child(fragment_1);
+    each(node_3, 17, weights, index, ($$anchor3, weight) => {
+      var article = root_4$2();
       var code = child(article);
-      var text_3 = child(code);
+      var text_5 = child(code);
       var span_2 = sibling(code, 2);
       template_effect(
         ($0) => {
-          set_text(text_3, `${style() ?? ""} · ${get(weight).alias ?? ""} · ${get(weight).value ?? ""}`);
+          set_text(text_5, `${style() ?? ""} · ${get(weight).alias ?? ""} · ${get(weight).value ?? ""}`);
           set_style(span_2, $0);
         },
         [
@@ -5102,7 +5543,7 @@ function TypographyCase($$anchor, $$props) {
     ($0, $1, $2, $3) => {
       classes = set_class(div, 1, "typography-stage", null, classes, { "light-surface": get(lightSurface) });
       set_text(text_2, `${$$props.reviewCase.role ?? ""} · ${$$props.reviewCase.variant ?? "base" ?? ""}`);
-      classes_1 = set_class(div_3, 1, "metric-sample", null, classes_1, { diagnostics: get(lineDiagnostics) });
+      classes_1 = set_class(div_4, 1, "metric-sample", null, classes_1, { diagnostics: get(lineDiagnostics) });
       set_style(p_1, $0);
       set_style(span, $1);
       set_style(p_2, $2);
@@ -5174,8 +5615,28 @@ function CaseView($$anchor, $$props) {
       });
     };
     var consequent_3 = ($$anchor2) => {
-      var fragment_4 = comment();
-      var node_1 = first_child(fragment_4);
+      FocusRingCase($$anchor2, {
+        get reviewCase() {
+          return $$props.reviewCase;
+        },
+        get draft() {
+          return $$props.draft;
+        }
+      });
+    };
+    var consequent_4 = ($$anchor2) => {
+      GradientCase($$anchor2, {
+        get reviewCase() {
+          return $$props.reviewCase;
+        },
+        get draft() {
+          return $$props.draft;
+        }
+      });
+    };
+    var consequent_5 = ($$anchor2) => {
+      var fragment_6 = comment();
+      var node_1 = first_child(fragment_6);
       key(node_1, () => $$props.reviewCase.id, ($$anchor3) => {
         MotionCase($$anchor3, {
           get reviewCase() {
@@ -5183,9 +5644,9 @@ function CaseView($$anchor, $$props) {
           }
         });
       });
-      append($$anchor2, fragment_4);
+      append($$anchor2, fragment_6);
     };
-    var consequent_4 = ($$anchor2) => {
+    var consequent_6 = ($$anchor2) => {
       FoundationCase($$anchor2, {
         get reviewCase() {
           return $$props.reviewCase;
@@ -5193,12 +5654,14 @@ function CaseView($$anchor, $$props) {
       });
     };
     if_block(node, ($$render) => {
-      var _a2, _b2, _c2, _d, _e;
+      var _a2, _b2, _c2, _d, _e, _f, _g;
       if (((_a2 = $$props.reviewCase) == null ? void 0 : _a2.kind) === "color") $$render(consequent);
       else if (((_b2 = $$props.reviewCase) == null ? void 0 : _b2.kind) === "typography") $$render(consequent_1, 1);
       else if (((_c2 = $$props.reviewCase) == null ? void 0 : _c2.kind) === "shadow") $$render(consequent_2, 2);
-      else if (((_d = $$props.reviewCase) == null ? void 0 : _d.kind) === "motion") $$render(consequent_3, 3);
-      else if (((_e = $$props.reviewCase) == null ? void 0 : _e.kind) === "foundation") $$render(consequent_4, 4);
+      else if (((_d = $$props.reviewCase) == null ? void 0 : _d.kind) === "focusRing") $$render(consequent_3, 3);
+      else if (((_e = $$props.reviewCase) == null ? void 0 : _e.kind) === "gradient") $$render(consequent_4, 4);
+      else if (((_f = $$props.reviewCase) == null ? void 0 : _f.kind) === "motion") $$render(consequent_5, 5);
+      else if (((_g = $$props.reviewCase) == null ? void 0 : _g.kind) === "foundation") $$render(consequent_6, 6);
     });
   }
   append($$anchor, fragment);
@@ -5425,27 +5888,31 @@ delegate(["click", "input", "dblclick", "change"]);
 var root = /* @__PURE__ */ from_html(`<option> </option>`);
 var root_1 = /* @__PURE__ */ from_html(`<label><span>color</span> <select data-testid="color-mode" aria-label="color mode"></select></label>`);
 var root_2 = /* @__PURE__ */ from_html(`<label><span>size</span> <select data-testid="size-mode" aria-label="size mode"></select></label>`);
-var root_3 = /* @__PURE__ */ from_html(`<span class="action-status" aria-live="polite"> </span>`);
-var root_4 = /* @__PURE__ */ from_html(`<small> </small>`);
-var root_5 = /* @__PURE__ */ from_html(`<button><span> </span> <!></button>`);
-var root_6 = /* @__PURE__ */ from_html(`<label class="case-filter"><span class="sr-only"> </span> <input type="search" placeholder="filter cases"/></label>`);
-var root_7 = /* @__PURE__ */ from_html(`<button> </button>`);
-var root_8 = /* @__PURE__ */ from_html(`<p class="no-cases">No matching cases</p>`);
-var root_9 = /* @__PURE__ */ from_html(`<div class="case-list"><!> <!> <!></div>`);
-var root_10 = /* @__PURE__ */ from_html(`<div class="view-switch" aria-label="Canvas view"><button>matrix</button> <button>case</button> <button>compare</button></div>`);
-var root_11 = /* @__PURE__ */ from_html(`<code> </code>`);
-var root_12 = /* @__PURE__ */ from_html(`<div class="comparison" data-testid="baseline-draft-comparison"><section class="comparison-frame" data-state="baseline"><header><span>immutable source</span> <strong>baseline</strong></header> <div class="comparison-body"><!></div></section> <section class="comparison-frame" data-state="draft"><header><span>review overlay</span> <strong>draft</strong></header> <div class="comparison-body"><!></div></section></div>`);
-var root_13 = /* @__PURE__ */ from_html(`<article><span> </span><strong> </strong></article>`);
-var root_14 = /* @__PURE__ */ from_html(`<li><span> </span> <div><strong> </strong> <!></div></li>`);
-var root_15 = /* @__PURE__ */ from_html(`<section class="overview-diagnostics" aria-label="Build diagnostics"><header><div><span>build evidence</span> <strong>diagnostics</strong></div> <small> </small></header> <ul></ul></section>`);
-var root_16 = /* @__PURE__ */ from_html(`<section class="overview-section"><header><div><span>system domain</span> <strong> </strong></div> <button> </button></header> <!></section>`);
-var root_17 = /* @__PURE__ */ from_html(`<div class="system-overview"><div class="overview-grid"></div> <!> <!></div>`);
-var root_18 = /* @__PURE__ */ from_html(`<div class="workbench" data-testid="workbench"><header class="topbar"><div class="identity"><span class="mark">TFS</span> <div><strong> </strong> <small> </small></div></div> <div class="globals"><!> <!></div> <div class="actions"><button aria-label="Undo draft">↶</button> <button aria-label="Redo draft">↷</button> <span> </span> <input class="patch-input" type="file" accept="application/json,.json" aria-label="Import review patch" data-testid="patch-input"/> <button>import</button> <button>export</button> <button>copy agent handoff</button> <!></div></header> <aside class="navigation" aria-label="Workbench labs"><nav></nav> <!></aside> <main class="canvas-shell"><div class="canvas-header"><div><span> </span> <strong> </strong></div> <!> <!></div> <section data-testid="review-canvas"><!></section></main> <!></div>`);
+var root_3 = /* @__PURE__ */ from_html(`<label><span> </span> <select></select></label>`);
+var root_4 = /* @__PURE__ */ from_html(`<label><span>contrast</span> <select data-testid="contrast-preference" aria-label="contrast preference"><option>no preference</option><!></select></label>`);
+var root_5 = /* @__PURE__ */ from_html(`<label><span>vision</span> <select data-testid="vision-mode" aria-label="color vision"><option>typical</option><!></select></label>`);
+var root_6 = /* @__PURE__ */ from_html(`<span class="action-status" aria-live="polite"> </span>`);
+var root_7 = /* @__PURE__ */ from_html(`<small> </small>`);
+var root_8 = /* @__PURE__ */ from_html(`<button><span> </span> <!></button>`);
+var root_9 = /* @__PURE__ */ from_html(`<label class="case-filter"><span class="sr-only"> </span> <input type="search" placeholder="filter cases"/></label>`);
+var root_10 = /* @__PURE__ */ from_html(`<button> </button>`);
+var root_11 = /* @__PURE__ */ from_html(`<p class="no-cases">No matching cases</p>`);
+var root_12 = /* @__PURE__ */ from_html(`<div class="case-list"><!> <!> <!></div>`);
+var root_13 = /* @__PURE__ */ from_html(`<button>contrast</button>`);
+var root_14 = /* @__PURE__ */ from_html(`<div class="view-switch" aria-label="Canvas view"><button>matrix</button> <button>case</button> <button>compare</button> <!></div>`);
+var root_15 = /* @__PURE__ */ from_html(`<code> </code>`);
+var root_16 = /* @__PURE__ */ from_html(`<div class="comparison" data-testid="baseline-draft-comparison"><section class="comparison-frame" data-state="baseline"><header><span>immutable source</span> <strong>baseline</strong></header> <div class="comparison-body"><!></div></section> <section class="comparison-frame" data-state="draft"><header><span>review overlay</span> <strong>draft</strong></header> <div class="comparison-body"><!></div></section></div>`);
+var root_17 = /* @__PURE__ */ from_html(`<article><span> </span><strong> </strong></article>`);
+var root_18 = /* @__PURE__ */ from_html(`<li><span> </span> <div><strong> </strong> <!></div></li>`);
+var root_19 = /* @__PURE__ */ from_html(`<section class="overview-diagnostics" aria-label="Build diagnostics"><header><div><span>build evidence</span> <strong>diagnostics</strong></div> <small> </small></header> <ul></ul></section>`);
+var root_20 = /* @__PURE__ */ from_html(`<section class="overview-section"><header><div><span>system domain</span> <strong> </strong></div> <button> </button></header> <!></section>`);
+var root_21 = /* @__PURE__ */ from_html(`<div class="system-overview"><div class="overview-grid"></div> <!> <!></div>`);
+var root_22 = /* @__PURE__ */ from_html(`<div class="workbench" data-testid="workbench"><header class="topbar"><div class="identity"><span class="mark">TFS</span> <div><strong> </strong> <small> </small></div></div> <div class="globals"><!> <!> <!> <!> <!></div> <div class="actions"><button aria-label="Undo draft">↶</button> <button aria-label="Redo draft">↷</button> <span> </span> <input class="patch-input" type="file" accept="application/json,.json" aria-label="Import review patch" data-testid="patch-input"/> <button>import</button> <button>export</button> <button>copy agent handoff</button> <!></div></header> <aside class="navigation" aria-label="Workbench labs"><nav></nav> <!></aside> <main class="canvas-shell"><div class="canvas-header"><div><span> </span> <strong> </strong></div> <!> <!></div> <section data-testid="review-canvas"><!></section></main> <!> <!></div>`);
 function App($$anchor, $$props) {
   var _a2, _b2;
   push($$props, true);
   function contractControls(value) {
-    return value.labs.flatMap((lab) => lab.kind === "color" || lab.kind === "typography" || lab.kind === "shadows" || lab.kind === "motion" || lab.kind === "foundation" ? lab.cases.flatMap((reviewCase) => reviewCase.controls) : []);
+    return value.labs.flatMap((lab) => lab.kind === "color" || lab.kind === "typography" || lab.kind === "shadows" || lab.kind === "focusRings" || lab.kind === "gradients" || lab.kind === "motion" || lab.kind === "foundation" ? lab.cases.flatMap((reviewCase) => reviewCase.controls) : []);
   }
   function storedDraft(value) {
     const raw = localStorage.getItem(`tfs-workbench:${value.systemFingerprint}`);
@@ -5466,7 +5933,7 @@ function App($$anchor, $$props) {
   const initialContract = untrack(() => $$props.contract);
   const params = new URLSearchParams(location.search);
   const initialCaseId = params.get("case") ?? "";
-  const initialView = params.get("view") === "matrix" ? "matrix" : params.get("view") === "compare" ? "compare" : "case";
+  const initialView = params.get("view") === "matrix" ? "matrix" : params.get("view") === "compare" ? "compare" : params.get("view") === "contrast" ? "contrast" : "case";
   let draft = /* @__PURE__ */ state(proxy(storedDraft(initialContract)));
   let undo = /* @__PURE__ */ state(proxy([]));
   let redo = /* @__PURE__ */ state(proxy([]));
@@ -5476,12 +5943,18 @@ function App($$anchor, $$props) {
   let viewMode = /* @__PURE__ */ state(proxy(initialView));
   let colorMode = /* @__PURE__ */ state(proxy(params.get("color") ?? ((_a2 = initialContract.globals.modes.find((group) => group.category === "color")) == null ? void 0 : _a2.default) ?? ""));
   let sizeMode = /* @__PURE__ */ state(proxy(params.get("size") ?? ((_b2 = initialContract.globals.modes.find((group) => group.category === "size")) == null ? void 0 : _b2.default) ?? ""));
+  let axisModes = proxy(Object.fromEntries(initialContract.globals.modes.filter((group) => group.category === "axis").map((group) => [
+    group.axis,
+    params.get(`${group.axis}-mode`) ?? group.default
+  ])));
+  let contrastPreference = /* @__PURE__ */ state(proxy(params.get("contrast") ?? "no-preference"));
+  let vision = /* @__PURE__ */ state(proxy(params.get("vision") ?? "typical"));
   let handoffStatus = /* @__PURE__ */ state("");
   let patchInput = /* @__PURE__ */ state(void 0);
   let activeLab = /* @__PURE__ */ user_derived(() => $$props.contract.labs.find((lab) => lab.id === get(activeLabId)) ?? $$props.contract.labs[0]);
   let cases = /* @__PURE__ */ user_derived(() => {
-    var _a3, _b3, _c2, _d, _e;
-    return ((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) === "color" || ((_b3 = get(activeLab)) == null ? void 0 : _b3.kind) === "typography" || ((_c2 = get(activeLab)) == null ? void 0 : _c2.kind) === "shadows" || ((_d = get(activeLab)) == null ? void 0 : _d.kind) === "motion" || ((_e = get(activeLab)) == null ? void 0 : _e.kind) === "foundation" ? get(activeLab).cases : [];
+    var _a3, _b3, _c2, _d, _e, _f, _g;
+    return ((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) === "color" || ((_b3 = get(activeLab)) == null ? void 0 : _b3.kind) === "typography" || ((_c2 = get(activeLab)) == null ? void 0 : _c2.kind) === "shadows" || ((_d = get(activeLab)) == null ? void 0 : _d.kind) === "focusRings" || ((_e = get(activeLab)) == null ? void 0 : _e.kind) === "gradients" || ((_f = get(activeLab)) == null ? void 0 : _f.kind) === "motion" || ((_g = get(activeLab)) == null ? void 0 : _g.kind) === "foundation" ? get(activeLab).cases : [];
   });
   let activeCase = /* @__PURE__ */ user_derived(() => get(cases).find((reviewCase) => reviewCase.id === get(activeCaseId)) ?? get(cases)[0]);
   let visibleTypographyMode = /* @__PURE__ */ user_derived(() => {
@@ -5497,7 +5970,7 @@ function App($$anchor, $$props) {
   let baseValues = /* @__PURE__ */ user_derived(() => {
     const entries = [];
     for (const lab of $$props.contract.labs) {
-      if (lab.kind !== "color" && lab.kind !== "typography" && lab.kind !== "shadows" && lab.kind !== "motion" && lab.kind !== "foundation") continue;
+      if (lab.kind !== "color" && lab.kind !== "typography" && lab.kind !== "shadows" && lab.kind !== "focusRings" && lab.kind !== "gradients" && lab.kind !== "motion" && lab.kind !== "foundation") continue;
       for (const reviewCase of lab.cases) {
         for (const control of reviewCase.controls) entries.push([control.path, control.value]);
       }
@@ -5508,7 +5981,24 @@ function App($$anchor, $$props) {
   let modeGroups = /* @__PURE__ */ user_derived(() => $$props.contract.globals.modes);
   let colorGroup = /* @__PURE__ */ user_derived(() => get(modeGroups).find((entry) => entry.category === "color"));
   let sizeGroup = /* @__PURE__ */ user_derived(() => get(modeGroups).find((entry) => entry.category === "size"));
-  let canvasStyle = /* @__PURE__ */ user_derived(() => canvasVariables(get(modeGroups), get(colorMode), get(sizeMode)));
+  let axisGroups = /* @__PURE__ */ user_derived(() => get(modeGroups).filter((entry) => entry.category === "axis"));
+  let contrastPreferences = /* @__PURE__ */ user_derived(() => ["more", "forced"].filter((preference) => {
+    var _a3;
+    return (_a3 = get(colorGroup)) == null ? void 0 : _a3.modes.some((mode) => {
+      var _a4;
+      return (_a4 = mode.preferences) == null ? void 0 : _a4[preference];
+    });
+  }));
+  let visionSimulations = /* @__PURE__ */ user_derived(() => $$props.contract.labs.flatMap((lab) => lab.kind === "color" ? lab.colorVision : []));
+  let activeSimulation = /* @__PURE__ */ user_derived(() => get(visionSimulations).find((simulation) => simulation.deficiency === get(vision)));
+  let canvasStyle = /* @__PURE__ */ user_derived(() => [
+    canvasVariables(get(modeGroups), get(colorMode), get(sizeMode), axisModes, get(contrastPreference)),
+    get(activeSimulation) ? `filter:url(#tfs-vision-${get(activeSimulation).deficiency})` : ""
+  ].filter(Boolean).join(";"));
+  let contrastMode = /* @__PURE__ */ user_derived(() => {
+    var _a3, _b3;
+    return ((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) === "color" ? (_b3 = get(activeLab).contrast) == null ? void 0 : _b3.modes.find((mode) => mode.mode === get(colorMode)) : void 0;
+  });
   let activeCaseChanged = /* @__PURE__ */ user_derived(() => {
     var _a3;
     return Boolean((_a3 = get(activeCase)) == null ? void 0 : _a3.controls.some((control) => get(draft)[control.path] !== void 0));
@@ -5524,12 +6014,20 @@ function App($$anchor, $$props) {
     else next.searchParams.delete("case");
     if (get(colorMode)) next.searchParams.set("color", get(colorMode));
     if (get(sizeMode)) next.searchParams.set("size", get(sizeMode));
+    for (const [axis, mode] of Object.entries(axisModes)) next.searchParams.set(`${axis}-mode`, mode);
+    if (get(contrastPreference) !== "no-preference") next.searchParams.set("contrast", get(contrastPreference));
+    else next.searchParams.delete("contrast");
+    if (get(activeSimulation)) next.searchParams.set("vision", get(activeSimulation).deficiency);
+    else next.searchParams.delete("vision");
     next.searchParams.set("view", get(viewMode));
     history.replaceState(null, "", next);
   });
   user_effect(() => {
     if (get(viewMode) === "compare" && !get(activeCaseChanged)) set(viewMode, "case");
   });
+  user_effect(() => {
+    if (get(viewMode) === "contrast" && !get(contrastMode)) set(viewMode, "matrix");
+  });
   user_effect(() => {
     var _a3, _b3;
     if (((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) !== "color" || ((_b3 = get(activeCase)) == null ? void 0 : _b3.kind) !== "color") return;
@@ -5549,7 +6047,7 @@ function App($$anchor, $$props) {
     set(activeLabId, lab.id, true);
     set(caseQuery, "");
     set(viewMode, lab.kind === "overview" ? "case" : "matrix", true);
-    set(activeCaseId, lab.kind === "color" || lab.kind === "typography" || lab.kind === "shadows" || lab.kind === "motion" || lab.kind === "foundation" ? ((_a3 = lab.cases[0]) == null ? void 0 : _a3.id) ?? "" : "", true);
+    set(activeCaseId, lab.kind === "color" || lab.kind === "typography" || lab.kind === "shadows" || lab.kind === "focusRings" || lab.kind === "gradients" || lab.kind === "motion" || lab.kind === "foundation" ? ((_a3 = lab.cases[0]) == null ? void 0 : _a3.id) ?? "" : "", true);
     if (lab.kind === "color" && lab.cases[0]) set(colorMode, lab.cases[0].mode, true);
   }
   function selectCase(id) {
@@ -5706,7 +6204,7 @@ ${JSON.stringify(handoff, null, 2)}
       set(handoffStatus, "Clipboard unavailable; export the patch instead");
     }
   }
-  var div = root_18();
+  var div = root_22();
   event("keydown", $window, (event2) => {
     if (!(event2.metaKey || event2.ctrlKey)) return;
     if (event2.key.toLowerCase() === "z" && event2.shiftKey) {
@@ -5773,127 +6271,223 @@ ${JSON.stringify(handoff, null, 2)}
       if (get(sizeGroup)) $$render(consequent_1);
     });
   }
+  var node_2 = sibling(node_1, 2);
+  each(node_2, 17, () => get(axisGroups), index, ($$anchor2, group) => {
+    var label_3 = root_3();
+    var span = child(label_3);
+    var text_4 = child(span);
+    var select_2 = sibling(span, 2);
+    each(select_2, 21, () => get(group).modes, index, ($$anchor3, mode) => {
+      var option_2 = root();
+      var text_5 = child(option_2);
+      var option_2_value = {};
+      template_effect(() => {
+        set_text(text_5, get(mode).name);
+        if (option_2_value !== (option_2_value = get(mode).name)) {
+          option_2.value = (option_2.__value = get(mode).name) ?? "";
+        }
+      });
+      append($$anchor3, option_2);
+    });
+    template_effect(() => {
+      set_text(text_4, get(group).axis);
+      set_attribute(select_2, "data-testid", `${get(group).axis}-mode`);
+      set_attribute(select_2, "aria-label", `${get(group).axis} mode`);
+    });
+    bind_select_value(select_2, () => axisModes[get(group).axis], ($$value) => axisModes[get(group).axis] = $$value);
+    append($$anchor2, label_3);
+  });
+  var node_3 = sibling(node_2, 2);
+  {
+    var consequent_2 = ($$anchor2) => {
+      var label_4 = root_4();
+      var select_3 = sibling(child(label_4), 2);
+      var option_3 = child(select_3);
+      option_3.value = option_3.__value = "no-preference";
+      var node_4 = sibling(option_3);
+      each(node_4, 17, () => get(contrastPreferences), index, ($$anchor3, preference) => {
+        var option_4 = root();
+        var text_6 = child(option_4);
+        var option_4_value = {};
+        template_effect(() => {
+          set_text(text_6, get(preference));
+          if (option_4_value !== (option_4_value = get(preference))) {
+            option_4.value = (option_4.__value = get(preference)) ?? "";
+          }
+        });
+        append($$anchor3, option_4);
+      });
+      bind_select_value(select_3, () => get(contrastPreference), ($$value) => set(contrastPreference, $$value));
+      append($$anchor2, label_4);
+    };
+    if_block(node_3, ($$render) => {
+      if (get(contrastPreferences).length > 0) $$render(consequent_2);
+    });
+  }
+  var node_5 = sibling(node_3, 2);
+  {
+    var consequent_3 = ($$anchor2) => {
+      var label_5 = root_5();
+      var select_4 = sibling(child(label_5), 2);
+      var option_5 = child(select_4);
+      option_5.value = option_5.__value = "typical";
+      var node_6 = sibling(option_5);
+      each(node_6, 17, () => get(visionSimulations), index, ($$anchor3, simulation) => {
+        var option_6 = root();
+        var text_7 = child(option_6);
+        var option_6_value = {};
+        template_effect(() => {
+          set_text(text_7, get(simulation).deficiency);
+          if (option_6_value !== (option_6_value = get(simulation).deficiency)) {
+            option_6.value = (option_6.__value = get(simulation).deficiency) ?? "";
+          }
+        });
+        append($$anchor3, option_6);
+      });
+      bind_select_value(select_4, () => get(vision), ($$value) => set(vision, $$value));
+      append($$anchor2, label_5);
+    };
+    if_block(node_5, ($$render) => {
+      if (get(visionSimulations).length > 0) $$render(consequent_3);
+    });
+  }
   var div_4 = sibling(div_3, 2);
   var button = child(div_4);
   var button_1 = sibling(button, 2);
-  var span = sibling(button_1, 2);
+  var span_1 = sibling(button_1, 2);
   let classes;
-  var text_4 = child(span);
-  var input_1 = sibling(span, 2);
+  var text_8 = child(span_1);
+  var input_1 = sibling(span_1, 2);
   bind_this(input_1, ($$value) => set(patchInput, $$value), () => get(patchInput));
   var button_2 = sibling(input_1, 2);
   var button_3 = sibling(button_2, 2);
   var button_4 = sibling(button_3, 2);
-  var node_2 = sibling(button_4, 2);
+  var node_7 = sibling(button_4, 2);
   {
-    var consequent_2 = ($$anchor2) => {
-      var span_1 = root_3();
-      var text_5 = child(span_1);
-      template_effect(() => set_text(text_5, get(handoffStatus)));
-      append($$anchor2, span_1);
+    var consequent_4 = ($$anchor2) => {
+      var span_2 = root_6();
+      var text_9 = child(span_2);
+      template_effect(() => set_text(text_9, get(handoffStatus)));
+      append($$anchor2, span_2);
     };
-    if_block(node_2, ($$render) => {
-      if (get(handoffStatus)) $$render(consequent_2);
+    if_block(node_7, ($$render) => {
+      if (get(handoffStatus)) $$render(consequent_4);
     });
   }
   var aside = sibling(header, 2);
   var nav = child(aside);
   each(nav, 21, () => $$props.contract.labs, index, ($$anchor2, lab) => {
-    var button_5 = root_5();
+    var button_5 = root_8();
     let classes_1;
-    var span_2 = child(button_5);
-    var text_6 = child(span_2);
-    var node_3 = sibling(span_2, 2);
+    var span_3 = child(button_5);
+    var text_10 = child(span_3);
+    var node_8 = sibling(span_3, 2);
     {
-      var consequent_3 = ($$anchor3) => {
-        var small_1 = root_4();
-        var text_7 = child(small_1);
-        template_effect(() => set_text(text_7, get(lab).cases.length));
+      var consequent_5 = ($$anchor3) => {
+        var small_1 = root_7();
+        var text_11 = child(small_1);
+        template_effect(() => set_text(text_11, get(lab).cases.length));
         append($$anchor3, small_1);
       };
-      if_block(node_3, ($$render) => {
-        if (get(lab).kind === "color" || get(lab).kind === "typography" || get(lab).kind === "shadows" || get(lab).kind === "motion" || get(lab).kind === "foundation") $$render(consequent_3);
+      if_block(node_8, ($$render) => {
+        if (get(lab).kind === "color" || get(lab).kind === "typography" || get(lab).kind === "shadows" || get(lab).kind === "focusRings" || get(lab).kind === "gradients" || get(lab).kind === "motion" || get(lab).kind === "foundation") $$render(consequent_5);
       });
     }
     template_effect(() => {
       classes_1 = set_class(button_5, 1, "", null, classes_1, { active: get(lab).id === get(activeLabId) });
-      set_text(text_6, get(lab).label);
+      set_text(text_10, get(lab).label);
     });
     delegated("click", button_5, () => selectLab(get(lab)));
     append($$anchor2, button_5);
   });
-  var node_4 = sibling(nav, 2);
+  var node_9 = sibling(nav, 2);
   {
-    var consequent_6 = ($$anchor2) => {
-      var div_5 = root_9();
-      var node_5 = child(div_5);
+    var consequent_8 = ($$anchor2) => {
+      var div_5 = root_12();
+      var node_10 = child(div_5);
       {
-        var consequent_4 = ($$anchor3) => {
-          var label_3 = root_6();
-          var span_3 = child(label_3);
-          var text_8 = child(span_3);
-          var input_2 = sibling(span_3, 2);
+        var consequent_6 = ($$anchor3) => {
+          var label_6 = root_9();
+          var span_4 = child(label_6);
+          var text_12 = child(span_4);
+          var input_2 = sibling(span_4, 2);
           template_effect(() => {
             var _a3, _b3;
-            set_text(text_8, `Filter ${((_a3 = get(activeLab)) == null ? void 0 : _a3.label) ?? ""} cases`);
+            set_text(text_12, `Filter ${((_a3 = get(activeLab)) == null ? void 0 : _a3.label) ?? ""} cases`);
             set_attribute(input_2, "aria-label", `Filter ${(_b3 = get(activeLab)) == null ? void 0 : _b3.label} cases`);
           });
           bind_value(input_2, () => get(caseQuery), ($$value) => set(caseQuery, $$value));
-          append($$anchor3, label_3);
+          append($$anchor3, label_6);
         };
-        if_block(node_5, ($$render) => {
-          if (get(cases).length > 10) $$render(consequent_4);
+        if_block(node_10, ($$render) => {
+          if (get(cases).length > 10) $$render(consequent_6);
         });
       }
-      var node_6 = sibling(node_5, 2);
-      each(node_6, 17, () => get(visibleCases), index, ($$anchor3, reviewCase) => {
-        var button_6 = root_7();
+      var node_11 = sibling(node_10, 2);
+      each(node_11, 17, () => get(visibleCases), index, ($$anchor3, reviewCase) => {
+        var button_6 = root_10();
         let classes_2;
-        var text_9 = child(button_6);
+        var text_13 = child(button_6);
         template_effect(() => {
           var _a3;
           set_attribute(button_6, "title", get(reviewCase).label);
           classes_2 = set_class(button_6, 1, "", null, classes_2, {
             active: get(viewMode) !== "matrix" && get(reviewCase).id === ((_a3 = get(activeCase)) == null ? void 0 : _a3.id)
           });
-          set_text(text_9, get(reviewCase).label);
+          set_text(text_13, get(reviewCase).label);
         });
         delegated("click", button_6, () => selectCase(get(reviewCase).id));
         append($$anchor3, button_6);
       });
-      var node_7 = sibling(node_6, 2);
+      var node_12 = sibling(node_11, 2);
       {
-        var consequent_5 = ($$anchor3) => {
-          var p = root_8();
+        var consequent_7 = ($$anchor3) => {
+          var p = root_11();
           append($$anchor3, p);
         };
-        if_block(node_7, ($$render) => {
-          if (get(visibleCases).length === 0) $$render(consequent_5);
+        if_block(node_12, ($$render) => {
+          if (get(visibleCases).length === 0) $$render(consequent_7);
         });
       }
       append($$anchor2, div_5);
     };
-    if_block(node_4, ($$render) => {
-      if (get(cases).length > 0) $$render(consequent_6);
+    if_block(node_9, ($$render) => {
+      if (get(cases).length > 0) $$render(consequent_8);
     });
   }
   var main = sibling(aside, 2);
   var div_6 = child(main);
   var div_7 = child(div_6);
-  var span_4 = child(div_7);
-  var text_10 = child(span_4);
-  var strong_1 = sibling(span_4, 2);
-  var text_11 = child(strong_1);
-  var node_8 = sibling(div_7, 2);
+  var span_5 = child(div_7);
+  var text_14 = child(span_5);
+  var strong_1 = sibling(span_5, 2);
+  var text_15 = child(strong_1);
+  var node_13 = sibling(div_7, 2);
   {
-    var consequent_7 = ($$anchor2) => {
-      var div_8 = root_10();
+    var consequent_10 = ($$anchor2) => {
+      var div_8 = root_14();
       var button_7 = child(div_8);
       let classes_3;
       var button_8 = sibling(button_7, 2);
       let classes_4;
       var button_9 = sibling(button_8, 2);
       let classes_5;
+      var node_14 = sibling(button_9, 2);
+      {
+        var consequent_9 = ($$anchor3) => {
+          var button_10 = root_13();
+          let classes_6;
+          template_effect(() => {
+            button_10.disabled = !get(contrastMode);
+            classes_6 = set_class(button_10, 1, "", null, classes_6, { active: get(viewMode) === "contrast" });
+          });
+          delegated("click", button_10, () => set(viewMode, "contrast"));
+          append($$anchor3, button_10);
+        };
+        if_block(node_14, ($$render) => {
+          if (get(activeLab).kind === "color" && get(activeLab).contrast) $$render(consequent_9);
+        });
+      }
       template_effect(() => {
         classes_3 = set_class(button_7, 1, "", null, classes_3, { active: get(viewMode) === "matrix" });
         classes_4 = set_class(button_8, 1, "", null, classes_4, { active: get(viewMode) === "case" });
@@ -5905,28 +6499,28 @@ ${JSON.stringify(handoff, null, 2)}
       delegated("click", button_9, () => set(viewMode, "compare"));
       append($$anchor2, div_8);
     };
-    if_block(node_8, ($$render) => {
+    if_block(node_13, ($$render) => {
       var _a3;
-      if (((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) !== "overview") $$render(consequent_7);
+      if (((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) !== "overview") $$render(consequent_10);
     });
   }
-  var node_9 = sibling(node_8, 2);
+  var node_15 = sibling(node_13, 2);
   {
-    var consequent_8 = ($$anchor2) => {
-      var code = root_11();
-      var text_12 = child(code);
-      template_effect(() => set_text(text_12, get(activeCase).sourcePath));
+    var consequent_11 = ($$anchor2) => {
+      var code = root_15();
+      var text_16 = child(code);
+      template_effect(() => set_text(text_16, get(activeCase).sourcePath));
       append($$anchor2, code);
     };
-    if_block(node_9, ($$render) => {
-      if (get(activeCase) && get(viewMode) !== "matrix") $$render(consequent_8);
+    if_block(node_15, ($$render) => {
+      if (get(activeCase) && get(viewMode) !== "matrix" && get(viewMode) !== "contrast") $$render(consequent_11);
     });
   }
   var section = sibling(div_6, 2);
-  let classes_6;
-  var node_10 = child(section);
+  let classes_7;
+  var node_16 = child(section);
   {
-    var consequent_9 = ($$anchor2) => {
+    var consequent_12 = ($$anchor2) => {
       CaseMatrix($$anchor2, {
         get cases() {
           return get(visibleCases);
@@ -5937,12 +6531,22 @@ ${JSON.stringify(handoff, null, 2)}
         onselect: selectCase
       });
     };
-    var consequent_10 = ($$anchor2) => {
-      var div_9 = root_12();
+    var consequent_13 = ($$anchor2) => {
+      ContrastMatrix($$anchor2, {
+        get mode() {
+          return get(contrastMode);
+        },
+        get requirements() {
+          return get(activeLab).contrast.requirements;
+        }
+      });
+    };
+    var consequent_14 = ($$anchor2) => {
+      var div_9 = root_16();
       var section_1 = child(div_9);
       var div_10 = sibling(child(section_1), 2);
-      var node_11 = child(div_10);
-      CaseView(node_11, {
+      var node_17 = child(div_10);
+      CaseView(node_17, {
         get reviewCase() {
           return get(activeCase);
         },
@@ -5950,8 +6554,8 @@ ${JSON.stringify(handoff, null, 2)}
       });
       var section_2 = sibling(section_1, 2);
       var div_11 = sibling(child(section_2), 2);
-      var node_12 = child(div_11);
-      CaseView(node_12, {
+      var node_18 = child(div_11);
+      CaseView(node_18, {
         get reviewCase() {
           return get(activeCase);
         },
@@ -5961,81 +6565,81 @@ ${JSON.stringify(handoff, null, 2)}
       });
       append($$anchor2, div_9);
     };
-    var consequent_13 = ($$anchor2) => {
-      var div_12 = root_17();
+    var consequent_17 = ($$anchor2) => {
+      var div_12 = root_21();
       var div_13 = child(div_12);
       each(div_13, 21, () => Object.entries(get(activeLab).summary), index, ($$anchor3, $$item) => {
         var $$array = /* @__PURE__ */ user_derived(() => to_array(get($$item), 2));
         let label = () => get($$array)[0];
         let value = () => get($$array)[1];
-        var article = root_13();
-        var span_5 = child(article);
-        var text_13 = child(span_5);
-        var strong_2 = sibling(span_5);
-        var text_14 = child(strong_2);
+        var article = root_17();
+        var span_6 = child(article);
+        var text_17 = child(span_6);
+        var strong_2 = sibling(span_6);
+        var text_18 = child(strong_2);
         template_effect(
           ($0) => {
-            set_text(text_13, $0);
-            set_text(text_14, value());
+            set_text(text_17, $0);
+            set_text(text_18, value());
           },
           [() => readableIdentifier(label())]
         );
         append($$anchor3, article);
       });
-      var node_13 = sibling(div_13, 2);
+      var node_19 = sibling(div_13, 2);
       {
-        var consequent_12 = ($$anchor3) => {
-          var section_3 = root_15();
+        var consequent_16 = ($$anchor3) => {
+          var section_3 = root_19();
           var header_1 = child(section_3);
           var small_2 = sibling(child(header_1), 2);
-          var text_15 = child(small_2);
+          var text_19 = child(small_2);
           var ul = sibling(header_1, 2);
           each(ul, 21, () => $$props.contract.diagnostics, index, ($$anchor4, diagnostic) => {
-            var li = root_14();
-            var span_6 = child(li);
-            var text_16 = child(span_6);
-            var div_14 = sibling(span_6, 2);
+            var li = root_18();
+            var span_7 = child(li);
+            var text_20 = child(span_7);
+            var div_14 = sibling(span_7, 2);
             var strong_3 = child(div_14);
-            var text_17 = child(strong_3);
-            var node_14 = sibling(strong_3, 2);
+            var text_21 = child(strong_3);
+            var node_20 = sibling(strong_3, 2);
             {
-              var consequent_11 = ($$anchor5) => {
-                var code_1 = root_11();
-                var text_18 = child(code_1);
-                template_effect(() => set_text(text_18, get(diagnostic).path));
+              var consequent_15 = ($$anchor5) => {
+                var code_1 = root_15();
+                var text_22 = child(code_1);
+                template_effect(() => set_text(text_22, get(diagnostic).path));
                 append($$anchor5, code_1);
               };
-              if_block(node_14, ($$render) => {
-                if (get(diagnostic).path) $$render(consequent_11);
+              if_block(node_20, ($$render) => {
+                if (get(diagnostic).path) $$render(consequent_15);
               });
             }
             template_effect(() => {
               set_attribute(li, "data-severity", get(diagnostic).severity);
-              set_text(text_16, get(diagnostic).severity);
-              set_text(text_17, get(diagnostic).message);
+              set_text(text_20, get(diagnostic).severity);
+              set_text(text_21, get(diagnostic).message);
             });
             append($$anchor4, li);
           });
-          template_effect(() => set_text(text_15, $$props.contract.diagnostics.length));
+          template_effect(() => set_text(text_19, $$props.contract.diagnostics.length));
           append($$anchor3, section_3);
         };
-        if_block(node_13, ($$render) => {
-          if ($$props.contract.diagnostics.length > 0) $$render(consequent_12);
+        if_block(node_19, ($$render) => {
+          if ($$props.contract.diagnostics.length > 0) $$render(consequent_16);
         });
       }
-      var node_15 = sibling(node_13, 2);
-      each(node_15, 17, () => $$props.contract.labs.filter((lab) => lab.kind !== "overview"), index, ($$anchor3, lab) => {
-        var section_4 = root_16();
+      var node_21 = sibling(node_19, 2);
+      each(node_21, 17, () => $$props.contract.labs.filter((lab) => lab.kind !== "overview"), index, ($$anchor3, lab) => {
+        var section_4 = root_20();
         var header_2 = child(section_4);
         var div_15 = child(header_2);
         var strong_4 = sibling(child(div_15), 2);
-        var text_19 = child(strong_4);
-        var button_10 = sibling(div_15, 2);
-        var text_20 = child(button_10);
-        var node_16 = sibling(header_2, 2);
+        var text_23 = child(strong_4);
+        var button_11 = sibling(div_15, 2);
+        var text_24 = child(button_11);
+        var node_22 = sibling(header_2, 2);
         {
           let $0 = /* @__PURE__ */ user_derived(() => visibleLabCases(get(lab)));
-          CaseMatrix(node_16, {
+          CaseMatrix(node_22, {
             get cases() {
               return get($0);
             },
@@ -6048,12 +6652,12 @@ ${JSON.stringify(handoff, null, 2)}
         }
         template_effect(
           ($0) => {
-            set_text(text_19, get(lab).label);
-            set_text(text_20, `inspect all ${$0 ?? ""}`);
+            set_text(text_23, get(lab).label);
+            set_text(text_24, `inspect all ${$0 ?? ""}`);
           },
           [() => visibleLabCases(get(lab)).length]
         );
-        delegated("click", button_10, () => selectLab(get(lab)));
+        delegated("click", button_11, () => selectLab(get(lab)));
         append($$anchor3, section_4);
       });
       append($$anchor2, div_12);
@@ -6068,25 +6672,32 @@ ${JSON.stringify(handoff, null, 2)}
         }
       });
     };
-    if_block(node_10, ($$render) => {
-      var _a3, _b3;
-      if (get(viewMode) === "matrix" && ((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) !== "overview") $$render(consequent_9);
-      else if (get(viewMode) === "compare" && get(activeCase)) $$render(consequent_10, 1);
-      else if (((_b3 = get(activeLab)) == null ? void 0 : _b3.kind) === "overview") $$render(consequent_13, 2);
+    if_block(node_16, ($$render) => {
+      var _a3, _b3, _c2;
+      if (get(viewMode) === "matrix" && ((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) !== "overview") $$render(consequent_12);
+      else if (get(viewMode) === "contrast" && ((_b3 = get(activeLab)) == null ? void 0 : _b3.kind) === "color" && get(contrastMode)) $$render(consequent_13, 1);
+      else if (get(viewMode) === "compare" && get(activeCase)) $$render(consequent_14, 2);
+      else if (((_c2 = get(activeLab)) == null ? void 0 : _c2.kind) === "overview") $$render(consequent_17, 3);
       else $$render(alternate, -1);
     });
   }
-  var node_17 = sibling(main, 2);
+  var node_23 = sibling(main, 2);
+  ColorVisionFilters(node_23, {
+    get simulations() {
+      return get(visionSimulations);
+    }
+  });
+  var node_24 = sibling(node_23, 2);
   {
     let $0 = /* @__PURE__ */ user_derived(() => {
       var _a3;
-      return get(viewMode) === "matrix" && ((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) !== "overview";
+      return (get(viewMode) === "matrix" || get(viewMode) === "contrast") && ((_a3 = get(activeLab)) == null ? void 0 : _a3.kind) !== "overview";
     });
     let $1 = /* @__PURE__ */ user_derived(() => {
       var _a3;
       return (_a3 = get(activeLab)) == null ? void 0 : _a3.label;
     });
-    Inspector(node_17, {
+    Inspector(node_24, {
       get activeCase() {
         return get(activeCase);
       },
@@ -6113,23 +6724,24 @@ ${JSON.stringify(handoff, null, 2)}
   }
   template_effect(
     ($0) => {
-      var _a3, _b3, _c2, _d, _e;
+      var _a3, _b3, _c2, _d, _e, _f;
       set_text(text, $$props.contract.title);
       set_text(text_1, $0);
       button.disabled = get(undo).length === 0;
       button_1.disabled = get(redo).length === 0;
-      classes = set_class(span, 1, "", null, classes, { dirty: get(patch).operations.length > 0 });
-      set_text(text_4, `${get(patch).operations.length ?? ""} edits`);
+      classes = set_class(span_1, 1, "", null, classes, { dirty: get(patch).operations.length > 0 });
+      set_text(text_8, `${get(patch).operations.length ?? ""} edits`);
       button_3.disabled = get(patch).operations.length === 0;
       button_4.disabled = get(patch).operations.length === 0;
-      set_text(text_10, (_a3 = get(activeLab)) == null ? void 0 : _a3.label);
-      set_text(text_11, get(viewMode) === "matrix" && ((_b3 = get(activeLab)) == null ? void 0 : _b3.kind) !== "overview" ? `${get(visibleCases).length} cases` : ((_c2 = get(activeCase)) == null ? void 0 : _c2.label) ?? "system overview");
-      classes_6 = set_class(section, 1, "canvas", null, classes_6, {
-        "matrix-view": get(viewMode) === "matrix" && ((_d = get(activeLab)) == null ? void 0 : _d.kind) !== "overview",
+      set_text(text_14, (_a3 = get(activeLab)) == null ? void 0 : _a3.label);
+      set_text(text_15, get(viewMode) === "contrast" && get(contrastMode) ? `${get(contrastMode).cells.length} pairs` : get(viewMode) === "matrix" && ((_b3 = get(activeLab)) == null ? void 0 : _b3.kind) !== "overview" ? `${get(visibleCases).length} cases` : ((_c2 = get(activeCase)) == null ? void 0 : _c2.label) ?? "system overview");
+      classes_7 = set_class(section, 1, "canvas", null, classes_7, {
+        "matrix-view": (get(viewMode) === "matrix" || get(viewMode) === "contrast") && ((_d = get(activeLab)) == null ? void 0 : _d.kind) !== "overview",
         "overview-view": ((_e = get(activeLab)) == null ? void 0 : _e.kind) === "overview",
         "compare-view": get(viewMode) === "compare"
       });
       set_style(section, get(canvasStyle));
+      set_attribute(section, "data-vision", ((_f = get(activeSimulation)) == null ? void 0 : _f.deficiency) ?? "typical");
     },
     [() => $$props.contract.systemFingerprint.slice(0, 10)]
   );
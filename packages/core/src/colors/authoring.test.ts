@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { validateContrast } from '../constraints/contrast.js';
+import { generate } from '../generator/index.js';
+import type { ColorMode, LuminancePolicy } from '../types.js';
+import { deriveOppositeColorMode } from './authoring.js';
+
+const dark: ColorMode & { name: string } = {
+	name: 'dark',
+	isDefault: true,
+	colorScheme: 'dark',
+	metadata: { polarity: 'negative' },
+	tokens: {
+		bg: { mode: 'oklch', l: 0.15, c: 0.01, h: 260 },
+		ev: { mode: 'oklch', l: 0.2, c: 0.01, h: 260 },
+		ink: { mode: 'oklch', l: 0.9, c: 0.02, h: 260 },
+		pri: { mode: 'oklch', l: 0.7, c: 0.15, h: 250 },
+	},
+};
+
+const luminance: LuminancePolicy = {
+	minimumLuminanceDelta: 0.5,
+	backgroundColors: ['bg', 'ev'],
+	foregroundColors: ['ink', 'pri'],
+};
+
+describe('deriveOppositeColorMode', () => {
+	it('mirrors L and keeps hue and chroma when the source already satisfies the policy', () => {
+		const derived = deriveOppositeColorMode({ name: 'light', source: dark, luminance });
+
+		expect(derived.mode).toEqual({
+			name: 'light',
+			colorScheme: 'light',
+			metadata: { polarity: 'positive' },
+			tokens: {
+				bg: { mode: 'oklch', l: 0.85, c: 0.01, h: 260 },
+				ev: { mode: 'oklch', l: 0.8, c: 0.01, h: 260 },
+				ink: { mode: 'oklch', l: 0.1, c: 0.02, h: 260 },
+				pri: { mode: 'oklch', l: 0.3, c: 0.15, h: 250 },
+			},
+		});
+		expect(derived.remapped[0]).toEqual({ color: 'bg', group: 'background', from: 0.15, to: 0.85 });
+		expect(derived.luminance).toMatchObject({ deltaValid: true, actualDelta: 0.5 });
+		expect(() =>
+			generate({ colors: { alphaSchedule: { lo: 0.25 }, modes: [dark, derived.mode] } })
+		).not.toThrow();
+	});
+
+	it('closes a gap the source violates and widens it until contrast holds', () => {
+		const derived = deriveOppositeColorMode({
+			name: 'light',
+			source: {
+				...dark,
+				tokens: { ...dark.tokens, pri: { mode: 'oklch', l: 0.5, c: 0.15, h: 250 } },
+			},
+			luminance: { ...luminance, minimumLuminanceDelta: 0.2, contrast: { level: 'AAA' } },
+		});
+
+		expect(derived.luminance.deltaValid).toBe(true);
+		expect(derived.luminance.actualDelta).toBeGreaterThan(0.2);
+		expect(
+			validateContrast(derived.mode.tokens, {
+				minimumContrastRatio: 7,
+				backgroundColors: luminance.backgroundColors,
+				foregroundColors: luminance.foregroundColors,
+			}).ratioValid
+		).toBe(true);
+		const pri = derived.remapped.find((entry) => entry.color === 'pri');
+		expect(pri?.from).toBe(0.5);
+		expect(pri?.to).toBeLessThan(0.5);
+		expect(derived.mode.tokens.pri).toMatchObject({ c: 0.15, h: 250 });
+	});
+
+	it('rejects policies naming colors the source mode lacks', () => {
+		expect(() =>
+			deriveOppositeColorMode({
+				name: 'light',
+				source: dark,
+				luminance: { ...luminance, foregroundColors: ['accent'] },
+			})
+		).toThrowError('Color "accent" in luminance.foregroundColors is not in the source color mode.');
+	});
+});
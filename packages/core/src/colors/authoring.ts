@@ -0,0 +1,123 @@
+import { validateApca } from '../constraints/apca.js';
+import { validateContrast, wcagMinimumContrastRatio } from '../constraints/contrast.js';
+import { validateLuminance } from '../constraints/luminance.js';
+import { solveLuminance } from '../constraints/solve.js';
+import type { LuminancePolicy, LuminanceValidation } from '../constraints/types.js';
+import type { ColorMode, ColorScheme, ColorTokens, OverrideColorMode } from '../types.js';
+
+type Polarity = 'negative' | 'positive';
+
+export interface DeriveOppositeColorModeInput<Name extends string> {
+	/** Name of the derived override mode. */
+	name: Name;
+	/** Authored mode to mirror. Its `metadata.polarity` defaults to `negative`. */
+	source: ColorMode;
+	luminance: LuminancePolicy;
+}
+
+/** One color's L in the source mode and in the derived mode. */
+export interface DerivedColorLightness {
+	color: string;
+	/** Luminance group under the policy, or `null` for colors outside both groups. */
+	group: 'background' | 'foreground' | null;
+	from: number;
+	to: number;
+}
+
+export interface DerivedOppositeColorMode<Name extends string> {
+	mode: OverrideColorMode & { name: Name };
+	/** Every source color, in authored order. */
+	remapped: DerivedColorLightness[];
+	/** The policy measured against the derived mode. */
+	luminance: LuminanceValidation;
+}
+
+/** Each step widens the solved OKLCH-L gap until contrast and APCA requirements pass. */
+const separationStep = 0.01;
+
+function meetsReadability(tokens: ColorTokens, policy: LuminancePolicy): boolean {
+	const groups = {
+		backgroundColors: policy.backgroundColors,
+		foregroundColors: policy.foregroundColors,
+	};
+	if (
+		policy.contrast &&
+		!validateContrast(tokens, {
+			...groups,
+			minimumContrastRatio: wcagMinimumContrastRatio(policy.contrast),
+		}).ratioValid
+	) {
+		return false;
+	}
+	return !policy.apca || validateApca(tokens, { ...policy.apca, ...groups }).lcValid;
+}
+
+/**
+ * Derive the opposite-polarity override mode of an authored color mode.
+ *
+ * Every color's OKLCH L is mirrored (`1 - L`), which keeps the source's
+ * separation; hue and chroma never change. The luminance solver then closes any
+ * remaining gap, widening it further until the policy's optional contrast and
+ * APCA requirements also hold. The result always satisfies the whole policy, or
+ * the helper throws.
+ */
+export function deriveOppositeColorMode<const Name extends string>(
+	input: DeriveOppositeColorModeInput<Name>
+): DerivedOppositeColorMode<Name> {
+	const { source, luminance: policy } = input;
+	const polarity: Polarity = source.metadata?.polarity === 'positive' ? 'negative' : 'positive';
+	for (const key of ['backgroundColors', 'foregroundColors'] as const) {
+		for (const color of policy[key]) {
+			if (!source.tokens[color]) {
+				throw new Error(`Color "${color}" in luminance.${key} is not in the source color mode.`);
+			}
+		}
+	}
+
+	const tokens: ColorTokens = Object.fromEntries(
+		Object.entries(source.tokens).map(([name, color]) => [
+			name,
+			{ ...color, l: Number((1 - color.l).toFixed(4)) },
+		])
+	);
+	for (
+		let minimumLuminanceDelta = policy.minimumLuminanceDelta;
+		;
+		minimumLuminanceDelta += separationStep
+	) {
+		const solution =
+			minimumLuminanceDelta <= 1
+				? solveLuminance(tokens, { ...policy, minimumLuminanceDelta, polarity })
+				: undefined;
+		if (!solution?.solvable) {
+			throw new Error(
+				`Color mode "${input.name}" cannot satisfy the luminance policy at ${polarity} polarity.`
+			);
+		}
+		for (const adjustment of solution.adjustments) {
+			tokens[adjustment.color] = { ...tokens[adjustment.color]!, l: adjustment.to };
+		}
+		if (meetsReadability(tokens, policy)) break;
+	}
+
+	const scheme: ColorScheme = polarity === 'positive' ? 'light' : 'dark';
+	return {
+		mode: {
+			name: input.name,
+			...(source.colorScheme ? { colorScheme: scheme } : {}),
+			metadata: { polarity },
+			tokens,
+		},
+		remapped: Object.entries(source.tokens).map(([color, value]) => ({
+			color,
+			group: policy.backgroundColors.includes(color)
+				? 'background'
+				: policy.foregroundColors.includes(color)
+					? 'foreground'
+					: null,
+			from: value.l,
+			to: tokens[color]!.l,
+		})),
+		luminance: validateLuminance(tokens, { ...policy, polarity }),
+	};
+}
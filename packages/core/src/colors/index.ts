@@ -0,0 +1,6 @@
+export { deriveOppositeColorMode } from './authoring.js';
+export type {
+	DerivedColorLightness,
+	DerivedOppositeColorMode,
+	DeriveOppositeColorModeInput,
+} from './authoring.js';
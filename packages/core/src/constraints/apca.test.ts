@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { converter } from 'culori';
+import { apcaContrast, apcaScreenLuminance, validateApca } from './apca';
+import { oklch } from '../utils';
+
+const toOklch = converter('oklch');
+const hex = (value: string) => {
+	const { l, c, h } = toOklch(value)!;
+	return { l, c, h: h ?? 0 };
+};
+
+describe('apcaContrast', () => {
+	// Reference values published with APCA-W3 0.0.98G-4g.
+	it('matches the reference black/white and mid-grey values', () => {
+		expect(apcaContrast(hex('#000000'), hex('#ffffff'))).toBeCloseTo(106.04, 1);
+		expect(apcaContrast(hex('#ffffff'), hex('#000000'))).toBeCloseTo(-107.88, 1);
+		expect(apcaContrast(hex('#888888'), hex('#ffffff'))).toBeCloseTo(63.06, 1);
+		expect(apcaContrast(hex('#ffffff'), hex('#888888'))).toBeCloseTo(-68.54, 1);
+	});
+
+	it('is polarity-aware rather than symmetric', () => {
+		const dark = oklch(0.25, 0.02, 260);
+		const light = oklch(0.92, 0.02, 260);
+
+		expect(apcaContrast(dark, light)).toBeGreaterThan(0);
+		expect(apcaContrast(light, dark)).toBeLessThan(0);
+		expect(Math.abs(apcaContrast(dark, light))).not.toBeCloseTo(
+			Math.abs(apcaContrast(light, dark)),
+			1
+		);
+	});
+
+	it('clips near-identical colors to zero', () => {
+		expect(apcaContrast(oklch(0.5, 0, 0), oklch(0.52, 0, 0))).toBe(0);
+	});
+});
+
+describe('apcaScreenLuminance', () => {
+	it('soft-clamps near-black values above zero', () => {
+		expect(apcaScreenLuminance(oklch(0, 0, 0))).toBeGreaterThan(0);
+		expect(apcaScreenLuminance(oklch(1, 0, 0))).toBeCloseTo(1, 4);
+	});
+});
+
+describe('validateApca', () => {
+	const colors = {
+		bg: oklch(0.2, 0.01, 260),
+		ink: oklch(0.95, 0.02, 250),
+		muted: oklch(0.62, 0.02, 250),
+	};
+
+	it('reports signed Lc and TFS polarity per pair', () => {
+		const result = validateApca(colors, {
+			minimumLc: 60,
+			backgroundColors: ['bg'],
+			foregroundColors: ['ink', 'muted'],
+		});
+
+		expect(result.metric).toBe('apca-lc');
+		expect(result.pairs.map((pair) => pair.polarity)).toEqual(['negative', 'negative']);
+		expect(result.pairs.every((pair) => pair.lc < 0)).toBe(true);
+		expect(result.actualLc).toBe(Math.abs(result.pairs[1]!.lc));
+	});
+
+	it('separates body-text and role minimums', () => {
+		const result = validateApca(colors, {
+			minimumLc: 75,
+			roleMinimumLc: { display: 30 },
+			backgroundColors: ['bg'],
+			foregroundColors: ['ink', 'muted'],
+		});
+
+		expect(result.lcValid).toBe(false);
+		expect(result.requiredLc).toBe(75);
+		expect(result.requirements).toMatchObject([
+			{ role: null, requiredLc: 75, lcValid: false },
+			{ role: 'display', requiredLc: 30, lcValid: true },
+		]);
+		expect(result.requirements[0]!.headroom).toBeLessThan(0);
+	});
+
+	it('measures each role over its own pairs', () => {
+		const result = validateApca(colors, {
+			minimumLc: 75,
+			roleMinimumLc: { display: 30, caption: 60 },
+			roleColors: { display: { foregroundColors: ['muted'] } },
+			backgroundColors: ['bg'],
+			foregroundColors: ['ink', 'muted'],
+		});
+		const [ink, muted] = result.pairs;
+
+		expect(result.lcValid).toBe(true);
+		expect(result.actualLc).toBe(Math.abs(muted!.lc));
+		expect(result.requirements).toMatchObject([
+			{ role: null, actualLc: Math.abs(ink!.lc), weakest: ink, lcValid: true },
+			{ role: 'display', actualLc: Math.abs(muted!.lc), weakest: muted, lcValid: true },
+			// Unbound roles cover the body-text pairs.
+			{ role: 'caption', actualLc: Math.abs(ink!.lc), lcValid: true },
+		]);
+	});
+
+	it('drops the body requirement once roles claim every pair', () => {
+		const result = validateApca(colors, {
+			minimumLc: 108,
+			roleMinimumLc: { display: 30 },
+			roleColors: { display: { backgroundColors: ['bg'], foregroundColors: ['ink', 'muted'] } },
+			backgroundColors: ['bg'],
+			foregroundColors: ['ink', 'muted'],
+		});
+
+		expect(result.lcValid).toBe(true);
+		expect(result.requirements.map((requirement) => requirement.role)).toEqual(['display']);
+	});
+
+	it('is invalid when a group has no measurable colors', () => {
+		const result = validateApca(colors, {
+			minimumLc: 0,
+			backgroundColors: ['missing'],
+			foregroundColors: ['ink'],
+		});
+
+		expect(result.lcValid).toBe(false);
+		expect(result.actualLc).toBe(0);
+		expect(result.pairs).toEqual([]);
+	});
+});
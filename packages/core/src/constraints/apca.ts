@@ -0,0 +1,161 @@
+import { encodeSrgbChannel, oklchToLinearSrgb, type OklchComponents } from './srgb.js';
+import type {
+	ApcaConstraintConfig,
+	ApcaPairDiagnostic,
+	ApcaRequirementDiagnostic,
+	ApcaValidation,
+} from './types.js';
+
+// APCA-W3 0.0.98G-4g constants.
+const blackThreshold = 0.022;
+const blackClamp = 1.414;
+const deltaYMinimum = 0.0005;
+const scale = 1.14;
+const lowOffset = 0.027;
+const lowClip = 0.1;
+
+function stableDiagnostic(value: number): number {
+	return Number(value.toFixed(12));
+}
+
+function weakestLc(pairs: readonly ApcaPairDiagnostic[]): number {
+	return pairs.length === 0 ? 0 : Math.min(...pairs.map((pair) => Math.abs(pair.lc)));
+}
+
+/** APCA screen luminance (Y) of an OKLCH color, including the soft black clamp. */
+export function apcaScreenLuminance(color: OklchComponents): number {
+	const [red, green, blue] = oklchToLinearSrgb(color).map(
+		(channel) => encodeSrgbChannel(channel) ** 2.4
+	) as [number, number, number];
+	const y = 0.2126729 * red + 0.7151522 * green + 0.072175 * blue;
+	return y > blackThreshold ? y : y + (blackThreshold - y) ** blackClamp;
+}
+
+/**
+ * APCA lightness contrast (Lc) of text over a background.
+ *
+ * The sign carries polarity: positive Lc is dark text on a light background,
+ * negative Lc is light text on a dark background. Values near zero are clipped
+ * to exactly zero, as in the reference implementation.
+ */
+export function apcaContrast(text: OklchComponents, background: OklchComponents): number {
+	const textY = apcaScreenLuminance(text);
+	const backgroundY = apcaScreenLuminance(background);
+	if (Math.abs(backgroundY - textY) < deltaYMinimum) return 0;
+
+	if (backgroundY > textY) {
+		const sapc = (backgroundY ** 0.56 - textY ** 0.57) * scale;
+		return sapc < lowClip ? 0 : stableDiagnostic((sapc - lowOffset) * 100);
+	}
+	const sapc = (backgroundY ** 0.65 - textY ** 0.62) * scale;
+	return sapc > -lowClip ? 0 : stableDiagnostic((sapc + lowOffset) * 100);
+}
+
+/**
+ * Validates APCA Lc for every background/foreground pair against per-role
+ * minimums.
+ *
+ * Foreground colors are measured as text over each background. Requirements
+ * compare absolute Lc, so one policy serves both polarities while each pair
+ * still reports its signed value. A role with `roleColors` is measured over
+ * its own pairs only; body text and unbound roles cover the remaining pairs.
+ *
+ * @param colors - Record of color keys to OKLCH components
+ * @param config - Body-text minimum, optional role minimums and the color groups
+ * @returns Signed per-pair Lc plus one verdict per role requirement
+ *
+ * @example
+ * ```ts
+ * const result = validateApca(
+ *   { bg: oklch(0.2, 0, 0), ink: oklch(0.95, 0.02, 250), accent: oklch(0.7, 0.15, 30) },
+ *   {
+ *     minimumLc: 75,
+ *     roleMinimumLc: { display: 45 },
+ *     roleColors: { display: { foregroundColors: ['accent'] } },
+ *     backgroundColors: ['bg'],
+ *     foregroundColors: ['ink', 'accent'],
+ *   }
+ * );
+ * ```
+ */
+export function validateApca(
+	colors: Record<string, OklchComponents | undefined>,
+	config: ApcaConstraintConfig
+): ApcaValidation {
+	const {
+		minimumLc,
+		roleMinimumLc = {},
+		roleColors = {},
+		backgroundColors,
+		foregroundColors,
+	} = config;
+
+	const pairs: ApcaPairDiagnostic[] = [];
+	for (const background of backgroundColors) {
+		const backgroundColor = colors[background];
+		if (backgroundColor?.l === undefined) continue;
+		for (const foreground of foregroundColors) {
+			const foregroundColor = colors[foreground];
+			if (foregroundColor?.l === undefined) continue;
+			const lc = apcaContrast(foregroundColor, backgroundColor);
+			pairs.push({
+				background,
+				foreground,
+				lc,
+				polarity: lc >= 0 ? 'positive' : 'negative',
+			});
+		}
+	}
+
+	const rolePairs = new Map<string, ApcaPairDiagnostic[]>();
+	for (const [role, bound] of Object.entries(roleColors)) {
+		if (!bound) continue;
+		const roleBackgrounds = bound.backgroundColors ?? backgroundColors;
+		rolePairs.set(
+			role,
+			pairs.filter(
+				(pair) =>
+					roleBackgrounds.includes(pair.background) &&
+					bound.foregroundColors.includes(pair.foreground)
+			)
+		);
+	}
+	const boundPairs = new Set([...rolePairs.values()].flat());
+	const bodyPairs = pairs.filter((pair) => !boundPairs.has(pair));
+
+	const actualLc = weakestLc(pairs);
+	const requirement = (
+		role: string | null,
+		requiredLc: number,
+		measured: readonly ApcaPairDiagnostic[]
+	): ApcaRequirementDiagnostic => {
+		const lc = weakestLc(measured);
+		const weakest = measured.find((pair) => Math.abs(pair.lc) === lc);
+		return {
+			role,
+			requiredLc,
+			lcValid: measured.length > 0 && lc >= requiredLc,
+			actualLc: lc,
+			headroom: stableDiagnostic(lc - requiredLc),
+			...(weakest ? { weakest } : {}),
+		};
+	};
+	const requirements = [
+		// Body text has nothing left to measure once roles claim every pair.
+		...(bodyPairs.length > 0 || pairs.length === 0
+			? [requirement(null, minimumLc, bodyPairs)]
+			: []),
+		...Object.entries(roleMinimumLc).map(([role, requiredLc]) =>
+			requirement(role, requiredLc, rolePairs.get(role) ?? bodyPairs)
+		),
+	];
+
+	return {
+		metric: 'apca-lc',
+		lcValid: requirements.every((entry) => entry.lcValid),
+		actualLc,
+		requiredLc: Math.max(...requirements.map((entry) => entry.requiredLc)),
+		pairs,
+		requirements,
+	};
+}
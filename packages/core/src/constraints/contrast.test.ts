@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { clampRgb, wcagContrast } from 'culori';
+import {
+	contrastRatio,
+	relativeLuminance,
+	validateContrast,
+	wcagMinimumContrastRatio,
+} from './contrast';
+import { oklch } from '../utils';
+
+describe('relativeLuminance', () => {
+	it('spans the WCAG range from black to white', () => {
+		expect(relativeLuminance(oklch(0, 0, 0))).toBeCloseTo(0, 6);
+		expect(relativeLuminance(oklch(1, 0, 0))).toBeCloseTo(1, 6);
+		expect(relativeLuminance(oklch(0.5, 0, 0))).toBeCloseTo(0.125, 6);
+	});
+
+	it('clips out-of-sRGB-gamut channels before weighting', () => {
+		const vivid = oklch(0.7, 0.4, 145);
+		expect(relativeLuminance(vivid)).toBeLessThanOrEqual(1);
+		expect(relativeLuminance(vivid)).toBeGreaterThanOrEqual(0);
+	});
+});
+
+describe('contrastRatio', () => {
+	it('measures 21:1 for black on white and is symmetric', () => {
+		expect(contrastRatio(oklch(0, 0, 0), oklch(1, 0, 0))).toBeCloseTo(21, 6);
+		expect(contrastRatio(oklch(1, 0, 0), oklch(0, 0, 0))).toBeCloseTo(21, 6);
+		expect(contrastRatio(oklch(0.4, 0.1, 20), oklch(0.4, 0.1, 20))).toBe(1);
+	});
+
+	it('agrees with an independent sRGB implementation', () => {
+		const pairs = [
+			[oklch(0.2, 0, 0), oklch(0.95, 0.02, 250)],
+			[oklch(0.18, 0.012, 260), oklch(0.91, 0.3, 145.25)],
+			[oklch(0.5, 0, 0), oklch(0.75, 0, 0)],
+		] as const;
+		for (const [background, foreground] of pairs) {
+			expect(contrastRatio(background, foreground)).toBeCloseTo(
+				wcagContrast(clampRgb(background), clampRgb(foreground)),
+				4
+			);
+		}
+	});
+});
+
+describe('wcagMinimumContrastRatio', () => {
+	it('resolves WCAG AA and AAA thresholds for normal and large text', () => {
+		expect(wcagMinimumContrastRatio({ level: 'AA' })).toBe(4.5);
+		expect(wcagMinimumContrastRatio({ level: 'AA', textSize: 'large' })).toBe(3);
+		expect(wcagMinimumContrastRatio({ level: 'AAA' })).toBe(7);
+		expect(wcagMinimumContrastRatio({ level: 'AAA', textSize: 'large' })).toBe(4.5);
+	});
+});
+
+describe('validateContrast', () => {
+	const colors = {
+		bg: oklch(0.2, 0, 0),
+		ev: oklch(0.3, 0, 0),
+		ink: oklch(0.95, 0.02, 250),
+		muted: oklch(0.6, 0, 0),
+	};
+
+	it('reports every background/foreground pair under its own metric', () => {
+		const result = validateContrast(colors, {
+			minimumContrastRatio: 4.5,
+			backgroundColors: ['bg', 'ev'],
+			foregroundColors: ['ink', 'muted'],
+		});
+
+		expect(result.metric).toBe('wcag-relative-luminance');
+		expect(result.pairs.map((pair) => `${pair.foreground}/${pair.background}`)).toEqual([
+			'ink/bg',
+			'muted/bg',
+			'ink/ev',
+			'muted/ev',
+		]);
+		expect(result.colors.bg?.group).toBe('background');
+		expect(result.colors.ink?.group).toBe('foreground');
+	});
+
+	it('fails on the weakest pair and exposes its headroom', () => {
+		const result = validateContrast(colors, {
+			minimumContrastRatio: 4.5,
+			backgroundColors: ['bg', 'ev'],
+			foregroundColors: ['ink', 'muted'],
+		});
+		const weakest = result.pairs.find(
+			(pair) => pair.background === 'ev' && pair.foreground === 'muted'
+		)!;
+
+		expect(result.ratioValid).toBe(false);
+		expect(result.actualRatio).toBe(weakest.ratio);
+		expect(weakest.headroom).toBeLessThan(0);
+		expect(result.pairs.find((pair) => pair.foreground === 'ink')!.headroom).toBeGreaterThan(0);
+	});
+
+	it('passes when every pair meets the requirement', () => {
+		const result = validateContrast(colors, {
+			minimumContrastRatio: 7,
+			backgroundColors: ['bg'],
+			foregroundColors: ['ink'],
+		});
+
+		expect(result.ratioValid).toBe(true);
+		expect(result.requiredRatio).toBe(7);
+	});
+
+	it('is invalid when a group has no measurable colors', () => {
+		const result = validateContrast(colors, {
+			minimumContrastRatio: 3,
+			backgroundColors: ['missing'],
+			foregroundColors: ['ink'],
+		});
+
+		expect(result.ratioValid).toBe(false);
+		expect(result.actualRatio).toBe(1);
+		expect(result.pairs).toEqual([]);
+	});
+});
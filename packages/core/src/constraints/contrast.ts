@@ -0,0 +1,122 @@
+import { oklchToLinearSrgb, type OklchComponents } from './srgb.js';
+import type {
+	ContrastColorDiagnostic,
+	ContrastConstraintConfig,
+	ContrastPairDiagnostic,
+	ContrastValidation,
+	WcagContrastPolicy,
+} from './types.js';
+
+/** WCAG 2.x minimum contrast ratios (SC 1.4.3 and 1.4.6). */
+export const wcagMinimumContrastRatios = {
+	AA: { normal: 4.5, large: 3 },
+	AAA: { normal: 7, large: 4.5 },
+} as const;
+
+function stableDiagnostic(value: number): number {
+	return Number(value.toFixed(12));
+}
+
+/** Resolve the minimum ratio required by an authored WCAG policy. */
+export function wcagMinimumContrastRatio(policy: WcagContrastPolicy): number {
+	return wcagMinimumContrastRatios[policy.level][policy.textSize ?? 'normal'];
+}
+
+/**
+ * WCAG 2.x relative luminance of an OKLCH color, weighted from linear sRGB
+ * after out-of-gamut channels are clipped.
+ */
+export function relativeLuminance(color: OklchComponents): number {
+	const [red, green, blue] = oklchToLinearSrgb(color);
+	return stableDiagnostic(0.2126 * red + 0.7152 * green + 0.0722 * blue);
+}
+
+/** WCAG 2.x contrast ratio between two OKLCH colors, from 1 through 21. */
+export function contrastRatio(first: OklchComponents, second: OklchComponents): number {
+	const firstLuminance = relativeLuminance(first);
+	const secondLuminance = relativeLuminance(second);
+	const lighter = Math.max(firstLuminance, secondLuminance);
+	const darker = Math.min(firstLuminance, secondLuminance);
+	return stableDiagnostic((lighter + 0.05) / (darker + 0.05));
+}
+
+/**
+ * Validates WCAG 2.x contrast for every background/foreground pair.
+ *
+ * Unlike `validateLuminance`, this measures real contrast ratios and is
+ * independent of polarity: WCAG contrast is symmetric.
+ *
+ * @param colors - Record of color keys to OKLCH components
+ * @param config - Minimum ratio and the color groups to pair
+ * @returns Per-pair ratios plus the weakest pair against the requirement
+ *
+ * @example
+ * ```ts
+ * const result = validateContrast(
+ *   { bg: oklch(0.2, 0, 0), ink: oklch(0.95, 0.02, 250) },
+ *   {
+ *     minimumContrastRatio: wcagMinimumContrastRatio({ level: 'AA' }),
+ *     backgroundColors: ['bg'],
+ *     foregroundColors: ['ink'],
+ *   }
+ * );
+ * ```
+ */
+export function validateContrast(
+	colors: Record<string, OklchComponents | undefined>,
+	config: ContrastConstraintConfig
+): ContrastValidation {
+	const { minimumContrastRatio, backgroundColors, foregroundColors } = config;
+
+	const colorDiagnostics: Record<string, ContrastColorDiagnostic> = {};
+	for (const [group, keys] of [
+		['background', backgroundColors],
+		['foreground', foregroundColors],
+	] as const) {
+		for (const key of keys) {
+			const color = colors[key];
+			if (color?.l !== undefined) {
+				colorDiagnostics[key] = { group, relativeLuminance: relativeLuminance(color) };
+			}
+		}
+	}
+
+	const pairs: ContrastPairDiagnostic[] = [];
+	for (const background of backgroundColors) {
+		const backgroundColor = colors[background];
+		if (backgroundColor?.l === undefined) continue;
+		for (const foreground of foregroundColors) {
+			const foregroundColor = colors[foreground];
+			if (foregroundColor?.l === undefined) continue;
+			const ratio = contrastRatio(backgroundColor, foregroundColor);
+			pairs.push({
+				background,
+				foreground,
+				ratio,
+				headroom: stableDiagnostic(ratio - minimumContrastRatio),
+			});
+		}
+	}
+
+	// Handle empty groups
+	if (pairs.length === 0) {
+		return {
+			metric: 'wcag-relative-luminance',
+			ratioValid: false,
+			actualRatio: 1,
+			requiredRatio: minimumContrastRatio,
+			pairs: [],
+			colors: colorDiagnostics,
+		};
+	}
+
+	const actualRatio = Math.min(...pairs.map((pair) => pair.ratio));
+	return {
+		metric: 'wcag-relative-luminance',
+		ratioValid: actualRatio >= minimumContrastRatio,
+		actualRatio,
+		requiredRatio: minimumContrastRatio,
+		pairs,
+		colors: colorDiagnostics,
+	};
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { relativeLuminance, validateContrast } from './contrast';
+import {
+	colorVisionDeficiencies,
+	colorVisionMatrix,
+	simulateColorVision,
+	simulatePalette,
+} from './cvd';
+import { oklch } from '../utils';
+
+const pos = oklch(0.7, 0.17, 145);
+const neg = oklch(0.63, 0.2, 25);
+
+describe('simulateColorVision', () => {
+	it('leaves black and white in place for every deficiency', () => {
+		for (const deficiency of colorVisionDeficiencies) {
+			expect(simulateColorVision(oklch(0, 0, 0), deficiency).l).toBeCloseTo(0, 3);
+			expect(simulateColorVision(oklch(1, 0, 0), deficiency).l).toBeCloseTo(1, 2);
+		}
+	});
+
+	it('reduces achromatopsia to a gray of the same relative luminance', () => {
+		const gray = simulateColorVision(neg, 'achromatopsia');
+
+		expect(gray.c).toBe(0);
+		expect(gray.h).toBe(0);
+		expect(relativeLuminance(gray)).toBeCloseTo(relativeLuminance(neg), 6);
+	});
+
+	it('collapses red/green sentiment hues for red-green dichromacies only', () => {
+		const hueGap = (deficiency: (typeof colorVisionDeficiencies)[number]) =>
+			Math.abs(simulateColorVision(pos, deficiency).h - simulateColorVision(neg, deficiency).h);
+
+		expect(hueGap('protanopia')).toBeLessThan(5);
+		expect(hueGap('deuteranopia')).toBeLessThan(5);
+		expect(hueGap('tritanopia')).toBeGreaterThan(90);
+	});
+
+	it('exposes the linear sRGB matrix it applies', () => {
+		const matrix = colorVisionMatrix('deuteranopia');
+		expect(matrix).toHaveLength(9);
+		// Rows sum to one, so neutrals survive every simulation.
+		for (const row of [0, 3, 6]) {
+			expect(matrix[row]! + matrix[row + 1]! + matrix[row + 2]!).toBeCloseTo(1, 5);
+		}
+	});
+});
+
+describe('simulatePalette', () => {
+	it('keeps palette keys so validators run under simulation', () => {
+		const colors = { bg: oklch(0.98, 0, 0), pos, neg };
+		const simulated = simulatePalette(colors, 'deuteranopia');
+
+		expect(Object.keys(simulated)).toEqual(['bg', 'pos', 'neg']);
+		const result = validateContrast(simulated, {
+			backgroundColors: ['bg'],
+			foregroundColors: ['pos', 'neg'],
+			minimumContrastRatio: 3,
+		});
+		expect(result.pairs.map((pair) => pair.foreground)).toEqual(['pos', 'neg']);
+	});
+});
@@ -0,0 +1,76 @@
+import { linearSrgbToOklch, oklchToLinearSrgb, type OklchComponents } from './srgb.js';
+import type { ColorVisionDeficiency, ColorVisionMatrix } from './types.js';
+
+export const colorVisionDeficiencies: readonly ColorVisionDeficiency[] = [
+	'protanopia',
+	'deuteranopia',
+	'tritanopia',
+	'achromatopsia',
+];
+
+/**
+ * Machado, Oliveira & Fernandes (2009) at severity 1 for the dichromacies;
+ * achromatopsia keeps only the Rec. 709 relative luminance WCAG measures.
+ */
+const matrices: Record<ColorVisionDeficiency, ColorVisionMatrix> = {
+	protanopia: [
+		0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998,
+	],
+	deuteranopia: [
+		0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881,
+	],
+	tritanopia: [
+		1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039,
+	],
+	achromatopsia: [0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722, 0.2126, 0.7152, 0.0722],
+};
+
+function clampUnit(value: number): number {
+	return Math.min(1, Math.max(0, value));
+}
+
+/** The linear sRGB matrix `simulateColorVision` applies, e.g. for an SVG `feColorMatrix`. */
+export function colorVisionMatrix(deficiency: ColorVisionDeficiency): ColorVisionMatrix {
+	return matrices[deficiency];
+}
+
+/**
+ * How `color` appears to a viewer with `deficiency`, as OKLCH so the result
+ * feeds straight into the luminance, contrast, and APCA validators.
+ *
+ * The simulation runs on the sRGB-clipped color, so wide-gamut colors are
+ * judged by what an sRGB display shows.
+ *
+ * @example
+ * ```ts
+ * const pos = simulateColorVision(colors.pos, 'deuteranopia');
+ * const neg = simulateColorVision(colors.neg, 'deuteranopia');
+ * ```
+ */
+export function simulateColorVision(
+	color: OklchComponents,
+	deficiency: ColorVisionDeficiency
+): Required<OklchComponents> {
+	const [red, green, blue] = oklchToLinearSrgb(color);
+	const m = matrices[deficiency];
+	const simulated = linearSrgbToOklch([
+		clampUnit(m[0] * red + m[1] * green + m[2] * blue),
+		clampUnit(m[3] * red + m[4] * green + m[5] * blue),
+		clampUnit(m[6] * red + m[7] * green + m[8] * blue),
+	]);
+	// Grays carry no meaningful hue; pin it so simulated neutrals serialize stably.
+	return simulated.c < 1e-6 ? { l: simulated.l, c: 0, h: 0 } : simulated;
+}
+
+/** Simulate every color in a palette, keeping its keys. */
+export function simulatePalette<ColorName extends string>(
+	colors: Readonly<Record<ColorName, OklchComponents>>,
+	deficiency: ColorVisionDeficiency
+): Record<ColorName, Required<OklchComponents>> {
+	return Object.fromEntries(
+		Object.entries<OklchComponents>(colors).map(([name, color]) => [
+			name,
+			simulateColorVision(color, deficiency),
+		])
+	) as Record<ColorName, Required<OklchComponents>>;
+}
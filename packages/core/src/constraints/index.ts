@@ -1,7 +1,41 @@
 export { validateLuminance } from './luminance.js';
+export { solveLuminance } from './solve.js';
+export {
+	contrastRatio,
+	relativeLuminance,
+	validateContrast,
+	wcagMinimumContrastRatio,
+	wcagMinimumContrastRatios,
+} from './contrast.js';
+export { compositeOver } from './srgb.js';
+export {
+	colorVisionDeficiencies,
+	colorVisionMatrix,
+	simulateColorVision,
+	simulatePalette,
+} from './cvd.js';
+export { apcaContrast, apcaScreenLuminance, validateApca } from './apca.js';
 export type {
+	ApcaConstraintConfig,
+	ApcaPairDiagnostic,
+	ApcaPolicy,
+	ApcaRoleColors,
+	ApcaRequirementDiagnostic,
+	ApcaValidation,
 	ColorDiagnostic,
+	ColorVisionDeficiency,
+	ColorVisionMatrix,
+	ContrastColorDiagnostic,
+	ContrastConstraintConfig,
+	ContrastPairDiagnostic,
+	ContrastValidation,
+	LuminanceAdjustment,
 	LuminanceConstraintConfig,
 	LuminancePolicy,
+	LuminanceSolution,
+	LuminanceSolverConfig,
 	LuminanceValidation,
+	WcagContrastLevel,
+	WcagContrastPolicy,
+	WcagTextSize,
 } from './types.js';
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { solveLuminance } from './solve';
+import { validateLuminance } from './luminance';
+import { oklch } from '../utils';
+
+const policy = {
+	minimumLuminanceDelta: 0.4,
+	backgroundColors: ['bg', 'ev'],
+	foregroundColors: ['ink', 'pri'],
+};
+
+function apply(
+	colors: Record<string, ReturnType<typeof oklch>>,
+	adjustments: readonly { color: string; to: number }[]
+) {
+	const next = { ...colors };
+	for (const adjustment of adjustments) {
+		next[adjustment.color] = { ...next[adjustment.color]!, l: adjustment.to };
+	}
+	return next;
+}
+
+describe('solveLuminance', () => {
+	it('proposes nothing when the palette already satisfies the delta', () => {
+		const colors = {
+			bg: oklch(0.15, 0, 0),
+			ev: oklch(0.2, 0, 0),
+			ink: oklch(0.9, 0, 0),
+			pri: oklch(0.7, 0.1, 250),
+		};
+		expect(solveLuminance(colors, { ...policy, polarity: 'negative' })).toEqual({
+			metric: 'oklch-l',
+			solvable: true,
+			adjustments: [],
+			totalShift: 0,
+		});
+	});
+
+	it('spreads the smallest total shift evenly across both groups', () => {
+		const colors = {
+			bg: oklch(0.15, 0, 0),
+			ev: oklch(0.2, 0, 0),
+			ink: oklch(0.9, 0, 0),
+			pri: oklch(0.55, 0.1, 250),
+		};
+		const solution = solveLuminance(colors, { ...policy, polarity: 'negative' });
+
+		expect(solution.adjustments).toEqual([
+			{ color: 'ev', group: 'background', from: 0.2, to: 0.175 },
+			{ color: 'pri', group: 'foreground', from: 0.55, to: 0.575 },
+		]);
+		expect(solution.totalShift).toBe(0.05);
+		expect(
+			validateLuminance(apply(colors, solution.adjustments), {
+				...policy,
+				polarity: 'negative',
+			}).deltaValid
+		).toBe(true);
+	});
+
+	it('moves every color past the shared threshold, not just the extremes', () => {
+		const colors = {
+			bg: oklch(0.3, 0, 0),
+			ev: oklch(0.3, 0, 0),
+			ink: oklch(0.6, 0, 0),
+			pri: oklch(0.6, 0.1, 250),
+		};
+		const solution = solveLuminance(colors, { ...policy, polarity: 'negative' });
+
+		expect(solution.adjustments.map((adjustment) => [adjustment.color, adjustment.to])).toEqual([
+			['bg', 0.25],
+			['ev', 0.25],
+			['ink', 0.65],
+			['pri', 0.65],
+		]);
+		expect(solution.totalShift).toBe(0.2);
+	});
+
+	it('holds locked colors and mirrors the bounds for positive polarity', () => {
+		const colors = {
+			bg: oklch(0.85, 0, 0),
+			ev: oklch(0.8, 0, 0),
+			ink: oklch(0.3, 0, 0),
+			pri: oklch(0.5, 0.1, 250),
+		};
+		const solution = solveLuminance(colors, {
+			...policy,
+			polarity: 'positive',
+			lockedColors: ['ev'],
+		});
+
+		expect(solution.adjustments).toEqual([
+			{ color: 'pri', group: 'foreground', from: 0.5, to: 0.4 },
+		]);
+		expect(
+			validateLuminance(apply(colors, solution.adjustments), {
+				...policy,
+				polarity: 'positive',
+			}).deltaValid
+		).toBe(true);
+	});
+
+	it('rounds proposals to the authoring step without losing separation', () => {
+		const colors = {
+			bg: oklch(0.12345, 0, 0),
+			ev: oklch(0.2, 0, 0),
+			ink: oklch(0.9, 0, 0),
+			pri: oklch(0.5, 0.1, 250),
+		};
+		const rounded = solveLuminance(colors, {
+			...policy,
+			minimumLuminanceDelta: 0.41234,
+			polarity: 'negative',
+			lockedColors: ['ev'],
+		});
+		expect(rounded.adjustments).toEqual([
+			{ color: 'pri', group: 'foreground', from: 0.5, to: 0.613 },
+		]);
+	});
+
+	it('is unsolvable when locks or the L range leave no room for the delta', () => {
+		const colors = { bg: oklch(0.2, 0, 0), ink: oklch(0.3, 0, 0) };
+		expect(
+			solveLuminance(colors, {
+				minimumLuminanceDelta: 0.4,
+				backgroundColors: ['bg'],
+				foregroundColors: ['ink'],
+				polarity: 'negative',
+				lockedColors: ['bg', 'ink'],
+			})
+		).toMatchObject({ solvable: false, adjustments: [] });
+		expect(
+			solveLuminance(colors, {
+				minimumLuminanceDelta: 0.9,
+				backgroundColors: ['bg'],
+				foregroundColors: ['ink'],
+				polarity: 'negative',
+				lockedColors: ['bg'],
+			}).solvable
+		).toBe(false);
+		expect(
+			solveLuminance(colors, {
+				...policy,
+				backgroundColors: ['missing'],
+				polarity: 'negative',
+			}).solvable
+		).toBe(false);
+	});
+});
@@ -0,0 +1,141 @@
+import { validateLuminance } from './luminance.js';
+import type { LuminanceAdjustment, LuminanceSolution, LuminanceSolverConfig } from './types.js';
+
+interface OklchLightness {
+	readonly l: number;
+}
+
+interface SolverColor {
+	readonly key: string;
+	readonly group: 'background' | 'foreground';
+	readonly l: number;
+	readonly locked: boolean;
+}
+
+/** Proposed values land on the workbench's 0.001 L step without losing separation. */
+function floorStep(value: number): number {
+	return Math.floor(Number((value * 1000).toFixed(6))) / 1000;
+}
+
+function ceilStep(value: number): number {
+	return Math.ceil(Number((value * 1000).toFixed(6))) / 1000;
+}
+
+function stableDiagnostic(value: number): number {
+	return Number(value.toFixed(12));
+}
+
+function unsolved(solvable: boolean): LuminanceSolution {
+	return { metric: 'oklch-l', solvable, adjustments: [], totalShift: 0 };
+}
+
+/**
+ * Proposes the smallest OKLCH L changes that satisfy `minimumLuminanceDelta`.
+ *
+ * The dark group must sit at or below a threshold `t` and the light group at or
+ * above `t + minimumLuminanceDelta`. Total movement is piecewise linear in `t`,
+ * so the least total shift is found on a color's own boundary. Where several
+ * thresholds tie, the one that spreads the shift most evenly across colors wins.
+ * Hue and chroma never change.
+ *
+ * @param colors - Record of color keys to values containing an OKLCH L component
+ * @param config - Constraint configuration plus optional locked color keys
+ * @returns Proposed adjustments, or `solvable: false` when locks make it impossible
+ *
+ * @example
+ * ```ts
+ * const solution = solveLuminance(
+ *   { bg: oklch(0.35, 0, 0), ink: oklch(0.6, 0.02, 250) },
+ *   {
+ *     polarity: 'negative',
+ *     minimumLuminanceDelta: 0.4,
+ *     backgroundColors: ['bg'],
+ *     foregroundColors: ['ink'],
+ *     lockedColors: ['ink'],
+ *   }
+ * );
+ * // solution.adjustments → [{ color: 'bg', group: 'background', from: 0.35, to: 0.2 }]
+ * ```
+ */
+export function solveLuminance(
+	colors: Record<string, OklchLightness | undefined>,
+	config: LuminanceSolverConfig
+): LuminanceSolution {
+	const { polarity, minimumLuminanceDelta: delta, backgroundColors, foregroundColors } = config;
+	const locked = new Set(config.lockedColors ?? []);
+
+	const measured = (keys: readonly string[], group: SolverColor['group']): SolverColor[] =>
+		keys.flatMap((key) => {
+			const l = colors[key]?.l;
+			return l === undefined ? [] : [{ key, group, l, locked: locked.has(key) }];
+		});
+	const backgrounds = measured(backgroundColors, 'background');
+	const foregrounds = measured(foregroundColors, 'foreground');
+	if (backgrounds.length === 0 || foregrounds.length === 0) return unsolved(false);
+	if (validateLuminance(colors, config).deltaValid) return unsolved(true);
+
+	// Negative polarity keeps backgrounds dark; positive keeps foregrounds dark.
+	const [dark, light] =
+		polarity === 'negative' ? [backgrounds, foregrounds] : [foregrounds, backgrounds];
+
+	const lower = Math.max(0, ...dark.filter((color) => color.locked).map((color) => color.l));
+	const upper = Math.min(
+		1 - delta,
+		...light.filter((color) => color.locked).map((color) => color.l - delta)
+	);
+	if (lower > upper + 1e-12) return unsolved(false);
+
+	const shifts = (threshold: number) => [
+		...dark.map((color) => Math.max(0, color.l - threshold)),
+		...light.map((color) => -Math.max(0, threshold + delta - color.l)),
+	];
+	const totalShift = (threshold: number) =>
+		shifts(threshold).reduce((total, shift) => total + Math.abs(shift), 0);
+
+	const candidates = [
+		lower,
+		upper,
+		...dark.map((color) => color.l),
+		...light.map((color) => color.l - delta),
+	].map((candidate) => Math.min(Math.max(candidate, lower), Math.max(lower, upper)));
+
+	// Total shift is flat between its best breakpoints. Within that range, the
+	// squared shift is convex and its slope is the signed sum of shifts.
+	const least = Math.min(...candidates.map(totalShift));
+	const optimal = candidates.filter((candidate) => totalShift(candidate) <= least + 1e-12);
+	let low = Math.min(...optimal);
+	let high = Math.max(...optimal);
+	for (let step = 0; step < 60 && high - low > 1e-15; step += 1) {
+		const middle = (low + high) / 2;
+		if (shifts(middle).reduce((total, shift) => total + shift, 0) > 0) low = middle;
+		else high = middle;
+	}
+	const threshold = (low + high) / 2;
+
+	const darkTarget = floorStep(threshold);
+	const lightTarget = Math.min(1, ceilStep(threshold + delta));
+	const adjustments: LuminanceAdjustment[] = [];
+	for (const color of [...backgrounds, ...foregrounds]) {
+		const isDark = dark.includes(color);
+		if (color.locked) continue;
+		if (isDark ? color.l <= threshold + 1e-12 : color.l >= threshold + delta - 1e-12) continue;
+		adjustments.push({
+			color: color.key,
+			group: color.group,
+			from: color.l,
+			to: isDark ? darkTarget : lightTarget,
+		});
+	}
+
+	return {
+		metric: 'oklch-l',
+		solvable: true,
+		adjustments,
+		totalShift: stableDiagnostic(
+			adjustments.reduce(
+				(total, adjustment) => total + Math.abs(adjustment.to - adjustment.from),
+				0
+			)
+		),
+	};
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { compositeOver, linearSrgbToOklch, oklchToLinearSrgb } from './srgb';
+import { oklch } from '../utils';
+
+describe('linearSrgbToOklch', () => {
+	it('round-trips in-gamut colors through linear sRGB', () => {
+		const color = oklch(0.62, 0.12, 40);
+		const result = linearSrgbToOklch(oklchToLinearSrgb(color));
+
+		expect(result.l).toBeCloseTo(0.62, 6);
+		expect(result.c).toBeCloseTo(0.12, 6);
+		expect(result.h).toBeCloseTo(40, 4);
+	});
+});
+
+describe('compositeOver', () => {
+	it('returns the endpoints at full and zero alpha', () => {
+		const top = oklch(0.7, 0.1, 30);
+		const bottom = oklch(0.2, 0.02, 250);
+
+		expect(compositeOver(top, 1, bottom).l).toBeCloseTo(0.7, 6);
+		expect(compositeOver(top, 1, bottom).c).toBeCloseTo(0.1, 6);
+		expect(compositeOver(top, 0, bottom).l).toBeCloseTo(0.2, 6);
+	});
+
+	it('blends encoded sRGB channels like CSS', () => {
+		// 50% white over black paints sRGB 0.5, which is OKLCH L ≈ 0.598.
+		expect(compositeOver(oklch(1, 0, 0), 0.5, oklch(0, 0, 0)).l).toBeCloseTo(0.598, 3);
+	});
+});
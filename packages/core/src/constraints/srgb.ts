@@ -0,0 +1,81 @@
+/** The OKLCH components contrast metrics need; authored and runtime colors both fit. */
+export interface OklchComponents {
+	readonly l: number;
+	readonly c?: number;
+	readonly h?: number;
+}
+
+function clampUnit(value: number): number {
+	return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Linear sRGB channels of an OKLCH color, through OKLab.
+ *
+ * Contrast metrics are defined for sRGB, so out-of-gamut channels are clipped
+ * to the sRGB cube; the result describes what an sRGB display can show.
+ */
+export function oklchToLinearSrgb(color: OklchComponents): readonly [number, number, number] {
+	const chroma = color.c ?? 0;
+	const hue = ((color.h ?? 0) * Math.PI) / 180;
+	const a = chroma * Math.cos(hue);
+	const b = chroma * Math.sin(hue);
+
+	const l = (color.l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+	const m = (color.l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+	const s = (color.l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+	return [
+		clampUnit(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+		clampUnit(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+		clampUnit(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+	];
+}
+
+/** The sRGB transfer function applied to one clipped linear channel. */
+export function encodeSrgbChannel(value: number): number {
+	return value <= 0.0031308 ? 12.92 * value : 1.055 * value ** (1 / 2.4) - 0.055;
+}
+
+/** Inverse of `encodeSrgbChannel`. */
+export function decodeSrgbChannel(value: number): number {
+	return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+/** OKLCH components of a linear sRGB color, through OKLab. */
+export function linearSrgbToOklch(
+	rgb: readonly [number, number, number]
+): Required<OklchComponents> {
+	const [red, green, blue] = rgb;
+	const l = Math.cbrt(0.4122214708 * red + 0.5363325363 * green + 0.0514459929 * blue);
+	const m = Math.cbrt(0.2119034982 * red + 0.6806995451 * green + 0.1073969566 * blue);
+	const s = Math.cbrt(0.0883024619 * red + 0.2817188376 * green + 0.6299787005 * blue);
+
+	const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+	const b = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+	const hue = (Math.atan2(b, a) * 180) / Math.PI;
+	return {
+		l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+		c: Math.sqrt(a * a + b * b),
+		h: hue < 0 ? hue + 360 : hue,
+	};
+}
+
+/**
+ * The opaque color a browser paints when `foreground` at `alpha` is drawn over
+ * an opaque `background`. Blending happens on encoded sRGB channels, matching
+ * CSS compositing.
+ */
+export function compositeOver(
+	foreground: OklchComponents,
+	alpha: number,
+	background: OklchComponents
+): Required<OklchComponents> {
+	const top = oklchToLinearSrgb(foreground);
+	const bottom = oklchToLinearSrgb(background);
+	const blend = (index: 0 | 1 | 2) =>
+		decodeSrgbChannel(
+			encodeSrgbChannel(top[index]) * alpha + encodeSrgbChannel(bottom[index]) * (1 - alpha)
+		);
+	return linearSrgbToOklch([blend(0), blend(1), blend(2)]);
+}
@@ -1,8 +1,49 @@
+/** WCAG 2.x conformance level used to select a minimum contrast ratio. */
+export type WcagContrastLevel = 'AA' | 'AAA';
+
+/** WCAG 2.x text class. Large text is at least 18pt, or 14pt bold. */
+export type WcagTextSize = 'normal' | 'large';
+
+/** Opt-in WCAG 2.x contrast requirement for every background/foreground pair. */
+export interface WcagContrastPolicy {
+	readonly level: WcagContrastLevel;
+	/** Defaults to `normal`. */
+	readonly textSize?: WcagTextSize;
+}
+
+/** Colors a typography role is set in, measured against that role's own minimum. */
+export interface ApcaRoleColors<ColorName extends string = string> {
+	/** Text colors the role uses; each must be a policy foreground color. */
+	readonly foregroundColors: readonly ColorName[];
+	/** Surfaces the role sits on. Defaults to every policy background color. */
+	readonly backgroundColors?: readonly ColorName[];
+}
+
+/**
+ * Opt-in APCA (WCAG 3 draft) readability requirement. Minimums are absolute Lc
+ * values, so the same policy applies to either polarity.
+ *
+ * Pairs bound to a role in `roleColors` are measured against that role's
+ * minimum only. Body text covers every other background/foreground pair.
+ */
+export interface ApcaPolicy<RoleName extends string = string, ColorName extends string = string> {
+	/** Minimum absolute Lc for every pair not bound to a role in `roleColors`. */
+	readonly minimumLc: number;
+	/**
+	 * Per-role minimums keyed by typography role, e.g. `{ display: 45 }` for large
+	 * text. A role without `roleColors` is measured over the body-text pairs.
+	 */
+	readonly roleMinimumLc?: Readonly<Record<RoleName, number>>;
+	/** The pairs each role is set in. Every key needs a `roleMinimumLc` entry. */
+	readonly roleColors?: Readonly<Partial<Record<RoleName, ApcaRoleColors<ColorName>>>>;
+}
+
 /**
  * Design-system separation policy shared by build-time and runtime themes.
  *
- * TFS currently evaluates this constraint using authored OKLCH L. It does not
- * calculate WCAG relative luminance or a contrast ratio.
+ * TFS evaluates the separation constraint using authored OKLCH L. The optional
+ * `contrast` and `apca` requirements are measured separately as a WCAG 2.x
+ * contrast ratio and an APCA Lc value.
  */
 export interface LuminancePolicy<ColorName extends string = string> {
 	/** Minimum required OKLCH-L difference between the two groups. */
@@ -11,6 +52,10 @@ export interface LuminancePolicy<ColorName extends string = string> {
 	readonly backgroundColors: readonly ColorName[];
 	/** Color keys treated as content/foregrounds. */
 	readonly foregroundColors: readonly ColorName[];
+	/** WCAG 2.x contrast requirement checked for every group pair. */
+	readonly contrast?: WcagContrastPolicy;
+	/** APCA Lc requirement checked for every group pair. */
+	readonly apca?: ApcaPolicy<string, ColorName>;
 }
 
 /** A separation policy paired with the polarity of one concrete color theme. */
@@ -33,8 +78,8 @@ export interface ColorDiagnostic {
 /**
  * Result of luminance validation with full OKLCH-L diagnostics.
  *
- * The explicit `metric` discriminator keeps this result honest and allows a
- * future, separate WCAG relative-luminance diagnostic to coexist safely.
+ * The explicit `metric` discriminator keeps this result honest and separate
+ * from the WCAG relative-luminance `ContrastValidation`.
  */
 export interface LuminanceValidation {
 	/** The exact measurement used by this constraint. Not WCAG relative luminance. */
@@ -56,3 +101,120 @@ export interface LuminanceValidation {
 	// Per-color diagnostics
 	readonly colors: Readonly<Record<string, Readonly<ColorDiagnostic>>>;
 }
+
+/** Pairs the same color groups with a resolved WCAG 2.x minimum ratio. */
+export interface ContrastConstraintConfig {
+	/** Minimum contrast ratio, from 1 through 21. */
+	readonly minimumContrastRatio: number;
+	readonly backgroundColors: readonly string[];
+	readonly foregroundColors: readonly string[];
+}
+
+export interface ContrastColorDiagnostic {
+	readonly group: 'background' | 'foreground';
+	/** WCAG 2.x relative luminance of the sRGB-clipped color, from 0 through 1. */
+	readonly relativeLuminance: number;
+}
+
+export interface ContrastPairDiagnostic {
+	readonly background: string;
+	readonly foreground: string;
+	readonly ratio: number;
+	/** Ratio above the requirement. Positive = safe, zero = at limit, negative = violation */
+	readonly headroom: number;
+}
+
+/** Result of WCAG 2.x contrast validation, discriminated from the OKLCH-L metric. */
+export interface ContrastValidation {
+	readonly metric: 'wcag-relative-luminance';
+	/** True when every background/foreground pair meets the required ratio. */
+	readonly ratioValid: boolean;
+	/** The weakest measured pair ratio. */
+	readonly actualRatio: number;
+	readonly requiredRatio: number;
+	readonly pairs: readonly Readonly<ContrastPairDiagnostic>[];
+	readonly colors: Readonly<Record<string, Readonly<ContrastColorDiagnostic>>>;
+}
+
+/** Pairs the same color groups with APCA Lc minimums. */
+export interface ApcaConstraintConfig extends ApcaPolicy {
+	readonly backgroundColors: readonly string[];
+	readonly foregroundColors: readonly string[];
+}
+
+export interface ApcaPairDiagnostic {
+	readonly background: string;
+	/** Measured as text over `background`. */
+	readonly foreground: string;
+	/** Signed APCA Lc; positive is dark text on a light background. */
+	readonly lc: number;
+	/** Uses TFS vocabulary: `negative` is light text on a dark background. */
+	readonly polarity: 'negative' | 'positive';
+}
+
+export interface ApcaRequirementDiagnostic {
+	/** Typography role, or `null` for the body-text default. */
+	readonly role: string | null;
+	readonly requiredLc: number;
+	readonly lcValid: boolean;
+	/** The weakest absolute Lc across the pairs this requirement covers. */
+	readonly actualLc: number;
+	/** Weakest absolute Lc above the requirement. Positive = safe, negative = violation */
+	readonly headroom: number;
+	/** The pair that measured `actualLc`; absent when the requirement covers no pairs. */
+	readonly weakest?: Readonly<ApcaPairDiagnostic>;
+}
+
+/** Result of APCA validation, discriminated from the OKLCH-L and WCAG 2.x metrics. */
+export interface ApcaValidation {
+	readonly metric: 'apca-lc';
+	/** True when every requirement holds over its own pairs. */
+	readonly lcValid: boolean;
+	/** The weakest absolute Lc across all pairs. */
+	readonly actualLc: number;
+	/** The strictest requirement across body text and every role. */
+	readonly requiredLc: number;
+	readonly pairs: readonly Readonly<ApcaPairDiagnostic>[];
+	readonly requirements: readonly Readonly<ApcaRequirementDiagnostic>[];
+}
+
+/** Solver input: one theme's separation policy plus colors that must not move. */
+export interface LuminanceSolverConfig extends LuminanceConstraintConfig {
+	/** Color keys whose authored L is fixed, e.g. brand colors or inherited values. */
+	readonly lockedColors?: readonly string[];
+}
+
+/** One proposed L change. Hue and chroma are held fixed. */
+export interface LuminanceAdjustment {
+	readonly color: string;
+	readonly group: 'background' | 'foreground';
+	readonly from: number;
+	readonly to: number;
+}
+
+/** Result of `solveLuminance`, discriminated by the OKLCH-L metric it corrects. */
+export interface LuminanceSolution {
+	readonly metric: 'oklch-l';
+	/** False when locked colors or the 0–1 L range make the delta unreachable. */
+	readonly solvable: boolean;
+	/** Empty when the palette already satisfies the constraint or cannot be solved. */
+	readonly adjustments: readonly Readonly<LuminanceAdjustment>[];
+	/** Sum of absolute L movement across every adjustment. */
+	readonly totalShift: number;
+}
+
+/** Dichromacies and rod monochromacy simulated by `simulateColorVision`. */
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+/** Row-major 3×3 matrix applied to linear sRGB channels. */
+export type ColorVisionMatrix = readonly [
+	number,
+	number,
+	number,
+	number,
+	number,
+	number,
+	number,
+	number,
+	number,
+];
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeGamut, cssGamutOutputs } from './gamut';
+import type { PartialDesignSystem } from './types';
+import { oklch } from './utils';
+
+const system = {
+	colors: {
+		alphaSchedule: { lo: 0.25 },
+		modes: [
+			{
+				name: 'dark',
+				isDefault: true,
+				tokens: {
+					bg: oklch(0.18, 0, 0),
+					white: oklch(1, 0, 0),
+					// Outside sRGB, inside Display-P3.
+					lime: oklch(0.85, 0.25, 135),
+				},
+			},
+			// Outside both sRGB and Display-P3.
+			{ name: 'neon', tokens: { 'lime/hot': oklch(0.9, 0.37, 145) } },
+		],
+	},
+} satisfies PartialDesignSystem;
+
+describe('analyzeGamut', () => {
+	const report = analyzeGamut(system);
+	const entry = (color: string) => report.find((candidate) => candidate.color === color)!;
+
+	it('reports every authored color in every mode with its source pointer', () => {
+		expect(report.map((candidate) => [candidate.mode, candidate.color, candidate.path])).toEqual([
+			['dark', 'bg', '/colors/modes/0/tokens/bg'],
+			['dark', 'white', '/colors/modes/0/tokens/white'],
+			['dark', 'lime', '/colors/modes/0/tokens/lime'],
+			['neon', 'lime/hot', '/colors/modes/1/tokens/lime~1hot'],
+		]);
+	});
+
+	it('treats boundary colors as in gamut with no mapping distance', () => {
+		expect(entry('white')).toMatchObject({
+			srgb: { inGamut: true, deltaE: 0 },
+			displayP3: { inGamut: true, deltaE: 0 },
+			affectedOutputs: [],
+		});
+	});
+
+	it('measures the OKLab distance introduced by mapping into each gamut', () => {
+		expect(entry('lime').srgb.inGamut).toBe(false);
+		expect(entry('lime').srgb.deltaE).toBeGreaterThan(0);
+		expect(entry('lime').displayP3).toEqual({ inGamut: true, deltaE: 0 });
+
+		const neon = entry('lime/hot');
+		expect(neon.displayP3.inGamut).toBe(false);
+		expect(neon.srgb.deltaE).toBeGreaterThan(neon.displayP3.deltaE);
+		expect(neon.displayP3.deltaE).toBeGreaterThan(0);
+	});
+
+	it('attributes mapping only to outputs encoded in a gamut the color exceeds', () => {
+		const outputs = [
+			{ output: 'css', gamut: 'display-p3' },
+			{ output: 'dtcg', gamut: 'srgb' },
+			{ output: 'figma-variables', gamut: 'display-p3' },
+		] as const;
+		const targeted = analyzeGamut(system, { outputs });
+
+		expect(targeted.find((candidate) => candidate.color === 'lime')!.affectedOutputs).toEqual([
+			{ output: 'dtcg', gamut: 'srgb' },
+		]);
+		expect(targeted.find((candidate) => candidate.color === 'lime/hot')!.affectedOutputs).toEqual(
+			outputs
+		);
+		expect(entry('lime').affectedOutputs).toEqual([
+			{ output: 'dtcg', gamut: 'srgb' },
+			{ output: 'figma-variables', gamut: 'srgb' },
+		]);
+	});
+});
+
+describe('cssGamutOutputs', () => {
+	it('exempts native oklch() and resolves hex, rgb, and P3 formats', () => {
+		expect(cssGamutOutputs({ base: 'oklch', alpha: 'oklch', alphaModifier: 'a' })).toEqual([]);
+		expect(cssGamutOutputs({ base: 'oklch', alpha: 'rgba', alphaModifier: 'a' })).toEqual([
+			{ output: 'css', gamut: 'srgb' },
+		]);
+		expect(cssGamutOutputs({ base: 'hex-p3', alpha: 'hexa', alphaModifier: 'a' })).toEqual([
+			{ output: 'css', gamut: 'srgb' },
+			{ output: 'css', gamut: 'display-p3' },
+		]);
+	});
+});
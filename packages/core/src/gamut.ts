@@ -0,0 +1,121 @@
+import { converter, differenceEuclidean, toGamut } from 'culori';
+import type { Oklch } from 'culori';
+import type { GeneratorConfig } from './generator/types.js';
+import type { PartialDesignSystem } from './types.js';
+
+/** Output gamut a generated artifact encodes colors in. */
+export type OutputGamut = 'srgb' | 'display-p3';
+
+/** A generated artifact that gamut-maps authored OKLCH at build time. */
+export interface GamutOutputTarget {
+	output: 'css' | 'dtcg' | 'figma-variables';
+	gamut: OutputGamut;
+}
+
+export interface GamutMapping {
+	inGamut: boolean;
+	/** OKLab Euclidean distance between the authored and mapped color. */
+	deltaE: number;
+}
+
+/** Per-mode gamut diagnostic for one authored color. */
+export interface GamutColorDiagnostic {
+	mode: string;
+	color: string;
+	/** JSON Pointer to the authored color, matching workbench case source paths. */
+	path: string;
+	srgb: GamutMapping;
+	displayP3: GamutMapping;
+	/** Targets whose encoded value differs from the authored color. */
+	affectedOutputs: GamutOutputTarget[];
+}
+
+export interface GamutAnalysisOptions {
+	/** Targets to attribute mapping to. Defaults to sRGB DTCG and Figma Variables. */
+	outputs?: readonly GamutOutputTarget[];
+}
+
+const defaultGamutOutputs: readonly GamutOutputTarget[] = [
+	{ output: 'dtcg', gamut: 'srgb' },
+	{ output: 'figma-variables', gamut: 'srgb' },
+];
+
+const toRgb = converter('rgb');
+const toP3 = converter('p3');
+const mapToSrgb = toGamut('rgb', 'oklch');
+const mapToP3 = toGamut('p3', 'oklch');
+const oklabDifference = differenceEuclidean('oklab');
+
+/** Tolerates floating-point noise at the gamut boundary, e.g. OKLCH white. */
+const channelTolerance = 1e-6;
+
+function withinUnit(channels: readonly number[]): boolean {
+	return channels.every(
+		(channel) => channel >= -channelTolerance && channel <= 1 + channelTolerance
+	);
+}
+
+function gamutMapping(color: Oklch, gamut: OutputGamut): GamutMapping {
+	const encoded = gamut === 'srgb' ? toRgb(color) : toP3(color);
+	if (withinUnit([encoded.r, encoded.g, encoded.b])) return { inGamut: true, deltaE: 0 };
+	const mapped = gamut === 'srgb' ? mapToSrgb(color) : mapToP3(color);
+	return { inGamut: false, deltaE: Number(oklabDifference(color, mapped).toFixed(6)) };
+}
+
+function pointerSegment(value: string): string {
+	return value.replaceAll('~', '~0').replaceAll('/', '~1');
+}
+
+/**
+ * Resolve which gamut the CSS color format encodes. Native `oklch()` output
+ * carries authored values and leaves mapping to the browser, so it is exempt.
+ */
+export function cssGamutOutputs(colorFormat: GeneratorConfig['colorFormat']): GamutOutputTarget[] {
+	const formats = [colorFormat.base, colorFormat.alpha];
+	return [
+		...(formats.some(
+			(format) => format === 'hex' || format === 'rgb' || format === 'hexa' || format === 'rgba'
+		)
+			? [{ output: 'css' as const, gamut: 'srgb' as const }]
+			: []),
+		...(formats.some((format) => format === 'hex-p3' || format === 'hexa-p3')
+			? [{ output: 'css' as const, gamut: 'display-p3' as const }]
+			: []),
+	];
+}
+
+/**
+ * Report, for every authored color in every mode, whether it fits sRGB and
+ * Display-P3 and how far build-time gamut mapping moves it.
+ *
+ * `oklchToHex` and `oklchToHexP3` map silently; this is the diagnostic pass
+ * that tells designers when a hex, DTCG, or Figma value differs from what a
+ * wide-gamut browser renders from the native `oklch()` CSS.
+ *
+ * @example
+ * ```ts
+ * const vivid = analyzeGamut(system).filter((entry) => !entry.srgb.inGamut);
+ * ```
+ */
+export function analyzeGamut(
+	system: Pick<PartialDesignSystem, 'colors'>,
+	options: GamutAnalysisOptions = {}
+): GamutColorDiagnostic[] {
+	const outputs = options.outputs ?? defaultGamutOutputs;
+	return (system.colors?.modes ?? []).flatMap((mode, modeIndex) =>
+		Object.entries(mode.tokens).map(([color, value]) => {
+			const srgb = gamutMapping(value, 'srgb');
+			const displayP3 = gamutMapping(value, 'display-p3');
+			return {
+				mode: mode.name,
+				color,
+				path: `/colors/modes/${modeIndex}/tokens/${pointerSegment(color)}`,
+				srgb,
+				displayP3,
+				affectedOutputs: outputs
+					.filter((target) => !(target.gamut === 'srgb' ? srgb : displayP3).inGamut)
+					.map((target) => ({ ...target })),
+			};
+		})
+	);
+}
@@ -193,6 +193,29 @@ describe('generateBorderWidthTokens', () => {
 		expect(result.defaultTokens[0].name).toBe('border-width');
 	});
 
+	it('generates a named width scale beside the bare value', () => {
+		const result = generateBorderWidthTokens(
+			{
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { unit: 'px', value: 1, scale: { hairline: 0.5, s: 1, l: 2, focus: 3 } },
+					},
+				],
+			},
+			defaultGeneratorConfig
+		);
+
+		expect(result.defaultTokens.map((token) => [token.name, token.value])).toEqual([
+			['bdw', '1px'],
+			['bdw-hairline', '0.5px'],
+			['bdw-s', '1px'],
+			['bdw-l', '2px'],
+			['bdw-focus', '3px'],
+		]);
+	});
+
 	describe('mode handling', () => {
 		const multiModeBorderWidth: DesignSystem['border']['width'] = {
 			modes: [
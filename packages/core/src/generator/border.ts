@@ -1,10 +1,17 @@
 /**
- * Border token generators (radius and width)
+ * Border token generators (radius, nested radii and width)
  */
 
-import type { DesignSystem, BorderRadiusMode, BorderWidthMode, SpacingMode } from '../types.js';
+import type {
+	DesignSystem,
+	BorderRadiusMode,
+	BorderWidthMode,
+	NestedRadiusRecipe,
+	SpacingMode,
+} from '../types.js';
 import type { TokenValue, GeneratorResult, GeneratorConfig } from './types.js';
-import { getDefaultEntry } from './utils.js';
+import { scaleValue } from './scale.js';
+import { formatNumber, getDefaultEntry } from './utils.js';
 
 // ============================================
 // BORDER RADIUS
@@ -33,10 +40,7 @@ function generateRadiusTokensForMode(
 	const tokens: TokenValue[] = [];
 
 	// Helper function to resolve a border radius value
-	const resolveValue = (value: number | 'min'): number => {
-		if (value === 'min') return spacingSystem.min;
-		return value * spacingSystem.base;
-	};
+	const resolveValue = (value: number | 'min'): number => scaleValue(spacingSystem, value);
 
 	// Helper to get reference string
 	const getReference = (value: number | 'min'): string => {
@@ -113,6 +117,79 @@ export function generateBorderRadiusTokens(
 	};
 }
 
+// ============================================
+// NESTED RADII
+// ============================================
+
+function nestedRadiusToken(
+	name: string,
+	outer: TokenValue,
+	inset: TokenValue,
+	config: GeneratorConfig
+): TokenValue {
+	const expression = `max(0${outer.unit ?? 'px'}, var(--${outer.name}) - var(--${inset.name}))`;
+	// Fluid steps and mixed units only resolve in the browser.
+	const resolvable =
+		outer.rawValue !== undefined &&
+		inset.rawValue !== undefined &&
+		outer.unit === inset.unit &&
+		!outer.metadata?.fluid &&
+		!inset.metadata?.fluid;
+	const rawValue = resolvable ? Math.max(0, outer.rawValue! - inset.rawValue!) : undefined;
+	return {
+		family: 'borderRadius',
+		name: `${config.prefixes.borderRadius}-${name}`,
+		value: rawValue === undefined ? expression : `${formatNumber(rawValue)}${outer.unit}`,
+		...(rawValue === undefined ? {} : { rawValue, unit: outer.unit }),
+		reference: outer.name,
+		metadata: { radiusExpression: expression },
+	};
+}
+
+/**
+ * Generate concentric inner radii from the generated radius, spacing and gap
+ * tokens. A mode overrides a nested radius only where it overrides the outer
+ * radius or the inset it is derived from.
+ */
+export function generateNestedRadiusTokens(
+	nestedRadii: Record<string, NestedRadiusRecipe>,
+	defaultTokens: TokenValue[],
+	overrideTokens: Record<string, Record<string, TokenValue>>,
+	config: GeneratorConfig
+): { defaultTokens: TokenValue[]; overrideTokens: Record<string, TokenValue[]> } {
+	const prefix = config.prefixes.borderRadius;
+	const sources = (recipe: NestedRadiusRecipe): [string, string] => [
+		`${prefix}-${recipe.outer}`,
+		'spacing' in recipe.inset
+			? `${config.prefixes.spacing}-${recipe.inset.spacing}`
+			: `${config.prefixes.gap}-${recipe.inset.gap}`,
+	];
+	const defaults = new Map(defaultTokens.map((token) => [token.name, token]));
+	// Resolve every nested radius over a mode's overrides, keeping those that change.
+	const resolveMode = (overrides: Record<string, TokenValue> | undefined): TokenValue[] => {
+		const nested = new Map<string, TokenValue>();
+		const changed = new Map<string, TokenValue>();
+		const lookup = (name: string) => nested.get(name) ?? overrides?.[name] ?? defaults.get(name)!;
+		for (const [name, recipe] of Object.entries(nestedRadii)) {
+			const [outer, inset] = sources(recipe);
+			const token = nestedRadiusToken(name, lookup(outer), lookup(inset), config);
+			nested.set(token.name, token);
+			if (!overrides || outer in overrides || inset in overrides || changed.has(outer)) {
+				changed.set(token.name, token);
+			}
+		}
+		return [...changed.values()];
+	};
+
+	const defaultNested = resolveMode(undefined);
+	const nestedOverrides: Record<string, TokenValue[]> = {};
+	for (const [mode, overrides] of Object.entries(overrideTokens)) {
+		const modeTokens = resolveMode(overrides);
+		if (modeTokens.length > 0) nestedOverrides[mode] = modeTokens;
+	}
+	return { defaultTokens: defaultNested, overrideTokens: nestedOverrides };
+}
+
 // ============================================
 // BORDER WIDTH
 // ============================================
@@ -125,17 +202,29 @@ function generateWidthTokensForMode(
 	config: GeneratorConfig
 ): TokenValue[] {
 	const prefix = config.prefixes.borderWidth;
-	const { unit, value } = mode.tokens;
+	const { unit, value, scale } = mode.tokens;
+	const tokens: TokenValue[] = [];
 
-	return [
-		{
+	if (value !== undefined) {
+		tokens.push({
 			family: 'borderWidth',
 			name: prefix,
 			value: `${value}${unit}`,
 			rawValue: value,
 			unit,
-		},
-	];
+		});
+	}
+	for (const [step, width] of Object.entries(scale ?? {})) {
+		tokens.push({
+			family: 'borderWidth',
+			name: `${prefix}-${step}`,
+			value: `${width}${unit}`,
+			rawValue: width,
+			unit,
+		});
+	}
+
+	return tokens;
 }
 
 /**
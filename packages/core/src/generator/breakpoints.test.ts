@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkbenchContract } from '../review/contract.js';
+import { createReviewCapturePlan } from '../review/capture.js';
+import { toCss } from '../transformers/css.js';
+import { toFigmaJson } from '../transformers/figma-json.js';
+import type { PartialDesignSystem } from '../types.js';
+import { generate } from './index.js';
+
+const system: PartialDesignSystem = {
+	breakpoints: {
+		viewport: { lg: 1024, sm: 640, md: 768 },
+		container: { card: 320, panel: 560 },
+	},
+	spacing: {
+		modes: [
+			{ name: 'default', isDefault: true, tokens: { unit: 'px', base: 8, min: 4, range: 2 } },
+			{ name: 'roomy', breakpoint: 'lg', tokens: { unit: 'px', base: 12, min: 6, range: 2 } },
+			{ name: 'cozy', breakpoint: 'md', tokens: { unit: 'px', base: 10, min: 5, range: 2 } },
+		],
+	},
+};
+
+describe('generateBreakpointTokens', () => {
+	it('emits viewport and container widths narrowest first', () => {
+		const ir = generate(system);
+
+		expect(
+			Object.values(ir.tokens)
+				.filter((token) => token.family === 'breakpoint')
+				.map((token) => [token.name, token.value, token.metadata?.breakpointKind])
+		).toEqual([
+			['bp-sm', '640px', 'viewport'],
+			['bp-md', '768px', 'viewport'],
+			['bp-lg', '1024px', 'viewport'],
+			['cq-card', '320px', 'container'],
+			['cq-panel', '560px', 'container'],
+		]);
+		expect(ir.breakpoints?.viewport.md).toEqual({
+			token: 'bp-md',
+			width: 768,
+			query: '(width >= 768px)',
+			customMedia: '--bp-md',
+		});
+		expect(ir.breakpoints?.container.card).toEqual({
+			token: 'cq-card',
+			width: 320,
+			query: '(width >= 320px)',
+		});
+	});
+
+	it('declares custom media before the root block', () => {
+		const css = toCss(generate(system));
+
+		expect(
+			css.startsWith(
+				[
+					'@custom-media --bp-sm (width >= 640px);',
+					'@custom-media --bp-md (width >= 768px);',
+					'@custom-media --bp-lg (width >= 1024px);',
+					'',
+					':root {',
+				].join('\n')
+			)
+		).toBe(true);
+		expect(css).toContain('  --cq-panel: 560px;');
+	});
+
+	it('applies breakpoint-bound size modes from their width until a size mode is chosen', () => {
+		const ir = generate(system);
+		const css = toCss(ir);
+
+		expect(ir.modes.size.mediaConditions).toEqual({
+			cozy: '(width >= 768px)',
+			roomy: '(width >= 1024px)',
+		});
+		expect(Object.keys(ir.mediaOverrides)).toEqual(['(width >= 768px)', '(width >= 1024px)']);
+		expect(css).toContain(
+			'@media (width >= 768px) {\n  :root:not([data-size-mode]) {\n    --sp-min: 5px;'
+		);
+		expect(css.indexOf('(width >= 768px) {')).toBeLessThan(css.indexOf('(width >= 1024px) {'));
+		expect(css).toContain('[data-size-mode="roomy"] {\n  --sp-min: 6px;');
+	});
+
+	it('resolves fluid viewport bounds named by breakpoint', () => {
+		const ir = generate({
+			breakpoints: { viewport: { sm: 640, xl: 1280 } },
+			spacing: {
+				modes: [
+					{
+						name: 'default',
+						tokens: { unit: 'px', base: 8, min: 4, range: 1 },
+						fluid: { minViewport: 'sm', maxViewport: 'xl', tokens: { base: 16 } },
+					},
+				],
+			},
+		});
+
+		expect(ir.tokens['sp-1']?.metadata?.fluid).toEqual({
+			minViewport: 640,
+			maxViewport: 1280,
+			min: 8,
+			max: 16,
+		});
+	});
+
+	it('exports breakpoints as DTCG dimensions', () => {
+		const dtcg = JSON.parse(toFigmaJson(generate(system))) as {
+			dimension: Record<string, { $value: unknown; $extensions?: Record<string, unknown> }>;
+		};
+
+		expect(dtcg.dimension['bp-md']).toEqual({
+			$value: { value: 768, unit: 'px' },
+			$extensions: {
+				'com.three-forma-styli': {
+					breakpoint: { kind: 'viewport', query: '(width >= 768px)' },
+				},
+			},
+		});
+	});
+
+	it('derives review viewports from viewport breakpoints', () => {
+		const contract = createWorkbenchContract(system, generate(system), {
+			systemFingerprint: 'breakpoints',
+			toolVersion: '0.2.0',
+			stylesheets: ['./system.css'],
+		});
+
+		expect(contract.globals.viewports).toEqual([
+			{ id: 'compact', label: 'compact', width: 390, height: 844 },
+			{ id: 'sm', label: 'sm', width: 640, height: 844 },
+			{ id: 'md', label: 'md', width: 768, height: 844 },
+			{ id: 'lg', label: 'lg', width: 1024, height: 900 },
+		]);
+		expect(contract.globals.defaultViewport).toBe('lg');
+		expect(createReviewCapturePlan(contract).states[0]?.viewport).toEqual({
+			id: 'lg',
+			width: 1024,
+			height: 900,
+		});
+	});
+
+	it('drops the built-in compact viewport once a breakpoint covers it', () => {
+		const narrow = { ...system, breakpoints: { viewport: { xs: 360, md: 768, lg: 1024 } } };
+		const contract = createWorkbenchContract(narrow, generate(narrow), {
+			systemFingerprint: 'breakpoints',
+			toolVersion: '0.2.0',
+			stylesheets: ['./system.css'],
+		});
+
+		expect(contract.globals.viewports.map((viewport) => viewport.id)).toEqual(['xs', 'md', 'lg']);
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * Breakpoint token generator
+ *
+ * Emits named viewport and container widths, narrowest first, and the media
+ * conditions that bind size override modes to viewport breakpoints
+ */
+
+import type { BreakpointSystem, PartialDesignSystem, ViewportWidth } from '../types.js';
+import type { BreakpointContract, GeneratorConfig, TokenValue } from './types.js';
+
+/** The min-width condition a breakpoint starts at. */
+export function breakpointQuery(width: number): string {
+	return `(width >= ${width}px)`;
+}
+
+/** Resolve a viewport width in px or a viewport breakpoint name to px. */
+export function viewportWidth(width: ViewportWidth, breakpoints?: BreakpointSystem): number {
+	return typeof width === 'number' ? width : breakpoints!.viewport[width]!;
+}
+
+function ascending(widths: Record<string, number> = {}): Array<[string, number]> {
+	return Object.entries(widths).sort(([, left], [, right]) => left - right);
+}
+
+/**
+ * Generate breakpoint tokens. Breakpoints are root tokens and have no modes.
+ */
+export function generateBreakpointTokens(
+	breakpoints: BreakpointSystem,
+	config: GeneratorConfig
+): TokenValue[] {
+	return [
+		...ascending(breakpoints.viewport).map(([name, width]) => ({
+			name: `${config.prefixes.breakpoint}-${name}`,
+			width,
+			kind: 'viewport' as const,
+		})),
+		...ascending(breakpoints.container).map(([name, width]) => ({
+			name: `${config.prefixes.container}-${name}`,
+			width,
+			kind: 'container' as const,
+		})),
+	].map(({ name, width, kind }): TokenValue => ({
+		family: 'breakpoint',
+		name,
+		value: `${width}px`,
+		rawValue: width,
+		unit: 'px',
+		metadata: { breakpointKind: kind },
+	}));
+}
+
+/** Structured breakpoints for custom media, typed constants, and review viewports. */
+export function generateBreakpointContract(
+	breakpoints: BreakpointSystem,
+	config: GeneratorConfig
+): BreakpointContract {
+	return {
+		viewport: Object.fromEntries(
+			ascending(breakpoints.viewport).map(([name, width]) => {
+				const token = `${config.prefixes.breakpoint}-${name}`;
+				return [name, { token, width, query: breakpointQuery(width), customMedia: `--${token}` }];
+			})
+		),
+		container: Object.fromEntries(
+			ascending(breakpoints.container).map(([name, width]) => [
+				name,
+				{
+					token: `${config.prefixes.container}-${name}`,
+					width,
+					query: breakpointQuery(width),
+				},
+			])
+		),
+	};
+}
+
+/**
+ * The condition of each breakpoint-bound size override mode, narrowest first
+ * so a wider breakpoint's block wins the cascade.
+ */
+export function sizeModeMediaConditions(
+	designSystem: PartialDesignSystem
+): Record<string, string> | undefined {
+	const viewport = designSystem.breakpoints?.viewport;
+	if (!viewport) return undefined;
+	const bound = new Map<string, string>();
+	for (const mode of [
+		...(designSystem.spacing?.modes ?? []),
+		...(designSystem.gap?.modes ?? []),
+		...(designSystem.typography?.modes ?? []),
+		...(designSystem.border?.radius?.modes ?? []),
+		...(designSystem.border?.width?.modes ?? []),
+		...(designSystem.sizing?.modes ?? []),
+	]) {
+		if (mode.breakpoint !== undefined) bound.set(mode.name, mode.breakpoint);
+	}
+	if (bound.size === 0) return undefined;
+	return Object.fromEntries(
+		[...bound]
+			.sort(([, left], [, right]) => viewport[left]! - viewport[right]!)
+			.map(([modeName, breakpoint]) => [modeName, breakpointQuery(viewport[breakpoint]!)])
+	);
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateColorTokens } from './colors.js';
+import { generateColorTokens, generateSemanticColorContract } from './colors.js';
 import { defaultGeneratorConfig } from './types.js';
 import type { DesignSystem, AlphaSchedule } from '../types.js';
 
@@ -179,6 +179,150 @@ describe('generateColorTokens', () => {
 		});
 	});
 
+	describe('mode inheritance chains', () => {
+		const chainedColors: DesignSystem['colors'] = {
+			alphaSchedule: { lo: 0.25 },
+			semantic: { 'text-muted': { color: 'ink', alpha: 'lo', modes: { light: { color: 'ink' } } } },
+			modes: [
+				{
+					name: 'dark',
+					isDefault: true,
+					tokens: {
+						bg: { mode: 'oklch', l: 0.15, c: 0, h: 0 },
+						ink: { mode: 'oklch', l: 0.95, c: 0, h: 0 },
+						primary: { mode: 'oklch', l: 0.7, c: 0.15, h: 250 },
+					},
+				},
+				{
+					name: 'light-high-contrast',
+					extends: 'light',
+					alphaSchedule: { lo: 0.4 },
+					tokens: { ink: { mode: 'oklch', l: 0, c: 0, h: 0 } },
+				},
+				{
+					name: 'light',
+					tokens: {
+						bg: { mode: 'oklch', l: 0.98, c: 0, h: 0 },
+						ink: { mode: 'oklch', l: 0.2, c: 0, h: 0 },
+					},
+				},
+			],
+		};
+
+		it('re-declares colors authored along the chain so each mode block stands alone', () => {
+			const result = generateColorTokens(chainedColors, defaultGeneratorConfig);
+			const values = (mode: string) =>
+				Object.fromEntries(result.overrideTokens[mode]!.map((token) => [token.name, token.value]));
+
+			expect(values('light-high-contrast')).toEqual({
+				'clr-bg': 'oklch(0.9800 0.0000 0.00)',
+				'clr-bg-a-lo': 'oklch(0.9800 0.0000 0.00 / 0.4000)',
+				'clr-ink': 'oklch(0.0000 0.0000 0.00)',
+				'clr-ink-a-lo': 'oklch(0.0000 0.0000 0.00 / 0.4000)',
+				'clr-text-muted': 'var(--clr-ink)',
+			});
+			// Colors only the default mode authors still come from :root.
+			expect(values('light')['clr-primary']).toBeUndefined();
+		});
+
+		it('inherits per-mode semantic targets along the chain', () => {
+			const contract = generateSemanticColorContract(chainedColors, defaultGeneratorConfig);
+
+			expect(contract['text-muted']?.modes).toMatchObject({
+				dark: { token: 'clr-ink-a-lo' },
+				light: { token: 'clr-ink' },
+				'light-high-contrast': { token: 'clr-ink' },
+			});
+		});
+	});
+
+	describe('prefers-color-scheme binding', () => {
+		it('binds scheme-declaring override modes to their media condition and records polarity', () => {
+			const result = generateColorTokens(
+				{
+					alphaSchedule: { lo: 0.25 },
+					modes: [
+						{
+							name: 'dark',
+							isDefault: true,
+							colorScheme: 'dark',
+							metadata: { polarity: 'negative' },
+							tokens: { bg: { mode: 'oklch', l: 0.15, c: 0, h: 0 } },
+						},
+						{
+							name: 'light',
+							colorScheme: 'light',
+							tokens: { bg: { mode: 'oklch', l: 0.98, c: 0, h: 0 } },
+						},
+						{ name: 'dim', tokens: { bg: { mode: 'oklch', l: 0.3, c: 0, h: 0 } } },
+					],
+				},
+				defaultGeneratorConfig
+			);
+
+			// The default scheme needs no media block: :root already applies it.
+			expect(result.modeInfo.mediaConditions).toEqual({
+				light: '(prefers-color-scheme: light)',
+			});
+			expect(result.modeInfo.polarities).toEqual({ dark: 'negative' });
+		});
+	});
+
+	describe('contrast preferences', () => {
+		it('refines each mode with the preferences it authors or inherits', () => {
+			const result = generateColorTokens(
+				{
+					alphaSchedule: { lo: 0.25 },
+					modes: [
+						{
+							name: 'dark',
+							isDefault: true,
+							tokens: {
+								bg: { mode: 'oklch', l: 0.2, c: 0, h: 0 },
+								ink: { mode: 'oklch', l: 0.85, c: 0, h: 0 },
+								pri: { mode: 'oklch', l: 0.6, c: 0.1, h: 250 },
+							},
+							preferences: {
+								moreContrast: {
+									ink: { mode: 'oklch', l: 1, c: 0, h: 0 },
+									pri: { mode: 'oklch', l: 0.8, c: 0.1, h: 250 },
+								},
+								forcedColors: { bg: 'Canvas', ink: 'CanvasText' },
+							},
+						},
+						{
+							name: 'light',
+							tokens: {
+								bg: { mode: 'oklch', l: 0.98, c: 0, h: 0 },
+								ink: { mode: 'oklch', l: 0.3, c: 0, h: 0 },
+							},
+						},
+					],
+				},
+				defaultGeneratorConfig
+			);
+			const names = (tokens: Array<{ name: string; value: string }> | undefined) =>
+				Object.fromEntries((tokens ?? []).map((token) => [token.name, token.value]));
+
+			expect(result.modeInfo.refinementConditions).toEqual([
+				'(prefers-contrast: more)',
+				'(forced-colors: active)',
+			]);
+			expect(
+				Object.keys(names(result.refinementTokens?.dark?.['(prefers-contrast: more)']))
+			).toEqual(['clr-ink', 'clr-ink-a-lo', 'clr-pri', 'clr-pri-a-lo']);
+			// Light authors its own ink, so only the inherited pri keeps the default refinement.
+			expect(
+				Object.keys(names(result.refinementTokens?.light?.['(prefers-contrast: more)']))
+			).toEqual(['clr-pri', 'clr-pri-a-lo']);
+			// Forced-color roles carry over regardless of the values a mode authors.
+			expect(names(result.refinementTokens?.light?.['(forced-colors: active)'])).toEqual({
+				'clr-bg': 'Canvas',
+				'clr-ink': 'CanvasText',
+			});
+		});
+	});
+
 	describe('alpha schedule override', () => {
 		it('allows mode-specific alpha schedule', () => {
 			const colorsWithModeSchedule: DesignSystem['colors'] = {
@@ -214,4 +358,239 @@ describe('generateColorTokens', () => {
 			expect(bgAlphaMin?.rawValue).toBe(0.1); // Uses mode-specific schedule
 		});
 	});
+	describe('alpha flattening', () => {
+		const flattenedColors: DesignSystem['colors'] = {
+			alphaSchedule: { lo: 0.25, hi: 0.75 },
+			flattenAlpha: { surfaces: ['bg', 'ev'] },
+			modes: [
+				{
+					name: 'light',
+					isDefault: true,
+					tokens: {
+						bg: { mode: 'oklch', l: 1, c: 0, h: 0 },
+						ev: { mode: 'oklch', l: 0.9, c: 0, h: 0 },
+						ink: { mode: 'oklch', l: 0, c: 0, h: 0 },
+					},
+				},
+				{
+					name: 'dark',
+					tokens: { bg: { mode: 'oklch', l: 0, c: 0, h: 0 } },
+				},
+			],
+		};
+
+		it('composites every alpha variant over each surface into opaque tokens', () => {
+			const result = generateColorTokens(flattenedColors, defaultGeneratorConfig);
+			const flattened = result.defaultTokens.filter((t) => t.metadata?.surfaceColor);
+
+			expect(flattened.map((t) => t.name)).toEqual([
+				'clr-bg-a-lo-on-ev',
+				'clr-bg-a-hi-on-ev',
+				'clr-ev-a-lo-on-bg',
+				'clr-ev-a-hi-on-bg',
+				'clr-ink-a-lo-on-bg',
+				'clr-ink-a-hi-on-bg',
+				'clr-ink-a-lo-on-ev',
+				'clr-ink-a-hi-on-ev',
+			]);
+			const inkOnBg = result.defaultTokens.find((t) => t.name === 'clr-ink-a-hi-on-bg');
+			expect(inkOnBg?.value).not.toContain('/');
+			expect(inkOnBg?.rawValue).toBe(0.75);
+			expect(inkOnBg?.metadata).toEqual({
+				alphaLevel: 'hi',
+				baseColor: 'ink',
+				surfaceColor: 'bg',
+			});
+		});
+
+		it('re-emits pairs in override modes that author either the color or the surface', () => {
+			const result = generateColorTokens(flattenedColors, defaultGeneratorConfig);
+			const dark = result.overrideTokens['dark']!.filter((t) => t.metadata?.surfaceColor);
+
+			expect(dark.map((t) => t.name)).toEqual([
+				'clr-bg-a-lo-on-ev',
+				'clr-bg-a-hi-on-ev',
+				'clr-ev-a-lo-on-bg',
+				'clr-ev-a-hi-on-bg',
+				'clr-ink-a-lo-on-bg',
+				'clr-ink-a-hi-on-bg',
+			]);
+			// Black ink composited over a black surface stays black.
+			expect(dark.find((t) => t.name === 'clr-ink-a-lo-on-bg')?.value).toBe(
+				result.overrideTokens['dark']!.find((t) => t.name === 'clr-bg')?.value
+			);
+		});
+	});
+	describe('mix schedule', () => {
+		const mixColors: DesignSystem['colors'] = {
+			alphaSchedule: { lo: 0.25 },
+			mixSchedule: { surface: 'bg', levels: { lo: 0.25 } },
+			modes: [
+				{
+					name: 'light',
+					isDefault: true,
+					tokens: {
+						bg: { mode: 'oklch', l: 1, c: 0, h: 0 },
+						pri: { mode: 'oklch', l: 0.6, c: 0.2, h: 250 },
+						ink: { mode: 'oklch', l: 0.2, c: 0, h: 0 },
+					},
+				},
+				{
+					name: 'dark',
+					tokens: { ink: { mode: 'oklch', l: 0.9, c: 0, h: 0 } },
+				},
+				{
+					name: 'dim',
+					tokens: { bg: { mode: 'oklch', l: 0.2, c: 0, h: 0 } },
+				},
+			],
+		};
+
+		it('mixes each color toward the surface with a precomputed value and color-mix()', () => {
+			const result = generateColorTokens(mixColors, defaultGeneratorConfig);
+			const pri = result.defaultTokens.find((t) => t.name === 'clr-pri-mix-lo');
+
+			// The achromatic surface takes the color's hue instead of pulling it toward 0.
+			expect(pri?.value).toBe('oklch(0.9000 0.0500 250.00)');
+			expect(pri?.rawValue).toBe(0.25);
+			expect(pri?.metadata).toEqual({
+				mixLevel: 'lo',
+				baseColor: 'pri',
+				surfaceColor: 'bg',
+				colorMix: 'color-mix(in oklch, var(--clr-pri) 25%, var(--clr-bg))',
+			});
+			expect(result.defaultTokens.find((t) => t.name === 'clr-bg-mix-lo')).toBeUndefined();
+		});
+
+		it('recomputes variants in modes that author the color or the surface', () => {
+			const result = generateColorTokens(mixColors, defaultGeneratorConfig);
+			const mixNames = (mode: string) =>
+				result.overrideTokens[mode]!.filter((t) => t.metadata?.mixLevel).map((t) => t.name);
+
+			expect(mixNames('dark')).toEqual(['clr-ink-mix-lo']);
+			expect(mixNames('dim')).toEqual(['clr-pri-mix-lo', 'clr-ink-mix-lo']);
+			expect(result.overrideTokens['dim']!.find((t) => t.name === 'clr-pri-mix-lo')?.value).toBe(
+				'oklch(0.3000 0.0500 250.00)'
+			);
+		});
+
+		it('leaves hex output precomputed', () => {
+			const result = generateColorTokens(mixColors, {
+				...defaultGeneratorConfig,
+				colorFormat: { ...defaultGeneratorConfig.colorFormat, base: 'hex' },
+			});
+			const pri = result.defaultTokens.find((t) => t.name === 'clr-pri-mix-lo');
+
+			expect(pri?.value).toMatch(/^#[0-9a-f]{6}$/);
+			expect(pri?.metadata?.colorMix).toBeUndefined();
+		});
+	});
+	describe('state layers', () => {
+		const stateColors: DesignSystem['colors'] = {
+			alphaSchedule: { lo: 0.25 },
+			states: { overlays: { pri: 'on' }, levels: { hover: 0.08 } },
+			modes: [
+				{
+					name: 'light',
+					isDefault: true,
+					tokens: {
+						bg: { mode: 'oklch', l: 1, c: 0, h: 0 },
+						on: { mode: 'oklch', l: 1, c: 0, h: 0 },
+						pri: { mode: 'oklch', l: 0.45, c: 0.15, h: 260 },
+					},
+				},
+				{
+					name: 'dark',
+					tokens: { on: { mode: 'oklch', l: 0, c: 0, h: 0 } },
+				},
+				{
+					name: 'dim',
+					tokens: { bg: { mode: 'oklch', l: 0.2, c: 0, h: 0 } },
+				},
+			],
+		};
+
+		it('emits the opaque state color and its translucent overlay', () => {
+			const result = generateColorTokens(stateColors, defaultGeneratorConfig);
+			const state = (name: string) => result.defaultTokens.find((t) => t.name === name);
+
+			expect(state('clr-pri-state-hover')).toEqual({
+				family: 'color',
+				name: 'clr-pri-state-hover',
+				value: 'oklch(0.4923 0.1374 259.78)',
+				rawValue: 0.08,
+				metadata: { stateColor: 'pri', stateLevel: 'hover', stateOverlay: 'on' },
+			});
+			expect(state('clr-pri-state-hover-layer')).toMatchObject({
+				value: 'oklch(1.0000 0.0000 0.00 / 0.0800)',
+				metadata: { stateColor: 'pri', isStateLayer: true },
+			});
+		});
+
+		it('recomputes states in modes that author the color or the overlay', () => {
+			const result = generateColorTokens(stateColors, defaultGeneratorConfig);
+			const stateNames = (mode: string) =>
+				(result.overrideTokens[mode] ?? [])
+					.filter((t) => t.metadata?.stateLevel)
+					.map((t) => t.name);
+
+			expect(stateNames('dark')).toEqual(['clr-pri-state-hover', 'clr-pri-state-hover-layer']);
+			expect(
+				result.overrideTokens['dark']!.find((t) => t.name === 'clr-pri-state-hover')?.value
+			).toBe('oklch(0.4247 0.1402 259.98)');
+			expect(stateNames('dim')).toEqual([]);
+		});
+	});
+	describe('semantic aliases', () => {
+		const semanticColors: DesignSystem['colors'] = {
+			alphaSchedule: { lo: 0.25, hi: 0.75 },
+			semantic: {
+				'text-muted': { color: 'ink', alpha: 'hi' },
+				'surface-hover': {
+					color: 'ink',
+					alpha: 'lo',
+					modes: { dark: { color: 'bg', alpha: 'hi' } },
+				},
+			},
+			modes: [
+				{
+					name: 'light',
+					isDefault: true,
+					tokens: {
+						bg: { mode: 'oklch', l: 1, c: 0, h: 0 },
+						ink: { mode: 'oklch', l: 0.2, c: 0, h: 0 },
+					},
+				},
+				{ name: 'dark', tokens: {} },
+			],
+		};
+
+		it('emits aliases as var() references to the underlying color tokens', () => {
+			const result = generateColorTokens(semanticColors, defaultGeneratorConfig);
+
+			expect(result.defaultTokens.find((t) => t.name === 'clr-text-muted')).toEqual({
+				family: 'color',
+				name: 'clr-text-muted',
+				value: 'var(--clr-ink-a-hi)',
+				reference: 'clr-ink-a-hi',
+				metadata: { semanticColor: 'text-muted' },
+			});
+		});
+
+		it('re-declares every alias in each override mode with its mode reference', () => {
+			const result = generateColorTokens(semanticColors, defaultGeneratorConfig);
+
+			expect(result.overrideTokens['dark']!.map((t) => [t.name, t.value])).toEqual([
+				['clr-text-muted', 'var(--clr-ink-a-hi)'],
+				['clr-surface-hover', 'var(--clr-bg-a-hi)'],
+			]);
+			expect(
+				generateSemanticColorContract(semanticColors, defaultGeneratorConfig)['surface-hover']
+					?.modes
+			).toEqual({
+				light: { name: 'ink', alpha: 'lo', token: 'clr-ink-a-lo', css: 'var(--clr-ink-a-lo)' },
+				dark: { name: 'bg', alpha: 'hi', token: 'clr-bg-a-hi', css: 'var(--clr-bg-a-hi)' },
+			});
+		});
+	});
 });
@@ -4,16 +4,31 @@
  * Generates color tokens with alpha variants based on schedule
  */
 
-import type { DesignSystem, ColorMode, AlphaSchedule } from '../types.js';
-import type { TokenValue, GeneratorResult, GeneratorConfig } from './types.js';
+import { compositeOver } from '../constraints/srgb.js';
+import type {
+	DesignSystem,
+	ColorReference,
+	ColorTokens,
+	AlphaSchedule,
+	MixSchedule,
+	SemanticColor,
+	StateLayerSchedule,
+} from '../types.js';
+import type {
+	TokenValue,
+	GeneratorResult,
+	GeneratorConfig,
+	ResolvedColorMode,
+	SemanticColorContract,
+} from './types.js';
 import { formatColor, formatColorWithAlpha } from '../utils.js';
-import { getDefaultEntry } from './utils.js';
+import { colorReference, getDefaultEntry, resolveColorModes, resolveStateLayers } from './utils.js';
 
 /**
- * Generate tokens for a single color mode
+ * Generate tokens for the colors a single color mode declares
  */
 function generateTokensForMode(
-	mode: ColorMode & { name: string },
+	modeTokens: ColorTokens,
 	alphaSchedule: AlphaSchedule | undefined,
 	config: GeneratorConfig
 ): TokenValue[] {
@@ -21,7 +36,7 @@ function generateTokensForMode(
 	const { alphaModifier } = config.colorFormat;
 	const tokens: TokenValue[] = [];
 
-	Object.entries(mode.tokens).forEach(([colorName, color]) => {
+	Object.entries(modeTokens).forEach(([colorName, color]) => {
 		// Skip undefined tokens (happens with partial override modes)
 		if (!color) return;
 
@@ -55,47 +70,442 @@ function generateTokensForMode(
 	return tokens;
 }
 
+/** Emit a derived pair when a mode authors either of its two colors. */
+function eitherSide(owns: (colorName: string) => boolean) {
+	return (colorName: string, surfaceName: string) => owns(colorName) || owns(surfaceName);
+}
+
+/**
+ * Generate opaque tokens for every alpha variant composited over each surface.
+ *
+ * `emits` decides which color/surface pairs a mode emits. A mode block emits a
+ * pair when it authors either side, because changing either changes the result.
+ */
+function generateFlattenedTokens(
+	palette: ColorTokens,
+	surfaces: readonly string[],
+	scheduleFor: (colorName: string) => AlphaSchedule | undefined,
+	emits: (colorName: string, surfaceName: string) => boolean,
+	config: GeneratorConfig
+): TokenValue[] {
+	const prefix = config.prefixes.color;
+	const { alphaModifier } = config.colorFormat;
+	const tokens: TokenValue[] = [];
+
+	Object.entries(palette).forEach(([colorName, color]) => {
+		for (const surfaceName of surfaces) {
+			const surface = palette[surfaceName];
+			if (!surface || surfaceName === colorName) continue;
+			if (!emits(colorName, surfaceName)) continue;
+			Object.entries(scheduleFor(colorName) ?? {}).forEach(([level, alpha]) => {
+				tokens.push({
+					family: 'color',
+					name: `${prefix}-${colorName}-${alphaModifier}-${level}-on-${surfaceName}`,
+					value: formatColor(
+						{ mode: 'oklch', ...compositeOver(color, alpha, surface) },
+						config.colorFormat.base
+					),
+					rawValue: alpha,
+					metadata: {
+						alphaLevel: level,
+						baseColor: colorName,
+						surfaceColor: surfaceName,
+					},
+				});
+			});
+		}
+	});
+
+	return tokens;
+}
+
+type OklchColor = ColorTokens[string];
+
+/**
+ * Interpolate `color` toward `surface` in OKLCH along the shorter hue arc, as
+ * `color-mix(in oklch, color weight, surface)` does. An achromatic side has
+ * no hue of its own and takes the other side's.
+ */
+function mixOklch(color: OklchColor, weight: number, surface: OklchColor): OklchColor {
+	const colorHue = color.c ? (color.h ?? 0) : (surface.h ?? 0);
+	const surfaceHue = surface.c ? (surface.h ?? 0) : colorHue;
+	const delta = ((((surfaceHue - colorHue) % 360) + 540) % 360) - 180;
+	return {
+		mode: 'oklch',
+		l: color.l * weight + surface.l * (1 - weight),
+		c: color.c * weight + surface.c * (1 - weight),
+		h: (((colorHue + delta * (1 - weight)) % 360) + 360) % 360,
+	};
+}
+
+/**
+ * Generate opaque variants mixing each color toward the schedule's surface.
+ * `emits` works as for flattened tokens. OKLCH output also records the
+ * equivalent `color-mix()` so CSS follows base colors live.
+ */
+function generateMixTokens(
+	palette: ColorTokens,
+	mixSchedule: MixSchedule | undefined,
+	emits: (colorName: string, surfaceName: string) => boolean,
+	config: GeneratorConfig
+): TokenValue[] {
+	const surface = mixSchedule && palette[mixSchedule.surface];
+	if (!mixSchedule || !surface) return [];
+	const prefix = config.prefixes.color;
+	const { base, mixModifier } = config.colorFormat;
+	const tokens: TokenValue[] = [];
+
+	Object.entries(palette).forEach(([colorName, color]) => {
+		if (colorName === mixSchedule.surface) return;
+		if (!emits(colorName, mixSchedule.surface)) return;
+		Object.entries(mixSchedule.levels).forEach(([level, weight]) => {
+			const percentage = Number((weight * 100).toFixed(4));
+			tokens.push({
+				family: 'color',
+				name: `${prefix}-${colorName}-${mixModifier}-${level}`,
+				value: formatColor(mixOklch(color, weight, surface), base),
+				rawValue: weight,
+				metadata: {
+					mixLevel: level,
+					baseColor: colorName,
+					surfaceColor: mixSchedule.surface,
+					...(base === 'oklch'
+						? {
+								colorMix: `color-mix(in oklch, var(--${prefix}-${colorName}) ${percentage}%, var(--${prefix}-${mixSchedule.surface}))`,
+							}
+						: {}),
+				},
+			});
+		});
+	});
+
+	return tokens;
+}
+
+/**
+ * Generate the opaque state color and the translucent overlay behind it for
+ * every `colors.states` level. `emits` works as for flattened tokens, with the
+ * overlay color in the surface's place.
+ */
+function generateStateTokens(
+	palette: ColorTokens,
+	states: StateLayerSchedule | undefined,
+	emits: (colorName: string, overlayName: string) => boolean,
+	config: GeneratorConfig
+): TokenValue[] {
+	const prefix = config.prefixes.color;
+	const { base, alpha: alphaFormat, stateModifier } = config.colorFormat;
+
+	return resolveStateLayers(palette, states).flatMap((state) => {
+		if (!emits(state.color, state.overlay)) return [];
+		const name = `${prefix}-${state.color}-${stateModifier}-${state.level}`;
+		const metadata = {
+			stateColor: state.color,
+			stateLevel: state.level,
+			stateOverlay: state.overlay,
+		};
+		return [
+			{
+				family: 'color',
+				name,
+				value: formatColor(state.value, base),
+				rawValue: state.alpha,
+				metadata,
+			},
+			{
+				family: 'color',
+				name: `${name}-layer`,
+				value: formatColorWithAlpha(palette[state.overlay]!, state.alpha, alphaFormat),
+				rawValue: state.alpha,
+				metadata: { ...metadata, isStateLayer: true },
+			},
+		] satisfies TokenValue[];
+	});
+}
+
+/**
+ * Resolve where a semantic alias points in a mode. A per-mode target also
+ * applies to modes that extend it; the default mode's target does not, since
+ * every chain ends there.
+ */
+function semanticTarget(entry: SemanticColor, mode: ResolvedColorMode): ColorReference {
+	const source = [mode.name, ...mode.lineage.slice(0, -1)].find((name) => entry.modes?.[name]);
+	return source ? entry.modes![source]! : entry;
+}
+
+/**
+ * Generate `var()` aliases for `colors.semantic` as they resolve in one mode.
+ */
+function generateSemanticTokens(
+	semantic: DesignSystem['colors']['semantic'],
+	mode: ResolvedColorMode,
+	config: GeneratorConfig
+): TokenValue[] {
+	return Object.entries(semantic ?? {}).map(([name, entry]) => {
+		const target = colorReference(semanticTarget(entry, mode), config);
+		return {
+			family: 'color',
+			name: `${config.prefixes.color}-${name}`,
+			value: target.css,
+			reference: target.token,
+			metadata: { semanticColor: name },
+		};
+	});
+}
+
+const moreContrastCondition = '(prefers-contrast: more)';
+const forcedColorsCondition = '(forced-colors: active)';
+
+/**
+ * Generate a mode's `moreContrast` refinement: the refined colors and every
+ * variant derived from them, over the palette the refinement renders.
+ */
+function generateMoreContrastTokens(
+	colors: DesignSystem['colors'],
+	mode: ResolvedColorMode,
+	defaultAlphaSchedule: AlphaSchedule | undefined,
+	config: GeneratorConfig
+): TokenValue[] {
+	const palette = { ...mode.palette, ...mode.moreContrast };
+	const owns = (colorName: string) => colorName in mode.moreContrast;
+	// As in the mode block, colors inherited from the default keep its schedule.
+	const authored = (colorName: string) => mode.lineage.length === 0 || colorName in mode.tokens;
+	const scheduleFor = (colorName: string) =>
+		authored(colorName) ? mode.alphaSchedule : defaultAlphaSchedule;
+	const refined = (predicate: (colorName: string) => boolean) =>
+		Object.fromEntries(
+			Object.entries(mode.moreContrast).filter(([colorName]) => predicate(colorName))
+		);
+	return [
+		...generateTokensForMode(refined(authored), mode.alphaSchedule, config),
+		...generateTokensForMode(
+			refined((colorName) => !authored(colorName)),
+			defaultAlphaSchedule,
+			config
+		),
+		...generateFlattenedTokens(
+			palette,
+			colors.flattenAlpha?.surfaces ?? [],
+			scheduleFor,
+			eitherSide(owns),
+			config
+		),
+		...generateMixTokens(palette, colors.mixSchedule, eitherSide(owns), config),
+		...generateStateTokens(palette, colors.states, eitherSide(owns), config),
+	];
+}
+
 /**
- * Get the alpha schedule for a mode, falling back to system default
+ * Generate a mode's `forcedColors` refinement. Only base colors take system
+ * colors; the browser repaints most color properties in forced-colors mode.
  */
-function getAlphaSchedule(
-	mode: ColorMode & { name: string },
-	systemAlphaSchedule: AlphaSchedule | undefined
-): AlphaSchedule | undefined {
-	return mode.alphaSchedule || systemAlphaSchedule;
+function generateForcedColorTokens(mode: ResolvedColorMode, config: GeneratorConfig): TokenValue[] {
+	return Object.entries(mode.forcedColors).map(([colorName, systemColor]) => ({
+		family: 'color',
+		name: `${config.prefixes.color}-${colorName}`,
+		value: systemColor,
+		metadata: { baseColor: colorName },
+	}));
+}
+
+/**
+ * Generate the derived tokens a mode-axis member such as a brand shares with
+ * one color mode: pairs where the axis mode authors one side and the color
+ * mode the other. Either block alone would resolve the other side from the
+ * default palette, so these are declared where both modes are selected.
+ */
+function generateAxisColorTokens(
+	colors: DesignSystem['colors'],
+	axisMode: ResolvedColorMode,
+	colorMode: ResolvedColorMode,
+	defaultAlphaSchedule: AlphaSchedule | undefined,
+	config: GeneratorConfig
+): TokenValue[] {
+	const palette = { ...colorMode.palette, ...axisMode.tokens };
+	const axisOwns = (colorName: string) => colorName in axisMode.tokens;
+	const colorOwns = (colorName: string) => colorName in colorMode.tokens && !axisOwns(colorName);
+	const emits = (colorName: string, surfaceName: string) =>
+		(axisOwns(colorName) && colorOwns(surfaceName)) ||
+		(colorOwns(colorName) && axisOwns(surfaceName));
+	const scheduleFor = (colorName: string) =>
+		axisOwns(colorName)
+			? axisMode.alphaSchedule
+			: colorOwns(colorName)
+				? colorMode.alphaSchedule
+				: defaultAlphaSchedule;
+	return [
+		...generateFlattenedTokens(
+			palette,
+			colors.flattenAlpha?.surfaces ?? [],
+			scheduleFor,
+			emits,
+			config
+		),
+		...generateMixTokens(palette, colors.mixSchedule, emits, config),
+		...generateStateTokens(palette, colors.states, emits, config),
+	];
 }
 
 /**
  * Generate all color tokens from a DesignSystem
  *
  * Default mode generates all tokens (placed in :root).
- * Override modes only generate tokens for explicitly defined colors
- * (CSS cascade handles inheritance from :root).
+ * Override modes generate tokens for the colors they and their `extends` chain
+ * define (CSS cascade handles inheritance from :root). Mode selectors apply
+ * one at a time, so a chained mode re-declares its parents' colors rather than
+ * relying on the parent's block.
+ *
+ * Members of a mode axis (`axisModes`) layer over whichever color mode applies.
+ * Their blocks resolve derived pairs over the default palette, and each pair
+ * that also depends on an override color mode is generated again per color mode.
  */
 export function generateColorTokens(
 	colors: DesignSystem['colors'],
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	axisModes: ReadonlySet<string> = new Set()
 ): GeneratorResult {
 	const defaultMode = getDefaultEntry(colors.modes);
 	const overrideModes = colors.modes.filter((m) => m !== defaultMode);
+	const resolvedModes = resolveColorModes(colors);
+	const resolvedDefault = resolvedModes[colors.modes.indexOf(defaultMode)]!;
+
+	const defaultAlphaSchedule = resolvedDefault.alphaSchedule;
+	const defaultTokens = generateTokensForMode(defaultMode.tokens, defaultAlphaSchedule, config);
+	const surfaces = colors.flattenAlpha?.surfaces ?? [];
+	defaultTokens.push(
+		...generateFlattenedTokens(
+			defaultMode.tokens,
+			surfaces,
+			() => defaultAlphaSchedule,
+			() => true,
+			config
+		),
+		...generateMixTokens(defaultMode.tokens, colors.mixSchedule, () => true, config),
+		...generateStateTokens(defaultMode.tokens, colors.states, () => true, config)
+	);
 
-	const defaultAlphaSchedule = getAlphaSchedule(defaultMode, colors.alphaSchedule);
-	const defaultTokens = generateTokensForMode(defaultMode, defaultAlphaSchedule, config);
+	defaultTokens.push(...generateSemanticTokens(colors.semantic, resolvedDefault, config));
 
 	const overrideTokens: Record<string, TokenValue[]> = {};
 	for (const mode of overrideModes) {
-		if (Object.keys(mode.tokens).length > 0) {
-			const modeAlphaSchedule = getAlphaSchedule(mode, defaultAlphaSchedule);
-			overrideTokens[mode.name] = generateTokensForMode(mode, modeAlphaSchedule, config);
+		const resolved = resolvedModes[colors.modes.indexOf(mode)]!;
+		const modeTokens: TokenValue[] = [];
+		if (Object.keys(resolved.tokens).length > 0) {
+			const modeAlphaSchedule = resolved.alphaSchedule;
+			const owns = (colorName: string) => colorName in resolved.tokens;
+			modeTokens.push(
+				...generateTokensForMode(resolved.tokens, modeAlphaSchedule, config),
+				// Inherited colors keep the default schedule's variants through the cascade.
+				...generateFlattenedTokens(
+					resolved.palette,
+					surfaces,
+					(colorName) => (owns(colorName) ? modeAlphaSchedule : defaultAlphaSchedule),
+					eitherSide(owns),
+					config
+				),
+				...generateMixTokens(resolved.palette, colors.mixSchedule, eitherSide(owns), config),
+				...generateStateTokens(resolved.palette, colors.states, eitherSide(owns), config)
+			);
+		}
+		// Every mode re-declares its aliases: a custom property resolves var() where it is
+		// declared, so an alias inherited from :root would ignore a nested mode's colors.
+		modeTokens.push(...generateSemanticTokens(colors.semantic, resolved, config));
+		if (modeTokens.length > 0) overrideTokens[mode.name] = modeTokens;
+	}
+
+	const axisColorTokens: Record<string, Record<string, TokenValue[]>> = {};
+	const colorModes = overrideModes.filter((mode) => !axisModes.has(mode.name));
+	for (const mode of overrideModes.filter((mode) => axisModes.has(mode.name))) {
+		const resolved = resolvedModes[colors.modes.indexOf(mode)]!;
+		for (const colorMode of colorModes) {
+			const tokens = generateAxisColorTokens(
+				colors,
+				resolved,
+				resolvedModes[colors.modes.indexOf(colorMode)]!,
+				defaultAlphaSchedule,
+				config
+			);
+			if (tokens.length > 0) (axisColorTokens[mode.name] ??= {})[colorMode.name] = tokens;
 		}
 	}
 
+	const refinementTokens: Record<string, Record<string, TokenValue[]>> = {};
+	for (const mode of resolvedModes) {
+		const refinements: Record<string, TokenValue[]> = {
+			...(Object.keys(mode.moreContrast).length > 0
+				? {
+						[moreContrastCondition]: generateMoreContrastTokens(
+							colors,
+							mode,
+							defaultAlphaSchedule,
+							config
+						),
+					}
+				: {}),
+			...(Object.keys(mode.forcedColors).length > 0
+				? { [forcedColorsCondition]: generateForcedColorTokens(mode, config) }
+				: {}),
+		};
+		if (Object.keys(refinements).length > 0) refinementTokens[mode.name] = refinements;
+	}
+	const refinementConditions = [moreContrastCondition, forcedColorsCondition].filter((condition) =>
+		Object.values(refinementTokens).some((refinements) => condition in refinements)
+	);
+
+	const mediaConditions = Object.fromEntries(
+		overrideModes.flatMap((mode) =>
+			!mode.isDefault && mode.colorScheme && overrideTokens[mode.name]
+				? [[mode.name, `(prefers-color-scheme: ${mode.colorScheme})`]]
+				: []
+		)
+	);
+
+	const polarities: Record<string, 'negative' | 'positive'> = {};
+	for (const mode of colors.modes) {
+		const polarity = mode.metadata?.polarity;
+		if (polarity === 'negative' || polarity === 'positive') polarities[mode.name] = polarity;
+	}
+
 	return {
 		defaultTokens,
 		overrideTokens,
 		modeInfo: {
 			default: defaultMode.name,
 			overrides: overrideModes.map((m) => m.name),
+			...(Object.keys(mediaConditions).length > 0 ? { mediaConditions } : {}),
+			...(Object.keys(polarities).length > 0 ? { polarities } : {}),
+			...(refinementConditions.length > 0 ? { refinementConditions } : {}),
 		},
+		...(refinementConditions.length > 0 ? { refinementTokens } : {}),
+		...(Object.keys(axisColorTokens).length > 0 ? { axisColorTokens } : {}),
 	};
 }
+
+/**
+ * Describe every semantic alias and the color reference it resolves to in each
+ * color mode, for typed consumers and the workbench.
+ */
+export function generateSemanticColorContract(
+	colors: DesignSystem['colors'],
+	config: GeneratorConfig
+): SemanticColorContract {
+	const resolvedModes = resolveColorModes(colors);
+	return Object.fromEntries(
+		Object.entries(colors.semantic ?? {}).map(([name, entry]) => {
+			const token = `${config.prefixes.color}-${name}`;
+			return [
+				name,
+				{
+					token,
+					css: `var(--${token})`,
+					modes: Object.fromEntries(
+						resolvedModes.map((mode) => [
+							mode.name,
+							colorReference(semanticTarget(entry, mode), config),
+						])
+					),
+				},
+			];
+		})
+	);
+}
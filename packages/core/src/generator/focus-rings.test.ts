@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkbenchContract } from '../review/contract.js';
+import { toCss } from '../transformers/css.js';
+import { toFigmaJson } from '../transformers/figma-json.js';
+import { toFocusRingCss } from '../transformers/focus-ring-css.js';
+import type { PartialDesignSystem } from '../types.js';
+import { generate } from './index.js';
+
+const colors: NonNullable<PartialDesignSystem['colors']> = {
+	alphaSchedule: { lo: 0.4 },
+	modes: [
+		{
+			name: 'light',
+			isDefault: true,
+			tokens: {
+				bg: { mode: 'oklch', l: 0.98, c: 0, h: 0 },
+				pri: { mode: 'oklch', l: 0.55, c: 0.2, h: 260 },
+			},
+		},
+		{
+			name: 'dark',
+			tokens: {
+				bg: { mode: 'oklch', l: 0.18, c: 0, h: 0 },
+				pri: { mode: 'oklch', l: 0.72, c: 0.16, h: 260 },
+			},
+		},
+	],
+};
+
+function system(
+	focusRings: NonNullable<PartialDesignSystem['border']>['focusRings']
+): PartialDesignSystem {
+	return {
+		colors,
+		border: {
+			width: {
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { unit: 'px', scale: { hairline: 0.5, s: 1, l: 2, focus: 2 } },
+					},
+					{ name: 'touch', tokens: { unit: 'px', scale: { focus: 3 } } },
+				],
+			},
+			focusRings,
+		},
+	};
+}
+
+const rings = {
+	default: { width: 'focus', color: { color: 'pri' }, offset: 2 },
+	subtle: { width: 's', style: 'dashed', color: { color: 'pri', alpha: 'lo' }, offset: -1 },
+} as const;
+
+describe('focus rings', () => {
+	it('emits outline variables over the width scale and color tokens', () => {
+		const ir = generate(system(rings));
+
+		expect(ir.tokens['ring-default']?.value).toBe('var(--bdw-focus) solid var(--clr-pri)');
+		expect(ir.tokens['ring-default-offset']?.value).toBe('2px');
+		expect(ir.tokens['ring-subtle']?.value).toBe('var(--bdw-s) dashed var(--clr-pri-a-lo)');
+		expect(ir.overrideTokens.touch?.['bdw-focus']?.value).toBe('3px');
+		expect(ir.focusRings?.default?.width).toEqual({
+			step: 'focus',
+			token: 'bdw-focus',
+			value: 2,
+			unit: 'px',
+		});
+		expect(toCss(ir)).toContain('--ring-subtle-offset: -1px;');
+	});
+
+	it('renders :focus-visible helpers that read the ring variables', () => {
+		const ir = generate(system(rings));
+
+		expect(toFocusRingCss(ir)).toContain(
+			'.ring--default:focus-visible {\n  outline: var(--ring-default);\n  outline-offset: var(--ring-default-offset);\n}'
+		);
+		expect(toFocusRingCss(ir, { classPrefix: 'focus', specificity: 'zero' })).toContain(
+			':where(.focus--subtle:focus-visible) {'
+		);
+		expect(() => toFocusRingCss(ir, { classPrefix: '1ring' })).toThrowError(
+			'Focus ring classPrefix must be a CSS-safe namespace beginning with a letter'
+		);
+	});
+
+	it('exports rings as DTCG border composites', () => {
+		const ir = generate(system(rings), { colorFormat: { base: 'hex', alpha: 'hexa' } });
+		const dtcg = JSON.parse(toFigmaJson(ir, { format: 'dtcg' }));
+
+		expect(dtcg.border.$type).toBe('border');
+		expect(dtcg.border.default.$value).toEqual({
+			color: '{color.clr-pri}',
+			width: '{dimension.bdw-focus}',
+			style: 'solid',
+		});
+		expect(dtcg.border.subtle.$extensions['com.three-forma-styli'].outlineOffset).toEqual({
+			value: -1,
+			unit: 'px',
+		});
+	});
+
+	it('reviews each ring in its own lab across color and size modes', () => {
+		const ds = system(rings);
+		const contract = createWorkbenchContract(ds, generate(ds), {
+			systemFingerprint: 'test',
+			toolVersion: '0.0.0',
+			stylesheets: [],
+		});
+		const lab = contract.labs.find((candidate) => candidate.kind === 'focusRings');
+
+		expect(lab?.id).toBe('focus-rings');
+		expect(lab?.cases.map((reviewCase) => reviewCase.id)).toEqual([
+			'focus-rings--default',
+			'focus-rings--subtle',
+		]);
+		expect(lab?.cases[1]?.controls.map((control) => control.path)).toEqual([
+			'/border/focusRings/subtle/style',
+			'/border/focusRings/subtle/offset',
+		]);
+		expect(lab?.cases[0]?.capture.colorModes).toEqual(['*']);
+		expect(lab?.cases[0]?.capture.sizeModes).toEqual(['*']);
+	});
+
+	it('rejects unknown width steps, colors and styles', () => {
+		expect(() => generate(system({ ring: { ...rings.default, width: 'xl' } }))).toThrowError(
+			'border.focusRings.ring.width references unknown border width step "xl" in mode "default"'
+		);
+		expect(() =>
+			generate(system({ ring: { ...rings.default, color: { color: 'accent' } } }))
+		).toThrowError('border.focusRings.ring.color references unknown default color "accent"');
+		expect(() =>
+			generate(system({ ring: { ...rings.default, style: 'groove' as 'solid' } }))
+		).toThrowError(
+			'border.focusRings.ring.style must be one of solid, dashed, dotted, double (got "groove")'
+		);
+		expect(() =>
+			generate({ border: { ...system(rings).border!, focusRings: rings } } as PartialDesignSystem)
+		).toThrowError('Focus rings require colors (ring colors reference color tokens)');
+	});
+});
@@ -0,0 +1,62 @@
+/**
+ * Focus ring generator
+ *
+ * Composes outline recipes from a border width step, a line style, a color
+ * reference and an offset
+ */
+
+import type { BorderSystem, FocusRingRecipe } from '../types.js';
+import type {
+	FocusRingContract,
+	FocusRingGeneratorResult,
+	GeneratorConfig,
+	TokenValue,
+} from './types.js';
+import { colorReference, formatNumber, getDefaultEntry } from './utils.js';
+
+/**
+ * Generate focus ring tokens. The ring references `--bdw-{width}` and a color
+ * token, so size and color modes restyle it without overrides of its own.
+ */
+export function generateFocusRingTokens(
+	focusRings: Record<string, FocusRingRecipe>,
+	width: BorderSystem['width'],
+	config: GeneratorConfig
+): FocusRingGeneratorResult {
+	const widthMode = getDefaultEntry(width.modes);
+	const { unit } = widthMode.tokens;
+	const defaultTokens: TokenValue[] = [];
+	const contract: FocusRingContract = {};
+
+	for (const [name, recipe] of Object.entries(focusRings)) {
+		const token = `${config.prefixes.focusRing}-${name}`;
+		const offsetToken = `${token}-offset`;
+		const widthToken = `${config.prefixes.borderWidth}-${recipe.width}`;
+		const style = recipe.style ?? 'solid';
+		const color = colorReference(recipe.color, config);
+		const css = `var(--${widthToken}) ${style} ${color.css}`;
+		const offset = `${formatNumber(recipe.offset)}${unit}`;
+
+		defaultTokens.push(
+			{ family: 'focusRing', name: token, value: css, reference: widthToken },
+			{ family: 'focusRing', name: offsetToken, value: offset, rawValue: recipe.offset, unit }
+		);
+		contract[name] = {
+			token,
+			offsetToken,
+			width: {
+				step: recipe.width,
+				token: widthToken,
+				value: widthMode.tokens.scale![recipe.width]!,
+				unit,
+			},
+			style,
+			color,
+			offset: recipe.offset,
+			unit,
+			css,
+		};
+	}
+
+	return { defaultTokens, contract };
+}
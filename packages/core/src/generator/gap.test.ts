@@ -248,4 +248,16 @@ describe('generateGapTokens', () => {
 			expect(mysteryGapS?.value).toBe('8px');
 		});
 	});
+
+	it('follows a fluid spacing mode between its viewport bounds', () => {
+		const fluidSpacing = structuredClone(basicSpacing);
+		fluidSpacing.modes[0].fluid = { minViewport: 360, maxViewport: 1280, tokens: { base: 12 } };
+		const result = generateGapTokens(basicGap, fluidSpacing, defaultGeneratorConfig);
+
+		const gapS = result.defaultTokens.find((t) => t.name === 'gap-s');
+		expect(gapS?.value).toBe('clamp(8px, 6.4348px + 0.4348vw, 12px)');
+		expect(gapS?.reference).toBe('sp-1');
+		expect(gapS?.metadata?.fluid).toEqual({ minViewport: 360, maxViewport: 1280, min: 8, max: 12 });
+		expect(result.defaultTokens.find((t) => t.name === 'gap-min')?.value).toBe('4px');
+	});
 });
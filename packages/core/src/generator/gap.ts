@@ -4,9 +4,10 @@
  * Generates gap tokens that reference spacing values
  */
 
-import type { DesignSystem, GapMode, SpacingMode } from '../types.js';
+import type { BreakpointSystem, DesignSystem, GapMode, SpacingMode } from '../types.js';
 import type { TokenValue, GeneratorResult, GeneratorConfig } from './types.js';
-import { getDefaultEntry } from './utils.js';
+import { scaleValue } from './scale.js';
+import { fluidLength, fluidStep, getDefaultEntry } from './utils.js';
 
 /**
  * Properties that are metadata, not actual gap values
@@ -19,7 +20,8 @@ const META_PROPS = ['unit', 'spacingMode'];
 function generateTokensForMode(
 	gapMode: GapMode & { name: string },
 	spacingMode: SpacingMode & { name: string },
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	breakpoints?: BreakpointSystem
 ): TokenValue[] {
 	const prefix = config.prefixes.gap;
 	const gapSystem = gapMode.tokens;
@@ -30,10 +32,12 @@ function generateTokensForMode(
 
 	const tokens: TokenValue[] = [];
 
-	// Helper function to resolve a gap value
-	const resolveGapValue = (value: number | 'min'): number => {
-		if (value === 'min') return spacingSystem.min;
-		return value * spacingSystem.base;
+	// Helper function to resolve a gap value, at the spacing mode's widest viewport when fluid
+	const resolveGapValue = (value: number | 'min', atMaxViewport = false): number => {
+		const system = atMaxViewport
+			? { ...spacingSystem, ...spacingMode.fluid?.tokens }
+			: spacingSystem;
+		return scaleValue(system, value);
 	};
 
 	// Helper to get reference string
@@ -47,13 +51,20 @@ function generateTokensForMode(
 		if (META_PROPS.includes(key)) return;
 
 		const resolvedValue = resolveGapValue(value as number | 'min');
+		const fluid = fluidStep(
+			resolvedValue,
+			resolveGapValue(value as number | 'min', true),
+			spacingMode.fluid,
+			breakpoints
+		);
 		tokens.push({
 			family: 'gap',
 			name: `${prefix}-${key}`,
-			value: `${resolvedValue}${unit}`,
+			value: fluid ? fluidLength(fluid, unit) : `${resolvedValue}${unit}`,
 			rawValue: resolvedValue,
 			unit,
 			reference: getReference(value as number | 'min'),
+			...(fluid ? { metadata: { fluid } } : {}),
 		});
 	});
 
@@ -87,18 +98,24 @@ function findSpacingModeForGap(
 export function generateGapTokens(
 	gap: DesignSystem['gap'],
 	spacing: DesignSystem['spacing'],
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	breakpoints?: BreakpointSystem
 ): GeneratorResult {
 	const defaultGapMode = getDefaultEntry(gap.modes);
 	const overrideGapModes = gap.modes.filter((m) => m !== defaultGapMode);
 
 	const defaultSpacingMode = findSpacingModeForGap(defaultGapMode, spacing.modes);
-	const defaultTokens = generateTokensForMode(defaultGapMode, defaultSpacingMode, config);
+	const defaultTokens = generateTokensForMode(
+		defaultGapMode,
+		defaultSpacingMode,
+		config,
+		breakpoints
+	);
 
 	const overrideTokens: Record<string, TokenValue[]> = {};
 	for (const gapMode of overrideGapModes) {
 		const spacingMode = findSpacingModeForGap(gapMode, spacing.modes);
-		overrideTokens[gapMode.name] = generateTokensForMode(gapMode, spacingMode, config);
+		overrideTokens[gapMode.name] = generateTokensForMode(gapMode, spacingMode, config, breakpoints);
 	}
 
 	return {
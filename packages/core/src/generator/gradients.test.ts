@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkbenchContract } from '../review/contract.js';
+import { toCss } from '../transformers/css.js';
+import { toFigmaJson } from '../transformers/figma-json.js';
+import type { PartialDesignSystem } from '../types.js';
+import { generate } from './index.js';
+
+const colors: NonNullable<PartialDesignSystem['colors']> = {
+	alphaSchedule: { lo: 0.2 },
+	modes: [
+		{
+			name: 'light',
+			isDefault: true,
+			tokens: {
+				bg: { mode: 'oklch', l: 0.98, c: 0, h: 0 },
+				sub: { mode: 'oklch', l: 0.95, c: 0, h: 0 },
+				pri: { mode: 'oklch', l: 0.55, c: 0.2, h: 260 },
+				acc: { mode: 'oklch', l: 0.7, c: 0.15, h: 40 },
+			},
+		},
+		{
+			name: 'dark',
+			tokens: {
+				bg: { mode: 'oklch', l: 0.18, c: 0, h: 0 },
+				sub: { mode: 'oklch', l: 0.22, c: 0, h: 0 },
+				pri: { mode: 'oklch', l: 0.72, c: 0.16, h: 260 },
+				acc: { mode: 'oklch', l: 0.8, c: 0.12, h: 40 },
+			},
+		},
+	],
+};
+
+function system(gradients: PartialDesignSystem['gradients']): PartialDesignSystem {
+	return { colors, gradients };
+}
+
+const recipes: NonNullable<PartialDesignSystem['gradients']> = {
+	hero: {
+		kind: 'linear',
+		angle: 135,
+		stops: [{ color: { color: 'pri' } }, { color: { color: 'acc' }, position: 80 }],
+	},
+	glow: {
+		kind: 'radial',
+		shape: 'circle',
+		at: { x: 50, y: 0 },
+		interpolation: 'oklab',
+		stops: [{ color: { color: 'pri', alpha: 'lo' } }, { color: { color: 'bg' } }],
+	},
+	wheel: {
+		kind: 'conic',
+		hue: 'longer',
+		stops: [{ color: { color: 'pri' } }, { color: { color: 'acc' } }, { color: { color: 'pri' } }],
+	},
+	wash: { kind: 'linear', stops: [{ color: { color: 'bg' } }, { color: { color: 'sub' } }] },
+};
+
+describe('gradients', () => {
+	it('emits gradient variables over color tokens with explicit stop positions', () => {
+		const ir = generate(system(recipes));
+
+		expect(ir.tokens['grad-hero']?.value).toBe(
+			'linear-gradient(135deg in oklch, var(--clr-pri) 0%, var(--clr-acc) 80%)'
+		);
+		expect(ir.tokens['grad-glow']?.value).toBe(
+			'radial-gradient(circle at 50% 0% in oklab, var(--clr-pri-a-lo) 0%, var(--clr-bg) 100%)'
+		);
+		expect(ir.tokens['grad-wheel']?.value).toBe(
+			'conic-gradient(from 0deg at 50% 50% in oklch longer hue, var(--clr-pri) 0%, var(--clr-acc) 50%, var(--clr-pri) 100%)'
+		);
+		expect(ir.overrideTokens.dark?.['grad-hero']).toBeUndefined();
+		expect(toCss(ir)).toContain(
+			'--grad-wash: linear-gradient(180deg in oklch, var(--clr-bg) 0%, var(--clr-sub) 100%);'
+		);
+	});
+
+	it('spreads omitted positions evenly between authored ones', () => {
+		const ir = generate(
+			system({
+				steps: {
+					kind: 'linear',
+					stops: [
+						{ color: { color: 'bg' }, position: 10 },
+						{ color: { color: 'sub' } },
+						{ color: { color: 'pri' } },
+						{ color: { color: 'acc' }, position: 70 },
+						{ color: { color: 'bg' } },
+					],
+				},
+			})
+		);
+
+		expect(ir.gradients?.steps?.stops.map((stop) => stop.position)).toEqual([10, 30, 50, 70, 100]);
+	});
+
+	it('exports DTCG gradient tokens with fractional positions', () => {
+		const ir = generate(system(recipes), { colorFormat: { base: 'hex', alpha: 'hexa' } });
+		const dtcg = JSON.parse(toFigmaJson(ir, { format: 'dtcg' }));
+
+		expect(dtcg.gradient.$type).toBe('gradient');
+		expect(dtcg.gradient.hero.$value).toEqual([
+			{ color: '{color.clr-pri}', position: 0 },
+			{ color: '{color.clr-acc}', position: 0.8 },
+		]);
+		expect(dtcg.gradient.glow.$extensions['com.three-forma-styli']).toEqual({
+			kind: 'radial',
+			interpolation: 'oklab',
+			shape: 'circle',
+			at: { x: 50, y: 0 },
+		});
+	});
+
+	it('previews each gradient per color mode and flags wide bands', () => {
+		const ds = system(recipes);
+		const contract = createWorkbenchContract(ds, generate(ds), {
+			systemFingerprint: 'test',
+			toolVersion: '0.0.0',
+			stylesheets: [],
+		});
+		const lab = contract.labs.find((candidate) => candidate.kind === 'gradients');
+		const wash = lab?.cases.find((reviewCase) => reviewCase.id === 'gradients--wash');
+
+		expect(lab?.id).toBe('gradients');
+		expect(lab?.cases).toHaveLength(4);
+		expect(wash?.modes.map((mode) => mode.mode)).toEqual(['light', 'dark']);
+		expect(wash?.modes[1]?.colors[0]).toBe('oklch(0.1800 0.0000 0.00)');
+		expect(wash?.modes[0]?.segments[0]).toEqual({
+			from: 0,
+			levels: 10,
+			bandWidth: 128,
+			banded: true,
+		});
+		expect(wash?.controls.map((control) => control.path)).toEqual([
+			'/gradients/wash/interpolation',
+			'/gradients/wash/angle',
+		]);
+		expect(wash?.capture.colorModes).toEqual(['*']);
+		expect(contract.diagnostics.filter((entry) => entry.id.startsWith('gradient-banding'))).toEqual(
+			[
+				expect.objectContaining({
+					id: 'gradient-banding--wash--light',
+					severity: 'warning',
+					path: '/gradients/wash/stops/0',
+				}),
+				expect.objectContaining({ id: 'gradient-banding--wash--dark' }),
+			]
+		);
+	});
+
+	it('rejects unknown colors, backwards stops and misplaced hue paths', () => {
+		const hero = recipes.hero!;
+		expect(() =>
+			generate(system({ hero: { ...hero, stops: [{ color: { color: 'ink' } }, hero.stops[1]!] } }))
+		).toThrowError('gradients.hero.stops[0].color references unknown default color "ink"');
+		expect(() =>
+			generate(
+				system({
+					hero: {
+						...hero,
+						stops: [
+							{ color: { color: 'pri' }, position: 60 },
+							hero.stops[1]!,
+							{ color: { color: 'bg' }, position: 40 },
+						],
+					},
+				})
+			)
+		).toThrowError(
+			'gradients.hero.stops[2].position 40 must not be before the previous stop at 80'
+		);
+		expect(() =>
+			generate(system({ hero: { ...hero, interpolation: 'srgb', hue: 'longer' } }))
+		).toThrowError('gradients.hero.hue requires oklch interpolation');
+		expect(() => generate(system({ hero: { ...hero, stops: [hero.stops[0]!] } }))).toThrowError(
+			'gradients.hero.stops must contain at least two stops'
+		);
+		expect(() =>
+			generate(system({ hero: { ...hero, shape: 'circle' } as typeof hero }))
+		).toThrowError('gradients.hero contains unsupported field "shape" for a linear gradient');
+		expect(() => generate({ gradients: recipes })).toThrowError(
+			'Gradients require colors (gradient stops reference color tokens)'
+		);
+	});
+});
@@ -0,0 +1,100 @@
+/**
+ * Gradient generator
+ *
+ * Composes linear, radial and conic gradients from color references, stop
+ * positions and an interpolation color space
+ */
+
+import type { GradientRecipe, GradientStop, GradientSystem } from '../types.js';
+import type {
+	GeneratorConfig,
+	GradientContract,
+	GradientContractRecipe,
+	GradientGeneratorResult,
+	TokenValue,
+} from './types.js';
+import { colorReference, formatNumber } from './utils.js';
+
+const center = { x: 50, y: 50 };
+
+/** Fill omitted positions the way CSS does: 0 and 100 at the ends, even gaps between. */
+function stopPositions(stops: readonly GradientStop[]): number[] {
+	const positions = stops.map((stop) => stop.position);
+	positions[0] ??= 0;
+	positions[positions.length - 1] ??= 100;
+	let start = 0;
+	for (let index = 1; index < positions.length; index++) {
+		if (positions[index] === undefined) continue;
+		const from = positions[start]!;
+		const span = index - start;
+		for (let gap = start + 1; gap < index; gap++) {
+			positions[gap] = from + ((positions[index]! - from) * (gap - start)) / span;
+		}
+		start = index;
+	}
+	return positions as number[];
+}
+
+function percent(value: number): string {
+	return `${formatNumber(value)}%`;
+}
+
+function gradientPrelude(recipe: Omit<GradientContractRecipe, 'css'>): string {
+	const method = `in ${recipe.interpolation}${recipe.hue ? ` ${recipe.hue} hue` : ''}`;
+	const at = recipe.at ? `at ${percent(recipe.at.x)} ${percent(recipe.at.y)}` : '';
+	switch (recipe.kind) {
+		case 'linear':
+			return `${formatNumber(recipe.angle!)}deg ${method}`;
+		case 'radial':
+			return `${recipe.shape} ${at} ${method}`;
+		case 'conic':
+			return `from ${formatNumber(recipe.angle!)}deg ${at} ${method}`;
+	}
+}
+
+function gradientRecipe(
+	token: string,
+	recipe: GradientRecipe,
+	config: GeneratorConfig
+): GradientContractRecipe {
+	const positions = stopPositions(recipe.stops);
+	const contract: Omit<GradientContractRecipe, 'css'> = {
+		token,
+		kind: recipe.kind,
+		interpolation: recipe.interpolation ?? 'oklch',
+		...(recipe.hue !== undefined ? { hue: recipe.hue } : {}),
+		...(recipe.kind === 'linear' ? { angle: recipe.angle ?? 180 } : {}),
+		...(recipe.kind === 'conic' ? { angle: recipe.angle ?? 0 } : {}),
+		...(recipe.kind === 'radial' ? { shape: recipe.shape ?? 'ellipse' } : {}),
+		...(recipe.kind !== 'linear' ? { at: recipe.at ?? center } : {}),
+		stops: recipe.stops.map((stop, index) => ({
+			color: colorReference(stop.color, config),
+			position: positions[index]!,
+		})),
+	};
+	const stops = contract.stops.map((stop) => `${stop.color.css} ${percent(stop.position)}`);
+	return {
+		...contract,
+		css: `${recipe.kind}-gradient(${gradientPrelude(contract)}, ${stops.join(', ')})`,
+	};
+}
+
+/**
+ * Generate gradient tokens. Stops reference color tokens, so color modes
+ * repaint each gradient without overrides of its own.
+ */
+export function generateGradientTokens(
+	gradients: GradientSystem,
+	config: GeneratorConfig
+): GradientGeneratorResult {
+	const defaultTokens: TokenValue[] = [];
+	const contract: GradientContract = {};
+
+	for (const [name, recipe] of Object.entries(gradients)) {
+		const token = `${config.prefixes.gradient}-${name}`;
+		contract[name] = gradientRecipe(token, recipe, config);
+		defaultTokens.push({ family: 'gradient', name: token, value: contract[name].css });
+	}
+
+	return { defaultTokens, contract };
+}
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { toCss } from '../transformers/css.js';
 import type { PartialDesignSystem } from '../types.js';
 import { generate, resolveGeneratorConfig, ValidationError } from './index.js';
 import { defaultGeneratorConfig } from './types.js';
@@ -123,6 +124,121 @@ describe('generate mode identity', () => {
 	});
 });
 
+describe('generate mode axes', () => {
+	const spacingMode = (name: string, base: number) => ({
+		name,
+		tokens: { unit: 'px', base, min: 4, range: 2 },
+	});
+	const branded: PartialDesignSystem = {
+		colors: {
+			...colorsWithOverride('light'),
+			modes: [
+				...colorsWithOverride('light').modes,
+				{ name: 'zest', tokens: { bg: { mode: 'oklch', l: 0.3, c: 0.1, h: 120 } } },
+			],
+		},
+		spacing: {
+			modes: [{ ...spacingMode('default', 8), isDefault: true }, spacingMode('zest', 6)],
+		},
+		modeAxes: {
+			brand: { default: 'acme', families: ['colors', 'spacing'], modes: ['zest'] },
+		},
+	};
+
+	it('moves axis members out of the color and size categories', () => {
+		const result = generate(branded);
+
+		expect(result.modes.color.overrides).toEqual(['light']);
+		expect(result.modes.size.overrides).toEqual([]);
+		expect(result.modes.axes).toEqual({
+			brand: {
+				default: 'acme',
+				overrides: ['zest'],
+				selector: '[data-brand-mode="{mode}"]',
+				families: ['colors', 'spacing'],
+			},
+		});
+		expect(Object.keys(result.overrideTokens.zest!)).toEqual(
+			expect.arrayContaining(['clr-bg', 'sp-1'])
+		);
+	});
+
+	it('lets one axis mode span color and size families that would otherwise collide', () => {
+		const { modeAxes: _, ...plain } = branded;
+
+		expect(() => generate(plain)).toThrowError(/used by both color and size categories/);
+	});
+
+	/** The declaration that wins on one element carrying `attributes`, ignoring nested selectors. */
+	function cascade(css: string, attributes: Record<string, string>, property: string) {
+		let winner: { specificity: number; value: string } | undefined;
+		for (const [, selectors, body] of css.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+			const value = body!.match(new RegExp(`--${property}: ([^;]+);`))?.[1];
+			if (!value) continue;
+			for (const selector of selectors!.split(',').map((part) => part.trim())) {
+				const parts = selector.match(/:root|\[[^\]]+\]/g) ?? [];
+				if (parts.join('') !== selector) continue;
+				const matches = parts.every((part) => {
+					const [, name, expected] = part.match(/^\[([^=]+)="([^"]+)"\]$/) ?? [];
+					return part === ':root' || attributes[name!] === expected;
+				});
+				if (matches && parts.length >= (winner?.specificity ?? 0)) {
+					winner = { specificity: parts.length, value };
+				}
+			}
+		}
+		return winner?.value;
+	}
+
+	it('composites a brand color over the surface of whichever color mode applies', () => {
+		const color = (l: number, c = 0, h = 0) => ({ mode: 'oklch' as const, l, c, h });
+		const colors = (light: Record<string, ReturnType<typeof color>>) =>
+			({
+				alphaSchedule,
+				flattenAlpha: { surfaces: ['bg'] },
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { bg: color(0.2), pri: color(0.6, 0.1, 250) },
+						metadata: { polarity: 'negative' },
+					},
+					{ name: 'light', tokens: light, metadata: { polarity: 'positive' } },
+					{ name: 'acme', tokens: { pri: color(0.55, 0.2, 30) } },
+				],
+			}) satisfies NonNullable<PartialDesignSystem['colors']>;
+		const ir = generate({
+			colors: colors({ bg: color(0.95) }),
+			modeAxes: { brand: { default: 'house', families: ['colors'], modes: ['acme'] } },
+		});
+		// The same brand authored directly into light mode is the expected cascade result.
+		const expected = generate({ colors: colors({ bg: color(0.95), pri: color(0.55, 0.2, 30) }) });
+		const css = toCss(ir);
+		const at = (attributes: Record<string, string>) =>
+			cascade(css, attributes, 'clr-pri-a-min-on-bg');
+
+		expect(ir.axisColorOverrides?.acme?.light?.['clr-pri-a-min-on-bg']?.value).toBe(
+			expected.overrideTokens.light!['clr-pri-a-min-on-bg']!.value
+		);
+		expect(at({ 'data-color-mode': 'light', 'data-brand-mode': 'acme' })).toBe(
+			expected.overrideTokens.light!['clr-pri-a-min-on-bg']!.value
+		);
+		expect(at({ 'data-brand-mode': 'acme' })).toBe(
+			ir.overrideTokens.acme!['clr-pri-a-min-on-bg']!.value
+		);
+		expect(at({ 'data-color-mode': 'light' })).toBe(
+			ir.overrideTokens.light!['clr-pri-a-min-on-bg']!.value
+		);
+		expect(css).toContain(
+			'[data-color-mode="light"][data-brand-mode="acme"],\n[data-color-mode="light"] [data-brand-mode="acme"],\n[data-brand-mode="acme"] [data-color-mode="light"] {'
+		);
+		// light-dark() output folds the light combination into the brand block.
+		expect(toCss(ir, { colorModes: 'light-dark' })).toContain(
+			`--clr-pri-a-min-on-bg: light-dark(${expected.overrideTokens.light!['clr-pri-a-min-on-bg']!.value}, ${ir.overrideTokens.acme!['clr-pri-a-min-on-bg']!.value});`
+		);
+	});
+});
+
 describe('generator configuration isolation', () => {
 	it('publishes immutable defaults and returns a fresh resolved object for every generation', () => {
 		expect(Object.isFrozen(defaultGeneratorConfig)).toBe(true);
@@ -16,14 +16,27 @@ import type {
 } from './types.js';
 import { defaultGeneratorConfig } from './types.js';
 import { validatePartialDesignSystem, ValidationError } from './validate.js';
-import { generateColorTokens } from './colors.js';
+import { generateColorTokens, generateSemanticColorContract } from './colors.js';
 import { generateSpacingTokens } from './spacing.js';
 import { generateGapTokens } from './gap.js';
+import { generateSizingTokens } from './sizing.js';
 import { generateTypographyContract, generateTypographyTokens } from './typography.js';
-import { generateBorderRadiusTokens, generateBorderWidthTokens } from './border.js';
+import {
+	generateBorderRadiusTokens,
+	generateBorderWidthTokens,
+	generateNestedRadiusTokens,
+} from './border.js';
 import { generateTimeTokens } from './time.js';
 import { generateMotionTokens } from './motion.js';
 import { generateShadowTokens } from './shadows.js';
+import { generateFocusRingTokens } from './focus-rings.js';
+import { generateGradientTokens } from './gradients.js';
+import {
+	generateBreakpointContract,
+	generateBreakpointTokens,
+	sizeModeMediaConditions,
+} from './breakpoints.js';
+import { generateLayerContract, generateLayerTokens } from './layers.js';
 
 export { ValidationError };
 export type {
@@ -39,6 +52,13 @@ export type {
 	MotionContract,
 	ShadowGeneratorResult,
 	ShadowContract,
+	FocusRingGeneratorResult,
+	FocusRingContract,
+	GradientGeneratorResult,
+	GradientContract,
+	SemanticColorContract,
+	BreakpointContract,
+	LayerContract,
 	TypographyContract,
 } from './types.js';
 
@@ -69,6 +89,12 @@ function validateConfig(config: GeneratorConfig): void {
 	if (!cssNamespacePattern.test(config.colorFormat.alphaModifier)) {
 		throw new ValidationError('Generator colorFormat.alphaModifier must be CSS-token safe');
 	}
+	if (!cssNamespacePattern.test(config.colorFormat.mixModifier)) {
+		throw new ValidationError('Generator colorFormat.mixModifier must be CSS-token safe');
+	}
+	if (!cssNamespacePattern.test(config.colorFormat.stateModifier)) {
+		throw new ValidationError('Generator colorFormat.stateModifier must be CSS-token safe');
+	}
 	if (!['hex', 'hex-p3', 'oklch', 'rgb'].includes(config.colorFormat.base)) {
 		throw new ValidationError(
 			`Unsupported generator base color format "${config.colorFormat.base}"`
@@ -135,6 +161,22 @@ function validateOverrideModeIdentity(colorOverrides: string[], sizeOverrides: s
 	}
 }
 
+/** Describe each declared mode axis, with the default selector filled in. */
+function generateModeAxes(modeAxes: PartialDesignSystem['modeAxes']): IR['modes']['axes'] {
+	if (!modeAxes) return undefined;
+	return Object.fromEntries(
+		Object.entries(modeAxes).map(([axisName, axis]) => [
+			axisName,
+			{
+				default: axis.default,
+				overrides: [...axis.modes],
+				selector: axis.selector ?? `[data-${axisName}-mode="{mode}"]`,
+				families: [...axis.families],
+			},
+		])
+	);
+}
+
 /**
  * Generate the complete Intermediate Representation from a DesignSystem or PartialDesignSystem
  *
@@ -166,21 +208,26 @@ export function generate(
 
 	// Generate tokens for each family (if provided)
 	const colorResult = designSystem.colors
-		? generateColorTokens(designSystem.colors, config)
+		? generateColorTokens(
+				designSystem.colors,
+				config,
+				new Set(Object.values(designSystem.modeAxes ?? {}).flatMap((axis) => axis.modes))
+			)
 		: emptyResult;
 
+	const breakpoints = designSystem.breakpoints;
 	const spacingResult = designSystem.spacing
-		? generateSpacingTokens(designSystem.spacing, config)
+		? generateSpacingTokens(designSystem.spacing, config, breakpoints)
 		: emptyResult;
 
 	// Gap and borderRadius depend on spacing
 	const gapResult =
 		designSystem.gap && designSystem.spacing
-			? generateGapTokens(designSystem.gap, designSystem.spacing, config)
+			? generateGapTokens(designSystem.gap, designSystem.spacing, config, breakpoints)
 			: emptyResult;
 
 	const typographyResult = designSystem.typography
-		? generateTypographyTokens(designSystem.typography, config)
+		? generateTypographyTokens(designSystem.typography, config, breakpoints)
 		: emptyResult;
 
 	const borderRadiusResult =
@@ -192,6 +239,10 @@ export function generate(
 		? generateBorderWidthTokens(designSystem.border.width, config)
 		: emptyResult;
 
+	const sizingResult = designSystem.sizing
+		? generateSizingTokens(designSystem.sizing, designSystem, config)
+		: emptyResult;
+
 	const timeResult = designSystem.time
 		? generateTimeTokens(designSystem.time, config)
 		: emptyTimeResult;
@@ -203,6 +254,15 @@ export function generate(
 		? generateShadowTokens(designSystem.shadows, config)
 		: undefined;
 
+	const focusRingResult =
+		designSystem.border?.focusRings && designSystem.border.width
+			? generateFocusRingTokens(designSystem.border.focusRings, designSystem.border.width, config)
+			: undefined;
+
+	const gradientResult = designSystem.gradients
+		? generateGradientTokens(designSystem.gradients, config)
+		: undefined;
+
 	const results = {
 		colors: colorResult,
 		spacing: spacingResult,
@@ -210,6 +270,7 @@ export function generate(
 		typography: typographyResult,
 		borderRadius: borderRadiusResult,
 		borderWidth: borderWidthResult,
+		sizing: sizingResult,
 	};
 
 	// Combine all default tokens
@@ -220,9 +281,14 @@ export function generate(
 		...typographyResult.defaultTokens,
 		...borderRadiusResult.defaultTokens,
 		...borderWidthResult.defaultTokens,
+		...sizingResult.defaultTokens,
 		...timeResult.defaultTokens,
 		...(motionResult?.defaultTokens ?? []),
 		...(shadowResult?.defaultTokens ?? []),
+		...(focusRingResult?.defaultTokens ?? []),
+		...(gradientResult?.defaultTokens ?? []),
+		...(breakpoints ? generateBreakpointTokens(breakpoints, config) : []),
+		...(designSystem.layers ? generateLayerTokens(designSystem.layers, config) : []),
 	];
 
 	// Collect all override mode names
@@ -256,56 +322,136 @@ export function generate(
 		if (borderWidthResult.overrideTokens[modeName]) {
 			modeTokens.push(...borderWidthResult.overrideTokens[modeName]);
 		}
+		if (sizingResult.overrideTokens[modeName]) {
+			modeTokens.push(...sizingResult.overrideTokens[modeName]);
+		}
 		if (modeTokens.length > 0) {
 			overrideTokens[modeName] = tokensToRecord(modeTokens, `mode "${modeName}"`);
 		}
 	}
 
-	// Build mode info
-	const colorOverrides = colorResult.modeInfo.overrides;
+	// Nested radii derive from the radius, spacing and gap tokens each mode resolves.
+	if (designSystem.border?.nestedRadii && designSystem.border.radius) {
+		const nested = generateNestedRadiusTokens(
+			designSystem.border.nestedRadii,
+			allDefaultTokens,
+			overrideTokens,
+			config
+		);
+		allDefaultTokens.push(...nested.defaultTokens);
+		for (const [modeName, tokens] of Object.entries(nested.overrideTokens)) {
+			Object.assign(overrideTokens[modeName]!, tokensToRecord(tokens, `mode "${modeName}"`));
+		}
+	}
+
+	// Build mode info. Members of a declared mode axis leave the color and size categories.
+	const axes = generateModeAxes(designSystem.modeAxes);
+	const axisMembers = new Set(Object.values(axes ?? {}).flatMap((axis) => axis.overrides));
+	const colorOverrides = colorResult.modeInfo.overrides.filter((name) => !axisMembers.has(name));
 	// Size overrides: union of all size family overrides
+	const sizeResults = [
+		spacingResult,
+		gapResult,
+		typographyResult,
+		borderRadiusResult,
+		borderWidthResult,
+		sizingResult,
+	];
 	const sizeOverridesSet = new Set<string>();
-	[spacingResult, gapResult, typographyResult, borderRadiusResult, borderWidthResult].forEach(
-		(result) => {
-			result.modeInfo.overrides.forEach((name) => sizeOverridesSet.add(name));
-		}
-	);
+	sizeResults.forEach((result) => {
+		result.modeInfo.overrides.forEach((name) => {
+			if (!axisMembers.has(name)) sizeOverridesSet.add(name);
+		});
+	});
 	const sizeOverrides = Array.from(sizeOverridesSet);
 	validateOverrideModeIdentity(colorOverrides, sizeOverrides);
-	const sizeDefault =
-		[spacingResult, gapResult, typographyResult, borderRadiusResult, borderWidthResult].find(
-			(result) => result.modeInfo.default
-		)?.modeInfo.default ?? '';
+	const sizeDefault = sizeResults.find((result) => result.modeInfo.default)?.modeInfo.default ?? '';
+
+	const mediaOverrides: IR['mediaOverrides'] = {};
+	if (motionResult && motionResult.reducedMotionTokens.length > 0) {
+		mediaOverrides['(prefers-reduced-motion: reduce)'] = tokensToRecord(
+			motionResult.reducedMotionTokens,
+			'the reduced-motion media override'
+		);
+	}
+	// The default mode's preference refinements precede the scheme-bound modes,
+	// whose blocks re-declare the colors they author.
+	const colorDefault = colorResult.modeInfo.default;
+	const modeMediaOverrides: NonNullable<IR['modeMediaOverrides']> = {};
+	for (const [modeName, refinements] of Object.entries(colorResult.refinementTokens ?? {})) {
+		// An axis mode layers over whichever color mode applies, so it inherits no refinement.
+		if (axisMembers.has(modeName)) continue;
+		for (const [condition, tokens] of Object.entries(refinements)) {
+			const record = tokensToRecord(tokens, `color mode "${modeName}" under ${condition}`);
+			if (modeName === colorDefault) mediaOverrides[condition] = record;
+			else (modeMediaOverrides[modeName] ??= {})[condition] = record;
+		}
+	}
+	// A scheme-bound color mode reuses its selector block under the OS preference.
+	const colorMediaConditions = colorResult.modeInfo.mediaConditions;
+	for (const [modeName, condition] of Object.entries(colorMediaConditions ?? {})) {
+		mediaOverrides[condition] = overrideTokens[modeName]!;
+	}
+
+	// A breakpoint-bound size mode reuses its selector block from that width up.
+	const sizeMediaConditions = sizeModeMediaConditions(designSystem);
+	for (const [modeName, condition] of Object.entries(sizeMediaConditions ?? {})) {
+		mediaOverrides[condition] = overrideTokens[modeName] ?? {};
+	}
+
+	const axisColorOverrides: NonNullable<IR['axisColorOverrides']> = {};
+	for (const [modeName, colorModes] of Object.entries(colorResult.axisColorTokens ?? {})) {
+		axisColorOverrides[modeName] = Object.fromEntries(
+			Object.entries(colorModes).map(([colorMode, tokens]) => [
+				colorMode,
+				tokensToRecord(tokens, `mode "${modeName}" over color mode "${colorMode}"`),
+			])
+		);
+	}
+
+	const colorPolarities = colorResult.modeInfo.polarities
+		? Object.fromEntries(
+				Object.entries(colorResult.modeInfo.polarities).filter(([name]) => !axisMembers.has(name))
+			)
+		: undefined;
 
 	return {
 		tokens: tokensToRecord(allDefaultTokens, 'the default token set'),
 		typography: designSystem.typography
-			? generateTypographyContract(designSystem.typography, config)
+			? generateTypographyContract(designSystem.typography, config, breakpoints)
 			: undefined,
 		motion: motionResult?.contract,
 		shadows: shadowResult?.contract,
+		...(focusRingResult ? { focusRings: focusRingResult.contract } : {}),
+		...(gradientResult ? { gradients: gradientResult.contract } : {}),
+		semanticColors: designSystem.colors?.semantic
+			? generateSemanticColorContract(designSystem.colors, config)
+			: undefined,
+		...(breakpoints ? { breakpoints: generateBreakpointContract(breakpoints, config) } : {}),
+		...(designSystem.layers ? { layers: generateLayerContract(designSystem.layers, config) } : {}),
 		modes: {
 			color: {
 				default: colorResult.modeInfo.default,
 				overrides: colorOverrides,
+				...(colorMediaConditions ? { mediaConditions: colorMediaConditions } : {}),
+				...(colorPolarities ? { polarities: colorPolarities } : {}),
+				...(colorResult.modeInfo.refinementConditions
+					? { refinementConditions: colorResult.modeInfo.refinementConditions }
+					: {}),
 			},
 			size: {
 				default: sizeDefault,
 				overrides: sizeOverrides,
+				...(sizeMediaConditions ? { mediaConditions: sizeMediaConditions } : {}),
 			},
+			...(axes ? { axes } : {}),
 		},
 		scales: {
 			time: timeResult.scaleInfo,
 		},
 		overrideTokens,
-		mediaOverrides:
-			motionResult && motionResult.reducedMotionTokens.length > 0
-				? {
-						'(prefers-reduced-motion: reduce)': tokensToRecord(
-							motionResult.reducedMotionTokens,
-							'the reduced-motion media override'
-						),
-					}
-				: {},
+		mediaOverrides,
+		...(Object.keys(modeMediaOverrides).length > 0 ? { modeMediaOverrides } : {}),
+		...(Object.keys(axisColorOverrides).length > 0 ? { axisColorOverrides } : {}),
 	};
 }
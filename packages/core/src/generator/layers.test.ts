@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { oklch, type PartialDesignSystem } from '../index.js';
+import { createWorkbenchContract } from '../review/contract.js';
+import { toCss } from '../transformers/css.js';
+import { generate } from './index.js';
+
+const layers: NonNullable<PartialDesignSystem['layers']> = {
+	order: ['base', 'dropdown', 'sticky', { name: 'overlay', value: 100 }, 'modal', 'toast'],
+};
+
+function shadowSystem(stackingLayer: string): PartialDesignSystem {
+	return {
+		layers,
+		colors: {
+			modes: [{ name: 'default', isDefault: true, tokens: { ink: oklch(0.1, 0, 0) } }],
+			alphaSchedule: { lo: 0.2 },
+		},
+		shadows: {
+			unit: 'px',
+			box: {
+				raised: {
+					base: [{ x: 0, y: 8, blur: 24, color: { color: 'ink', alpha: 'lo' } }],
+					stackingLayer,
+				},
+			},
+		},
+	};
+}
+
+describe('generateLayerTokens', () => {
+	it('steps implicit layers from the previous value, lowest first', () => {
+		const ir = generate({ layers });
+
+		expect(
+			Object.values(ir.tokens)
+				.filter((token) => token.family === 'layer')
+				.map((token) => [token.name, token.value])
+		).toEqual([
+			['z-base', '0'],
+			['z-dropdown', '10'],
+			['z-sticky', '20'],
+			['z-overlay', '100'],
+			['z-modal', '110'],
+			['z-toast', '120'],
+		]);
+		expect(ir.layers?.order).toEqual(['base', 'dropdown', 'sticky', 'overlay', 'modal', 'toast']);
+		expect(ir.layers?.values.modal).toEqual({ token: 'z-modal', value: 110 });
+		expect(toCss(ir)).toContain('  --z-overlay: 100;');
+	});
+
+	it('honours a custom step', () => {
+		const ir = generate({ layers: { order: ['base', 'popover'], step: 1000 } });
+
+		expect(ir.layers?.values.popover?.value).toBe(1000);
+	});
+
+	it('pairs shadow recipes with a declared stacking layer in review', () => {
+		const system = shadowSystem('modal');
+		const ir = generate(system);
+		const contract = createWorkbenchContract(system, ir, {
+			systemFingerprint: 'layers',
+			toolVersion: '0.2.0',
+			stylesheets: ['./system.css'],
+		});
+		const shadows = contract.labs.find((lab) => lab.kind === 'shadows');
+
+		expect(ir.shadows?.box.raised?.stackingLayer).toBe('modal');
+		expect(shadows?.kind === 'shadows' && shadows.cases[0]?.stackingLayer).toEqual({
+			name: 'modal',
+			token: 'z-modal',
+			value: 110,
+		});
+	});
+
+	it('rejects shadow recipes naming an undeclared layer', () => {
+		expect(() => generate(shadowSystem('popover'))).toThrowError(
+			'shadows.box.raised.stackingLayer references unknown layer "popover"'
+		);
+	});
+});
@@ -0,0 +1,55 @@
+/**
+ * Stacking layer generator
+ *
+ * Resolves the declared layer order to z-index values, lowest first, and emits
+ * one unitless token per layer
+ */
+
+import type { LayerSystem } from '../types.js';
+import type { GeneratorConfig, LayerContract, TokenValue } from './types.js';
+
+export const DEFAULT_LAYER_STEP = 10;
+
+/**
+ * Resolve each layer to its z-index. Layers without an explicit value sit
+ * `step` above the previous layer; the first starts at 0.
+ */
+export function resolveLayers(layers: LayerSystem): Array<{ name: string; value: number }> {
+	const step = layers.step ?? DEFAULT_LAYER_STEP;
+	const resolved: Array<{ name: string; value: number }> = [];
+	for (const layer of layers.order) {
+		const previous = resolved.at(-1);
+		if (typeof layer === 'string') {
+			resolved.push({ name: layer, value: previous ? previous.value + step : 0 });
+		} else {
+			resolved.push({ name: layer.name, value: layer.value });
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Generate stacking layer tokens. Layers are root tokens and have no modes.
+ */
+export function generateLayerTokens(layers: LayerSystem, config: GeneratorConfig): TokenValue[] {
+	return resolveLayers(layers).map(({ name, value }) => ({
+		family: 'layer',
+		name: `${config.prefixes.layer}-${name}`,
+		value: String(value),
+		rawValue: value,
+	}));
+}
+
+/** Structured layer order for typed runtime constants and shadow pairing in review. */
+export function generateLayerContract(layers: LayerSystem, config: GeneratorConfig): LayerContract {
+	const resolved = resolveLayers(layers);
+	return {
+		order: resolved.map(({ name }) => name),
+		values: Object.fromEntries(
+			resolved.map(({ name, value }) => [
+				name,
+				{ token: `${config.prefixes.layer}-${name}`, value },
+			])
+		),
+	};
+}
@@ -15,6 +15,7 @@ import type {
 	MotionGeneratorResult,
 	TokenValue,
 } from './types.js';
+import { scaleValue } from './scale.js';
 import { getDefaultEntry } from './utils.js';
 
 type ResolvedMotionValue = {
@@ -43,7 +44,7 @@ function timeValue(
 	const prefix =
 		scale === defaultScale ? config.prefixes.time : `${config.prefixes.time}-${scale.name}`;
 	const token = `${prefix}-${step}`;
-	const sourceValue = step === 'min' ? scale.tokens.min : scale.tokens.base * step;
+	const sourceValue = scaleValue(scale.tokens, step);
 	const milliseconds = scale.tokens.unit === 's' ? sourceValue * 1000 : sourceValue;
 
 	return {
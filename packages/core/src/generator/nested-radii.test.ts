@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { toCss } from '../transformers/css.js';
+import { toFigmaJson } from '../transformers/figma-json.js';
+import type { PartialDesignSystem } from '../types.js';
+import { generate } from './index.js';
+
+function system(
+	nestedRadii: NonNullable<PartialDesignSystem['border']>['nestedRadii']
+): PartialDesignSystem {
+	return {
+		spacing: {
+			modes: [
+				{ name: 'default', isDefault: true, tokens: { unit: 'px', base: 8, min: 4, range: 12 } },
+				{ name: 'compact', tokens: { unit: 'px', base: 4, min: 2, range: 12 } },
+			],
+		},
+		gap: {
+			modes: [{ name: 'default', isDefault: true, tokens: { min: 'min', s: 1, l: 2, max: 3 } }],
+		},
+		border: {
+			radius: {
+				modes: [
+					{ name: 'default', isDefault: true, tokens: { min: 'min', s: 1, l: 2, max: 3 } },
+					{ name: 'round', tokens: { min: 'min', s: 2, l: 3, max: 5 } },
+				],
+			},
+			nestedRadii,
+		},
+	};
+}
+
+const nested = {
+	card: { outer: 'max', inset: { spacing: 1 } },
+	chip: { outer: 'card', inset: { gap: 's' } },
+	flush: { outer: 's', inset: { spacing: 2 } },
+} as const;
+
+describe('nested radii', () => {
+	it('resolves outer minus inset per mode, floored at zero', () => {
+		const ir = generate(system(nested));
+
+		expect(ir.tokens['bdr-card']).toMatchObject({
+			value: '16px',
+			rawValue: 16,
+			reference: 'bdr-max',
+		});
+		expect(ir.tokens['bdr-chip']?.value).toBe('8px');
+		expect(ir.tokens['bdr-flush']?.value).toBe('0px');
+		expect(ir.overrideTokens.compact?.['bdr-card']?.value).toBe('20px');
+		expect(ir.overrideTokens.compact?.['bdr-chip']?.value).toBe('12px');
+		expect(ir.overrideTokens.round?.['bdr-card']?.value).toBe('32px');
+		expect(ir.overrideTokens.round?.['bdr-flush']?.value).toBe('0px');
+	});
+
+	it('only overrides nested radii whose sources change in a mode', () => {
+		const ir = generate(system({ ...nested, pill: { outer: 'min', inset: { gap: 'min' } } }));
+
+		expect(ir.overrideTokens.compact?.['bdr-pill']).toBeUndefined();
+		expect(ir.overrideTokens.round?.['bdr-chip']?.value).toBe('24px');
+	});
+
+	it('writes max() expressions over the source variables with the calc strategy', () => {
+		const ir = generate(system(nested));
+		const css = toCss(ir, { nestedRadii: 'calc' });
+
+		expect(css).toContain('--bdr-card: max(0px, var(--bdr-max) - var(--sp-1));');
+		expect(css).toContain('--bdr-chip: max(0px, var(--bdr-card) - var(--gap-s));');
+		expect(css.match(/--bdr-card: max\(/g)).toHaveLength(3);
+		expect(toCss(ir)).toContain('--bdr-card: 16px;');
+	});
+
+	it('exports resolvable mode values to DTCG and leaves out fluid ones', () => {
+		const fluidCompact = system(nested);
+		fluidCompact.spacing!.modes[1] = {
+			...fluidCompact.spacing!.modes[1]!,
+			fluid: { minViewport: 360, maxViewport: 1280, tokens: { base: 6 } },
+		};
+		const ir = generate(fluidCompact);
+		const dtcg = JSON.parse(toFigmaJson(ir)) as {
+			dimension: Record<string, { $value: unknown; $extensions?: Record<string, unknown> }>;
+		};
+
+		expect(ir.overrideTokens.compact?.['bdr-card']).not.toHaveProperty('rawValue');
+		expect(dtcg.dimension['bdr-card']).toEqual({
+			$value: { value: 16, unit: 'px' },
+			$extensions: {
+				'com.three-forma-styli': {
+					modes: { default: { value: 16, unit: 'px' }, round: { value: 32, unit: 'px' } },
+				},
+			},
+		});
+	});
+
+	it('rejects a DTCG export whose default nested radius does not resolve', () => {
+		const fluidDefault = system(nested);
+		fluidDefault.spacing!.modes[0] = {
+			...fluidDefault.spacing!.modes[0]!,
+			fluid: { minViewport: 360, maxViewport: 1280, tokens: { base: 10 } },
+		};
+		const ir = generate(fluidDefault);
+
+		expect(ir.tokens['bdr-card']).not.toHaveProperty('rawValue');
+		expect(() => toFigmaJson(ir)).toThrowError(
+			'Token --bdr-card is a nested radius over a fluid or mixed-unit source in the default mode, but DTCG 2025.10 dimensions need a single length'
+		);
+	});
+
+	it('rejects unknown sources and ambiguous insets', () => {
+		expect(() => generate(system({ card: { outer: 'xl', inset: { spacing: 1 } } }))).toThrowError(
+			'border.nestedRadii.card.outer must be a border radius step (min, s, l, max) or an earlier nested radius (got "xl")'
+		);
+		expect(() =>
+			generate(system({ chip: { outer: 'card', inset: { spacing: 1 } }, card: nested.card }))
+		).toThrowError('border.nestedRadii.chip.outer must be a border radius step');
+		expect(() => generate(system({ card: { outer: 'max', inset: { spacing: 13 } } }))).toThrowError(
+			'border.nestedRadii.card.inset.spacing must be "min" or an integer from 1 to 12 for spacing mode "default"'
+		);
+		expect(() =>
+			generate(
+				system({
+					card: { outer: 'max', inset: { spacing: 1, gap: 's' } as unknown as { spacing: 1 } },
+				})
+			)
+		).toThrowError(
+			'border.nestedRadii.card.inset must reference exactly one of { spacing } or { gap }'
+		);
+		expect(() => generate(system({ max: { outer: 's', inset: { spacing: 1 } } }))).toThrowError(
+			'border.nestedRadii.max name collides with the border radius step "max"'
+		);
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { PartialDesignSystem, SpacingSystem } from '../types.js';
+import { generate } from './index.js';
+import { fontSizeValue, scaleStep, scaleValue } from './scale.js';
+
+const ramp = (scale?: SpacingSystem['scale']): SpacingSystem => ({
+	unit: 'px',
+	base: 8,
+	min: 4,
+	range: 5,
+	...(scale ? { scale } : {}),
+});
+
+const steps = (system: SpacingSystem) =>
+	Array.from({ length: system.range }, (_, index) => scaleStep(system, index + 1));
+
+describe('scale strategies', () => {
+	it('keeps base * n without a strategy', () => {
+		expect(steps(ramp())).toEqual([8, 16, 24, 32, 40]);
+		expect(steps(ramp({ kind: 'linear' }))).toEqual([8, 16, 24, 32, 40]);
+	});
+
+	it('adds a fixed step to base for linear ramps', () => {
+		expect(steps(ramp({ kind: 'linear', step: 4 }))).toEqual([8, 12, 16, 20, 24]);
+	});
+
+	it('multiplies by a ratio per step and rounds to four decimals', () => {
+		expect(steps(ramp({ kind: 'ratio', ratio: 1.25 }))).toEqual([8, 10, 12.5, 15.625, 19.5313]);
+	});
+
+	it('reads an explicit table of multiples of base', () => {
+		expect(steps(ramp({ kind: 'steps', multipliers: [1, 1.5, 2, 3, 6] }))).toEqual([
+			8, 12, 16, 24, 48,
+		]);
+	});
+
+	it('grows Fibonacci-like from 1 and 2', () => {
+		expect(steps(ramp({ kind: 'fibonacci' }))).toEqual([8, 16, 24, 40, 64]);
+	});
+
+	it('resolves min references to the authored min', () => {
+		expect(scaleValue(ramp({ kind: 'ratio', ratio: 2 }), 'min')).toBe(4);
+		expect(scaleValue(ramp({ kind: 'ratio', ratio: 2 }), 3)).toBe(32);
+	});
+
+	it('falls back to the additive increment for font sizes', () => {
+		const fontSizes = { unit: 'rem', base: 1, min: 0.75, increment: 0.125, range: 4 };
+		expect(fontSizeValue(fontSizes, 3)).toBe(1.25);
+		expect(
+			fontSizeValue({ ...fontSizes, increment: undefined, scale: { kind: 'ratio', ratio: 1.5 } }, 3)
+		).toBe(2.25);
+	});
+
+	it('resolves gap, radius, font-size, and motion references through the strategy', () => {
+		const system: PartialDesignSystem = {
+			spacing: { modes: [{ name: 'default', tokens: ramp({ kind: 'fibonacci' }) }] },
+			gap: { modes: [{ name: 'default', tokens: { min: 'min', s: 1, l: 3, max: 5 } }] },
+			border: {
+				radius: { modes: [{ name: 'default', tokens: { min: 'min', s: 2, l: 4, max: 5 } }] },
+			},
+			typography: {
+				modes: [
+					{
+						name: 'default',
+						tokens: {
+							unit: 'rem',
+							base: 1,
+							min: 0.75,
+							range: 4,
+							scale: { kind: 'ratio', ratio: 1.2 },
+						},
+					},
+				],
+			},
+			time: {
+				scales: [
+					{
+						name: 'default',
+						tokens: {
+							unit: 'ms',
+							base: 100,
+							min: 50,
+							range: 4,
+							scale: { kind: 'steps', multipliers: [1, 1.5, 2.5, 4] },
+						},
+					},
+				],
+			},
+			motion: {
+				easings: { standard: [0.2, 0, 0.38, 0.9] },
+				recipes: {
+					hover: { base: { duration: 3, easing: 'standard' }, reducedMotion: 'preserve' },
+				},
+			},
+		};
+		const ir = generate(system);
+
+		expect(ir.tokens['sp-4']?.value).toBe('40px');
+		expect(ir.tokens['gap-l']).toMatchObject({ value: '24px', reference: 'sp-3' });
+		expect(ir.tokens['gap-max']?.value).toBe('64px');
+		expect(ir.tokens['bdr-l']).toMatchObject({ value: '40px', reference: 'sp-4' });
+		expect(ir.tokens['fs-3']?.value).toBe('1.44rem');
+		expect(ir.tokens['fs-4']?.value).toBe('1.728rem');
+		expect(ir.tokens['t-3']?.value).toBe('250ms');
+		expect(ir.motion?.recipes.hover?.base.duration).toMatchObject({
+			token: 't-3',
+			milliseconds: 250,
+		});
+	});
+});
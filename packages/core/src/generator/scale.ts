@@ -0,0 +1,72 @@
+/**
+ * Scale strategies shared by the numbered spacing, time, and font-size ramps
+ */
+
+import type { FontSizeSystem, ScaleStrategy } from '../types.js';
+
+/** The parts of a numbered scale a strategy reads. */
+export interface ScaleSystem {
+	base: number;
+	min: number;
+	range: number;
+	scale?: ScaleStrategy;
+}
+
+/** The ramp spacing and time keep without a strategy: `base * n`. */
+const multiplicative: ScaleStrategy = { kind: 'linear' };
+
+/** 1, 2, 3, 5, 8, … for steps 1, 2, 3, 4, 5, … */
+function fibonacci(step: number): number {
+	let [current, next] = [1, 2];
+	for (let index = 1; index < step; index++) [current, next] = [next, current + next];
+	return current;
+}
+
+/**
+ * The value of step `n` (1-based) of a scale.
+ *
+ * `fallback` is the family's strategy when the scale names none. Values are
+ * rounded to four decimals so ratio ramps stay readable in CSS.
+ */
+export function scaleStep(
+	system: ScaleSystem,
+	step: number,
+	fallback: ScaleStrategy = multiplicative
+): number {
+	const strategy = system.scale ?? fallback;
+	let value: number;
+	switch (strategy.kind) {
+		case 'linear':
+			value = system.base + (strategy.step ?? system.base) * (step - 1);
+			break;
+		case 'ratio':
+			value = system.base * strategy.ratio ** (step - 1);
+			break;
+		case 'steps':
+			value = system.base * strategy.multipliers[step - 1]!;
+			break;
+		case 'fibonacci':
+			value = system.base * fibonacci(step);
+			break;
+	}
+	return Number(value.toFixed(4));
+}
+
+/** Resolve a `'min' | step` reference against a scale. */
+export function scaleValue(
+	system: ScaleSystem,
+	reference: 'min' | number,
+	fallback?: ScaleStrategy
+): number {
+	return reference === 'min' ? system.min : scaleStep(system, reference, fallback);
+}
+
+/** The strategy a font-size scale falls back to: a fixed `increment` per step. */
+export function fontSizeStrategy(system: Pick<FontSizeSystem, 'increment'>): ScaleStrategy {
+	return { kind: 'linear', step: system.increment };
+}
+
+/** Resolve a font-size reference, honouring the additive `increment` default. */
+export function fontSizeValue(system: FontSizeSystem, reference: 'min' | number): number {
+	return scaleValue(system, reference, fontSizeStrategy(system));
+}
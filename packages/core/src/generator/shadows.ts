@@ -1,10 +1,4 @@
-import type {
-	BoxShadowLayer,
-	ShadowColorReference,
-	ShadowRecipe,
-	ShadowSystem,
-	TextShadowLayer,
-} from '../types.js';
+import type { BoxShadowLayer, ShadowRecipe, ShadowSystem, TextShadowLayer } from '../types.js';
 import type {
 	GeneratorConfig,
 	ShadowContractLayer,
@@ -13,33 +7,19 @@ import type {
 	ShadowGeneratorResult,
 	TokenValue,
 } from './types.js';
+import { colorReference } from './utils.js';
 
 function dimension(value: number, unit: string): string {
 	return `${Object.is(value, -0) ? 0 : value}${unit}`;
 }
 
-function colorValue(
-	reference: ShadowColorReference,
-	config: GeneratorConfig
-): ShadowContractLayer['color'] {
-	const token = reference.alpha
-		? `${config.prefixes.color}-${reference.color}-${config.colorFormat.alphaModifier}-${reference.alpha}`
-		: `${config.prefixes.color}-${reference.color}`;
-	return {
-		name: reference.color,
-		...(reference.alpha ? { alpha: reference.alpha } : {}),
-		token,
-		css: `var(--${token})`,
-	};
-}
-
 function layerValue(
 	layer: BoxShadowLayer | TextShadowLayer,
 	kind: 'box' | 'text',
 	unit: string,
 	config: GeneratorConfig
 ): { css: string; contract: ShadowContractLayer } {
-	const color = colorValue(layer.color, config);
+	const color = colorReference(layer.color, config);
 	const spread = kind === 'box' && 'spread' in layer ? (layer.spread ?? 0) : undefined;
 	const inset = kind === 'box' && 'inset' in layer ? (layer.inset ?? false) : undefined;
 	const components = [
@@ -119,6 +99,7 @@ function shadowRecipes<Layer extends BoxShadowLayer | TextShadowLayer>(
 			base: base.contract,
 			variants,
 			displayOrder: recipe.displayOrder ?? ['base', ...Object.keys(variants)],
+			...(recipe.stackingLayer !== undefined ? { stackingLayer: recipe.stackingLayer } : {}),
 		};
 	}
 	return contract;
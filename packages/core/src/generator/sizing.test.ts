@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { toCss } from '../transformers/css.js';
+import type { PartialDesignSystem, SizingSystem } from '../types.js';
+import { generate } from './index.js';
+import { generateSizingTokens } from './sizing.js';
+import { defaultGeneratorConfig } from './types.js';
+
+const spacing: NonNullable<PartialDesignSystem['spacing']> = {
+	modes: [
+		{ name: 'default', isDefault: true, tokens: { unit: 'px', base: 8, min: 4, range: 6 } },
+		{ name: 'touch', tokens: { unit: 'px', base: 11, min: 6, range: 6 } },
+	],
+};
+
+const typography: NonNullable<PartialDesignSystem['typography']> = {
+	modes: [
+		{
+			name: 'default',
+			isDefault: true,
+			tokens: { unit: 'rem', base: 1, min: 0.75, increment: 0.25, range: 4 },
+		},
+	],
+};
+
+const sizes: SizingSystem = {
+	sizes: {
+		'icon-s': { fontSize: 1 },
+		'control-m': { spacing: 4 },
+		'target-min': { spacing: 3 },
+	},
+	hitTargets: ['control-m', 'target-min'],
+};
+
+function system(...overrides: Array<{ name: string; tokens: SizingSystem }>): PartialDesignSystem {
+	return {
+		spacing,
+		typography,
+		sizing: { modes: [{ name: 'default', isDefault: true, tokens: sizes }, ...overrides] },
+	};
+}
+
+describe('generateSizingTokens', () => {
+	it('resolves sizes against spacing and font-size steps', () => {
+		const result = generateSizingTokens(system().sizing!, system(), defaultGeneratorConfig);
+
+		expect(result.defaultTokens.map((token) => [token.name, token.value, token.reference])).toEqual(
+			[
+				['size-icon-s', '1rem', 'fs-1'],
+				['size-control-m', '32px', 'sp-4'],
+				['size-target-min', '24px', 'sp-3'],
+			]
+		);
+	});
+
+	it('follows the same-named spacing mode as a size mode', () => {
+		const ir = generate(
+			system({ name: 'touch', tokens: { ...sizes, hitTargets: ['control-m'], minHitTarget: 44 } })
+		);
+
+		expect(ir.modes.size.overrides).toContain('touch');
+		expect(ir.overrideTokens.touch?.['size-control-m']?.value).toBe('44px');
+		expect(toCss(ir)).toMatch(
+			/\[data-size-mode="touch"\] \{[^}]*--size-control-m: 44px;[^}]*--size-target-min: 33px;/
+		);
+	});
+
+	it('rejects hit targets below the mode minimum', () => {
+		expect(() =>
+			generate(system({ name: 'dense', tokens: { ...sizes, minHitTarget: 44 } }))
+		).toThrowError(
+			'sizing.modes["dense"].tokens.hitTargets "control-m" is 32px, below the 44px minimum hit target'
+		);
+		expect(() =>
+			generate(
+				system({
+					name: 'dense',
+					tokens: { sizes: { 'target-min': { spacing: 'min' } }, hitTargets: ['target-min'] },
+				})
+			)
+		).toThrowError(
+			'sizing.modes["dense"].tokens.hitTargets "target-min" is 4px, below the 24px minimum hit target'
+		);
+	});
+
+	it('rejects references outside the scale they name', () => {
+		expect(() =>
+			generate(system({ name: 'dense', tokens: { sizes: { 'icon-l': { fontSize: 9 } } } }))
+		).toThrowError(
+			'sizing.modes["dense"].tokens.sizes.icon-l.fontSize must be "min" or an integer from 1 to 4 for typography mode "default"'
+		);
+		expect(() =>
+			generate({ spacing, sizing: { modes: [{ name: 'default', tokens: sizes }] } })
+		).toThrowError(
+			'sizing.modes["default"].tokens.sizes.icon-s references font sizes, but typography is not declared'
+		);
+	});
+
+	it('checks pinned source modes even when no size uses their scale', () => {
+		const spacingOnly = { sizes: { 'control-m': { spacing: 4 } } } satisfies SizingSystem;
+
+		expect(() =>
+			generate(system({ name: 'dense', tokens: { ...spacingOnly, typographyMode: 'display' } }))
+		).toThrowError(
+			'sizing.modes["dense"].tokens.typographyMode references unknown typography mode "display"'
+		);
+		expect(() =>
+			generate({
+				spacing,
+				sizing: {
+					modes: [{ name: 'default', tokens: { ...spacingOnly, typographyMode: 'default' } }],
+				},
+			})
+		).toThrowError(
+			'sizing.modes["default"].tokens.typographyMode references typography mode "default", but typography is not declared'
+		);
+	});
+});
@@ -0,0 +1,150 @@
+/**
+ * Sizing token generator
+ *
+ * Generates component dimension tokens that reference spacing or font-size steps
+ */
+
+import type {
+	BreakpointSystem,
+	DesignSystem,
+	PartialDesignSystem,
+	SizingMode,
+	SizingReference,
+	SpacingMode,
+	TypographyMode,
+} from '../types.js';
+import type { FluidTokenValue, GeneratorConfig, GeneratorResult, TokenValue } from './types.js';
+import { fontSizeValue, scaleValue } from './scale.js';
+import { fluidLength, fluidStep, formatNumber, getDefaultEntry } from './utils.js';
+
+/** A size resolved against the spacing or typography mode it follows. */
+export interface ResolvedSize {
+	name: string;
+	value: number;
+	unit: string;
+	/** The family and step the size references. */
+	source: 'spacing' | 'typography';
+	step: number | 'min';
+	fluid?: FluidTokenValue;
+}
+
+/**
+ * Find the source mode a sizing mode follows: the named one, else the one
+ * sharing its name, else the default
+ */
+function findSourceMode<Mode extends { name: string; isDefault?: boolean }>(
+	sizingModeName: string,
+	requested: string | undefined,
+	modes: Mode[]
+): Mode {
+	if (requested) {
+		const namedMode = modes.find((mode) => mode.name === requested);
+		if (namedMode) return namedMode;
+	}
+	return modes.find((mode) => mode.name === sizingModeName) ?? getDefaultEntry(modes);
+}
+
+function resolveSize(
+	name: string,
+	reference: SizingReference,
+	spacingMode: (SpacingMode & { name: string }) | undefined,
+	typographyMode: (TypographyMode & { name: string }) | undefined,
+	breakpoints?: BreakpointSystem
+): ResolvedSize {
+	if ('spacing' in reference) {
+		const system = spacingMode!.tokens;
+		const value = scaleValue(system, reference.spacing);
+		const maxValue = scaleValue({ ...system, ...spacingMode!.fluid?.tokens }, reference.spacing);
+		const fluid = fluidStep(value, maxValue, spacingMode!.fluid, breakpoints);
+		return {
+			name,
+			value,
+			unit: system.unit,
+			source: 'spacing',
+			step: reference.spacing,
+			...(fluid ? { fluid } : {}),
+		};
+	}
+	const system = typographyMode!.tokens;
+	const value = fontSizeValue(system, reference.fontSize);
+	const maxValue = fontSizeValue(
+		{ ...system, ...typographyMode!.fluid?.tokens },
+		reference.fontSize
+	);
+	const fluid = fluidStep(value, maxValue, typographyMode!.fluid, breakpoints);
+	return {
+		name,
+		value,
+		unit: system.unit,
+		source: 'typography',
+		step: reference.fontSize,
+		...(fluid ? { fluid } : {}),
+	};
+}
+
+/**
+ * Resolve every size of a sizing mode against the spacing and typography
+ * modes it follows
+ */
+export function resolveSizingMode(
+	sizingMode: SizingMode & { name: string },
+	designSystem: Pick<PartialDesignSystem, 'spacing' | 'typography' | 'breakpoints'>
+): ResolvedSize[] {
+	const spacingMode = designSystem.spacing
+		? findSourceMode(sizingMode.name, sizingMode.tokens.spacingMode, designSystem.spacing.modes)
+		: undefined;
+	const typographyMode = designSystem.typography
+		? findSourceMode(
+				sizingMode.name,
+				sizingMode.tokens.typographyMode,
+				designSystem.typography.modes
+			)
+		: undefined;
+	return Object.entries(sizingMode.tokens.sizes).map(([name, reference]) =>
+		resolveSize(name, reference, spacingMode, typographyMode, designSystem.breakpoints)
+	);
+}
+
+function generateTokensForMode(
+	sizingMode: SizingMode & { name: string },
+	designSystem: Pick<PartialDesignSystem, 'spacing' | 'typography' | 'breakpoints'>,
+	config: GeneratorConfig
+): TokenValue[] {
+	return resolveSizingMode(sizingMode, designSystem).map(
+		({ name, value, unit, source, step, fluid }) => ({
+			family: 'sizing',
+			name: `${config.prefixes.sizing}-${name}`,
+			value: fluid ? fluidLength(fluid, unit) : `${formatNumber(value)}${unit}`,
+			rawValue: value,
+			unit,
+			reference: `${config.prefixes[source]}-${step}`,
+			...(fluid ? { metadata: { fluid } } : {}),
+		})
+	);
+}
+
+/**
+ * Generate all sizing tokens from a DesignSystem
+ */
+export function generateSizingTokens(
+	sizing: NonNullable<DesignSystem['sizing']>,
+	designSystem: Pick<PartialDesignSystem, 'spacing' | 'typography' | 'breakpoints'>,
+	config: GeneratorConfig
+): GeneratorResult {
+	const defaultMode = getDefaultEntry(sizing.modes);
+	const overrideModes = sizing.modes.filter((mode) => mode !== defaultMode);
+
+	const overrideTokens: Record<string, TokenValue[]> = {};
+	for (const mode of overrideModes) {
+		overrideTokens[mode.name] = generateTokensForMode(mode, designSystem, config);
+	}
+
+	return {
+		defaultTokens: generateTokensForMode(defaultMode, designSystem, config),
+		overrideTokens,
+		modeInfo: {
+			default: defaultMode.name,
+			overrides: overrideModes.map((mode) => mode.name),
+		},
+	};
+}
@@ -192,4 +192,69 @@ describe('generateSpacingTokens', () => {
 			expect(result.modeInfo.overrides).toContain('second');
 		});
 	});
+
+	describe('fluid scales', () => {
+		const fluidSpacing: DesignSystem['spacing'] = {
+			modes: [
+				{
+					name: 'default',
+					isDefault: true,
+					tokens: { unit: 'px', base: 8, min: 4, range: 3 },
+					fluid: { minViewport: 360, maxViewport: 1280, tokens: { base: 12 } },
+				},
+			],
+		};
+
+		it('interpolates steps between the viewport bounds with clamp()', () => {
+			const result = generateSpacingTokens(fluidSpacing, defaultGeneratorConfig);
+
+			const sp1 = result.defaultTokens.find((t) => t.name === 'sp-1');
+			expect(sp1?.value).toBe('clamp(8px, 6.4348px + 0.4348vw, 12px)');
+			expect(sp1?.rawValue).toBe(8);
+			expect(sp1?.metadata?.fluid).toEqual({
+				minViewport: 360,
+				maxViewport: 1280,
+				min: 8,
+				max: 12,
+			});
+			expect(result.defaultTokens.find((t) => t.name === 'sp-3')?.value).toBe(
+				'clamp(24px, 19.3043px + 1.3043vw, 36px)'
+			);
+		});
+
+		it('keeps scale values the fluid block leaves out static', () => {
+			const result = generateSpacingTokens(fluidSpacing, defaultGeneratorConfig);
+
+			const minToken = result.defaultTokens.find((t) => t.name === 'sp-min');
+			expect(minToken?.value).toBe('4px');
+			expect(minToken?.metadata).toBeUndefined();
+		});
+
+		it('converts the viewport slope at 16px per rem', () => {
+			const remSpacing: DesignSystem['spacing'] = {
+				modes: [
+					{
+						name: 'default',
+						tokens: { unit: 'rem', base: 0.5, min: 0.25, range: 1 },
+						fluid: { minViewport: 360, maxViewport: 1280, tokens: { base: 0.75 } },
+					},
+				],
+			};
+			const result = generateSpacingTokens(remSpacing, defaultGeneratorConfig);
+
+			expect(result.defaultTokens.find((t) => t.name === 'sp-1')?.value).toBe(
+				'clamp(0.5rem, 0.4022rem + 0.4348vw, 0.75rem)'
+			);
+		});
+
+		it('writes a negative slope when the scale shrinks toward wide viewports', () => {
+			const shrinking = structuredClone(fluidSpacing);
+			shrinking.modes[0].fluid!.tokens = { base: 6 };
+			const result = generateSpacingTokens(shrinking, defaultGeneratorConfig);
+
+			expect(result.defaultTokens.find((t) => t.name === 'sp-1')?.value).toBe(
+				'clamp(6px, 8.7826px - 0.2174vw, 8px)'
+			);
+		});
+	});
 });
@@ -1,43 +1,48 @@
 /**
  * Spacing token generator
  *
- * Generates spacing tokens using multiplicative formula: sp-{n} = base * n
+ * Generates spacing tokens using multiplicative formula: sp-{n} = base * n,
+ * or the mode's scale strategy when it names one
  */
 
-import type { DesignSystem, SpacingMode } from '../types.js';
+import type { BreakpointSystem, DesignSystem, SpacingMode } from '../types.js';
 import type { TokenValue, GeneratorResult, GeneratorConfig } from './types.js';
-import { getDefaultEntry } from './utils.js';
+import { scaleStep } from './scale.js';
+import { fluidLength, fluidStep, getDefaultEntry } from './utils.js';
 
 /**
  * Generate tokens for a single spacing mode
+ *
+ * A fluid mode emits `clamp()` values for the steps that change between its viewports.
  */
 function generateTokensForMode(
 	mode: SpacingMode & { name: string },
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	breakpoints?: BreakpointSystem
 ): TokenValue[] {
 	const prefix = config.prefixes.spacing;
-	const { unit, base, min, range } = mode.tokens;
+	const { unit, min, range } = mode.tokens;
+	const widest = { ...mode.tokens, ...mode.fluid?.tokens };
 	const tokens: TokenValue[] = [];
 
-	// sp-min
-	tokens.push({
-		family: 'spacing',
-		name: `${prefix}-min`,
-		value: `${min}${unit}`,
-		rawValue: min,
-		unit,
-	});
-
-	// sp-1 through sp-{range}
-	for (let i = 1; i <= range; i++) {
-		const value = base * i;
+	const push = (name: string, value: number, maxValue: number) => {
+		const fluid = fluidStep(value, maxValue, mode.fluid, breakpoints);
 		tokens.push({
 			family: 'spacing',
-			name: `${prefix}-${i}`,
-			value: `${value}${unit}`,
+			name,
+			value: fluid ? fluidLength(fluid, unit) : `${value}${unit}`,
 			rawValue: value,
 			unit,
+			...(fluid ? { metadata: { fluid } } : {}),
 		});
+	};
+
+	// sp-min
+	push(`${prefix}-min`, min, widest.min);
+
+	// sp-1 through sp-{range}
+	for (let i = 1; i <= range; i++) {
+		push(`${prefix}-${i}`, scaleStep(mode.tokens, i), scaleStep(widest, i));
 	}
 
 	return tokens;
@@ -48,16 +53,17 @@ function generateTokensForMode(
  */
 export function generateSpacingTokens(
 	spacing: DesignSystem['spacing'],
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	breakpoints?: BreakpointSystem
 ): GeneratorResult {
 	const defaultMode = getDefaultEntry(spacing.modes);
 	const overrideModes = spacing.modes.filter((m) => m !== defaultMode);
 
-	const defaultTokens = generateTokensForMode(defaultMode, config);
+	const defaultTokens = generateTokensForMode(defaultMode, config, breakpoints);
 
 	const overrideTokens: Record<string, TokenValue[]> = {};
 	for (const mode of overrideModes) {
-		overrideTokens[mode.name] = generateTokensForMode(mode, config);
+		overrideTokens[mode.name] = generateTokensForMode(mode, config, breakpoints);
 	}
 
 	return {
@@ -1,7 +1,8 @@
 /**
  * Time token generator
  *
- * Generates time tokens using multiplicative formula: t-{n} = base * n
+ * Generates time tokens using multiplicative formula: t-{n} = base * n,
+ * or the scale's strategy when it names one
  *
  * The default scale gets unprefixed tokens (--t-1, --t-2, etc.)
  * Other scales get their name as prefix (--t-anim-1, --t-anim-2, etc.)
@@ -9,6 +10,7 @@
 
 import type { DesignSystem, TimeScale } from '../types.js';
 import type { TokenValue, GeneratorConfig, TimeGeneratorResult } from './types.js';
+import { scaleStep } from './scale.js';
 import { getDefaultEntry } from './utils.js';
 
 /**
@@ -20,7 +22,7 @@ function generateTokensForMode(
 	config: GeneratorConfig
 ): TokenValue[] {
 	const basePrefix = config.prefixes.time;
-	const { unit, base, min, range } = scale.tokens;
+	const { unit, min, range } = scale.tokens;
 	const tokens: TokenValue[] = [];
 
 	const prefix = isDefaultScale ? basePrefix : `${basePrefix}-${scale.name}`;
@@ -39,7 +41,7 @@ function generateTokensForMode(
 
 	// 1 through {range}
 	for (let i = 1; i <= range; i++) {
-		const value = base * i;
+		const value = scaleStep(scale.tokens, i);
 		tokens.push({
 			family: 'time',
 			name: `${prefix}-${i}`,
@@ -17,9 +17,14 @@ export interface TokenValue {
 		| 'typography'
 		| 'borderRadius'
 		| 'borderWidth'
+		| 'sizing'
 		| 'time'
 		| 'motion'
-		| 'shadow';
+		| 'shadow'
+		| 'focusRing'
+		| 'gradient'
+		| 'breakpoint'
+		| 'layer';
 
 	/** Full token name without -- prefix (e.g., 'clr-bg', 'sp-1', 'gap-s') */
 	name: string;
@@ -50,6 +55,26 @@ export interface TokenMetadata {
 	/** For color tokens: the base color this variant derives from */
 	baseColor?: string;
 
+	/** For flattened and mix color tokens: the opaque surface the color was combined with */
+	surfaceColor?: string;
+
+	/** For mix color tokens: which mix level (lo, hi, etc.) */
+	mixLevel?: string;
+
+	/** For mix color tokens in OKLCH output: the `color-mix()` CSS emits instead of the value */
+	colorMix?: string;
+
+	/** For state color tokens: the interactive color, the state level, and the overlay color painted over it */
+	stateColor?: string;
+	stateLevel?: string;
+	stateOverlay?: string;
+
+	/** For state color tokens: the translucent overlay rather than the opaque result */
+	isStateLayer?: boolean;
+
+	/** For semantic color aliases: the intent name, e.g. `text-muted` */
+	semanticColor?: string;
+
 	/** For time tokens: is this a shorthand? */
 	isShorthand?: boolean;
 
@@ -62,10 +87,29 @@ export interface TokenMetadata {
 	/** For motion tokens: base or an authored variant name. */
 	motionVariant?: string;
 
+	/** For fluid spacing, gap, and typography tokens: the step at each viewport bound. */
+	fluid?: FluidTokenValue;
+
 	/** For shadow tokens: grammar, author recipe, and base/variant identity. */
 	shadowKind?: 'box' | 'text';
 	shadowRecipe?: string;
 	shadowVariant?: string;
+
+	/** For breakpoint tokens: whether the width applies to the viewport or a container. */
+	breakpointKind?: 'viewport' | 'container';
+
+	/** For nested radius tokens: the `max()` expression over the outer radius and inset tokens. */
+	radiusExpression?: string;
+}
+
+/** A size step interpolated between two viewport widths. */
+export interface FluidTokenValue {
+	/** Viewport widths in px. */
+	minViewport: number;
+	maxViewport: number;
+	/** The step at each viewport bound, in the token's unit. */
+	min: number;
+	max: number;
 }
 
 /**
@@ -77,6 +121,25 @@ export interface ModeInfo {
 
 	/** Names of override modes */
 	overrides: string[];
+
+	/** Media conditions that apply an override mode when none is set explicitly, by mode name */
+	mediaConditions?: Record<string, string>;
+
+	/** Authored `metadata.polarity` of color modes, by mode name */
+	polarities?: Record<string, 'negative' | 'positive'>;
+
+	/**
+	 * Accessibility media conditions that refine color modes in place. The
+	 * default mode's refinement is the `mediaOverrides` entry for the condition.
+	 */
+	refinementConditions?: string[];
+}
+
+/** A user-declared mode axis with the override modes that generated tokens. */
+export interface ModeAxisInfo extends ModeInfo {
+	/** Selector template with a `{mode}` placeholder. */
+	selector: string;
+	families: import('../types.js').ModeAxisFamily[];
 }
 
 export interface ScaleInfo {
@@ -96,6 +159,8 @@ export interface TypographyContractRecipe {
 	fontSizeReference: import('../types.js').FontSizeReference;
 	lineHeight: number;
 	letterSpacingEm: number;
+	/** Set when the atomic font size interpolates between viewport widths. */
+	fluidFontSize?: FluidTokenValue;
 	textTransformToken?: string;
 	textTransform?: import('../types.js').TypographyTextTransform;
 	fontKerningToken?: string;
@@ -190,18 +255,58 @@ export interface MotionContract {
 	>;
 }
 
+/** A color mode with its `extends` chain resolved. */
+export interface ResolvedColorMode {
+	name: string;
+	/** Parent chain, nearest first; empty for the default mode. */
+	lineage: string[];
+	/**
+	 * Colors the mode's block declares: everything for the default mode, and for
+	 * an override mode its own colors plus those authored along its chain.
+	 */
+	tokens: import('../types.js').ColorTokens;
+	/** Every color as it renders in the mode. */
+	palette: import('../types.js').ColorTokens;
+	alphaSchedule: import('../types.js').AlphaSchedule | undefined;
+	/** Preference refinements as they apply in the mode, inherited ones included. */
+	moreContrast: import('../types.js').ColorTokens;
+	forcedColors: Readonly<Record<string, import('../types.js').SystemColor>>;
+}
+
+/** One `colors.states` level composited over its interactive color in a palette. */
+export interface ResolvedStateLayer {
+	color: string;
+	overlay: string;
+	level: string;
+	alpha: number;
+	/** The opaque result of painting the overlay over the interactive color. */
+	value: import('../types.js').ColorTokens[string];
+}
+
+export interface SemanticColorContractEntry {
+	token: string;
+	css: string;
+	/** Every color mode, including those that inherit the base reference. */
+	modes: Record<string, ColorContractReference>;
+}
+
+export type SemanticColorContract = Record<string, SemanticColorContractEntry>;
+
+/** A resolved `{ color, alpha }` reference to one generated color token. */
+export interface ColorContractReference {
+	name: string;
+	alpha?: string;
+	token: string;
+	css: string;
+}
+
 export interface ShadowContractLayer {
 	x: number;
 	y: number;
 	blur: number;
 	spread?: number;
 	inset?: boolean;
-	color: {
-		name: string;
-		alpha?: string;
-		token: string;
-		css: string;
-	};
+	color: ColorContractReference;
 }
 
 export interface ShadowContractValue {
@@ -214,6 +319,7 @@ export interface ShadowContractRecipe {
 	base: ShadowContractValue;
 	variants: Record<string, ShadowContractValue>;
 	displayOrder: string[];
+	stackingLayer?: string;
 }
 
 export interface ShadowContract {
@@ -223,6 +329,68 @@ export interface ShadowContract {
 	text: Record<string, ShadowContractRecipe>;
 }
 
+export interface FocusRingContractRecipe {
+	token: string;
+	offsetToken: string;
+	width: { step: string; token: string; value: number; unit: string };
+	style: 'solid' | 'dashed' | 'dotted' | 'double';
+	color: ColorContractReference;
+	offset: number;
+	unit: string;
+	css: string;
+}
+
+/** Focus outline recipes by name. */
+export type FocusRingContract = Record<string, FocusRingContractRecipe>;
+
+export interface GradientContractStop {
+	color: ColorContractReference;
+	/** Resolved percentage; authored gaps are spread evenly between neighbours. */
+	position: number;
+}
+
+export interface GradientContractRecipe {
+	token: string;
+	kind: 'linear' | 'radial' | 'conic';
+	interpolation: 'oklch' | 'oklab' | 'srgb' | 'srgb-linear' | 'display-p3';
+	hue?: 'shorter' | 'longer' | 'increasing' | 'decreasing';
+	/** Degrees; linear direction or conic starting angle. */
+	angle?: number;
+	shape?: 'circle' | 'ellipse';
+	/** Center in percentages for radial and conic gradients. */
+	at?: { x: number; y: number };
+	stops: GradientContractStop[];
+	css: string;
+}
+
+/** Gradient recipes by name. */
+export type GradientContract = Record<string, GradientContractRecipe>;
+
+export interface BreakpointContractValue {
+	token: string;
+	/** Minimum width in px. */
+	width: number;
+	/** Media or container query condition, e.g. `(width >= 768px)`. */
+	query: string;
+}
+
+export interface LayerContractValue {
+	token: string;
+	value: number;
+}
+
+/** Stacking layers, lowest first. */
+export interface LayerContract {
+	order: string[];
+	values: Record<string, LayerContractValue>;
+}
+
+/** Breakpoints by name, narrowest first. */
+export interface BreakpointContract {
+	viewport: Record<string, BreakpointContractValue & { customMedia: string }>;
+	container: Record<string, BreakpointContractValue>;
+}
+
 /**
  * The complete Intermediate Representation
  */
@@ -234,6 +402,8 @@ export interface IR {
 	modes: {
 		color: ModeInfo;
 		size: ModeInfo;
+		/** User-declared `modeAxes`, whose members leave the color and size categories. */
+		axes?: Record<string, ModeAxisInfo>;
 	};
 
 	/** Simultaneously emitted atomic scales. */
@@ -244,9 +414,27 @@ export interface IR {
 	/** Override tokens by mode name, only contains tokens that differ from default */
 	overrideTokens: Record<string, Record<string, TokenValue>>;
 
-	/** Conditional token overrides keyed by their complete CSS media condition. */
+	/**
+	 * Conditional token overrides keyed by their complete CSS media condition.
+	 * Conditions listed in `modes.color.mediaConditions` or
+	 * `modes.size.mediaConditions` apply a mode and yield to an explicitly
+	 * selected one of the same category.
+	 */
 	mediaOverrides: Record<string, Record<string, TokenValue>>;
 
+	/**
+	 * Override-mode refinements under `modes.color.refinementConditions`, by mode
+	 * name then condition. Each applies within its mode's selector.
+	 */
+	modeMediaOverrides?: Record<string, Record<string, Record<string, TokenValue>>>;
+
+	/**
+	 * Derived colors a mode-axis member such as a brand shares with an override
+	 * color mode, e.g. a brand color composited over a light-mode surface. Keyed
+	 * by axis mode then color mode; each applies where both modes are selected.
+	 */
+	axisColorOverrides?: Record<string, Record<string, Record<string, TokenValue>>>;
+
 	/** Structured typography decisions for typed and non-CSS transformers. */
 	typography?: TypographyContract;
 
@@ -255,6 +443,21 @@ export interface IR {
 
 	/** Structured, mode-aware box/text shadow recipes. */
 	shadows?: ShadowContract;
+
+	/** Composite focus outlines over the border width scale. */
+	focusRings?: FocusRingContract;
+
+	/** Linear, radial and conic gradients over color tokens. */
+	gradients?: GradientContract;
+
+	/** Intent-named color aliases and the reference each resolves to per color mode. */
+	semanticColors?: SemanticColorContract;
+
+	/** Named viewport and container widths with their query conditions. */
+	breakpoints?: BreakpointContract;
+
+	/** Named stacking layers and their z-index values. */
+	layers?: LayerContract;
 }
 
 /**
@@ -271,9 +474,15 @@ export interface GeneratorConfig {
 		typographyRole: string;
 		borderRadius: string;
 		borderWidth: string;
+		sizing: string;
 		time: string;
 		motion: string;
 		shadow: string;
+		focusRing: string;
+		gradient: string;
+		breakpoint: string;
+		container: string;
+		layer: string;
 	};
 
 	/** Color output format */
@@ -281,6 +490,8 @@ export interface GeneratorConfig {
 		base: 'hex' | 'hex-p3' | 'oklch' | 'rgb';
 		alpha: 'rgba' | 'oklch' | 'hexa' | 'hexa-p3';
 		alphaModifier: string;
+		mixModifier: string;
+		stateModifier: string;
 	};
 }
 
@@ -302,14 +513,22 @@ export const defaultGeneratorConfig = Object.freeze({
 		typographyRole: 'text',
 		borderRadius: 'bdr',
 		borderWidth: 'bdw',
+		sizing: 'size',
 		time: 't',
 		motion: 'motion',
 		shadow: 'shadow',
+		focusRing: 'ring',
+		gradient: 'grad',
+		breakpoint: 'bp',
+		container: 'cq',
+		layer: 'z',
 	}),
 	colorFormat: Object.freeze({
 		base: 'oklch',
 		alpha: 'oklch',
 		alphaModifier: 'a',
+		mixModifier: 'mix',
+		stateModifier: 'state',
 	}),
 }) satisfies GeneratorConfig;
 
@@ -325,6 +544,12 @@ export interface GeneratorResult {
 
 	/** Mode information */
 	modeInfo: ModeInfo;
+
+	/** Preference refinements by mode name, then media condition */
+	refinementTokens?: Record<string, Record<string, TokenValue[]>>;
+
+	/** Derived colors a mode-axis member shares with a color mode, by axis mode then color mode */
+	axisColorTokens?: Record<string, Record<string, TokenValue[]>>;
 }
 
 /** Time scales are all root tokens and therefore have no override-mode surface. */
@@ -345,3 +570,15 @@ export interface ShadowGeneratorResult {
 	defaultTokens: TokenValue[];
 	contract: ShadowContract;
 }
+
+/** Focus rings are root composites over width and color tokens that follow modes. */
+export interface FocusRingGeneratorResult {
+	defaultTokens: TokenValue[];
+	contract: FocusRingContract;
+}
+
+/** Gradients are root composites over color tokens that follow color modes. */
+export interface GradientGeneratorResult {
+	defaultTokens: TokenValue[];
+	contract: GradientContract;
+}
@@ -406,4 +406,32 @@ describe('generateTypographyTokens', () => {
 		typography.modes[0].tokens.min = 1;
 		expect(() => generate({ typography })).toThrow('smaller than base');
 	});
+
+	it('interpolates atomic steps between viewport bounds and records them on the contract', () => {
+		const typography = structuredClone(semanticTypography);
+		typography.modes[0].fluid = {
+			minViewport: 360,
+			maxViewport: 1280,
+			tokens: { base: 1.125, increment: 0.25 },
+		};
+		const ir = generate({ typography });
+
+		expect(ir.tokens['fs-1']?.value).toBe('clamp(1rem, 0.9511rem + 0.2174vw, 1.125rem)');
+		expect(ir.tokens['fs-min']?.value).toBe('0.625rem');
+		expect(ir.typography?.roles.copy.base.fluidFontSize).toEqual({
+			minViewport: 360,
+			maxViewport: 1280,
+			min: 1.125,
+			max: 1.375,
+		});
+		expect(ir.typography?.roles.copy.variants.display.fluidFontSize?.max).toBe(2.625);
+	});
+
+	it('validates the widest fluid scale like the authored one', () => {
+		const typography = structuredClone(basicTypography);
+		typography.modes[0].fluid = { minViewport: 360, maxViewport: 1280, tokens: { min: 1.5 } };
+		expect(() => generate({ typography })).toThrow(
+			'Typography mode "default" fluid min must be a positive number smaller than base'
+		);
+	});
 });
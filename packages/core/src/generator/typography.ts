@@ -1,6 +1,7 @@
 /** Typography token generator. */
 
 import type {
+	BreakpointSystem,
 	DesignSystem,
 	FontSizeReference,
 	TypographyFeatureValue,
@@ -17,11 +18,8 @@ import type {
 	TypographyContract,
 	TypographyContractRecipe,
 } from './types.js';
-import { getDefaultEntry } from './utils.js';
-
-function formatNumber(value: number): string {
-	return value.toFixed(4).replace(/\.?0+$/, '');
-}
+import { fontSizeValue } from './scale.js';
+import { fluidLength, fluidStep, formatNumber, getDefaultEntry } from './utils.js';
 
 const genericFontFamilies = new Set([
 	'serif',
@@ -211,7 +209,8 @@ function normalizedStyles(role: TypographyRole) {
 
 export function generateTypographyContract(
 	typography: DesignSystem['typography'],
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	breakpoints?: BreakpointSystem
 ): TypographyContract | undefined {
 	if (!typography.fonts || !typography.roles) return undefined;
 	const fonts = Object.fromEntries(
@@ -225,15 +224,26 @@ export function generateTypographyContract(
 			},
 		])
 	);
+	const fluidSteps = new Map(
+		generateTokensForMode(getDefaultEntry(typography.modes), config, breakpoints).flatMap(
+			(token) => (token.metadata?.fluid ? [[token.name, token.metadata.fluid] as const] : [])
+		)
+	);
+	const withFluidFontSize = (recipe: TypographyContractRecipe): TypographyContractRecipe => {
+		const fluid = fluidSteps.get(recipe.atomicFontSizeToken);
+		return fluid ? { ...recipe, fluidFontSize: fluid } : recipe;
+	};
 	const roles = Object.fromEntries(
 		Object.entries(typography.roles).map(([roleName, role]) => {
 			const rolePrefix = `${config.prefixes.typographyRole}-${roleName}`;
 			const styles = normalizedStyles(role);
-			const base = recipeTokens(roleName, undefined, role.base, role, config).contract;
+			const base = withFluidFontSize(
+				recipeTokens(roleName, undefined, role.base, role, config).contract
+			);
 			const variants = Object.fromEntries(
 				Object.entries(role.variants ?? {}).map(([name, recipe]) => [
 					name,
-					recipeTokens(roleName, name, recipe, role, config).contract,
+					withFluidFontSize(recipeTokens(roleName, name, recipe, role, config).contract),
 				])
 			);
 			const displayOrder = role.displayOrder
@@ -367,46 +377,47 @@ function generateSemanticModeTokens(
 
 function generateTokensForMode(
 	mode: TypographyMode & { name: string },
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	breakpoints?: BreakpointSystem
 ): TokenValue[] {
 	const prefix = config.prefixes.typography;
-	const { unit, base, min, increment, range } = mode.tokens;
-	const tokens: TokenValue[] = [
-		{
+	const { unit, range } = mode.tokens;
+	const widest = { ...mode.tokens, ...mode.fluid?.tokens };
+	const token = (name: string, value: number, maxValue: number): TokenValue => {
+		const fluid = fluidStep(value, maxValue, mode.fluid, breakpoints);
+		return {
 			family: 'typography',
-			name: `${prefix}-min`,
-			value: `${formatNumber(min)}${unit}`,
-			rawValue: min,
-			unit,
-		},
-	];
-	for (let index = 1; index <= range; index++) {
-		const value = index === 1 ? base : base + increment * (index - 1);
-		tokens.push({
-			family: 'typography',
-			name: `${prefix}-${index}`,
-			value: `${formatNumber(value)}${unit}`,
+			name,
+			value: fluid ? fluidLength(fluid, unit) : `${formatNumber(value)}${unit}`,
 			rawValue: value,
 			unit,
-		});
+			...(fluid ? { metadata: { fluid } } : {}),
+		};
+	};
+	const tokens: TokenValue[] = [token(`${prefix}-min`, mode.tokens.min, widest.min)];
+	for (let index = 1; index <= range; index++) {
+		tokens.push(
+			token(`${prefix}-${index}`, fontSizeValue(mode.tokens, index), fontSizeValue(widest, index))
+		);
 	}
 	return tokens;
 }
 
 export function generateTypographyTokens(
 	typography: DesignSystem['typography'],
-	config: GeneratorConfig
+	config: GeneratorConfig,
+	breakpoints?: BreakpointSystem
 ): GeneratorResult {
 	const defaultMode = getDefaultEntry(typography.modes);
 	const overrideModes = typography.modes.filter((mode) => mode !== defaultMode);
 	const defaultTokens = [
-		...generateTokensForMode(defaultMode, config),
+		...generateTokensForMode(defaultMode, config, breakpoints),
 		...generateSemanticTokens(typography, config),
 	];
 	const overrideTokens: Record<string, TokenValue[]> = {};
 	for (const mode of overrideModes) {
 		overrideTokens[mode.name] = [
-			...generateTokensForMode(mode, config),
+			...generateTokensForMode(mode, config, breakpoints),
 			...generateSemanticModeTokens(typography, mode.name, config),
 		];
 	}
@@ -2,6 +2,25 @@
  * Shared utilities for token generators
  */
 
+import { compositeOver } from '../constraints/srgb.js';
+import type {
+	ColorMode,
+	ColorReference,
+	ColorTokens,
+	AlphaSchedule,
+	BreakpointSystem,
+	FluidScale,
+	StateLayerSchedule,
+} from '../types.js';
+import type {
+	ColorContractReference,
+	FluidTokenValue,
+	GeneratorConfig,
+	ResolvedColorMode,
+	ResolvedStateLayer,
+} from './types.js';
+import { viewportWidth } from './breakpoints.js';
+
 /**
  * Get the default named entry from an ordered collection.
  *
@@ -11,3 +30,158 @@ export function getDefaultEntry<T extends { isDefault?: boolean; name: string }>
 	const explicitDefault = entries.find((entry) => entry.isDefault);
 	return explicitDefault || entries[0];
 }
+
+/** Format a number with at most four decimals and no trailing zeros. */
+export function formatNumber(value: number): string {
+	const formatted = value.toFixed(4).replace(/\.?0+$/, '');
+	return formatted === '-0' ? '0' : formatted;
+}
+
+/** Root font size, in px, that fluid `rem` steps convert at. */
+const fluidRootFontSize = 16;
+
+/**
+ * Format a fluid step as `clamp(smaller, intercept + slope vw, larger)`.
+ *
+ * The preferred value is the line through the step at both viewport bounds;
+ * a step that does not change between them stays a plain length.
+ */
+export function fluidLength(fluid: FluidTokenValue, unit: string): string {
+	if (fluid.min === fluid.max) return `${formatNumber(fluid.min)}${unit}`;
+	const slope = (fluid.max - fluid.min) / (fluid.maxViewport - fluid.minViewport);
+	const intercept = fluid.min - slope * fluid.minViewport;
+	const vw = slope * 100 * (unit === 'rem' ? fluidRootFontSize : 1);
+	const preferred = `${formatNumber(intercept)}${unit} ${vw < 0 ? '-' : '+'} ${formatNumber(Math.abs(vw))}vw`;
+	const lower = Math.min(fluid.min, fluid.max);
+	const upper = Math.max(fluid.min, fluid.max);
+	return `clamp(${formatNumber(lower)}${unit}, ${preferred}, ${formatNumber(upper)}${unit})`;
+}
+
+/** A px or rem length in px, at the root font size fluid steps assume; undefined for other units. */
+export function lengthInPx(value: number, unit: string): number | undefined {
+	if (unit === 'px') return value;
+	if (unit === 'rem') return value * fluidRootFontSize;
+	return undefined;
+}
+
+/** The value a fluid step resolves to at a viewport width, in px. */
+export function resolveFluidValue(fluid: FluidTokenValue, viewport: number): number {
+	const progress = (viewport - fluid.minViewport) / (fluid.maxViewport - fluid.minViewport);
+	return fluid.min + (fluid.max - fluid.min) * Math.min(1, Math.max(0, progress));
+}
+
+/** The fluid bounds of a step, or undefined when it holds still across the viewports. */
+export function fluidStep(
+	min: number,
+	max: number,
+	viewports: Pick<FluidScale<unknown>, 'minViewport' | 'maxViewport'> | undefined,
+	breakpoints?: BreakpointSystem
+): FluidTokenValue | undefined {
+	if (!viewports || min === max) return undefined;
+	return {
+		minViewport: viewportWidth(viewports.minViewport, breakpoints),
+		maxViewport: viewportWidth(viewports.maxViewport, breakpoints),
+		min,
+		max,
+	};
+}
+
+/** Resolve a `{ color, alpha }` reference to its generated color token. */
+export function colorReference(
+	reference: ColorReference,
+	config: GeneratorConfig
+): ColorContractReference {
+	const token = reference.alpha
+		? `${config.prefixes.color}-${reference.color}-${config.colorFormat.alphaModifier}-${reference.alpha}`
+		: `${config.prefixes.color}-${reference.color}`;
+	return {
+		name: reference.color,
+		...(reference.alpha ? { alpha: reference.alpha } : {}),
+		token,
+		css: `var(--${token})`,
+	};
+}
+
+/**
+ * Resolve every color mode's `extends` chain, in authored order.
+ *
+ * An override mode inherits the colors and alpha schedule of its parent, which
+ * is the default mode unless `extends` names another. Colors that reach it only
+ * from the default mode stay out of `tokens`; `:root` already declares them.
+ */
+export function resolveColorModes(colors: {
+	modes: Array<ColorMode & { name: string }>;
+	alphaSchedule?: AlphaSchedule;
+}): ResolvedColorMode[] {
+	const defaultMode = getDefaultEntry(colors.modes);
+	const modes = new Map(colors.modes.map((mode) => [mode.name, mode]));
+	const resolved = new Map<string, ResolvedColorMode>();
+
+	const resolve = (mode: ColorMode & { name: string }, chain: string[]): ResolvedColorMode => {
+		const cached = resolved.get(mode.name);
+		if (cached) return cached;
+		let result: ResolvedColorMode;
+		if (mode === defaultMode) {
+			result = {
+				name: mode.name,
+				lineage: [],
+				tokens: { ...mode.tokens },
+				palette: { ...mode.tokens },
+				alphaSchedule: mode.alphaSchedule ?? colors.alphaSchedule,
+				moreContrast: { ...mode.preferences?.moreContrast },
+				forcedColors: { ...mode.preferences?.forcedColors },
+			};
+		} else {
+			if (chain.includes(mode.name)) {
+				throw new Error(`Color mode chain ${[...chain, mode.name].join(' -> ')} is a cycle`);
+			}
+			const parentName = (!mode.isDefault && mode.extends) || defaultMode.name;
+			const parentMode = modes.get(parentName);
+			if (!parentMode) {
+				throw new Error(`Color mode "${mode.name}" extends unknown color mode "${parentName}"`);
+			}
+			const parent = resolve(parentMode, [...chain, mode.name]);
+			const inherited: ColorTokens = parentMode === defaultMode ? {} : parent.tokens;
+			// A contrast refinement follows the color it refines, so authoring a color drops it.
+			const unrefined = Object.fromEntries(
+				Object.entries(parent.moreContrast).filter(([colorName]) => !(colorName in mode.tokens))
+			);
+			result = {
+				name: mode.name,
+				lineage: [parent.name, ...parent.lineage],
+				tokens: { ...inherited, ...mode.tokens },
+				palette: { ...parent.palette, ...mode.tokens },
+				alphaSchedule: mode.alphaSchedule ?? parent.alphaSchedule,
+				moreContrast: { ...unrefined, ...mode.preferences?.moreContrast },
+				forcedColors: { ...parent.forcedColors, ...mode.preferences?.forcedColors },
+			};
+		}
+		resolved.set(mode.name, result);
+		return result;
+	};
+
+	return colors.modes.map((mode) => resolve(mode, []));
+}
+
+/**
+ * Composite every `colors.states` overlay over its interactive color as the
+ * palette renders them. Shared by generation and the contrast checks so both
+ * see the same state colors.
+ */
+export function resolveStateLayers(
+	palette: ColorTokens,
+	states: StateLayerSchedule | undefined
+): ResolvedStateLayer[] {
+	return Object.entries(states?.overlays ?? {}).flatMap(([color, overlay]) => {
+		const base = palette[color];
+		const over = palette[overlay];
+		if (!base || !over) return [];
+		return Object.entries(states!.levels).map(([level, alpha]) => ({
+			color,
+			overlay,
+			level,
+			alpha,
+			value: { mode: 'oklch' as const, ...compositeOver(over, alpha, base) },
+		}));
+	});
+}
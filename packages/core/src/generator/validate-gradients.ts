@@ -0,0 +1,118 @@
+import type { PartialDesignSystem } from '../types.js';
+import { getDefaultEntry } from './utils.js';
+import { ValidationError, tokenNamePattern, validateFiniteNumber } from './validation-shared.js';
+
+const gradientKinds = new Set(['linear', 'radial', 'conic']);
+const interpolations = new Set(['oklch', 'oklab', 'srgb', 'srgb-linear', 'display-p3']);
+const hueMethods = new Set(['shorter', 'longer', 'increasing', 'decreasing']);
+const shapes = new Set(['circle', 'ellipse']);
+
+const gradientKeys: Record<string, Set<string>> = {
+	linear: new Set(['kind', 'stops', 'interpolation', 'hue', 'angle']),
+	radial: new Set(['kind', 'stops', 'interpolation', 'hue', 'shape', 'at']),
+	conic: new Set(['kind', 'stops', 'interpolation', 'hue', 'angle', 'at']),
+};
+
+function validatePercent(value: unknown, path: string): void {
+	validateFiniteNumber(value, path);
+	if (value < 0 || value > 100) {
+		throw new ValidationError(`${path} must be a percentage from 0 to 100 (got ${value})`);
+	}
+}
+
+function validateOption(value: unknown, options: Set<string>, path: string): void {
+	if (value !== undefined && !options.has(value as string)) {
+		throw new ValidationError(
+			`${path} must be one of ${[...options].join(', ')} (got ${JSON.stringify(value)})`
+		);
+	}
+}
+
+/**
+ * Checks gradient recipes: at least two stops referencing default colors and
+ * alpha levels, with positions that never move backwards along the gradient.
+ */
+export function validateGradientsPartial(
+	gradients: NonNullable<PartialDesignSystem['gradients']>,
+	colors: NonNullable<PartialDesignSystem['colors']>
+): void {
+	if (!gradients || typeof gradients !== 'object' || Array.isArray(gradients)) {
+		throw new ValidationError('gradients must be an object of named recipes');
+	}
+	if (Object.keys(gradients).length === 0) {
+		throw new ValidationError('gradients must contain at least one recipe');
+	}
+	const colorMode = getDefaultEntry(colors.modes);
+	const colorNames = new Set(Object.keys(colorMode.tokens ?? {}));
+	const alphaNames = new Set(Object.keys(colorMode.alphaSchedule ?? colors.alphaSchedule ?? {}));
+
+	for (const [name, recipe] of Object.entries(gradients)) {
+		const path = `gradients.${name}`;
+		if (!tokenNamePattern.test(name)) {
+			throw new ValidationError(`${path} name is not CSS-token safe`);
+		}
+		if (!recipe || typeof recipe !== 'object' || Array.isArray(recipe)) {
+			throw new ValidationError(`${path} must be a gradient recipe`);
+		}
+		if (!gradientKinds.has(recipe.kind)) {
+			throw new ValidationError(
+				`${path}.kind must be one of ${[...gradientKinds].join(', ')} (got ${JSON.stringify(recipe.kind)})`
+			);
+		}
+		for (const key of Object.keys(recipe)) {
+			if (!gradientKeys[recipe.kind]!.has(key)) {
+				throw new ValidationError(
+					`${path} contains unsupported field "${key}" for a ${recipe.kind} gradient`
+				);
+			}
+		}
+		validateOption(recipe.interpolation, interpolations, `${path}.interpolation`);
+		validateOption(recipe.hue, hueMethods, `${path}.hue`);
+		if (recipe.hue !== undefined && (recipe.interpolation ?? 'oklch') !== 'oklch') {
+			throw new ValidationError(`${path}.hue requires oklch interpolation`);
+		}
+		if (recipe.kind !== 'radial' && recipe.angle !== undefined) {
+			validateFiniteNumber(recipe.angle, `${path}.angle`);
+		}
+		if (recipe.kind === 'radial') validateOption(recipe.shape, shapes, `${path}.shape`);
+		if (recipe.kind !== 'linear' && recipe.at !== undefined) {
+			if (!recipe.at || typeof recipe.at !== 'object') {
+				throw new ValidationError(`${path}.at must be an { x, y } position`);
+			}
+			validatePercent(recipe.at.x, `${path}.at.x`);
+			validatePercent(recipe.at.y, `${path}.at.y`);
+		}
+
+		if (!Array.isArray(recipe.stops) || recipe.stops.length < 2) {
+			throw new ValidationError(`${path}.stops must contain at least two stops`);
+		}
+		let previous = 0;
+		for (const [index, stop] of recipe.stops.entries()) {
+			const current = `${path}.stops[${index}]`;
+			if (!stop || typeof stop !== 'object' || Array.isArray(stop)) {
+				throw new ValidationError(`${current} must be an object`);
+			}
+			if (!stop.color || typeof stop.color !== 'object' || Array.isArray(stop.color)) {
+				throw new ValidationError(`${current}.color must reference a color token`);
+			}
+			if (!colorNames.has(stop.color.color)) {
+				throw new ValidationError(
+					`${current}.color references unknown default color "${stop.color.color}"`
+				);
+			}
+			if (stop.color.alpha !== undefined && !alphaNames.has(stop.color.alpha)) {
+				throw new ValidationError(
+					`${current}.color references unknown alpha level "${stop.color.alpha}"`
+				);
+			}
+			if (stop.position === undefined) continue;
+			validatePercent(stop.position, `${current}.position`);
+			if (stop.position < previous) {
+				throw new ValidationError(
+					`${current}.position ${stop.position} must not be before the previous stop at ${previous}`
+				);
+			}
+			previous = stop.position;
+		}
+	}
+}
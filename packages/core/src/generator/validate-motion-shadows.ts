@@ -1,16 +1,14 @@
-import type { PartialDesignSystem, TimeReference } from '../types.js';
+import type { LayerSystem, PartialDesignSystem, TimeReference, TimeScaleTokens } from '../types.js';
 import {
 	ValidationError,
 	tokenNamePattern,
 	validateCssUnit,
 	validateFiniteNumber,
 	validateNamedModes,
+	validateScaleStrategy,
 } from './validation-shared.js';
 
-function validateTimeTokens(
-	tokens: { unit: string; base: number; min: number; range: number },
-	path: string
-): void {
+function validateTimeTokens(tokens: TimeScaleTokens, path: string): void {
 	validateCssUnit(tokens.unit, `${path}.unit`);
 	if (typeof tokens.base !== 'number' || !Number.isFinite(tokens.base) || tokens.base < 0) {
 		throw new ValidationError(`${path}.base must be a non-negative number`);
@@ -21,6 +19,7 @@ function validateTimeTokens(
 	if (typeof tokens.range !== 'number' || tokens.range < 1 || !Number.isInteger(tokens.range)) {
 		throw new ValidationError(`${path}.range must be a positive integer`);
 	}
+	validateScaleStrategy(tokens, `${path}.scale`);
 }
 
 export function validateTimePartial(time: NonNullable<PartialDesignSystem['time']>): void {
@@ -244,7 +243,8 @@ export function validateMotionPartial(
 
 export function validateShadowsPartial(
 	shadows: NonNullable<PartialDesignSystem['shadows']>,
-	colors: NonNullable<PartialDesignSystem['colors']>
+	colors: NonNullable<PartialDesignSystem['colors']>,
+	stackingLayers?: LayerSystem
 ): void {
 	validateCssUnit(shadows.unit, 'shadows.unit');
 	if (['%', 'ms', 's', 'deg'].includes(shadows.unit)) {
@@ -260,6 +260,9 @@ export function validateShadowsPartial(
 	const alphaNames = new Set(
 		Object.keys(defaultColorMode?.alphaSchedule ?? colors.alphaSchedule ?? {})
 	);
+	const layerNames = new Set(
+		(stackingLayers?.order ?? []).map((layer) => (typeof layer === 'string' ? layer : layer.name))
+	);
 
 	for (const [kind, recipes] of [['box', box] as const, ['text', text] as const]) {
 		for (const [recipeName, recipe] of Object.entries(recipes)) {
@@ -290,6 +293,14 @@ export function validateShadowsPartial(
 					);
 				}
 			}
+			if (
+				recipe.stackingLayer !== undefined &&
+				(typeof recipe.stackingLayer !== 'string' || !layerNames.has(recipe.stackingLayer))
+			) {
+				throw new ValidationError(
+					`${path}.stackingLayer references unknown layer ${JSON.stringify(recipe.stackingLayer)}`
+				);
+			}
 			for (const [variantName, layers] of [
 				['base', recipe.base] as const,
 				...Object.entries(recipe.variants ?? {}),
@@ -0,0 +1,178 @@
+import type { PartialDesignSystem } from '../types.js';
+import { resolveSizingMode } from './sizing.js';
+import { lengthInPx } from './utils.js';
+import { ValidationError, tokenNamePattern, validateNamedModes } from './validation-shared.js';
+
+/** WCAG 2.5.8 Target Size (Minimum), in px. */
+const DEFAULT_MIN_HIT_TARGET = 24;
+
+const sizingKeys = new Set([
+	'spacingMode',
+	'typographyMode',
+	'sizes',
+	'hitTargets',
+	'minHitTarget',
+]);
+
+function validateStep(
+	step: unknown,
+	path: string,
+	scale: string,
+	mode: { name: string; tokens: { range: number } }
+): void {
+	if (step === 'min') return;
+	if (!Number.isInteger(step) || (step as number) < 1 || (step as number) > mode.tokens.range) {
+		throw new ValidationError(
+			`${path} must be "min" or an integer from 1 to ${mode.tokens.range} for ${scale} mode "${mode.name}"`
+		);
+	}
+}
+
+function sourceMode<Mode extends { name: string; isDefault?: boolean }>(
+	modes: Mode[],
+	sizingModeName: string,
+	requested: unknown,
+	path: string,
+	scale: string
+): Mode {
+	if (requested !== undefined) {
+		const namedMode = modes.find((mode) => mode.name === requested);
+		if (!namedMode) {
+			throw new ValidationError(
+				`${path} references unknown ${scale} mode ${JSON.stringify(requested)}`
+			);
+		}
+		return namedMode;
+	}
+	return (
+		modes.find((mode) => mode.name === sizingModeName) ??
+		modes.find((mode) => mode.isDefault) ??
+		modes[0]!
+	);
+}
+
+/**
+ * Checks each sizing mode's references against the spacing and font-size
+ * scales it follows, and that its hit targets reach `minHitTarget` in px.
+ */
+export function validateSizingPartial(
+	sizing: NonNullable<PartialDesignSystem['sizing']>,
+	ds: Pick<PartialDesignSystem, 'spacing' | 'typography' | 'breakpoints'>
+): void {
+	if (!sizing.modes || !Array.isArray(sizing.modes)) {
+		throw new ValidationError('sizing.modes must be an array');
+	}
+	if (sizing.modes.length === 0) {
+		throw new ValidationError('sizing.modes must have at least one mode');
+	}
+	validateNamedModes(sizing.modes, 'sizing.modes', 'Sizing');
+
+	for (const mode of sizing.modes) {
+		const path = `sizing.modes["${mode.name}"].tokens`;
+		if (!mode.tokens || typeof mode.tokens !== 'object') {
+			throw new ValidationError(`Sizing mode "${mode.name}" must have tokens`);
+		}
+		for (const key of Object.keys(mode.tokens)) {
+			if (!sizingKeys.has(key)) {
+				throw new ValidationError(`${path} contains unsupported key "${key}"`);
+			}
+		}
+		const { sizes, hitTargets, minHitTarget } = mode.tokens;
+		// A pinned source mode is checked even while no size references its scale yet.
+		for (const [scale, family] of [
+			['spacing', ds.spacing],
+			['typography', ds.typography],
+		] as const) {
+			const requested = mode.tokens[`${scale}Mode`];
+			if (requested === undefined) continue;
+			if (!family) {
+				throw new ValidationError(
+					`${path}.${scale}Mode references ${scale} mode ${JSON.stringify(requested)}, but ${scale} is not declared`
+				);
+			}
+			sourceMode(family.modes, mode.name, requested, `${path}.${scale}Mode`, scale);
+		}
+		if (!sizes || typeof sizes !== 'object' || Object.keys(sizes).length === 0) {
+			throw new ValidationError(`${path}.sizes must name at least one size`);
+		}
+		for (const [name, reference] of Object.entries(sizes)) {
+			const sizePath = `${path}.sizes.${name}`;
+			if (!tokenNamePattern.test(name)) {
+				throw new ValidationError(`${sizePath} name is not CSS-token safe`);
+			}
+			const keys = reference && typeof reference === 'object' ? Object.keys(reference) : [];
+			if (keys.length !== 1 || !['spacing', 'fontSize'].includes(keys[0]!)) {
+				throw new ValidationError(
+					`${sizePath} must reference exactly one of { spacing } or { fontSize }`
+				);
+			}
+			if ('spacing' in reference) {
+				if (!ds.spacing) {
+					throw new ValidationError(`${sizePath} references spacing, which is not declared`);
+				}
+				validateStep(
+					reference.spacing,
+					`${sizePath}.spacing`,
+					'spacing',
+					sourceMode(
+						ds.spacing.modes,
+						mode.name,
+						mode.tokens.spacingMode,
+						`${path}.spacingMode`,
+						'spacing'
+					)
+				);
+			} else {
+				if (!ds.typography) {
+					throw new ValidationError(
+						`${sizePath} references font sizes, but typography is not declared`
+					);
+				}
+				validateStep(
+					reference.fontSize,
+					`${sizePath}.fontSize`,
+					'typography',
+					sourceMode(
+						ds.typography.modes,
+						mode.name,
+						mode.tokens.typographyMode,
+						`${path}.typographyMode`,
+						'typography'
+					)
+				);
+			}
+		}
+
+		if (
+			minHitTarget !== undefined &&
+			(typeof minHitTarget !== 'number' || !Number.isFinite(minHitTarget) || minHitTarget <= 0)
+		) {
+			throw new ValidationError(`${path}.minHitTarget must be a positive size in px`);
+		}
+		if (hitTargets === undefined) continue;
+		if (!Array.isArray(hitTargets)) {
+			throw new ValidationError(`${path}.hitTargets must be an array of size names`);
+		}
+		const resolved = new Map(resolveSizingMode(mode, ds).map((size) => [size.name, size]));
+		const minimum = minHitTarget ?? DEFAULT_MIN_HIT_TARGET;
+		for (const name of new Set(hitTargets)) {
+			const size = resolved.get(name);
+			if (!size) {
+				throw new ValidationError(`${path}.hitTargets references unknown size "${name}"`);
+			}
+			// A fluid size must reach the minimum at its smallest.
+			const smallest = size.fluid ? Math.min(size.fluid.min, size.fluid.max) : size.value;
+			const px = lengthInPx(smallest, size.unit);
+			if (px === undefined) {
+				throw new ValidationError(
+					`${path}.hitTargets "${name}" resolves to "${size.unit}", which cannot be compared with a px minimum`
+				);
+			}
+			if (px < minimum) {
+				throw new ValidationError(
+					`${path}.hitTargets "${name}" is ${px}px, below the ${minimum}px minimum hit target`
+				);
+			}
+		}
+	}
+}
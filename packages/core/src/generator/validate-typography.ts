@@ -1,4 +1,5 @@
 import type {
+	BreakpointSystem,
 	PartialDesignSystem,
 	TypographyFontStyle,
 	TypographyRecipe,
@@ -9,13 +10,16 @@ import {
 	ValidationError,
 	tokenNamePattern,
 	validateCssUnit,
+	validateFluidScale,
 	validateNamedModes,
+	validateScaleStrategy,
 } from './validation-shared.js';
 
 const openTypeTagPattern = /^[\x20-\x7e]{4}$/;
 
 export function validateTypographyPartial(
-	typography: NonNullable<PartialDesignSystem['typography']>
+	typography: NonNullable<PartialDesignSystem['typography']>,
+	breakpoints?: BreakpointSystem
 ): void {
 	if (!typography.modes || !Array.isArray(typography.modes)) {
 		throw new ValidationError('typography.modes must be an array');
@@ -31,30 +35,59 @@ export function validateTypographyPartial(
 			throw new ValidationError(`Typography mode "${mode.name}" must have tokens`);
 		}
 
-		const { unit, base, min, increment, range } = mode.tokens;
+		const { unit, range } = mode.tokens;
 
 		validateCssUnit(unit, `typography.modes["${mode.name}"].tokens.unit`);
-		if (typeof base !== 'number' || !Number.isFinite(base) || base <= 0) {
-			throw new ValidationError(`Typography mode "${mode.name}" base must be a positive number`);
+		validateFontSizeScale(mode.tokens, `Typography mode "${mode.name}"`);
+		if (typeof range !== 'number' || range < 1 || !Number.isInteger(range)) {
+			throw new ValidationError(`Typography mode "${mode.name}" range must be a positive integer`);
 		}
-		if (typeof min !== 'number' || !Number.isFinite(min) || min <= 0 || min >= base) {
-			throw new ValidationError(
-				`Typography mode "${mode.name}" min must be a positive number smaller than base`
+		validateScaleStrategy(mode.tokens, `typography.modes["${mode.name}"].tokens.scale`);
+		if (mode.fluid !== undefined) {
+			validateFluidScale(
+				mode.fluid,
+				unit,
+				['base', 'min', 'increment'],
+				`typography.modes["${mode.name}"].fluid`,
+				breakpoints
 			);
-		}
-		if (typeof increment !== 'number' || !Number.isFinite(increment) || increment <= 0) {
-			throw new ValidationError(
-				`Typography mode "${mode.name}" increment must be a positive finite number`
+			const widest = { ...mode.tokens, ...mode.fluid.tokens };
+			validateFontSizeScale(widest, `Typography mode "${mode.name}" fluid`);
+			validateScaleStrategy(
+				widest,
+				`typography.modes["${mode.name}"].tokens.scale`,
+				' at maxViewport'
 			);
 		}
-		if (typeof range !== 'number' || range < 1 || !Number.isInteger(range)) {
-			throw new ValidationError(`Typography mode "${mode.name}" range must be a positive integer`);
-		}
 	});
 
 	validateTypographySemanticLayer(typography);
 }
 
+function validateFontSizeScale(
+	scale: { base: unknown; min: unknown; increment?: unknown; scale?: unknown },
+	label: string
+): void {
+	const { base, min, increment } = scale;
+	if (typeof base !== 'number' || !Number.isFinite(base) || base <= 0) {
+		throw new ValidationError(`${label} base must be a positive number`);
+	}
+	if (typeof min !== 'number' || !Number.isFinite(min) || min <= 0 || min >= base) {
+		throw new ValidationError(`${label} min must be a positive number smaller than base`);
+	}
+	if (scale.scale !== undefined) {
+		if (increment !== undefined) {
+			throw new ValidationError(
+				`${label} increment only applies without a scale strategy; use { kind: 'linear', step } instead`
+			);
+		}
+		return;
+	}
+	if (typeof increment !== 'number' || !Number.isFinite(increment) || increment <= 0) {
+		throw new ValidationError(`${label} increment must be a positive finite number`);
+	}
+}
+
 function supportsTypographyWeight(
 	available: number[] | { min: number; max: number },
 	weight: number
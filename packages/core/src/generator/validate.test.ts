@@ -19,6 +19,24 @@ function colors(
 	return { alphaSchedule: { min: 0.1, max: 0.9 }, modes };
 }
 
+const displayTypography = {
+	modes: [
+		{
+			name: 'default',
+			isDefault: true,
+			tokens: { unit: 'rem', base: 1, min: 0.75, increment: 0.125, range: 4 },
+		},
+	],
+	fonts: { sans: { family: 'system-ui', verification: 'unavailable' } },
+	roles: {
+		display: {
+			font: 'sans',
+			base: { fontSize: 4, weight: 'bold', lineHeight: 1.1, letterSpacing: 0 },
+			weights: { bold: 700 },
+		},
+	},
+} as unknown as NonNullable<PartialDesignSystem['typography']>;
+
 describe('generator input validation', () => {
 	it('rejects duplicate mode names before generation can overwrite them', () => {
 		expect(() =>
@@ -174,6 +192,472 @@ describe('generator input validation', () => {
 		).toThrowError(/references undeclared default color "accent"/);
 	});
 
+	it('requires alpha flattening surfaces to be declared default colors', () => {
+		const flattened = (surfaces: unknown) =>
+			generate({
+				colors: {
+					alphaSchedule: { lo: 0.25 },
+					flattenAlpha: { surfaces: surfaces as string[] },
+					modes: [{ name: 'default', isDefault: true, tokens: { bg: color, ink: color } }],
+				},
+			});
+
+		expect(() => flattened(['bg'])).not.toThrow();
+		expect(() => flattened([])).toThrowError(
+			/colors\.flattenAlpha\.surfaces must be a non-empty array/
+		);
+		expect(() => flattened(['bg', 'bg'])).toThrowError(/must not contain duplicates/);
+		expect(() => flattened(['ev'])).toThrowError(/references undeclared default color "ev"/);
+	});
+
+	it('validates the mix schedule surface and levels', () => {
+		const mixed = (mixSchedule: unknown) =>
+			generate({
+				colors: {
+					alphaSchedule: { lo: 0.25 },
+					mixSchedule: mixSchedule as NonNullable<PartialDesignSystem['colors']>['mixSchedule'],
+					modes: [{ name: 'default', isDefault: true, tokens: { bg: color, ink: color } }],
+				},
+			});
+
+		expect(() => mixed({ surface: 'bg', levels: { lo: 0.25 } })).not.toThrow();
+		expect(() => mixed({ surface: 'ev', levels: { lo: 0.25 } })).toThrowError(
+			'colors.mixSchedule.surface references undeclared default color "ev"'
+		);
+		expect(() => mixed({ surface: 'bg', levels: {} })).toThrowError(
+			'colors.mixSchedule.levels must have at least one mix level'
+		);
+		expect(() => mixed({ surface: 'bg', levels: { lo: 1.5 } })).toThrowError(
+			'colors.mixSchedule.levels.lo must be between 0 and 1'
+		);
+	});
+
+	it('validates state overlays, levels, and exemptions', () => {
+		const stated = (states: unknown) =>
+			generate({
+				colors: {
+					alphaSchedule: { lo: 0.25 },
+					states: states as NonNullable<PartialDesignSystem['colors']>['states'],
+					modes: [{ name: 'default', isDefault: true, tokens: { bg: color, ink: color } }],
+				},
+			});
+
+		expect(() => stated({ overlays: { bg: 'ink' }, levels: { hover: 0.08 } })).not.toThrow();
+		expect(() => stated({ overlays: { pri: 'ink' }, levels: { hover: 0.08 } })).toThrowError(
+			'colors.states.overlays references undeclared default color "pri"'
+		);
+		expect(() => stated({ overlays: { bg: 'bg' }, levels: { hover: 0.08 } })).toThrowError(
+			'colors.states.overlays.bg must not overlay the color itself'
+		);
+		expect(() => stated({ overlays: { bg: 'ink' }, levels: {} })).toThrowError(
+			'colors.states.levels must have at least one state level'
+		);
+		expect(() =>
+			stated({ overlays: { bg: 'ink' }, levels: { hover: 0.08 }, exempt: ['disabled'] })
+		).toThrowError('colors.states.exempt references unknown state level "disabled"');
+	});
+
+	it('holds state colors to the contrast policy of their interactive color', () => {
+		const stated = (exempt?: string[]) =>
+			generate({
+				colors: {
+					alphaSchedule: { lo: 0.25 },
+					states: {
+						overlays: { pri: 'on' },
+						levels: { hover: 0.08, disabled: 0.6 },
+						...(exempt ? { exempt } : {}),
+					},
+					luminance: {
+						minimumLuminanceDelta: 0.4,
+						backgroundColors: ['pri'],
+						foregroundColors: ['on'],
+						contrast: { level: 'AA' },
+					},
+					modes: [
+						{
+							name: 'default',
+							isDefault: true,
+							tokens: {
+								pri: { mode: 'oklch', l: 0.45, c: 0.15, h: 260 },
+								on: { mode: 'oklch', l: 1, c: 0, h: 0 },
+							},
+						},
+					],
+				},
+			});
+
+		expect(() => stated()).toThrowError(
+			/Color mode "default" fails WCAG AA normal-text contrast: "on" on "pri \(disabled\)"/
+		);
+		expect(() => stated(['disabled'])).not.toThrow();
+	});
+
+	it('validates mode axes against the families they list', () => {
+		const axes = (modeAxes: unknown, colorScheme?: 'light') =>
+			generate({
+				colors: {
+					alphaSchedule: { lo: 0.25 },
+					modes: [
+						{ name: 'default', isDefault: true, tokens: { bg: color } },
+						{ name: 'zest', ...(colorScheme ? { colorScheme } : {}), tokens: { bg: color } },
+					],
+				},
+				modeAxes: modeAxes as PartialDesignSystem['modeAxes'],
+			});
+		const brand = { default: 'acme', families: ['colors'], modes: ['zest'] };
+
+		expect(() => axes({ brand })).not.toThrow();
+		expect(() => axes({ color: brand })).toThrowError(
+			'modeAxes.color collides with the built-in color mode category'
+		);
+		expect(() => axes({ brand: { ...brand, selector: '.brand' } })).toThrowError(
+			'modeAxes.brand.selector must be a string containing "{mode}"'
+		);
+		expect(() => axes({ brand: { ...brand, families: ['spacing'] } })).toThrowError(
+			'modeAxes.brand.modes "zest" is a colors mode, but the axis does not list colors'
+		);
+		expect(() => axes({ brand: { ...brand, modes: ['default'] } })).toThrowError(
+			'modeAxes.brand.modes "default" is the default colors mode, which :root already applies'
+		);
+		expect(() => axes({ brand: { ...brand, modes: ['tang'] } })).toThrowError(
+			'modeAxes.brand.modes references unknown mode "tang"'
+		);
+		expect(() => axes({ brand, tone: brand })).toThrowError(
+			'modeAxes.tone.modes "zest" already belongs to mode axis "brand"'
+		);
+		expect(() => axes({ brand }, 'light')).toThrowError(/must not declare a colorScheme/);
+	});
+
+	it('validates semantic aliases against each mode palette and alpha schedule', () => {
+		const semantic = (entries: unknown) =>
+			generate({
+				colors: {
+					alphaSchedule: { lo: 0.25 },
+					semantic: entries as NonNullable<PartialDesignSystem['colors']>['semantic'],
+					modes: [
+						{ name: 'default', isDefault: true, tokens: { bg: color, ink: color } },
+						{ name: 'brand', alphaSchedule: { hi: 0.75 }, tokens: { accent: color } },
+					],
+				},
+			});
+
+		expect(() =>
+			semantic({
+				'text-muted': {
+					color: 'ink',
+					alpha: 'lo',
+					modes: { brand: { color: 'accent', alpha: 'hi' } },
+				},
+			})
+		).not.toThrow();
+		expect(() => semantic({ 'text-muted': { color: 'accent' } })).toThrowError(
+			/colors\.semantic\.text-muted\.color references unknown color "accent"/
+		);
+		expect(() => semantic({ 'text-muted': { color: 'ink', alpha: 'hi' } })).toThrowError(
+			/colors\.semantic\.text-muted\.alpha references unknown alpha level "hi"/
+		);
+		expect(() =>
+			semantic({ 'text-muted': { color: 'ink', modes: { brand: { color: 'ink', alpha: 'hi' } } } })
+		).toThrowError(/modes\.brand\.alpha references unknown alpha level "hi"/);
+		expect(() =>
+			semantic({ 'text-muted': { color: 'ink', modes: { night: { color: 'ink' } } } })
+		).toThrowError(/references unknown color mode "night"/);
+		expect(() => semantic({ accent: { color: 'ink' } })).toThrowError(
+			/colors\.semantic\.accent collides with color "accent"/
+		);
+	});
+
+	it('rejects color mode chains with dangling parents, cycles, or a parent on the default', () => {
+		const chained = (modes: unknown) =>
+			generate({
+				colors: colors(modes as NonNullable<PartialDesignSystem['colors']>['modes']),
+			});
+
+		expect(() =>
+			chained([
+				{ name: 'dark', isDefault: true, tokens: { bg: color } },
+				{ name: 'light-hc', extends: 'light', tokens: {} },
+				{ name: 'light', extends: 'dark', tokens: { bg: color } },
+			])
+		).not.toThrow();
+		expect(() =>
+			chained([
+				{ name: 'dark', isDefault: true, tokens: { bg: color } },
+				{ name: 'light-hc', extends: 'light', tokens: {} },
+			])
+		).toThrowError(/colors\.modes\["light-hc"\]\.extends references unknown color mode "light"/);
+		expect(() =>
+			chained([
+				{ name: 'dark', isDefault: true, tokens: { bg: color } },
+				{ name: 'a', extends: 'b', tokens: {} },
+				{ name: 'b', extends: 'a', tokens: {} },
+			])
+		).toThrowError(/colors\.modes\["a"\]\.extends forms a cycle: a -> b -> a/);
+		expect(() =>
+			chained([
+				{ name: 'dark', tokens: { bg: color }, extends: 'light' },
+				{ name: 'light', tokens: { bg: color } },
+			])
+		).toThrowError(/extends is not allowed on the default color mode/);
+	});
+
+	it('accepts one color mode per prefers-color-scheme value', () => {
+		const schemed = (light: unknown, dark: unknown) =>
+			generate({
+				colors: colors([
+					{ name: 'dark', isDefault: true, colorScheme: dark as 'dark', tokens: { bg: color } },
+					{ name: 'light', colorScheme: light as 'light', tokens: { bg: color } },
+				]),
+			});
+
+		expect(() => schemed('light', 'dark')).not.toThrow();
+		expect(() => schemed('sepia', undefined)).toThrowError(
+			/colors\.modes\["light"\]\.colorScheme must be either "light" or "dark"/
+		);
+		expect(() => schemed('dark', 'dark')).toThrowError(
+			/colors\.modes\["light"\]\.colorScheme "dark" is already claimed by color mode "dark"/
+		);
+	});
+
+	it('checks an opt-in WCAG contrast requirement in every resolved color mode', () => {
+		const valid = {
+			alphaSchedule: { min: 0.1, max: 0.9 },
+			luminance: {
+				minimumLuminanceDelta: 0.4,
+				backgroundColors: ['canvas'],
+				foregroundColors: ['ink'],
+				contrast: { level: 'AA' },
+			},
+			modes: [
+				{
+					name: 'night',
+					isDefault: true,
+					tokens: { canvas: { ...color, l: 0.1 }, ink: { ...color, l: 0.9 } },
+				},
+				{ name: 'day', tokens: { canvas: { ...color, l: 0.98 }, ink: { ...color, l: 0.25 } } },
+			],
+		} satisfies NonNullable<PartialDesignSystem['colors']>;
+		expect(() => generate({ colors: valid })).not.toThrow();
+
+		expect(() =>
+			generate({
+				colors: {
+					...valid,
+					modes: [...valid.modes, { name: 'dim', tokens: { canvas: { ...color, l: 0.6 } } }],
+				},
+			})
+		).toThrowError(
+			/Color mode "dim" fails WCAG AA normal-text contrast: "ink" on "canvas" measures \d+\.\d{2}:1, requires 4\.5:1/
+		);
+		expect(() =>
+			generate({
+				colors: {
+					...valid,
+					luminance: { ...valid.luminance, contrast: { level: 'AAA', textSize: 'huge' } },
+				},
+			} as unknown as PartialDesignSystem)
+		).toThrowError('colors.luminance.contrast.textSize must be either "normal" or "large"');
+	});
+
+	it('holds more-contrast refinements to a stricter threshold than their mode', () => {
+		const night = (moreContrast: Record<string, typeof color>) => ({
+			name: 'night',
+			isDefault: true as const,
+			tokens: { canvas: { ...color, l: 0.1 }, ink: { ...color, l: 0.9 } },
+			preferences: { moreContrast },
+		});
+		const luminance = {
+			minimumLuminanceDelta: 0.4,
+			backgroundColors: ['canvas'],
+			foregroundColors: ['ink'],
+		};
+
+		expect(() =>
+			generate({
+				colors: {
+					luminance: { ...luminance, contrast: { level: 'AA' } },
+					modes: [night({ ink: { ...color, l: 1 } })],
+				},
+			})
+		).not.toThrow();
+		// 0.6 clears AA in the base palette but not AAA under prefers-contrast: more.
+		expect(() =>
+			generate({
+				colors: {
+					luminance: { ...luminance, contrast: { level: 'AA' } },
+					modes: [night({ ink: { ...color, l: 0.6 } })],
+				},
+			})
+		).toThrowError(
+			/Color mode "night" under prefers-contrast: more fails WCAG AAA normal-text contrast: "ink" on "canvas"/
+		);
+		expect(() =>
+			generate({
+				colors: {
+					luminance: { ...luminance, apca: { minimumLc: 60 } },
+					modes: [night({ ink: { ...color, l: 0.75 } })],
+				},
+			})
+		).toThrowError(
+			/Color mode "night" under prefers-contrast: more fails APCA Lc 75 for body text/
+		);
+	});
+
+	it('rejects preference refinements of unrendered colors or with non-system forced colors', () => {
+		const mode = {
+			name: 'night',
+			isDefault: true as const,
+			tokens: { canvas: { ...color, l: 0.1 }, ink: { ...color, l: 0.9 } },
+		};
+
+		expect(() =>
+			generate({
+				colors: colors([{ ...mode, preferences: { moreContrast: { pri: color } } }]),
+			})
+		).toThrowError(
+			'colors.modes["night"].preferences.moreContrast refines "pri", which color mode "night" does not render'
+		);
+		expect(() =>
+			generate({
+				colors: colors([{ ...mode, preferences: { forcedColors: { ink: 'black' } } }]),
+			} as unknown as PartialDesignSystem)
+		).toThrowError(
+			'colors.modes["night"].preferences.forcedColors.ink must be a CSS system color such as "CanvasText"'
+		);
+		expect(() =>
+			generate({
+				colors: colors([
+					mode,
+					{ name: 'zest', tokens: {}, preferences: { forcedColors: { ink: 'Highlight' } } },
+				]),
+				modeAxes: { brand: { default: 'acme', families: ['colors'], modes: ['zest'] } },
+			})
+		).toThrowError(/modeAxes\.brand\.modes "zest" must not declare preferences/);
+	});
+
+	it('checks opt-in APCA minimums and their typography role keys', () => {
+		const valid = {
+			alphaSchedule: { min: 0.1, max: 0.9 },
+			luminance: {
+				minimumLuminanceDelta: 0.4,
+				backgroundColors: ['canvas'],
+				foregroundColors: ['ink'],
+				apca: { minimumLc: 75 },
+			},
+			modes: [
+				{
+					name: 'night',
+					isDefault: true,
+					tokens: { canvas: { ...color, l: 0.15 }, ink: { ...color, l: 0.95 } },
+				},
+				{ name: 'dim', tokens: { ink: { ...color, l: 0.65 } } },
+			],
+		} satisfies NonNullable<PartialDesignSystem['colors']>;
+
+		expect(() => generate({ colors: valid })).toThrowError(
+			/Color mode "dim" fails APCA Lc 75 for body text: "ink" on "canvas" measures Lc \d+\.\d:?/
+		);
+		expect(() => generate({ colors: { ...valid, modes: [valid.modes[0]!] } })).not.toThrow();
+		expect(() =>
+			generate({
+				colors: {
+					...valid,
+					modes: [valid.modes[0]!],
+					luminance: {
+						...valid.luminance,
+						apca: { minimumLc: 75, roleMinimumLc: { display: 45 } },
+					},
+				},
+			})
+		).toThrowError(
+			'colors.luminance.apca.roleMinimumLc references undeclared typography role "display"'
+		);
+	});
+
+	it('measures APCA role minimums over the colors bound to each role', () => {
+		const colors = (apca: object, accent = 0.65) =>
+			({
+				luminance: {
+					minimumLuminanceDelta: 0.3,
+					backgroundColors: ['canvas'],
+					foregroundColors: ['ink', 'accent'],
+					apca,
+				},
+				modes: [
+					{
+						name: 'night',
+						isDefault: true,
+						tokens: {
+							canvas: { ...color, l: 0.15 },
+							ink: { ...color, l: 0.95 },
+							accent: { ...color, l: accent },
+						},
+					},
+				],
+			}) as NonNullable<PartialDesignSystem['colors']>;
+		const roles = { minimumLc: 75, roleMinimumLc: { display: 30 } };
+		const bound = { ...roles, roleColors: { display: { foregroundColors: ['accent'] } } };
+
+		// Unbound, the display minimum cannot relax "accent": body text still covers it.
+		expect(() => generate({ colors: colors(roles), typography: displayTypography })).toThrowError(
+			/Color mode "night" fails APCA Lc 75 for body text: "accent" on "canvas"/
+		);
+		expect(() => generate({ colors: colors(bound), typography: displayTypography })).not.toThrow();
+		expect(() =>
+			generate({ colors: colors(bound, 0.5), typography: displayTypography })
+		).toThrowError(
+			/Color mode "night" fails APCA Lc 30 for typography role "display": "accent" on "canvas"/
+		);
+		expect(() =>
+			generate({
+				colors: colors({ ...roles, roleColors: { display: { foregroundColors: ['canvas'] } } }),
+				typography: displayTypography,
+			})
+		).toThrowError(
+			'colors.luminance.apca.roleColors.display.foregroundColors references "canvas", which is not a luminance foreground color'
+		);
+		expect(() =>
+			generate({
+				colors: colors({
+					minimumLc: 75,
+					roleColors: { display: { foregroundColors: ['accent'] } },
+				}),
+				typography: displayTypography,
+			})
+		).toThrowError('colors.luminance.apca.roleColors.display needs a matching roleMinimumLc entry');
+	});
+
+	it('keeps role color bindings under the stricter more-contrast policy', () => {
+		const colors = {
+			luminance: {
+				minimumLuminanceDelta: 0.3,
+				backgroundColors: ['canvas'],
+				foregroundColors: ['ink', 'accent'],
+				apca: {
+					minimumLc: 75,
+					roleMinimumLc: { display: 30 },
+					roleColors: { display: { foregroundColors: ['accent'] } },
+				},
+			},
+			modes: [
+				{
+					name: 'night',
+					isDefault: true,
+					tokens: {
+						canvas: { ...color, l: 0.15 },
+						ink: { ...color, l: 1 },
+						accent: { ...color, l: 0.65 },
+					},
+					preferences: { moreContrast: { accent: { ...color, l: 0.6 } } },
+				},
+			],
+		} as NonNullable<PartialDesignSystem['colors']>;
+
+		expect(() => generate({ colors, typography: displayTypography })).toThrowError(
+			/Color mode "night" under prefers-contrast: more fails APCA Lc 45 for typography role "display": "accent" on "canvas"/
+		);
+	});
+
 	it('rejects NaN in numeric schedules and unsafe CSS units', () => {
 		expect(() =>
 			generate({
@@ -236,6 +720,199 @@ describe('generator input validation', () => {
 		).toThrowError(/integer from 1 to 4/);
 	});
 
+	it('rejects scale strategies that do not rise at every step or carry units', () => {
+		const scaled = (scale: unknown, min = 4) => ({
+			spacing: {
+				modes: [
+					{
+						name: 'default',
+						tokens: { unit: 'px', base: 8, min, range: 4, scale: scale as never },
+					},
+				],
+			},
+		});
+
+		expect(() => generate(scaled({ kind: 'ratio', ratio: 0.8 }))).toThrowError(
+			'spacing.modes["default"].tokens.scale must rise at every step: step 1 is 8px, step 2 is 6.4px'
+		);
+		expect(() => generate(scaled({ kind: 'fibonacci' }, 8))).toThrowError(
+			/must rise at every step: min is 8px, step 1 is 8px/
+		);
+		expect(() => generate(scaled({ kind: 'steps', multipliers: [1, 2, 3] }))).toThrowError(
+			'spacing.modes["default"].tokens.scale.multipliers must list one multiple of base for each of the 4 steps'
+		);
+		expect(() => generate(scaled({ kind: 'steps', multipliers: [1, 2, '24px', 4] }))).toThrowError(
+			'spacing.modes["default"].tokens.scale.multipliers[2] must be a unitless multiple of base; the scale is in "px"'
+		);
+		expect(() => generate(scaled({ kind: 'golden' }))).toThrowError(
+			/tokens\.scale\.kind must be "linear", "ratio", "steps", "fibonacci"/
+		);
+		expect(() =>
+			generate({
+				time: {
+					scales: [
+						{
+							name: 'default',
+							tokens: {
+								unit: 'ms',
+								base: 200,
+								min: 50,
+								range: 3,
+								scale: { kind: 'linear', step: -50 },
+							},
+						},
+					],
+				},
+			})
+		).toThrowError(/time\.scales\["default"\]\.tokens\.scale must rise at every step/);
+		expect(() =>
+			generate({
+				typography: {
+					modes: [
+						{
+							name: 'default',
+							tokens: {
+								unit: 'rem',
+								base: 1,
+								min: 0.75,
+								increment: 0.125,
+								range: 4,
+								scale: { kind: 'ratio', ratio: 1.25 },
+							},
+						},
+					],
+				},
+			})
+		).toThrowError(/increment only applies without a scale strategy/);
+	});
+
+	it('rejects breakpoints and breakpoint references that do not resolve', () => {
+		const spacing = (
+			modes: Array<{ name: string; breakpoint?: string }>
+		): NonNullable<PartialDesignSystem['spacing']> => ({
+			modes: modes.map((mode) => ({ ...mode, tokens: { unit: 'px', base: 8, min: 4, range: 2 } })),
+		});
+		const breakpoints = { viewport: { md: 768, lg: 1024 } };
+
+		expect(() => generate({ breakpoints: { viewport: { md: 768, tablet: 768 } } })).toThrowError(
+			'breakpoints.viewport.tablet repeats the 768px width of "md"'
+		);
+		expect(() => generate({ breakpoints: { viewport: { md: -1 } } })).toThrowError(
+			'breakpoints.viewport.md must be a positive width in px'
+		);
+		expect(() =>
+			generate({
+				breakpoints,
+				spacing: spacing([{ name: 'default' }, { name: 'roomy', breakpoint: 'xl' }]),
+			})
+		).toThrowError('spacing.modes["roomy"].breakpoint must name a viewport breakpoint; found "xl"');
+		expect(() =>
+			generate({ breakpoints, spacing: spacing([{ name: 'default', breakpoint: 'md' }]) })
+		).toThrowError(/is set on the default spacing mode/);
+		expect(() =>
+			generate({
+				breakpoints,
+				spacing: spacing([
+					{ name: 'default' },
+					{ name: 'cozy', breakpoint: 'md' },
+					{ name: 'roomy', breakpoint: 'md' },
+				]),
+			})
+		).toThrowError('spacing.modes["roomy"].breakpoint "md" is already bound to size mode "cozy"');
+		expect(() =>
+			generate({
+				breakpoints,
+				spacing: {
+					modes: [
+						{
+							name: 'default',
+							tokens: { unit: 'px', base: 8, min: 4, range: 2 },
+							fluid: { minViewport: 'sm', maxViewport: 'lg', tokens: { base: 12 } },
+						},
+					],
+				},
+			})
+		).toThrowError(
+			'spacing.modes["default"].fluid.minViewport references unknown viewport breakpoint "sm"'
+		);
+	});
+
+	it('rejects duplicate and out-of-order stacking layers', () => {
+		expect(() => generate({ layers: { order: ['base', 'modal', 'base'] } })).toThrowError(
+			'layers.order[2] repeats layer "base"'
+		);
+		expect(() =>
+			generate({
+				layers: {
+					order: [
+						{ name: 'modal', value: 100 },
+						{ name: 'toast', value: 100 },
+					],
+				},
+			})
+		).toThrowError('layers.order[1] "toast" z-index 100 must be above 100 of "modal"');
+		expect(() =>
+			generate({
+				layers: { order: [{ name: 'overlay', value: 50 }, 'modal', { name: 'toast', value: 55 }] },
+			})
+		).toThrowError('layers.order[2] "toast" z-index 55 must be above 60 of "modal"');
+		expect(() => generate({ layers: { order: [{ name: 'modal', value: 1.5 }] } })).toThrowError(
+			'layers.order[0] "modal" value must be an integer z-index'
+		);
+		expect(() => generate({ layers: { order: ['base'], step: 0 } })).toThrowError(
+			'layers.step must be a positive integer'
+		);
+	});
+
+	it('rejects fluid scales clamp() cannot interpolate', () => {
+		const fluidSpacing = (
+			unit: string,
+			fluid: NonNullable<PartialDesignSystem['spacing']>['modes'][number]['fluid']
+		) => ({
+			modes: [
+				{ name: 'default', isDefault: true, tokens: { unit, base: 8, min: 4, range: 4 }, fluid },
+			],
+		});
+		const widest = { minViewport: 360, maxViewport: 1280, tokens: { base: 12 } };
+
+		expect(() => generate({ spacing: fluidSpacing('em', widest) })).toThrowError(
+			'spacing.modes["default"].fluid requires a "px" or "rem" unit; found "em"'
+		);
+		expect(() =>
+			generate({ spacing: fluidSpacing('px', { ...widest, minViewport: 1280 }) })
+		).toThrowError('spacing.modes["default"].fluid.minViewport must be smaller than maxViewport');
+		expect(() =>
+			generate({ spacing: fluidSpacing('px', { ...widest, maxViewport: Number.NaN }) })
+		).toThrowError(/fluid\.maxViewport must be a positive viewport width in px/);
+		expect(() =>
+			generate({ spacing: fluidSpacing('px', { ...widest, tokens: { base: -2 } }) })
+		).toThrowError('Spacing mode "default" fluid base must be a positive number');
+		expect(() =>
+			generate({
+				spacing: fluidSpacing('px', {
+					...widest,
+					tokens: { range: 6 } as unknown as typeof widest.tokens,
+				}),
+			})
+		).toThrowError(/fluid\.tokens contains unsupported key "range"/);
+		expect(() =>
+			generate({
+				spacing: fluidSpacing('px', widest),
+				gap: {
+					modes: [
+						{
+							name: 'default',
+							isDefault: true,
+							tokens: { unit: 'em', min: 'min', s: 1, l: 2, max: 3 },
+						},
+					],
+				},
+			})
+		).toThrowError(
+			'gap.modes["default"].tokens.unit must be "px" or "rem" to follow fluid spacing'
+		);
+	});
+
 	it('rejects generated token collisions caused by authored names or custom prefixes', () => {
 		expect(() =>
 			generate(
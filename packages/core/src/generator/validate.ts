@@ -4,13 +4,29 @@
  * Validates inputs at the generator entry point and throws helpful errors.
  */
 
-import type { AlphaSchedule, DesignSystem, PartialDesignSystem } from '../types.js';
+import { validateApca } from '../constraints/apca.js';
+import { validateContrast, wcagMinimumContrastRatio } from '../constraints/contrast.js';
+import type { ApcaPolicy } from '../constraints/types.js';
+import type {
+	AlphaSchedule,
+	BorderSystem,
+	BreakpointSystem,
+	ColorTokens,
+	DesignSystem,
+	LayerSystem,
+	PartialDesignSystem,
+	SystemColor,
+} from '../types.js';
+import { getDefaultEntry, resolveColorModes, resolveStateLayers } from './utils.js';
 import {
 	ValidationError,
+	fluidUnits,
 	tokenNamePattern,
 	validateCssUnit,
 	validateFiniteNumber,
+	validateFluidScale,
 	validateNamedModes,
+	validateScaleStrategy,
 } from './validation-shared.js';
 import {
 	validateMotionPartial,
@@ -18,6 +34,9 @@ import {
 	validateTimePartial,
 } from './validate-motion-shadows.js';
 import { validateTypographyPartial } from './validate-typography.js';
+import { validateSizingPartial } from './validate-sizing.js';
+import { validateGradientsPartial } from './validate-gradients.js';
+import { resolveLayers } from './layers.js';
 
 export { ValidationError } from './validation-shared.js';
 
@@ -55,14 +74,23 @@ export function validateDesignSystem(ds: DesignSystem): void {
 		throw new ValidationError('DesignSystem is required');
 	}
 
+	if (ds.breakpoints !== undefined) validateBreakpoints(ds.breakpoints);
+	if (ds.layers !== undefined) validateLayers(ds.layers);
 	validateColors(ds);
 	validateSpacing(ds);
 	validateGap(ds);
 	validateTypography(ds);
 	validateBorder(ds);
+	if (ds.sizing) validateSizingPartial(ds.sizing, ds);
 	validateTime(ds);
 	if (ds.motion) validateMotionPartial(ds.motion, ds.time);
-	if (ds.shadows) validateShadowsPartial(ds.shadows, ds.colors);
+	if (ds.shadows) validateShadowsPartial(ds.shadows, ds.colors, ds.layers);
+	if (ds.gradients) validateGradientsPartial(ds.gradients, ds.colors);
+	if (ds.colors.luminance?.apca?.roleMinimumLc) {
+		validateApcaRoles(ds.colors.luminance.apca.roleMinimumLc, ds.typography);
+	}
+	validateSizeModeBreakpoints(ds);
+	if (ds.modeAxes !== undefined) validateModeAxes(ds);
 }
 
 /**
@@ -81,9 +109,13 @@ export function validatePartialDesignSystem(ds: DesignSystem | PartialDesignSyst
 	const hasGap = !!ds.gap;
 	const hasTypography = !!ds.typography;
 	const hasBorder = !!ds.border;
+	const hasSizing = !!ds.sizing;
 	const hasTime = !!ds.time;
 	const hasMotion = !!ds.motion;
 	const hasShadows = !!ds.shadows;
+	const hasGradients = !!ds.gradients;
+	const hasBreakpoints = !!ds.breakpoints;
+	const hasLayers = !!ds.layers;
 
 	if (
 		!hasColors &&
@@ -91,9 +123,13 @@ export function validatePartialDesignSystem(ds: DesignSystem | PartialDesignSyst
 		!hasGap &&
 		!hasTypography &&
 		!hasBorder &&
+		!hasSizing &&
 		!hasTime &&
 		!hasMotion &&
-		!hasShadows
+		!hasShadows &&
+		!hasGradients &&
+		!hasBreakpoints &&
+		!hasLayers
 	) {
 		throw new ValidationError('At least one token family must be provided');
 	}
@@ -114,22 +150,37 @@ export function validatePartialDesignSystem(ds: DesignSystem | PartialDesignSyst
 	if (hasShadows && !hasColors) {
 		throw new ValidationError('Shadows require colors (shadow layers reference color tokens)');
 	}
+	if (hasGradients && !hasColors) {
+		throw new ValidationError('Gradients require colors (gradient stops reference color tokens)');
+	}
+	if (ds.border?.focusRings && !hasColors) {
+		throw new ValidationError('Focus rings require colors (ring colors reference color tokens)');
+	}
 
-	// Validate each provided family
+	// Validate each provided family; fluid scales and size modes may name breakpoints
+	if (hasBreakpoints) {
+		validateBreakpoints(ds.breakpoints!);
+	}
+	if (hasLayers) {
+		validateLayers(ds.layers!);
+	}
 	if (hasColors) {
 		validateColorsPartial(ds.colors!);
 	}
 	if (hasSpacing) {
-		validateSpacingPartial(ds.spacing!);
+		validateSpacingPartial(ds.spacing!, ds.breakpoints);
 	}
 	if (hasGap) {
 		validateGapPartial(ds.gap!, ds.spacing!);
 	}
 	if (hasTypography) {
-		validateTypographyPartial(ds.typography!);
+		validateTypographyPartial(ds.typography!, ds.breakpoints);
 	}
 	if (hasBorder) {
-		validateBorderPartial(ds.border!, ds.spacing);
+		validateBorderPartial(ds.border!, ds.spacing, ds.colors, ds.gap);
+	}
+	if (hasSizing) {
+		validateSizingPartial(ds.sizing!, ds);
 	}
 	if (hasTime) {
 		validateTimePartial(ds.time!);
@@ -138,7 +189,43 @@ export function validatePartialDesignSystem(ds: DesignSystem | PartialDesignSyst
 		validateMotionPartial(ds.motion!, ds.time!);
 	}
 	if (hasShadows) {
-		validateShadowsPartial(ds.shadows!, ds.colors!);
+		validateShadowsPartial(ds.shadows!, ds.colors!, ds.layers);
+	}
+	if (hasGradients) {
+		validateGradientsPartial(ds.gradients!, ds.colors!);
+	}
+	if (ds.colors?.luminance?.apca?.roleMinimumLc) {
+		validateApcaRoles(ds.colors.luminance.apca.roleMinimumLc, ds.typography);
+	}
+	validateSizeModeBreakpoints(ds);
+	if (ds.modeAxes !== undefined) validateModeAxes(ds);
+}
+
+function validateColorTokens(tokens: ColorTokens, path: string): void {
+	for (const [tokenName, color] of Object.entries(tokens)) {
+		const tokenPath = `${path}.${tokenName}`;
+		if (!tokenNamePattern.test(tokenName)) {
+			throw new ValidationError(`${tokenPath} is not CSS-token safe`);
+		}
+		if (!color || typeof color !== 'object' || color.mode !== 'oklch') {
+			throw new ValidationError(`${tokenPath} must be an OKLCH color object`);
+		}
+		validateFiniteNumber(color.l, `${tokenPath}.l`);
+		if (color.l < 0 || color.l > 1) {
+			throw new ValidationError(`${tokenPath}.l must be between 0 and 1`);
+		}
+		const chroma = color.c ?? 0;
+		validateFiniteNumber(chroma, `${tokenPath}.c`);
+		if (chroma < 0) throw new ValidationError(`${tokenPath}.c must be non-negative`);
+		if (color.h !== undefined) validateFiniteNumber(color.h, `${tokenPath}.h`);
+		if (color.alpha !== undefined) {
+			validateFiniteNumber(color.alpha, `${tokenPath}.alpha`);
+			if (color.alpha !== 1) {
+				throw new ValidationError(
+					`${tokenPath}.alpha must be 1; define transparency through colors.alphaSchedule`
+				);
+			}
+		}
 	}
 }
 
@@ -156,31 +243,7 @@ function validateColorsPartial(colors: NonNullable<PartialDesignSystem['colors']
 		if (!mode.tokens || typeof mode.tokens !== 'object') {
 			throw new ValidationError(`Color mode "${mode.name}" must have tokens`);
 		}
-		for (const [tokenName, color] of Object.entries(mode.tokens)) {
-			const path = `colors.modes["${mode.name}"].tokens.${tokenName}`;
-			if (!tokenNamePattern.test(tokenName)) {
-				throw new ValidationError(`${path} is not CSS-token safe`);
-			}
-			if (!color || typeof color !== 'object' || color.mode !== 'oklch') {
-				throw new ValidationError(`${path} must be an OKLCH color object`);
-			}
-			validateFiniteNumber(color.l, `${path}.l`);
-			if (color.l < 0 || color.l > 1) {
-				throw new ValidationError(`${path}.l must be between 0 and 1`);
-			}
-			const chroma = color.c ?? 0;
-			validateFiniteNumber(chroma, `${path}.c`);
-			if (chroma < 0) throw new ValidationError(`${path}.c must be non-negative`);
-			if (color.h !== undefined) validateFiniteNumber(color.h, `${path}.h`);
-			if (color.alpha !== undefined) {
-				validateFiniteNumber(color.alpha, `${path}.alpha`);
-				if (color.alpha !== 1) {
-					throw new ValidationError(
-						`${path}.alpha must be 1; define transparency through colors.alphaSchedule`
-					);
-				}
-			}
-		}
+		validateColorTokens(mode.tokens, `colors.modes["${mode.name}"].tokens`);
 	});
 	const defaultMode = colors.modes.find((mode) => mode.isDefault) ?? colors.modes[0];
 	if (Object.keys(defaultMode.tokens).length === 0) {
@@ -188,6 +251,28 @@ function validateColorsPartial(colors: NonNullable<PartialDesignSystem['colors']
 			`Default color mode "${defaultMode.name}" must define at least one token`
 		);
 	}
+	validateColorModeExtends(colors, defaultMode);
+	validateColorPreferences(colors);
+	const schemeModes = new Map<unknown, string>();
+	for (const mode of colors.modes) {
+		const scheme = (mode as { colorScheme?: unknown }).colorScheme;
+		if (scheme === undefined) continue;
+		const path = `colors.modes["${mode.name}"].colorScheme`;
+		if (scheme !== 'light' && scheme !== 'dark') {
+			throw new ValidationError(`${path} must be either "light" or "dark"`);
+		}
+		const claimed = schemeModes.get(scheme);
+		if (claimed !== undefined) {
+			throw new ValidationError(
+				`${path} "${scheme}" is already claimed by color mode "${claimed}"`
+			);
+		}
+		schemeModes.set(scheme, mode.name);
+	}
+	// State colors join the contrast checks below, so their shape is checked first.
+	if (colors.states !== undefined) {
+		validateStateLayers(colors, defaultMode);
+	}
 	if (colors.luminance) {
 		const path = 'colors.luminance';
 		validateFiniteNumber(colors.luminance.minimumLuminanceDelta, `${path}.minimumLuminanceDelta`);
@@ -212,6 +297,12 @@ function validateColorsPartial(colors: NonNullable<PartialDesignSystem['colors']
 				throw new ValidationError(`${path} assigns "${colorName}" to both color groups`);
 			}
 		}
+		if (colors.luminance.contrast !== undefined) {
+			validateContrastPolicy(colors, groups[0], groups[1]);
+		}
+		if (colors.luminance.apca !== undefined) {
+			validateApcaPolicy(colors, groups[0], groups[1]);
+		}
 		if (colors.runtimeThemes) {
 			const runtimePath = 'colors.runtimeThemes.colorNames';
 			const runtimeNames = validateColorNameList(
@@ -238,11 +329,750 @@ function validateColorsPartial(colors: NonNullable<PartialDesignSystem['colors']
 		validateAlphaSchedule(colors.alphaSchedule, 'colors.alphaSchedule');
 	}
 
+	if (colors.flattenAlpha !== undefined) {
+		if (!colors.flattenAlpha || typeof colors.flattenAlpha !== 'object') {
+			throw new ValidationError('colors.flattenAlpha must be an object');
+		}
+		validateColorNameList(
+			colors.flattenAlpha.surfaces,
+			'colors.flattenAlpha.surfaces',
+			new Set(Object.keys(defaultMode.tokens))
+		);
+	}
+
+	if (colors.mixSchedule !== undefined) {
+		const { mixSchedule } = colors;
+		if (!mixSchedule || typeof mixSchedule !== 'object') {
+			throw new ValidationError('colors.mixSchedule must be an object');
+		}
+		if (typeof mixSchedule.surface !== 'string') {
+			throw new ValidationError('colors.mixSchedule.surface must be a color name');
+		}
+		if (!(mixSchedule.surface in defaultMode.tokens)) {
+			throw new ValidationError(
+				`colors.mixSchedule.surface references undeclared default color "${mixSchedule.surface}"`
+			);
+		}
+		if (!mixSchedule.levels || typeof mixSchedule.levels !== 'object') {
+			throw new ValidationError('colors.mixSchedule.levels must be an object');
+		}
+		validateAlphaSchedule(mixSchedule.levels, 'colors.mixSchedule.levels', 'mix');
+	}
+
 	colors.modes.forEach((mode) => {
 		if (mode.alphaSchedule) {
 			validateAlphaSchedule(mode.alphaSchedule, `colors.modes["${mode.name}"].alphaSchedule`);
 		}
 	});
+
+	if (colors.semantic !== undefined) {
+		validateSemanticColors(colors, defaultMode);
+	}
+}
+
+function validateStateLayers(
+	colors: NonNullable<PartialDesignSystem['colors']>,
+	defaultMode: NonNullable<PartialDesignSystem['colors']>['modes'][number]
+): void {
+	const path = 'colors.states';
+	const { states } = colors;
+	if (!states || typeof states !== 'object') {
+		throw new ValidationError(`${path} must be an object`);
+	}
+	if (!states.overlays || typeof states.overlays !== 'object' || Array.isArray(states.overlays)) {
+		throw new ValidationError(`${path}.overlays must be an object`);
+	}
+	const overlays = Object.entries(states.overlays);
+	if (overlays.length === 0) {
+		throw new ValidationError(`${path}.overlays must map at least one interactive color`);
+	}
+	for (const [colorName, overlay] of overlays) {
+		if (!(colorName in defaultMode.tokens)) {
+			throw new ValidationError(
+				`${path}.overlays references undeclared default color "${colorName}"`
+			);
+		}
+		if (typeof overlay !== 'string' || !(overlay in defaultMode.tokens)) {
+			throw new ValidationError(
+				`${path}.overlays.${colorName} references undeclared default color "${String(overlay)}"`
+			);
+		}
+		if (overlay === colorName) {
+			throw new ValidationError(`${path}.overlays.${colorName} must not overlay the color itself`);
+		}
+	}
+	if (!states.levels || typeof states.levels !== 'object') {
+		throw new ValidationError(`${path}.levels must be an object`);
+	}
+	validateAlphaSchedule(states.levels, `${path}.levels`, 'state');
+	if (states.exempt !== undefined) {
+		if (!Array.isArray(states.exempt)) {
+			throw new ValidationError(`${path}.exempt must be an array`);
+		}
+		for (const level of states.exempt) {
+			if (typeof level !== 'string' || !Object.hasOwn(states.levels, level)) {
+				throw new ValidationError(
+					`${path}.exempt references unknown state level "${String(level)}"`
+				);
+			}
+		}
+	}
+}
+
+/**
+ * Adds every non-exempt state color to its interactive color's luminance
+ * group, named `color (level)` so failures read as the state they come from.
+ */
+function withStateColors(
+	colors: NonNullable<PartialDesignSystem['colors']>,
+	palette: ColorTokens,
+	backgroundColors: readonly string[],
+	foregroundColors: readonly string[]
+): { palette: ColorTokens; backgroundColors: string[]; foregroundColors: string[] } {
+	const result = {
+		palette: { ...palette },
+		backgroundColors: [...backgroundColors],
+		foregroundColors: [...foregroundColors],
+	};
+	const exempt = new Set(colors.states?.exempt ?? []);
+	for (const state of resolveStateLayers(palette, colors.states)) {
+		if (exempt.has(state.level)) continue;
+		const group = backgroundColors.includes(state.color)
+			? result.backgroundColors
+			: foregroundColors.includes(state.color)
+				? result.foregroundColors
+				: undefined;
+		if (!group) continue;
+		const name = `${state.color} (${state.level})`;
+		result.palette[name] = state.value;
+		group.push(name);
+	}
+	return result;
+}
+
+/**
+ * Checks that every `extends` names another color mode and that each chain
+ * ends at the default mode instead of looping.
+ */
+function validateColorModeExtends(
+	colors: NonNullable<PartialDesignSystem['colors']>,
+	defaultMode: NonNullable<PartialDesignSystem['colors']>['modes'][number]
+): void {
+	const modes = new Map(colors.modes.map((mode) => [mode.name, mode]));
+	const parentOf = (mode: typeof defaultMode) =>
+		mode.isDefault ? undefined : (mode.extends as unknown);
+
+	for (const mode of colors.modes) {
+		const parent = parentOf(mode);
+		if (parent === undefined) continue;
+		const path = `colors.modes["${mode.name}"].extends`;
+		if (mode === defaultMode) {
+			throw new ValidationError(`${path} is not allowed on the default color mode`);
+		}
+		if (typeof parent !== 'string' || !modes.has(parent)) {
+			throw new ValidationError(`${path} references unknown color mode "${String(parent)}"`);
+		}
+	}
+
+	for (const mode of colors.modes) {
+		const chain = [mode.name];
+		let current = mode;
+		while (current !== defaultMode && parentOf(current) !== undefined) {
+			current = modes.get(parentOf(current) as string)!;
+			const looped = chain.includes(current.name);
+			chain.push(current.name);
+			if (looped) {
+				throw new ValidationError(
+					`colors.modes["${mode.name}"].extends forms a cycle: ${chain.join(' -> ')}`
+				);
+			}
+		}
+	}
+}
+
+const systemColors = new Set<string>([
+	'AccentColor',
+	'AccentColorText',
+	'ActiveText',
+	'ButtonBorder',
+	'ButtonFace',
+	'ButtonText',
+	'Canvas',
+	'CanvasText',
+	'Field',
+	'FieldText',
+	'GrayText',
+	'Highlight',
+	'HighlightText',
+	'LinkText',
+	'Mark',
+	'MarkText',
+	'SelectedItem',
+	'SelectedItemText',
+	'VisitedText',
+] satisfies SystemColor[]);
+
+/**
+ * Checks that each mode's preference refinements name colors its palette
+ * renders: OKLCH values for more contrast, system colors for forced colors.
+ */
+function validateColorPreferences(colors: NonNullable<PartialDesignSystem['colors']>): void {
+	const resolvedModes = resolveColorModes(colors);
+	colors.modes.forEach((mode, index) => {
+		const preferences = mode.preferences as unknown;
+		if (preferences === undefined) return;
+		const path = `colors.modes["${mode.name}"].preferences`;
+		if (!preferences || typeof preferences !== 'object') {
+			throw new ValidationError(`${path} must be an object`);
+		}
+		const { palette } = resolvedModes[index]!;
+		for (const [preference, refinement] of Object.entries(preferences)) {
+			if (preference !== 'moreContrast' && preference !== 'forcedColors') {
+				throw new ValidationError(`${path}.${preference} is not a supported preference`);
+			}
+			if (!refinement || typeof refinement !== 'object') {
+				throw new ValidationError(`${path}.${preference} must be an object`);
+			}
+			for (const [colorName, value] of Object.entries(refinement)) {
+				if (!(colorName in palette)) {
+					throw new ValidationError(
+						`${path}.${preference} refines "${colorName}", which color mode "${mode.name}" does not render`
+					);
+				}
+				if (preference === 'forcedColors' && !systemColors.has(value as string)) {
+					throw new ValidationError(
+						`${path}.forcedColors.${colorName} must be a CSS system color such as "CanvasText"`
+					);
+				}
+			}
+			if (preference === 'moreContrast') {
+				validateColorTokens(refinement as ColorTokens, `${path}.moreContrast`);
+			}
+		}
+	});
+}
+
+/**
+ * Every palette the contrast checks cover: each resolved color mode, then each
+ * mode's `moreContrast` refinement, which is held to a stricter threshold.
+ */
+function contrastPalettes(
+	colors: NonNullable<PartialDesignSystem['colors']>
+): Array<{ label: string; palette: ColorTokens; moreContrast: boolean }> {
+	const modes = resolveColorModes(colors);
+	return [
+		...modes.map((mode) => ({
+			label: `Color mode "${mode.name}"`,
+			palette: mode.palette,
+			moreContrast: false,
+		})),
+		...modes
+			.filter((mode) => Object.keys(mode.moreContrast).length > 0)
+			.map((mode) => ({
+				label: `Color mode "${mode.name}" under prefers-contrast: more`,
+				palette: { ...mode.palette, ...mode.moreContrast },
+				moreContrast: true,
+			})),
+	];
+}
+
+/** APCA's readability levels step by 15 Lc, e.g. 60 for body text and 75 for fluent reading. */
+const moreContrastLcStep = 15;
+
+/**
+ * Checks each semantic alias against the palette and alpha schedule of every
+ * mode it resolves in. A mode's own schedule applies to colors it or its
+ * `extends` chain authors; default colors keep the default variants through
+ * the cascade.
+ */
+function validateSemanticColors(
+	colors: NonNullable<PartialDesignSystem['colors']>,
+	defaultMode: NonNullable<PartialDesignSystem['colors']>['modes'][number]
+): void {
+	const path = 'colors.semantic';
+	const semantic = colors.semantic;
+	if (!semantic || typeof semantic !== 'object' || Array.isArray(semantic)) {
+		throw new ValidationError(`${path} must be an object`);
+	}
+	const defaultSchedule = defaultMode.alphaSchedule ?? colors.alphaSchedule ?? {};
+	const declaredColors = new Set(colors.modes.flatMap((mode) => Object.keys(mode.tokens)));
+	const resolvedModes = resolveColorModes(colors);
+	const validateReference = (reference: unknown, current: string, mode: typeof defaultMode) => {
+		if (!reference || typeof reference !== 'object' || Array.isArray(reference)) {
+			throw new ValidationError(`${current} must reference a color token`);
+		}
+		const { color, alpha } = reference as { color?: unknown; alpha?: unknown };
+		const resolved = resolvedModes[colors.modes.indexOf(mode)]!;
+		const authored =
+			mode !== defaultMode && typeof color === 'string' && Object.hasOwn(resolved.tokens, color);
+		if (typeof color !== 'string' || !Object.hasOwn(resolved.palette, color)) {
+			throw new ValidationError(`${current}.color references unknown color "${String(color)}"`);
+		}
+		const schedule = authored ? (resolved.alphaSchedule ?? defaultSchedule) : defaultSchedule;
+		if (alpha !== undefined && (typeof alpha !== 'string' || !Object.hasOwn(schedule, alpha))) {
+			throw new ValidationError(
+				`${current}.alpha references unknown alpha level "${String(alpha)}"`
+			);
+		}
+	};
+
+	for (const [name, entry] of Object.entries(semantic)) {
+		const current = `${path}.${name}`;
+		if (!tokenNamePattern.test(name)) {
+			throw new ValidationError(`${current} name is not CSS-token safe`);
+		}
+		if (declaredColors.has(name)) {
+			throw new ValidationError(`${current} collides with color "${name}"`);
+		}
+		validateReference(entry, current, defaultMode);
+		for (const key of Object.keys(entry)) {
+			if (!['color', 'alpha', 'modes'].includes(key)) {
+				throw new ValidationError(`${current} contains unsupported field "${key}"`);
+			}
+		}
+		if (entry.modes === undefined) continue;
+		if (!entry.modes || typeof entry.modes !== 'object' || Array.isArray(entry.modes)) {
+			throw new ValidationError(`${current}.modes must be an object`);
+		}
+		for (const [modeName, reference] of Object.entries(entry.modes)) {
+			const mode = colors.modes.find((candidate) => candidate.name === modeName);
+			if (!mode) {
+				throw new ValidationError(`${current}.modes references unknown color mode "${modeName}"`);
+			}
+			validateReference(reference, `${current}.modes.${modeName}`, mode);
+		}
+	}
+}
+
+/**
+ * Checks the opt-in WCAG contrast requirement against every color mode, with
+ * override modes resolved over the palette they inherit through `extends`.
+ */
+function validateContrastPolicy(
+	colors: NonNullable<PartialDesignSystem['colors']>,
+	backgroundColors: readonly string[],
+	foregroundColors: readonly string[]
+): void {
+	const path = 'colors.luminance.contrast';
+	const policy = colors.luminance!.contrast!;
+	if (!policy || typeof policy !== 'object') {
+		throw new ValidationError(`${path} must be an object`);
+	}
+	if (policy.level !== 'AA' && policy.level !== 'AAA') {
+		throw new ValidationError(`${path}.level must be either "AA" or "AAA"`);
+	}
+	if (
+		policy.textSize !== undefined &&
+		policy.textSize !== 'normal' &&
+		policy.textSize !== 'large'
+	) {
+		throw new ValidationError(`${path}.textSize must be either "normal" or "large"`);
+	}
+
+	// More contrast is held to WCAG's enhanced level.
+	for (const { label, palette: modePalette, moreContrast } of contrastPalettes(colors)) {
+		const required = moreContrast ? { ...policy, level: 'AAA' as const } : policy;
+		const { palette, ...groups } = withStateColors(
+			colors,
+			modePalette,
+			backgroundColors,
+			foregroundColors
+		);
+		const result = validateContrast(palette, {
+			...groups,
+			minimumContrastRatio: wcagMinimumContrastRatio(required),
+		});
+		if (result.ratioValid) continue;
+		const weakest = result.pairs.find((pair) => pair.ratio === result.actualRatio)!;
+		throw new ValidationError(
+			`${label} fails WCAG ${required.level} ${policy.textSize ?? 'normal'}-text contrast: ` +
+				`"${weakest.foreground}" on "${weakest.background}" measures ${(Math.floor(weakest.ratio * 100) / 100).toFixed(2)}:1, ` +
+				`requires ${result.requiredRatio}:1`
+		);
+	}
+}
+
+function validateLc(value: unknown, path: string): void {
+	validateFiniteNumber(value, path);
+	if ((value as number) < 0 || (value as number) > 108) {
+		throw new ValidationError(`${path} must be between 0 and 108`);
+	}
+}
+
+/**
+ * Checks opt-in APCA minimums against every resolved color mode. Each
+ * requirement is reported with its typography role so body-text and
+ * display-text failures stay distinguishable.
+ */
+function validateApcaPolicy(
+	colors: NonNullable<PartialDesignSystem['colors']>,
+	backgroundColors: readonly string[],
+	foregroundColors: readonly string[]
+): void {
+	const path = 'colors.luminance.apca';
+	const policy = colors.luminance!.apca!;
+	if (!policy || typeof policy !== 'object') {
+		throw new ValidationError(`${path} must be an object`);
+	}
+	validateLc(policy.minimumLc, `${path}.minimumLc`);
+	if (policy.roleMinimumLc !== undefined) {
+		if (!policy.roleMinimumLc || typeof policy.roleMinimumLc !== 'object') {
+			throw new ValidationError(`${path}.roleMinimumLc must be an object`);
+		}
+		for (const [role, lc] of Object.entries(policy.roleMinimumLc)) {
+			validateLc(lc, `${path}.roleMinimumLc.${role}`);
+		}
+	}
+	if (policy.roleColors !== undefined) {
+		if (!policy.roleColors || typeof policy.roleColors !== 'object') {
+			throw new ValidationError(`${path}.roleColors must be an object`);
+		}
+		for (const [role, bound] of Object.entries(policy.roleColors)) {
+			const rolePath = `${path}.roleColors.${role}`;
+			if (policy.roleMinimumLc?.[role] === undefined) {
+				throw new ValidationError(`${rolePath} needs a matching roleMinimumLc entry`);
+			}
+			if (!bound || typeof bound !== 'object') {
+				throw new ValidationError(`${rolePath} must be an object`);
+			}
+			validateRoleColorList(bound.foregroundColors, `${rolePath}.foregroundColors`, {
+				group: 'foreground',
+				names: foregroundColors,
+			});
+			if (bound.backgroundColors !== undefined) {
+				validateRoleColorList(bound.backgroundColors, `${rolePath}.backgroundColors`, {
+					group: 'background',
+					names: backgroundColors,
+				});
+			}
+		}
+	}
+
+	const stricter = (lc: number) => Math.min(108, lc + moreContrastLcStep);
+	const morePolicy = {
+		...policy,
+		minimumLc: stricter(policy.minimumLc),
+		...(policy.roleMinimumLc
+			? {
+					roleMinimumLc: Object.fromEntries(
+						Object.entries(policy.roleMinimumLc).map(([role, lc]) => [role, stricter(lc)])
+					),
+				}
+			: {}),
+	};
+	for (const { label, palette: modePalette, moreContrast } of contrastPalettes(colors)) {
+		const { palette, ...groups } = withStateColors(
+			colors,
+			modePalette,
+			backgroundColors,
+			foregroundColors
+		);
+		const result = validateApca(palette, {
+			...(moreContrast ? morePolicy : policy),
+			...groups,
+			...(policy.roleColors ? { roleColors: withStateRoleColors(policy.roleColors, groups) } : {}),
+		});
+		const failing = result.requirements.find((requirement) => !requirement.lcValid);
+		if (!failing) continue;
+		const subject = failing.role === null ? 'body text' : `typography role "${failing.role}"`;
+		if (!failing.weakest) {
+			throw new ValidationError(`${label} has no measurable APCA pairs for ${subject}`);
+		}
+		throw new ValidationError(
+			`${label} fails APCA Lc ${failing.requiredLc} for ${subject}: ` +
+				`"${failing.weakest.foreground}" on "${failing.weakest.background}" measures Lc ${(Math.floor(failing.actualLc * 10) / 10).toFixed(1)}`
+		);
+	}
+}
+
+function validateRoleColorList(
+	value: unknown,
+	path: string,
+	group: { group: 'background' | 'foreground'; names: readonly string[] }
+): void {
+	if (!Array.isArray(value) || value.length === 0) {
+		throw new ValidationError(`${path} must be a non-empty array`);
+	}
+	for (const colorName of value) {
+		if (!group.names.includes(colorName)) {
+			throw new ValidationError(
+				`${path} references "${colorName}", which is not a luminance ${group.group} color`
+			);
+		}
+	}
+}
+
+/** Binds each role's colors' state layers to that role too, matching `withStateColors` names. */
+function withStateRoleColors(
+	roleColors: NonNullable<ApcaPolicy['roleColors']>,
+	groups: { backgroundColors: readonly string[]; foregroundColors: readonly string[] }
+): NonNullable<ApcaPolicy['roleColors']> {
+	const withStates = (names: readonly string[], group: readonly string[]) =>
+		group.filter((name) => names.some((color) => name === color || name.startsWith(`${color} (`)));
+	return Object.fromEntries(
+		Object.entries(roleColors).map(([role, bound]) => [
+			role,
+			{
+				foregroundColors: withStates(bound!.foregroundColors, groups.foregroundColors),
+				...(bound!.backgroundColors
+					? { backgroundColors: withStates(bound!.backgroundColors, groups.backgroundColors) }
+					: {}),
+			},
+		])
+	);
+}
+
+function validateApcaRoles(
+	roleMinimumLc: Readonly<Record<string, number>>,
+	typography: PartialDesignSystem['typography']
+): void {
+	const roles = new Set(Object.keys(typography?.roles ?? {}));
+	for (const role of Object.keys(roleMinimumLc)) {
+		if (!roles.has(role)) {
+			throw new ValidationError(
+				`colors.luminance.apca.roleMinimumLc references undeclared typography role "${role}"`
+			);
+		}
+	}
+}
+
+const modeAxisFamilies = ['colors', 'spacing', 'gap', 'typography', 'border', 'sizing'] as const;
+
+function familyModes(
+	ds: DesignSystem | PartialDesignSystem,
+	family: (typeof modeAxisFamilies)[number]
+): Array<{ name: string; isDefault?: boolean }> {
+	switch (family) {
+		case 'colors':
+			return ds.colors?.modes ?? [];
+		case 'spacing':
+			return ds.spacing?.modes ?? [];
+		case 'gap':
+			return ds.gap?.modes ?? [];
+		case 'typography':
+			return ds.typography?.modes ?? [];
+		case 'border':
+			return [...(ds.border?.radius?.modes ?? []), ...(ds.border?.width?.modes ?? [])];
+		case 'sizing':
+			return ds.sizing?.modes ?? [];
+	}
+}
+
+/**
+ * Checks each mode axis and that its members are override modes of the
+ * families it lists, and of no other family.
+ */
+function validateModeAxes(ds: DesignSystem | PartialDesignSystem): void {
+	const axes = ds.modeAxes;
+	if (!axes || typeof axes !== 'object' || Array.isArray(axes)) {
+		throw new ValidationError('modeAxes must be an object');
+	}
+	const claimed = new Map<string, string>();
+	for (const [axisName, axis] of Object.entries(axes)) {
+		const path = `modeAxes.${axisName}`;
+		if (!tokenNamePattern.test(axisName)) {
+			throw new ValidationError(`${path} name is not CSS-token safe`);
+		}
+		if (axisName === 'color' || axisName === 'size') {
+			throw new ValidationError(`${path} collides with the built-in ${axisName} mode category`);
+		}
+		if (!axis || typeof axis !== 'object') {
+			throw new ValidationError(`${path} must be an object`);
+		}
+		if (
+			axis.selector !== undefined &&
+			(typeof axis.selector !== 'string' || !axis.selector.includes('{mode}'))
+		) {
+			throw new ValidationError(`${path}.selector must be a string containing "{mode}"`);
+		}
+		if (typeof axis.default !== 'string' || !tokenNamePattern.test(axis.default)) {
+			throw new ValidationError(`${path}.default must be a CSS-token safe mode name`);
+		}
+		if (!Array.isArray(axis.families) || axis.families.length === 0) {
+			throw new ValidationError(`${path}.families must be a non-empty array`);
+		}
+		for (const family of axis.families) {
+			if (!modeAxisFamilies.includes(family)) {
+				throw new ValidationError(`${path}.families contains unknown family "${String(family)}"`);
+			}
+		}
+		if (!Array.isArray(axis.modes) || axis.modes.length === 0) {
+			throw new ValidationError(`${path}.modes must be a non-empty array`);
+		}
+		for (const modeName of axis.modes) {
+			if (typeof modeName !== 'string' || modeName === axis.default) {
+				throw new ValidationError(`${path}.modes must list override modes other than the default`);
+			}
+			const owner = claimed.get(modeName);
+			if (owner !== undefined) {
+				throw new ValidationError(
+					`${path}.modes "${modeName}" already belongs to mode axis "${owner}"`
+				);
+			}
+			claimed.set(modeName, axisName);
+			let found = false;
+			for (const family of modeAxisFamilies) {
+				const mode = familyModes(ds, family).find((candidate) => candidate.name === modeName);
+				if (!mode) continue;
+				if (!axis.families.includes(family)) {
+					throw new ValidationError(
+						`${path}.modes "${modeName}" is a ${family} mode, but the axis does not list ${family}`
+					);
+				}
+				if (mode.isDefault || mode === getDefaultEntry(familyModes(ds, family))) {
+					throw new ValidationError(
+						`${path}.modes "${modeName}" is the default ${family} mode, which :root already applies`
+					);
+				}
+				if (family === 'colors' && (mode as { colorScheme?: unknown }).colorScheme !== undefined) {
+					throw new ValidationError(
+						`${path}.modes "${modeName}" must not declare a colorScheme; only color modes follow prefers-color-scheme`
+					);
+				}
+				if (family !== 'colors' && (mode as { breakpoint?: unknown }).breakpoint !== undefined) {
+					throw new ValidationError(
+						`${path}.modes "${modeName}" must not declare a breakpoint; only size modes apply from a viewport width`
+					);
+				}
+				if (family === 'colors' && (mode as { preferences?: unknown }).preferences !== undefined) {
+					throw new ValidationError(
+						`${path}.modes "${modeName}" must not declare preferences; only color modes refine themselves for them`
+					);
+				}
+				found = true;
+			}
+			if (!found) {
+				throw new ValidationError(`${path}.modes references unknown mode "${modeName}"`);
+			}
+		}
+	}
+}
+
+function validateBreakpointWidths(widths: unknown, path: string): void {
+	if (!widths || typeof widths !== 'object' || Array.isArray(widths)) {
+		throw new ValidationError(`${path} must be an object of widths in px`);
+	}
+	const names = new Map<number, string>();
+	for (const [name, width] of Object.entries(widths)) {
+		if (!tokenNamePattern.test(name)) {
+			throw new ValidationError(`${path}.${name} name is not CSS-token safe`);
+		}
+		if (typeof width !== 'number' || !Number.isFinite(width) || width <= 0) {
+			throw new ValidationError(`${path}.${name} must be a positive width in px`);
+		}
+		const previous = names.get(width);
+		if (previous !== undefined) {
+			throw new ValidationError(`${path}.${name} repeats the ${width}px width of "${previous}"`);
+		}
+		names.set(width, name);
+	}
+}
+
+function validateBreakpoints(breakpoints: BreakpointSystem): void {
+	if (!breakpoints || typeof breakpoints !== 'object') {
+		throw new ValidationError('breakpoints must be an object');
+	}
+	validateBreakpointWidths(breakpoints.viewport, 'breakpoints.viewport');
+	if (Object.keys(breakpoints.viewport).length === 0) {
+		throw new ValidationError('breakpoints.viewport must name at least one width');
+	}
+	if (breakpoints.container !== undefined) {
+		validateBreakpointWidths(breakpoints.container, 'breakpoints.container');
+	}
+}
+
+/**
+ * Checks that layer names are unique and that explicit z-index values keep
+ * every layer strictly above the one declared before it.
+ */
+function validateLayers(layers: LayerSystem): void {
+	if (!layers || typeof layers !== 'object') {
+		throw new ValidationError('layers must be an object');
+	}
+	if (
+		layers.step !== undefined &&
+		(!Number.isInteger(layers.step) || (layers.step as number) <= 0)
+	) {
+		throw new ValidationError('layers.step must be a positive integer');
+	}
+	if (!Array.isArray(layers.order) || layers.order.length === 0) {
+		throw new ValidationError('layers.order must be a non-empty array');
+	}
+	const seen = new Set<string>();
+	layers.order.forEach((layer: unknown, index) => {
+		const path = `layers.order[${index}]`;
+		const name = typeof layer === 'string' ? layer : (layer as { name?: unknown } | null)?.name;
+		if (typeof name !== 'string' || !tokenNamePattern.test(name)) {
+			throw new ValidationError(`${path} must be a CSS-token safe layer name`);
+		}
+		if (seen.has(name)) {
+			throw new ValidationError(`${path} repeats layer "${name}"`);
+		}
+		seen.add(name);
+		if (typeof layer !== 'string' && !Number.isInteger((layer as { value?: unknown }).value)) {
+			throw new ValidationError(`${path} "${name}" value must be an integer z-index`);
+		}
+	});
+	const resolved = resolveLayers(layers);
+	for (let index = 1; index < resolved.length; index += 1) {
+		const previous = resolved[index - 1]!;
+		const current = resolved[index]!;
+		if (current.value <= previous.value) {
+			throw new ValidationError(
+				`layers.order[${index}] "${current.name}" z-index ${current.value} must be above ${previous.value} of "${previous.name}"`
+			);
+		}
+	}
+}
+
+/**
+ * Checks that breakpoint-bound size modes are override modes naming a viewport
+ * breakpoint, that every family agrees on a shared mode's breakpoint, and that
+ * no two modes claim the same breakpoint.
+ */
+function validateSizeModeBreakpoints(ds: DesignSystem | PartialDesignSystem): void {
+	const bound = new Map<string, string>();
+	const claimed = new Map<string, string>();
+	for (const family of ['spacing', 'gap', 'typography', 'border', 'sizing'] as const) {
+		const groups =
+			family === 'border'
+				? [ds.border?.radius?.modes ?? [], ds.border?.width?.modes ?? []]
+				: [familyModes(ds, family)];
+		for (const modes of groups) {
+			for (const mode of modes as Array<{
+				name: string;
+				isDefault?: boolean;
+				breakpoint?: unknown;
+			}>) {
+				if (mode.breakpoint === undefined) continue;
+				const path = `${family}.modes["${mode.name}"].breakpoint`;
+				if (typeof mode.breakpoint !== 'string' || !ds.breakpoints?.viewport[mode.breakpoint]) {
+					throw new ValidationError(
+						`${path} must name a viewport breakpoint; found ${JSON.stringify(mode.breakpoint)}`
+					);
+				}
+				if (mode === getDefaultEntry(modes)) {
+					throw new ValidationError(
+						`${path} is set on the default ${family} mode, which :root already applies`
+					);
+				}
+				const previous = bound.get(mode.name);
+				if (previous !== undefined && previous !== mode.breakpoint) {
+					throw new ValidationError(
+						`${path} "${mode.breakpoint}" conflicts with breakpoint "${previous}" set on the same mode in another family`
+					);
+				}
+				bound.set(mode.name, mode.breakpoint);
+				const owner = claimed.get(mode.breakpoint);
+				if (owner !== undefined && owner !== mode.name) {
+					throw new ValidationError(
+						`${path} "${mode.breakpoint}" is already bound to size mode "${owner}"`
+					);
+				}
+				claimed.set(mode.breakpoint, mode.name);
+			}
+		}
+	}
 }
 
 function validateColors(ds: DesignSystem): void {
@@ -252,7 +1082,10 @@ function validateColors(ds: DesignSystem): void {
 	validateColorsPartial(ds.colors);
 }
 
-function validateSpacingPartial(spacing: NonNullable<PartialDesignSystem['spacing']>): void {
+function validateSpacingPartial(
+	spacing: NonNullable<PartialDesignSystem['spacing']>,
+	breakpoints?: BreakpointSystem
+): void {
 	if (!spacing.modes || !Array.isArray(spacing.modes)) {
 		throw new ValidationError('spacing.modes must be an array');
 	}
@@ -267,26 +1100,49 @@ function validateSpacingPartial(spacing: NonNullable<PartialDesignSystem['spacin
 			throw new ValidationError(`Spacing mode "${mode.name}" must have tokens`);
 		}
 
-		const { unit, base, min, range } = mode.tokens;
+		const { unit, range } = mode.tokens;
 
 		validateCssUnit(unit, `spacing.modes["${mode.name}"].tokens.unit`);
-		if (typeof base !== 'number' || !Number.isFinite(base) || base <= 0) {
-			throw new ValidationError(`Spacing mode "${mode.name}" base must be a positive number`);
-		}
-		if (typeof min !== 'number' || !Number.isFinite(min) || min < 0) {
-			throw new ValidationError(`Spacing mode "${mode.name}" min must be a non-negative number`);
-		}
+		validateSpacingScale(mode.tokens, `Spacing mode "${mode.name}"`);
 		if (typeof range !== 'number' || range < 1 || !Number.isInteger(range)) {
 			throw new ValidationError(`Spacing mode "${mode.name}" range must be a positive integer`);
 		}
+		validateScaleStrategy(mode.tokens, `spacing.modes["${mode.name}"].tokens.scale`);
+		if (mode.fluid !== undefined) {
+			validateFluidScale(
+				mode.fluid,
+				unit,
+				['base', 'min'],
+				`spacing.modes["${mode.name}"].fluid`,
+				breakpoints
+			);
+			const widest = { ...mode.tokens, ...mode.fluid.tokens };
+			validateSpacingScale(widest, `Spacing mode "${mode.name}" fluid`);
+			validateScaleStrategy(
+				widest,
+				`spacing.modes["${mode.name}"].tokens.scale`,
+				' at maxViewport'
+			);
+		}
 	});
 }
 
+function validateSpacingScale(scale: { base: unknown; min: unknown }, label: string): void {
+	const { base, min } = scale;
+	if (typeof base !== 'number' || !Number.isFinite(base) || base <= 0) {
+		throw new ValidationError(`${label} base must be a positive number`);
+	}
+	if (typeof min !== 'number' || !Number.isFinite(min) || min < 0) {
+		throw new ValidationError(`${label} min must be a non-negative number`);
+	}
+}
+
 function validateSpacingDerivedTokens(
 	tokens: Record<string, unknown>,
 	modeName: string,
 	spacing: NonNullable<PartialDesignSystem['spacing']>,
-	path: string
+	path: string,
+	followsFluidSpacing = false
 ): void {
 	const allowedKeys = new Set(['unit', 'spacingMode', 'min', 's', 'l', 'max']);
 	for (const key of Object.keys(tokens)) {
@@ -310,6 +1166,16 @@ function validateSpacingDerivedTokens(
 			`${path}.spacingMode references unknown spacing mode "${requestedSpacingMode}"`
 		);
 	}
+	if (
+		followsFluidSpacing &&
+		spacingMode.fluid &&
+		tokens.unit !== undefined &&
+		!fluidUnits.has(tokens.unit as string)
+	) {
+		throw new ValidationError(
+			`${path}.unit must be "px" or "rem" to follow fluid spacing mode "${spacingMode.name}"`
+		);
+	}
 
 	for (const key of ['min', 's', 'l', 'max'] as const) {
 		const value = tokens[key];
@@ -347,14 +1213,17 @@ function validateGapPartial(
 			mode.tokens as unknown as Record<string, unknown>,
 			mode.name,
 			spacing,
-			`gap.modes["${mode.name}"].tokens`
+			`gap.modes["${mode.name}"].tokens`,
+			true
 		);
 	});
 }
 
 function validateBorderPartial(
 	border: NonNullable<PartialDesignSystem['border']>,
-	spacing: PartialDesignSystem['spacing']
+	spacing: PartialDesignSystem['spacing'],
+	colors: PartialDesignSystem['colors'],
+	gap: PartialDesignSystem['gap']
 ): void {
 	// Validate radius if present
 	if (border.radius) {
@@ -399,28 +1268,185 @@ function validateBorderPartial(
 				throw new ValidationError(`Border width mode "${mode.name}" must have tokens`);
 			}
 
-			const { unit, value } = mode.tokens;
+			const { unit, value, scale } = mode.tokens;
+			const path = `border.width.modes["${mode.name}"].tokens`;
 
-			validateCssUnit(unit, `border.width.modes["${mode.name}"].tokens.unit`);
-			if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+			validateCssUnit(unit, `${path}.unit`);
+			if (value === undefined && scale === undefined) {
+				throw new ValidationError(`Border width mode "${mode.name}" must have a value or a scale`);
+			}
+			if (
+				value !== undefined &&
+				(typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+			) {
 				throw new ValidationError(
 					`Border width mode "${mode.name}" value must be a non-negative number`
 				);
 			}
+			if (scale !== undefined) {
+				if (!scale || typeof scale !== 'object' || Object.keys(scale).length === 0) {
+					throw new ValidationError(`${path}.scale must name at least one width`);
+				}
+				for (const [step, width] of Object.entries(scale)) {
+					if (!tokenNamePattern.test(step)) {
+						throw new ValidationError(`${path}.scale.${step} name is not CSS-token safe`);
+					}
+					if (typeof width !== 'number' || !Number.isFinite(width) || width < 0) {
+						throw new ValidationError(`${path}.scale.${step} must be a non-negative number`);
+					}
+				}
+			}
 		});
 	}
+
+	if (border.focusRings !== undefined) {
+		if (!border.width) {
+			throw new ValidationError(
+				'border.focusRings requires border.width (ring widths reference width steps)'
+			);
+		}
+		if (!colors) {
+			throw new ValidationError('Focus rings require colors (ring colors reference color tokens)');
+		}
+		validateFocusRings(border.focusRings, border.width, colors);
+	}
+
+	if (border.nestedRadii !== undefined) {
+		if (!border.radius) {
+			throw new ValidationError(
+				'border.nestedRadii requires border.radius (nested radii start from a radius step)'
+			);
+		}
+		validateNestedRadii(border.nestedRadii, spacing!, gap);
+	}
+}
+
+const radiusSteps = ['min', 's', 'l', 'max'];
+
+function validateNestedRadii(
+	nestedRadii: NonNullable<BorderSystem['nestedRadii']>,
+	spacing: NonNullable<PartialDesignSystem['spacing']>,
+	gap: PartialDesignSystem['gap']
+): void {
+	if (!nestedRadii || typeof nestedRadii !== 'object' || Array.isArray(nestedRadii)) {
+		throw new ValidationError('border.nestedRadii must be an object of named recipes');
+	}
+	const spacingMode = getDefaultEntry(spacing.modes);
+	const declared = new Set<string>();
+	for (const [name, recipe] of Object.entries(nestedRadii)) {
+		const path = `border.nestedRadii.${name}`;
+		if (!tokenNamePattern.test(name)) {
+			throw new ValidationError(`${path} name is not CSS-token safe`);
+		}
+		if (radiusSteps.includes(name)) {
+			throw new ValidationError(`${path} name collides with the border radius step "${name}"`);
+		}
+		if (!recipe || typeof recipe !== 'object') {
+			throw new ValidationError(`${path} must be a nested radius recipe`);
+		}
+		if (!radiusSteps.includes(recipe.outer) && !declared.has(recipe.outer)) {
+			throw new ValidationError(
+				`${path}.outer must be a border radius step (${radiusSteps.join(', ')}) or an earlier nested radius (got ${JSON.stringify(recipe.outer)})`
+			);
+		}
+		const inset = recipe.inset as Record<string, unknown> | undefined;
+		const keys = inset && typeof inset === 'object' ? Object.keys(inset) : [];
+		if (keys.length !== 1 || !['spacing', 'gap'].includes(keys[0]!)) {
+			throw new ValidationError(
+				`${path}.inset must reference exactly one of { spacing } or { gap }`
+			);
+		}
+		if ('spacing' in inset!) {
+			const step = inset.spacing;
+			if (
+				step !== 'min' &&
+				(!Number.isInteger(step) ||
+					(step as number) < 1 ||
+					(step as number) > spacingMode.tokens.range)
+			) {
+				throw new ValidationError(
+					`${path}.inset.spacing must be "min" or an integer from 1 to ${spacingMode.tokens.range} for spacing mode "${spacingMode.name}"`
+				);
+			}
+		} else {
+			if (!gap) {
+				throw new ValidationError(`${path}.inset references gap, which is not declared`);
+			}
+			if (!radiusSteps.includes(inset!.gap as string)) {
+				throw new ValidationError(
+					`${path}.inset.gap must be one of ${radiusSteps.join(', ')} (got ${JSON.stringify(inset!.gap)})`
+				);
+			}
+		}
+		declared.add(name);
+	}
+}
+
+const focusRingStyles = new Set(['solid', 'dashed', 'dotted', 'double']);
+
+function validateFocusRings(
+	focusRings: NonNullable<BorderSystem['focusRings']>,
+	width: BorderSystem['width'],
+	colors: NonNullable<PartialDesignSystem['colors']>
+): void {
+	if (!focusRings || typeof focusRings !== 'object' || Array.isArray(focusRings)) {
+		throw new ValidationError('border.focusRings must be an object of named recipes');
+	}
+	const widthMode = getDefaultEntry(width.modes);
+	const widthSteps = new Set(Object.keys(widthMode.tokens.scale ?? {}));
+	const colorMode = getDefaultEntry(colors.modes);
+	const colorNames = new Set(Object.keys(colorMode.tokens ?? {}));
+	const alphaNames = new Set(Object.keys(colorMode.alphaSchedule ?? colors.alphaSchedule ?? {}));
+
+	for (const [name, recipe] of Object.entries(focusRings)) {
+		const path = `border.focusRings.${name}`;
+		if (!tokenNamePattern.test(name)) {
+			throw new ValidationError(`${path} name is not CSS-token safe`);
+		}
+		if (!recipe || typeof recipe !== 'object') {
+			throw new ValidationError(`${path} must be a focus ring recipe`);
+		}
+		if (!widthSteps.has(recipe.width)) {
+			throw new ValidationError(
+				`${path}.width references unknown border width step ${JSON.stringify(recipe.width)} in mode "${widthMode.name}"`
+			);
+		}
+		if (recipe.style !== undefined && !focusRingStyles.has(recipe.style)) {
+			throw new ValidationError(
+				`${path}.style must be one of ${[...focusRingStyles].join(', ')} (got ${JSON.stringify(recipe.style)})`
+			);
+		}
+		validateFiniteNumber(recipe.offset, `${path}.offset`);
+		if (!recipe.color || typeof recipe.color !== 'object' || Array.isArray(recipe.color)) {
+			throw new ValidationError(`${path}.color must reference a color token`);
+		}
+		if (!colorNames.has(recipe.color.color)) {
+			throw new ValidationError(
+				`${path}.color references unknown default color "${recipe.color.color}"`
+			);
+		}
+		if (recipe.color.alpha !== undefined && !alphaNames.has(recipe.color.alpha)) {
+			throw new ValidationError(
+				`${path}.color references unknown alpha level "${recipe.color.alpha}"`
+			);
+		}
+	}
 }
 
-function validateAlphaSchedule(schedule: AlphaSchedule, path: string): void {
+function validateAlphaSchedule(
+	schedule: AlphaSchedule,
+	path: string,
+	kind: 'alpha' | 'mix' | 'state' = 'alpha'
+): void {
 	const entries = Object.entries(schedule);
 
 	if (entries.length === 0) {
-		throw new ValidationError(`${path} must have at least one alpha level`);
+		throw new ValidationError(`${path} must have at least one ${kind} level`);
 	}
 
 	for (const [level, value] of entries) {
 		if (!tokenNamePattern.test(level)) {
-			throw new ValidationError(`${path} alpha level "${level}" is not CSS-token safe`);
+			throw new ValidationError(`${path} ${kind} level "${level}" is not CSS-token safe`);
 		}
 		if (typeof value !== 'number' || !Number.isFinite(value)) {
 			throw new ValidationError(`${path}.${level} must be a finite number`);
@@ -435,7 +1461,7 @@ function validateSpacing(ds: DesignSystem): void {
 	if (!ds.spacing) {
 		throw new ValidationError('DesignSystem.spacing is required');
 	}
-	validateSpacingPartial(ds.spacing);
+	validateSpacingPartial(ds.spacing, ds.breakpoints);
 }
 
 function validateGap(ds: DesignSystem): void {
@@ -449,7 +1475,7 @@ function validateTypography(ds: DesignSystem): void {
 	if (!ds.typography) {
 		throw new ValidationError('DesignSystem.typography is required');
 	}
-	validateTypographyPartial(ds.typography);
+	validateTypographyPartial(ds.typography, ds.breakpoints);
 }
 
 function validateBorder(ds: DesignSystem): void {
@@ -465,7 +1491,7 @@ function validateBorder(ds: DesignSystem): void {
 		throw new ValidationError('DesignSystem.border.width is required');
 	}
 
-	validateBorderPartial(ds.border, ds.spacing);
+	validateBorderPartial(ds.border, ds.spacing, ds.colors, ds.gap);
 }
 
 function validateTime(ds: DesignSystem): void {
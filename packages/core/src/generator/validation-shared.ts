@@ -1,3 +1,6 @@
+import type { BreakpointSystem, ScaleStrategy } from '../types.js';
+import { scaleStep } from './scale.js';
+
 export class ValidationError extends Error {
 	constructor(message: string) {
 		super(message);
@@ -49,3 +52,111 @@ export function validateFiniteNumber(value: unknown, path: string): asserts valu
 		throw new ValidationError(`${path} must be a finite number`);
 	}
 }
+
+/** Units a fluid `clamp()` scale can interpolate in. */
+export const fluidUnits = new Set(['px', 'rem']);
+
+/**
+ * Check a mode's `fluid` block: its viewport bounds, its unit, and that it
+ * only overrides scale values named in `keys`. Bounds may name viewport breakpoints.
+ */
+export function validateFluidScale(
+	fluid: unknown,
+	unit: string,
+	keys: readonly string[],
+	path: string,
+	breakpoints?: BreakpointSystem
+): void {
+	if (typeof fluid !== 'object' || fluid === null || Array.isArray(fluid)) {
+		throw new ValidationError(`${path} must be an object`);
+	}
+	const { tokens } = fluid as Record<string, unknown>;
+	const [minViewport, maxViewport] = (['minViewport', 'maxViewport'] as const).map((key) => {
+		const value = (fluid as Record<string, unknown>)[key];
+		if (typeof value === 'string') {
+			const width = breakpoints?.viewport[value];
+			if (width === undefined) {
+				throw new ValidationError(
+					`${path}.${key} references unknown viewport breakpoint "${value}"`
+				);
+			}
+			return width;
+		}
+		if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+			throw new ValidationError(
+				`${path}.${key} must be a positive viewport width in px or a viewport breakpoint name`
+			);
+		}
+		return value;
+	}) as [number, number];
+	if (minViewport >= maxViewport) {
+		throw new ValidationError(`${path}.minViewport must be smaller than maxViewport`);
+	}
+	if (!fluidUnits.has(unit)) {
+		throw new ValidationError(`${path} requires a "px" or "rem" unit; found "${unit}"`);
+	}
+	if (typeof tokens !== 'object' || tokens === null || Array.isArray(tokens)) {
+		throw new ValidationError(`${path}.tokens must be an object`);
+	}
+	for (const key of Object.keys(tokens)) {
+		if (!keys.includes(key)) {
+			throw new ValidationError(
+				`${path}.tokens contains unsupported key "${key}"; fluid scales interpolate ${keys.map((name) => `"${name}"`).join(', ')}`
+			);
+		}
+	}
+}
+
+const scaleKinds = ['linear', 'ratio', 'steps', 'fibonacci'];
+
+/**
+ * Check an explicit `scale` strategy and that the ramp it produces, from
+ * `min` through the last step, rises at every step.
+ *
+ * Runs after the family has checked `base`, `min`, and `range`. `context`
+ * names the scale values being checked when they are not the authored ones.
+ */
+export function validateScaleStrategy(
+	system: { unit: string; base: number; min: number; range: number; scale?: ScaleStrategy },
+	path: string,
+	context = ''
+): void {
+	const strategy = system.scale as unknown;
+	if (strategy === undefined) return;
+	if (typeof strategy !== 'object' || strategy === null || Array.isArray(strategy)) {
+		throw new ValidationError(`${path} must be an object`);
+	}
+	const { kind, step, ratio, multipliers } = strategy as Record<string, unknown>;
+	if (typeof kind !== 'string' || !scaleKinds.includes(kind)) {
+		throw new ValidationError(
+			`${path}.kind must be ${scaleKinds.map((name) => `"${name}"`).join(', ')}`
+		);
+	}
+	if (kind === 'linear' && step !== undefined) validateFiniteNumber(step, `${path}.step`);
+	if (kind === 'ratio') validateFiniteNumber(ratio, `${path}.ratio`);
+	if (kind === 'steps') {
+		if (!Array.isArray(multipliers) || multipliers.length !== system.range) {
+			throw new ValidationError(
+				`${path}.multipliers must list one multiple of base for each of the ${system.range} steps`
+			);
+		}
+		for (const [index, multiplier] of multipliers.entries()) {
+			if (typeof multiplier !== 'number' || !Number.isFinite(multiplier)) {
+				throw new ValidationError(
+					`${path}.multipliers[${index}] must be a unitless multiple of base; the scale is in "${system.unit}"`
+				);
+			}
+		}
+	}
+
+	let previous = { label: 'min', value: system.min };
+	for (let index = 1; index <= system.range; index++) {
+		const current = { label: `step ${index}`, value: scaleStep(system, index) };
+		if (!(current.value > previous.value)) {
+			throw new ValidationError(
+				`${path} must rise at every step${context}: ${previous.label} is ${previous.value}${system.unit}, ${current.label} is ${current.value}${system.unit}`
+			);
+		}
+		previous = current;
+	}
+}
@@ -9,16 +9,27 @@ export { generate, resolveGeneratorConfig, ValidationError } from './generator/i
 export type {
 	IR,
 	TokenValue,
+	BreakpointContract,
+	FocusRingContract,
+	GradientContract,
+	LayerContract,
 	GeneratorConfig,
 	GeneratorOptions,
 	GeneratorResult,
 	ModeInfo,
+	SemanticColorContract,
 	TypographyContract,
 } from './generator/index.js';
 
 // Transformers - convert IR to output formats
 export { toCss, defaultCssConfig } from './transformers/index.js';
-export type { CssTransformerConfig, FileHeaderConfig } from './transformers/index.js';
+export type {
+	CssAlphaVariantStrategy,
+	CssColorModeStrategy,
+	CssNestedRadiusStrategy,
+	CssTransformerConfig,
+	FileHeaderConfig,
+} from './transformers/index.js';
 
 export { toFigmaJson } from './transformers/index.js';
 export {
@@ -34,6 +45,8 @@ export type { TypographySpecimenConfig } from './transformers/index.js';
 export type { TypographyCssConfig } from './transformers/index.js';
 export { toShadowCss, toShadowCssModuleTypes } from './transformers/index.js';
 export type { ShadowCssConfig } from './transformers/index.js';
+export { toFocusRingCss } from './transformers/index.js';
+export type { FocusRingCssConfig } from './transformers/index.js';
 export { toShadowSpecimen } from './transformers/index.js';
 export type { ShadowSpecimenConfig } from './transformers/index.js';
 export type {
@@ -129,6 +142,8 @@ export function generateFigmaJson(
 			base: colorSpace === 'display-p3' ? 'hex-p3' : 'hex',
 			alpha: colorSpace === 'display-p3' ? 'hexa-p3' : 'hexa',
 			alphaModifier: config?.generator?.colorFormat?.alphaModifier ?? 'a',
+			mixModifier: config?.generator?.colorFormat?.mixModifier ?? 'mix',
+			stateModifier: config?.generator?.colorFormat?.stateModifier ?? 'state',
 		},
 	});
 	return toFigmaJson(ir, config?.transformer, format);
@@ -169,18 +184,40 @@ export function generateTypographySpecimen(
 export * from './types.js';
 export { defineTypography, deriveTypographyRange, fontFromManifest } from './typography/index.js';
 export { deriveShadowRange } from './shadows/index.js';
+export { deriveOppositeColorMode } from './colors/index.js';
+export { analyzeGamut, cssGamutOutputs } from './gamut.js';
+export type {
+	GamutAnalysisOptions,
+	GamutColorDiagnostic,
+	GamutMapping,
+	GamutOutputTarget,
+	OutputGamut,
+} from './gamut.js';
 export { createWorkbenchContract } from './review/contract.js';
 export { createReviewCapturePlan } from './review/capture.js';
+export { createContrastMatrix } from './review/contrast-matrix.js';
+export { createLuminancePatch } from './review/luminance-patch.js';
 export type {
 	ReviewAssetContract,
 	ReviewCapturePolicy,
 	ReviewCaptureState,
 	ColorReviewCase,
 	ColorReviewLab,
+	ColorVisionSimulation,
+	ContrastMatrixCell,
+	ContrastMatrixForeground,
+	ContrastMatrixMode,
 	MotionReviewCase,
 	MotionReviewLab,
+	FocusRingReviewCase,
+	FocusRingReviewLab,
+	GradientBandingSegment,
+	GradientReviewCase,
+	GradientReviewLab,
+	GradientReviewMode,
 	FoundationReviewCase,
 	FoundationReviewLab,
+	LuminancePatchOptions,
 	ReviewCase,
 	ReviewControl,
 	ReviewDiagnostic,
@@ -190,6 +227,7 @@ export type {
 	ReviewModeGroup,
 	ShadowReviewCase,
 	TfsAgentHandoff,
+	TfsContrastMatrix,
 	TfsReviewPatch,
 	TfsWorkbenchContract,
 	TfsReviewCapturePlan,
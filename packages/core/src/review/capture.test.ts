@@ -144,4 +144,38 @@ describe('createReviewCapturePlan', () => {
 		expect(states[1]?.url).toContain('motion=reduce');
 		expect(states[1]?.id).toContain('motion-reduce');
 	});
+
+	it('captures color cases under each contrast preference their mode refines', () => {
+		const withPreferences: PartialDesignSystem = {
+			colors: {
+				modes: [
+					{
+						...system.colors!.modes[0]!,
+						preferences: {
+							moreContrast: { ink: { mode: 'oklch', l: 0, c: 0, h: 0 } },
+							forcedColors: { ink: 'CanvasText' },
+						},
+					},
+					system.colors!.modes[1]!,
+				],
+			},
+		};
+		const contract = createWorkbenchContract(withPreferences, generate(withPreferences), {
+			systemFingerprint: 'contrast',
+			toolVersion: '0.2.0',
+			stylesheets: [],
+		});
+		const states = createReviewCapturePlan(contract).states.filter(
+			(state) => state.lab === 'color' && state.colorMode === 'light'
+		);
+		const lightMode = contract.globals.modes
+			.find((group) => group.category === 'color')
+			?.modes.find((mode) => mode.name === 'light');
+
+		// Light authors ink, so only its forced-color role carries over.
+		expect(states.map((state) => state.contrastPreference)).toEqual(['no-preference', 'forced']);
+		expect(states[1]?.url).toContain('contrast=forced');
+		expect(states[1]?.id).toContain('contrast-forced');
+		expect(lightMode?.preferences).toEqual({ forced: { '--clr-ink': 'CanvasText' } });
+	});
 });
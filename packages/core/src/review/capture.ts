@@ -22,7 +22,8 @@ function reviewUrl(
 	caseId?: string,
 	colorMode?: string,
 	sizeMode?: string,
-	motionPreference?: 'no-preference' | 'reduce'
+	motionPreference?: 'no-preference' | 'reduce',
+	contrastPreference?: 'no-preference' | 'more' | 'forced'
 ): string {
 	const entries = [
 		['lab', lab],
@@ -31,6 +32,7 @@ function reviewUrl(
 		...(colorMode ? [['color', colorMode]] : []),
 		...(sizeMode ? [['size', sizeMode]] : []),
 		...(motionPreference ? [['motion', motionPreference]] : []),
+		...(contrastPreference ? [['contrast', contrastPreference]] : []),
 	];
 	return `./index.html?${entries
 		.map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
@@ -69,6 +71,10 @@ function caseStates(
 		reviewCase.capture.motionPreferences.length > 0
 			? reviewCase.capture.motionPreferences
 			: [undefined];
+	const contrastPreferences: Array<'no-preference' | 'more' | 'forced' | undefined> =
+		reviewCase.capture.contrastPreferences.length > 0
+			? reviewCase.capture.contrastPreferences
+			: [undefined];
 
 	return reviewCase.capture.viewports.flatMap((viewportId) => {
 		const viewport = contract.globals.viewports.find((entry) => entry.id === viewportId);
@@ -77,33 +83,44 @@ function caseStates(
 		}
 		return colorModes.flatMap((colorMode) =>
 			sizeModes.flatMap((sizeMode) =>
-				motionPreferences.map((motionPreference) => {
-					const modeIdentity = [
-						colorMode ? `color-${idSegment(colorMode)}` : undefined,
-						sizeMode ? `size-${idSegment(sizeMode)}` : undefined,
-						motionPreference ? `motion-${idSegment(motionPreference)}` : undefined,
-					]
-						.filter(Boolean)
-						.join('--');
-					return {
-						id: [
-							reviewCase.id,
-							`viewport-${idSegment(viewport.id)}`,
-							...(modeIdentity ? [modeIdentity] : []),
-						].join('--'),
-						lab,
-						caseId: reviewCase.id,
-						viewport: {
-							id: viewport.id,
-							width: viewport.width,
-							height: viewport.height,
-						},
-						...(colorMode ? { colorMode } : {}),
-						...(sizeMode ? { sizeMode } : {}),
-						...(motionPreference ? { motionPreference } : {}),
-						url: reviewUrl(lab, reviewCase.id, colorMode, sizeMode, motionPreference),
-					};
-				})
+				motionPreferences.flatMap((motionPreference) =>
+					contrastPreferences.map((contrastPreference) => {
+						const modeIdentity = [
+							colorMode ? `color-${idSegment(colorMode)}` : undefined,
+							sizeMode ? `size-${idSegment(sizeMode)}` : undefined,
+							motionPreference ? `motion-${idSegment(motionPreference)}` : undefined,
+							contrastPreference ? `contrast-${idSegment(contrastPreference)}` : undefined,
+						]
+							.filter(Boolean)
+							.join('--');
+						return {
+							id: [
+								reviewCase.id,
+								`viewport-${idSegment(viewport.id)}`,
+								...(modeIdentity ? [modeIdentity] : []),
+							].join('--'),
+							lab,
+							caseId: reviewCase.id,
+							viewport: {
+								id: viewport.id,
+								width: viewport.width,
+								height: viewport.height,
+							},
+							...(colorMode ? { colorMode } : {}),
+							...(sizeMode ? { sizeMode } : {}),
+							...(motionPreference ? { motionPreference } : {}),
+							...(contrastPreference ? { contrastPreference } : {}),
+							url: reviewUrl(
+								lab,
+								reviewCase.id,
+								colorMode,
+								sizeMode,
+								motionPreference,
+								contrastPreference
+							),
+						};
+					})
+				)
 			)
 		);
 	});
@@ -116,8 +133,10 @@ function caseStates(
  * can consume the committed JSON contract and own its screenshot/baseline policy.
  */
 export function createReviewCapturePlan(contract: TfsWorkbenchContract): TfsReviewCapturePlan {
-	const defaultViewport = contract.globals.viewports.find((viewport) => viewport.id === 'desktop');
-	if (!defaultViewport) throw new Error('Review contract requires the built-in desktop viewport');
+	const defaultViewport = contract.globals.viewports.find(
+		(viewport) => viewport.id === contract.globals.defaultViewport
+	);
+	if (!defaultViewport) throw new Error('Review contract requires its default viewport');
 	const defaultColor = contract.globals.modes.find((group) => group.category === 'color')?.default;
 	const defaultSize = contract.globals.modes.find((group) => group.category === 'size')?.default;
 	const overview: ReviewCaptureState = {
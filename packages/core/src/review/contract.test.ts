@@ -107,6 +107,12 @@ describe('workbench review contract', () => {
 			'color--light--bg',
 		]);
 		expect(color?.cases[0]?.controls.map((control) => control.id)).toEqual(['l', 'c', 'h']);
+		expect(color?.colorVision.map((simulation) => simulation.deficiency)).toEqual([
+			'protanopia',
+			'deuteranopia',
+			'tritanopia',
+			'achromatopsia',
+		]);
 
 		const typography = contract.labs.find((lab) => lab.kind === 'typography');
 		expect(typography?.cases.map((reviewCase) => reviewCase.id)).toEqual([
@@ -157,6 +163,41 @@ describe('workbench review contract', () => {
 		expect(compact?.tokens['--sp-1']).toBeDefined();
 	});
 
+	it('carries axis-mode colors resolved over each color mode for the canvas', () => {
+		const color = (l: number) => ({ mode: 'oklch' as const, l, c: 0.1, h: 30 });
+		const branded: PartialDesignSystem = {
+			colors: {
+				alphaSchedule: { min: 0.07 },
+				flattenAlpha: { surfaces: ['bg'] },
+				modes: [
+					{ name: 'default', isDefault: true, tokens: { bg: color(0.2), pri: color(0.6) } },
+					{ name: 'light', tokens: { bg: color(0.95) } },
+					{ name: 'acme', tokens: { pri: color(0.5) } },
+				],
+			},
+			modeAxes: { brand: { default: 'house', families: ['colors'], modes: ['acme'] } },
+		};
+		const ir = generate(branded);
+		const contract = createWorkbenchContract(branded, ir, {
+			systemFingerprint: 'branded',
+			toolVersion: '0.2.0',
+			stylesheets: ['./system.css'],
+		});
+		const acme = contract.globals.modes
+			.find((group) => group.axis === 'brand')
+			?.modes.find((mode) => mode.name === 'acme');
+
+		expect(acme?.tokens['--clr-pri-a-min-on-bg']).toBe(
+			ir.overrideTokens.acme!['clr-pri-a-min-on-bg']!.value
+		);
+		expect(acme?.colorModes?.light?.['--clr-pri-a-min-on-bg']).toBe(
+			ir.axisColorOverrides!.acme!.light!['clr-pri-a-min-on-bg']!.value
+		);
+		expect(acme?.colorModes?.light?.['--clr-pri-a-min-on-bg']).not.toBe(
+			acme?.tokens['--clr-pri-a-min-on-bg']
+		);
+	});
+
 	it('omits nonexistent mode categories instead of inventing empty modes', () => {
 		const typographyOnly: PartialDesignSystem = { typography: system.typography };
 		const contract = createWorkbenchContract(typographyOnly, generate(typographyOnly), {
@@ -184,6 +225,54 @@ describe('workbench review contract', () => {
 		]);
 	});
 
+	it('resolves fluid steps at every review viewport and captures them at each', () => {
+		const fluid = structuredClone(system);
+		fluid.spacing!.modes[0]!.fluid = { minViewport: 390, maxViewport: 1440, tokens: { base: 12 } };
+		fluid.typography!.modes[0]!.fluid = {
+			minViewport: 390,
+			maxViewport: 1440,
+			tokens: { base: 1.25 },
+		};
+		const contract = createWorkbenchContract(fluid, generate(fluid), {
+			systemFingerprint: 'fluid',
+			toolVersion: '0.2.0',
+			stylesheets: ['./system.css'],
+		});
+		const cases = contract.labs.flatMap((lab) => ('cases' in lab ? lab.cases : []));
+
+		const spacing = cases.find((entry) => entry.id === 'foundations--spacing');
+		expect(spacing?.kind === 'foundation' && spacing.tokens[1]).toMatchObject({
+			name: 'sp-1',
+			value: 'clamp(8px, 6.5143px + 0.381vw, 12px)',
+			viewportValues: { compact: '8px', desktop: '12px', display: '12px' },
+		});
+		expect(spacing?.kind === 'foundation' && spacing.tokens[0]).not.toHaveProperty(
+			'viewportValues'
+		);
+		expect(spacing?.capture.viewports).toEqual(['compact', 'desktop', 'display']);
+
+		const prose = cases.find((entry) => entry.id === 'typography--prose--base');
+		expect(prose?.kind === 'typography' && prose.recipe.fluidFontSize).toEqual({
+			minViewport: 390,
+			maxViewport: 1440,
+			min: 1.125,
+			max: 1.375,
+		});
+		expect(prose?.kind === 'typography' && prose.viewportFontSizes).toEqual({
+			compact: '1.125rem',
+			desktop: '1.375rem',
+			display: '1.375rem',
+		});
+		expect(prose?.capture.viewports).toEqual(['compact', 'desktop', 'display']);
+
+		const compactProse = cases.find((entry) => entry.id === 'typography--compact--prose--base');
+		expect(compactProse).not.toHaveProperty('viewportFontSizes');
+		expect(compactProse?.kind === 'typography' && compactProse.recipe).not.toHaveProperty(
+			'fluidFontSize'
+		);
+		expect(compactProse?.capture.viewports).toEqual(['desktop']);
+	});
+
 	it('identifies an adjusted fallback without duplicating it in the ordinary stack', () => {
 		const withAdjustedFallback = structuredClone(system);
 		withAdjustedFallback.typography!.fonts!.sans!.fallbacks = [
@@ -303,4 +392,107 @@ describe('workbench review contract', () => {
 			)?.label
 		).toBe('editorial-copy / hero--wide');
 	});
+
+	it('lists semantic aliases on the color case they resolve to in each mode', () => {
+		const aliased: PartialDesignSystem = {
+			colors: {
+				...system.colors!,
+				semantic: {
+					'surface-hover': { color: 'bg', alpha: 'lo', modes: { light: { color: 'bg' } } },
+				},
+			},
+		};
+		const contract = createWorkbenchContract(aliased, generate(aliased), {
+			systemFingerprint: 'semantic',
+			toolVersion: '0.2.0',
+			stylesheets: [],
+		});
+		const color = contract.labs.find((lab) => lab.kind === 'color');
+
+		expect(color?.cases.map((reviewCase) => reviewCase.semanticAliases)).toEqual([
+			[{ name: 'surface-hover', token: 'clr-surface-hover', alpha: 'lo' }],
+			[{ name: 'surface-hover', token: 'clr-surface-hover', alpha: null }],
+		]);
+	});
+
+	it('lists mix variants with the surface they mix toward in each mode', () => {
+		const mixed: PartialDesignSystem = {
+			colors: {
+				...system.colors!,
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: {
+							bg: { mode: 'oklch', l: 0.1, c: 0, h: 0 },
+							ink: { mode: 'oklch', l: 0.9, c: 0, h: 0 },
+						},
+					},
+					{ name: 'light', tokens: { ink: { mode: 'oklch', l: 0.2, c: 0, h: 0 } } },
+				],
+				mixSchedule: { surface: 'bg', levels: { lo: 0.25 } },
+			},
+		};
+		const contract = createWorkbenchContract(mixed, generate(mixed), {
+			systemFingerprint: 'mix',
+			toolVersion: '0.2.0',
+			stylesheets: [],
+		});
+		const cases = contract.labs.find((lab) => lab.kind === 'color')?.cases ?? [];
+		const ink = cases.find((reviewCase) => reviewCase.id === 'color--light--ink');
+
+		expect(ink?.kind === 'color' && ink.mixVariants).toEqual([
+			{
+				label: 'lo',
+				weight: 0.25,
+				surface: 'bg',
+				surfaceCss: 'oklch(0.1000 0.0000 0.00)',
+				token: 'clr-ink-mix-lo',
+				css: 'oklch(0.1250 0.0000 0.00)',
+			},
+		]);
+	});
+
+	it('reports out-of-gamut colors against the gamut-mapped build targets', () => {
+		const vivid: PartialDesignSystem = {
+			colors: {
+				alphaSchedule: { lo: 0.25 },
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: {
+							bg: { mode: 'oklch', l: 0.1, c: 0, h: 0 },
+							lime: { mode: 'oklch', l: 0.85, c: 0.25, h: 135 },
+						},
+					},
+				],
+			},
+		};
+		const options = { systemFingerprint: 'gamut', toolVersion: '0.2.0', stylesheets: [] };
+
+		const nativeOnly = createWorkbenchContract(vivid, generate(vivid), options);
+		expect(nativeOnly.diagnostics).toEqual([
+			{
+				id: 'color-gamut--default--lime',
+				severity: 'info',
+				message:
+					'Color "lime" in mode "default" is outside sRGB; only native oklch() output is generated, so browsers map it per display.',
+				path: '/colors/modes/0/tokens/lime',
+			},
+		]);
+
+		const mapped = createWorkbenchContract(vivid, generate(vivid), {
+			...options,
+			gamutOutputs: [
+				{ output: 'dtcg', gamut: 'display-p3' },
+				{ output: 'figma-variables', gamut: 'srgb' },
+			],
+		});
+		expect(mapped.diagnostics).toHaveLength(1);
+		expect(mapped.diagnostics[0]).toMatchObject({ severity: 'warning' });
+		expect(mapped.diagnostics[0]!.message).toMatch(
+			/^Color "lime" in mode "default" is outside sRGB; gamut mapping shifts Figma Variables \(sRGB, ΔE 0\.\d{4}\) away from the authored color\.$/
+		);
+	});
 });
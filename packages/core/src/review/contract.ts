@@ -1,4 +1,15 @@
-import type { IR, ShadowContractRecipe, TypographyContractRecipe } from '../generator/types.js';
+import { colorVisionDeficiencies, colorVisionMatrix } from '../constraints/cvd.js';
+import { analyzeGamut, type GamutColorDiagnostic, type GamutOutputTarget } from '../gamut.js';
+import type {
+	FluidTokenValue,
+	IR,
+	ShadowContractRecipe,
+	TokenValue,
+	TypographyContractRecipe,
+} from '../generator/types.js';
+import { formatNumber, resolveColorModes, resolveFluidValue } from '../generator/utils.js';
+import { createContrastMatrix } from './contrast-matrix.js';
+import { gradientBandingReferenceWidth, gradientReviewModes } from './gradient-banding.js';
 import type {
 	FontSizeReference,
 	PartialDesignSystem,
@@ -12,28 +23,114 @@ import type {
 	FoundationReviewCase,
 	ReviewControl,
 	ReviewDiagnostic,
+	ReviewMode,
 	ReviewModeGroup,
 	ShadowReviewCase,
+	FocusRingReviewCase,
+	GradientReviewCase,
 	TfsWorkbenchContract,
 	TypographyReviewCase,
 	TypographySizeOption,
 	WorkbenchContractOptions,
 } from './types.js';
 
+type ReviewViewport = TfsWorkbenchContract['globals']['viewports'][number];
+
+const builtInViewports = [
+	{ id: 'compact', label: 'compact', width: 390, height: 844 },
+	{ id: 'desktop', label: 'desktop', width: 1440, height: 900 },
+	{ id: 'display', label: 'display', width: 1600, height: 900 },
+] as const;
+const desktopWidth = 1440;
+
+/** A breakpoint viewport borrows the height of the built-in viewport nearest its width. */
+function builtInHeight(width: number): number {
+	return builtInViewports.reduce((nearest, viewport) =>
+		Math.abs(viewport.width - width) < Math.abs(nearest.width - width) ? viewport : nearest
+	).height;
+}
+
+/**
+ * One viewport per viewport breakpoint at its width, or the built-in sizes
+ * without breakpoints. Styles below the narrowest breakpoint still ship, so
+ * the built-in compact viewport stays when every breakpoint is wider.
+ */
+function reviewViewports(ir: IR): ReviewViewport[] {
+	if (!ir.breakpoints) return builtInViewports.map((viewport) => ({ ...viewport }));
+	const breakpoints = Object.entries(ir.breakpoints.viewport);
+	const compact = builtInViewports[0];
+	const keepsCompact = breakpoints.every(
+		([name, breakpoint]) => name !== compact.id && breakpoint.width > compact.width
+	);
+	return [
+		...(keepsCompact ? [{ ...compact }] : []),
+		...breakpoints.map(([name, breakpoint]) => ({
+			id: name,
+			label: name,
+			width: breakpoint.width,
+			height: builtInHeight(breakpoint.width),
+		})),
+	];
+}
+
+/** The widest review viewport up to desktop width, or the narrowest when all are wider. */
+function defaultViewport(ir: IR): string {
+	const viewports = reviewViewports(ir);
+	return (viewports.filter((viewport) => viewport.width <= desktopWidth).at(-1) ?? viewports[0]!)
+		.id;
+}
+
+/** What a fluid step resolves to at each review viewport. */
+function viewportValues(ir: IR, fluid: FluidTokenValue, unit: string): Record<string, string> {
+	return Object.fromEntries(
+		reviewViewports(ir).map((viewport) => [
+			viewport.id,
+			`${formatNumber(resolveFluidValue(fluid, viewport.width))}${unit}`,
+		])
+	);
+}
+
 function capturePolicy(
+	ir: IR,
 	overrides: Partial<
-		Pick<ReviewCapturePolicy, 'colorModes' | 'sizeModes' | 'viewports' | 'motionPreferences'>
+		Pick<
+			ReviewCapturePolicy,
+			'colorModes' | 'sizeModes' | 'viewports' | 'motionPreferences' | 'contrastPreferences'
+		>
 	> = {}
 ): ReviewCapturePolicy {
 	return {
 		enabled: true,
-		viewports: [...(overrides.viewports ?? ['desktop'])],
+		viewports: [...(overrides.viewports ?? [defaultViewport(ir)])],
 		colorModes: [...(overrides.colorModes ?? ['$default'])],
 		sizeModes: [...(overrides.sizeModes ?? ['$default'])],
 		motionPreferences: [...(overrides.motionPreferences ?? [])],
+		contrastPreferences: [...(overrides.contrastPreferences ?? [])],
 	};
 }
 
+const contrastPreferenceConditions = {
+	more: '(prefers-contrast: more)',
+	forced: '(forced-colors: active)',
+} as const;
+
+/** A color mode's preference refinements as inline canvas overrides. */
+function colorModePreferences(ir: IR, modeName: string): NonNullable<ReviewMode['preferences']> {
+	const refinements =
+		modeName === ir.modes.color.default
+			? ir.mediaOverrides
+			: (ir.modeMediaOverrides?.[modeName] ?? {});
+	const preferences: NonNullable<ReviewMode['preferences']> = {};
+	for (const preference of ['more', 'forced'] as const) {
+		const tokens = refinements[contrastPreferenceConditions[preference]];
+		if (!tokens) continue;
+		preferences[preference] = Object.fromEntries(
+			Object.entries(tokens).map(([name, token]) => [`--${name}`, token.value])
+		);
+	}
+	return preferences;
+}
+
 /**
  * Encode an authored name as one unambiguous case-ID segment.
  *
@@ -41,7 +138,7 @@ function capturePolicy(
  * including `_` and `-`, is escaped between underscores, so authored `--`
  * sequences can never collide with the case ID's structural delimiter.
  */
-function caseIdSegment(value: string): string {
+export function caseIdSegment(value: string): string {
 	return Array.from(value)
 		.map((character) =>
 			/[A-Za-z0-9]/.test(character)
@@ -51,18 +148,30 @@ function caseIdSegment(value: string): string {
 		.join('');
 }
 
+function baseColorToken(
+	tokens: Record<string, TokenValue>,
+	colorName: string
+): TokenValue | undefined {
+	return Object.values(tokens).find(
+		(token) =>
+			token.family === 'color' &&
+			token.metadata?.baseColor === colorName &&
+			!token.metadata.isAlphaVariant &&
+			!token.metadata.surfaceColor
+	);
+}
+
 function colorCases(system: PartialDesignSystem, ir: IR): ColorReviewCase[] {
 	if (!system.colors) return [];
+	const resolvedModes = resolveColorModes(system.colors);
 	return system.colors.modes.flatMap((mode, modeIndex) => {
 		const tokens = mode.isDefault ? ir.tokens : (ir.overrideTokens[mode.name] ?? {});
-		const alphaSchedule = mode.alphaSchedule ?? system.colors!.alphaSchedule;
+		const alphaSchedule = resolvedModes[modeIndex]!.alphaSchedule ?? {};
+		const preferences = Object.keys(colorModePreferences(ir, mode.name)) as Array<
+			'more' | 'forced'
+		>;
 		return Object.entries(mode.tokens).flatMap(([colorName, value]) => {
-			const base = Object.values(tokens).find(
-				(token) =>
-					token.family === 'color' &&
-					token.metadata?.baseColor === colorName &&
-					!token.metadata.isAlphaVariant
-			);
+			const base = baseColorToken(tokens, colorName);
 			if (!base) return [];
 			const sourcePath = `/colors/modes/${modeIndex}/tokens/${pointerSegment(colorName)}`;
 			const alphaVariants = Object.values(tokens)
@@ -78,6 +187,27 @@ function colorCases(system: PartialDesignSystem, ir: IR): ColorReviewCase[] {
 					token: token.name,
 					css: token.value,
 				}));
+			const mixVariants = Object.values(tokens)
+				.filter(
+					(token) =>
+						token.family === 'color' &&
+						token.metadata?.baseColor === colorName &&
+						token.metadata.mixLevel
+				)
+				.map((token) => {
+					const surface = token.metadata!.surfaceColor!;
+					// Override modes inherit surfaces they do not author from the root.
+					const surfaceToken =
+						baseColorToken(tokens, surface) ?? baseColorToken(ir.tokens, surface);
+					return {
+						label: token.metadata!.mixLevel!,
+						weight: token.rawValue ?? 0,
+						surface,
+						surfaceCss: surfaceToken?.value ?? '',
+						token: token.name,
+						css: token.value,
+					};
+				});
 			return [
 				{
 					kind: 'color',
@@ -90,6 +220,13 @@ function colorCases(system: PartialDesignSystem, ir: IR): ColorReviewCase[] {
 					css: base.value,
 					value: { l: value.l, c: value.c, h: value.h ?? 0 },
 					alphaVariants,
+					mixVariants,
+					semanticAliases: Object.entries(ir.semanticColors ?? {}).flatMap(([name, alias]) => {
+						const target = alias.modes[mode.name];
+						return target?.name === colorName
+							? [{ name, token: alias.token, alpha: target.alpha ?? null }]
+							: [];
+					}),
 					controls: [
 						{
 							kind: 'number',
@@ -123,14 +260,17 @@ function colorCases(system: PartialDesignSystem, ir: IR): ColorReviewCase[] {
 							unit: 'deg',
 						},
 					],
-					capture: capturePolicy({ colorModes: [mode.name] }),
+					capture: capturePolicy(ir, {
+						colorModes: [mode.name],
+						contrastPreferences: preferences.length > 0 ? ['no-preference', ...preferences] : [],
+					}),
 				},
 			];
 		});
 	});
 }
 
-function pointerSegment(value: string): string {
+export function pointerSegment(value: string): string {
 	return value.replaceAll('~', '~0').replaceAll('/', '~1');
 }
 
@@ -147,6 +287,9 @@ function modeGroups(ir: IR): ReviewModeGroup[] {
 			modes: names.map((name) => ({
 				name,
 				isDefault: name === info.default,
+				...(category === 'color' && info.refinementConditions
+					? { preferences: colorModePreferences(ir, name) }
+					: {}),
 				tokens:
 					name === info.default
 						? {}
@@ -155,16 +298,56 @@ function modeGroups(ir: IR): ReviewModeGroup[] {
 									.filter(([, token]) =>
 										category === 'color'
 											? token.family === 'color'
-											: ['spacing', 'gap', 'typography', 'borderRadius', 'borderWidth'].includes(
-													token.family
-												)
+											: [
+													'spacing',
+													'gap',
+													'typography',
+													'borderRadius',
+													'borderWidth',
+													'sizing',
+												].includes(token.family)
 									)
 									.map(([tokenName, token]) => [`--${tokenName}`, token.value])
 							),
 			})),
 		};
 	};
-	return [group('color'), group('size')].filter(
+	const axisGroups = Object.entries(ir.modes.axes ?? {}).map(
+		([axisName, info]): ReviewModeGroup => ({
+			category: 'axis',
+			axis: axisName,
+			default: info.default,
+			modes: [info.default, ...info.overrides].map((name) => ({
+				name,
+				isDefault: name === info.default,
+				...(ir.axisColorOverrides?.[name]
+					? {
+							colorModes: Object.fromEntries(
+								Object.entries(ir.axisColorOverrides[name]).map(([colorMode, tokens]) => [
+									colorMode,
+									Object.fromEntries(
+										Object.entries(tokens).map(([tokenName, token]) => [
+											`--${tokenName}`,
+											token.value,
+										])
+									),
+								])
+							),
+						}
+					: {}),
+				tokens:
+					name === info.default
+						? {}
+						: Object.fromEntries(
+								Object.entries(ir.overrideTokens[name] ?? {}).map(([tokenName, token]) => [
+									`--${tokenName}`,
+									token.value,
+								])
+							),
+			})),
+		})
+	);
+	return [group('color'), group('size'), ...axisGroups].filter(
 		(value): value is ReviewModeGroup => value !== undefined
 	);
 }
@@ -279,13 +462,18 @@ function modeRecipe(
 	const textTransformTokenName = `${recipePrefix}-text-transform`;
 	const textTransformValue = tokens[textTransformTokenName]?.value;
 
+	const atomicFontSizeToken = `${atomicPrefix}-${resolvedFontSize}`;
+	const { fluidFontSize: _defaultFluidFontSize, ...staticRole } = role;
+	const fluidFontSize = tokens[atomicFontSizeToken]?.metadata?.fluid;
+
 	return {
-		...role,
+		...staticRole,
 		fontSizeReference: resolvedFontSize,
-		atomicFontSizeToken: `${atomicPrefix}-${resolvedFontSize}`,
+		atomicFontSizeToken,
 		weight: resolvedWeight,
 		lineHeight: tokens[role.lineHeightToken]?.rawValue ?? role.lineHeight,
 		letterSpacingEm: tokens[role.letterSpacingToken]?.rawValue ?? role.letterSpacingEm,
+		...(fluidFontSize ? { fluidFontSize } : {}),
 		...(textTransformValue
 			? {
 					textTransformToken: textTransformTokenName,
@@ -383,8 +571,18 @@ function typographyCases(
 						])
 					),
 					recipe,
+					...(recipe.fluidFontSize
+						? {
+								viewportFontSizes: viewportValues(ir, recipe.fluidFontSize, mode.tokens.unit),
+							}
+						: {}),
 					controls: recipeControls(sourcePath, sourceRole, recipe, sizes),
-					capture: capturePolicy({ sizeModes: [mode.name] }),
+					capture: capturePolicy(ir, {
+						sizeModes: [mode.name],
+						...(recipe.fluidFontSize
+							? { viewports: reviewViewports(ir).map((viewport) => viewport.id) }
+							: {}),
+					}),
 				};
 			});
 		});
@@ -456,6 +654,7 @@ function shadowLayerControls(
 }
 
 function shadowRecipeCases(
+	ir: IR,
 	kind: 'box' | 'text',
 	name: string,
 	recipe: ShadowContractRecipe,
@@ -469,6 +668,7 @@ function shadowRecipeCases(
 	].filter((entry): entry is readonly [string | null, NonNullable<(typeof entry)[1]>] =>
 		Boolean(entry[1])
 	);
+	const layer = recipe.stackingLayer ? ir.layers?.values[recipe.stackingLayer] : undefined;
 	return values.map(([variantName, value]) => ({
 		kind: 'shadow',
 		id: `shadows--${kind}--${caseIdSegment(name)}--${caseIdSegment(variantName ?? 'base')}`,
@@ -483,8 +683,9 @@ function shadowRecipeCases(
 		css: value.css,
 		unit,
 		layers: value.layers,
+		...(layer ? { stackingLayer: { name: recipe.stackingLayer!, ...layer } } : {}),
 		controls: shadowLayerControls(kind, name, variantName, value.layers, unit),
-		capture: capturePolicy({ colorModes: ['*'] }),
+		capture: capturePolicy(ir, { colorModes: ['*'] }),
 	}));
 }
 
@@ -492,14 +693,114 @@ function shadowCases(ir: IR): ShadowReviewCase[] {
 	if (!ir.shadows) return [];
 	return [
 		...Object.entries(ir.shadows.box).flatMap(([name, recipe]) =>
-			shadowRecipeCases('box', name, recipe, ir.shadows!.unit)
+			shadowRecipeCases(ir, 'box', name, recipe, ir.shadows!.unit)
 		),
 		...Object.entries(ir.shadows.text).flatMap(([name, recipe]) =>
-			shadowRecipeCases('text', name, recipe, ir.shadows!.unit)
+			shadowRecipeCases(ir, 'text', name, recipe, ir.shadows!.unit)
 		),
 	];
 }
 
+function focusRingCases(ir: IR): FocusRingReviewCase[] {
+	return Object.entries(ir.focusRings ?? {}).map(([name, ring]) => {
+		const sourcePath = `/border/focusRings/${pointerSegment(name)}`;
+		return {
+			kind: 'focusRing',
+			id: `focus-rings--${caseIdSegment(name)}`,
+			label: name,
+			sourcePath,
+			ring: name,
+			token: ring.token,
+			offsetToken: ring.offsetToken,
+			css: ring.css,
+			width: ring.width,
+			style: ring.style,
+			color: ring.color,
+			offset: ring.offset,
+			unit: ring.unit,
+			controls: [
+				{
+					kind: 'select',
+					id: 'style',
+					label: 'style',
+					path: `${sourcePath}/style`,
+					value: ring.style,
+					options: ['solid', 'dashed', 'dotted', 'double'].map((style) => ({
+						label: style,
+						value: style,
+					})),
+				},
+				{
+					kind: 'number',
+					id: 'offset',
+					label: 'offset',
+					path: `${sourcePath}/offset`,
+					value: ring.offset,
+					min: -16,
+					max: 16,
+					step: 0.5,
+					unit: ring.unit,
+				},
+			],
+			capture: capturePolicy(ir, { colorModes: ['*'], sizeModes: ['*'] }),
+		};
+	});
+}
+
+function gradientCases(system: PartialDesignSystem, ir: IR): GradientReviewCase[] {
+	return Object.entries(ir.gradients ?? {}).map(([name, gradient]) => {
+		const sourcePath = `/gradients/${pointerSegment(name)}`;
+		const { kind, interpolation, hue, angle, shape, at } = gradient;
+		return {
+			kind: 'gradient',
+			id: `gradients--${caseIdSegment(name)}`,
+			label: name,
+			sourcePath,
+			gradient: name,
+			token: gradient.token,
+			css: gradient.css,
+			gradientKind: kind,
+			interpolation,
+			...(hue !== undefined ? { hue } : {}),
+			...(angle !== undefined ? { angle } : {}),
+			...(shape !== undefined ? { shape } : {}),
+			...(at !== undefined ? { at } : {}),
+			stops: gradient.stops,
+			referenceWidth: gradientBandingReferenceWidth,
+			modes: gradientReviewModes(system, gradient),
+			controls: [
+				{
+					kind: 'select',
+					id: 'interpolation',
+					label: 'interpolation',
+					path: `${sourcePath}/interpolation`,
+					value: interpolation,
+					// Hue paths only apply in oklch.
+					options: (hue ? ['oklch'] : ['oklch', 'oklab', 'srgb', 'srgb-linear', 'display-p3']).map(
+						(space) => ({ label: space, value: space })
+					),
+				},
+				...(angle !== undefined
+					? [
+							{
+								kind: 'number' as const,
+								id: 'angle',
+								label: 'angle',
+								path: `${sourcePath}/angle`,
+								value: angle,
+								min: 0,
+								max: 360,
+								step: 1,
+								unit: 'deg',
+							},
+						]
+					: []),
+			],
+			capture: capturePolicy(ir, { colorModes: ['*'] }),
+		};
+	});
+}
+
 function motionCases(ir: IR): MotionReviewCase[] {
 	if (!ir.motion) return [];
 	return Object.entries(ir.motion.recipes).flatMap(([recipeName, recipe]) => {
@@ -548,7 +849,7 @@ function motionCases(ir: IR): MotionReviewCase[] {
 					easing: reduced.easing,
 				},
 				controls: [],
-				capture: capturePolicy({ motionPreferences: ['no-preference', 'reduce'] }),
+				capture: capturePolicy(ir, { motionPreferences: ['no-preference', 'reduce'] }),
 			};
 		});
 	});
@@ -560,6 +861,7 @@ function foundationCases(ir: IR): FoundationReviewCase[] {
 		['gap', '/gap'],
 		['borderRadius', '/border/radius'],
 		['borderWidth', '/border/width'],
+		['sizing', '/sizing'],
 		['time', '/time'],
 	] as const;
 	return families.flatMap(([family, sourcePath]) => {
@@ -570,8 +872,12 @@ function foundationCases(ir: IR): FoundationReviewCase[] {
 				value: token.value,
 				rawValue: token.rawValue,
 				unit: token.unit,
+				...(token.metadata?.fluid
+					? { viewportValues: viewportValues(ir, token.metadata.fluid, token.unit!) }
+					: {}),
 			}));
 		if (tokens.length === 0) return [];
+		const fluid = tokens.some((token) => token.viewportValues);
 		return [
 			{
 				kind: 'foundation',
@@ -581,13 +887,85 @@ function foundationCases(ir: IR): FoundationReviewCase[] {
 				family,
 				tokens,
 				controls: [],
-				capture: capturePolicy({ sizeModes: ['*'] }),
+				capture: capturePolicy(ir, {
+					sizeModes: ['*'],
+					...(fluid ? { viewports: reviewViewports(ir).map((viewport) => viewport.id) } : {}),
+				}),
+			},
+		];
+	});
+}
+
+const gamutOutputLabels: Record<GamutOutputTarget['output'], string> = {
+	css: 'CSS',
+	dtcg: 'DTCG',
+	'figma-variables': 'Figma Variables',
+};
+
+function gamutDiagnostic(entry: GamutColorDiagnostic): ReviewDiagnostic[] {
+	if (entry.srgb.inGamut) return [];
+	const gamut = entry.displayP3.inGamut ? 'sRGB' : 'sRGB and Display-P3';
+	const subject = `Color "${entry.color}" in mode "${entry.mode}" is outside ${gamut}`;
+	const id = `color-gamut--${caseIdSegment(entry.mode)}--${caseIdSegment(entry.color)}`;
+	if (entry.affectedOutputs.length === 0) {
+		return [
+			{
+				id,
+				severity: 'info',
+				message: `${subject}; only native oklch() output is generated, so browsers map it per display.`,
+				path: entry.path,
+			},
+		];
+	}
+	const shifted = entry.affectedOutputs.map((target) => {
+		const mapping = target.gamut === 'srgb' ? entry.srgb : entry.displayP3;
+		return `${gamutOutputLabels[target.output]} (${
+			target.gamut === 'srgb' ? 'sRGB' : 'Display-P3'
+		}, ΔE ${mapping.deltaE.toFixed(4)})`;
+	});
+	return [
+		{
+			id,
+			severity: 'warning',
+			message: `${subject}; gamut mapping shifts ${shifted.join(', ')} away from the authored color.`,
+			path: entry.path,
+		},
+	];
+}
+
+function reviewDiagnostics(
+	system: PartialDesignSystem,
+	ir: IR,
+	gamutOutputs: readonly GamutOutputTarget[],
+	gradients: readonly GradientReviewCase[]
+): ReviewDiagnostic[] {
+	return [
+		...analyzeGamut(system, { outputs: gamutOutputs }).flatMap(gamutDiagnostic),
+		...fontDiagnostics(ir),
+		...gradients.flatMap(gradientBandingDiagnostics),
+	];
+}
+
+/** Report the widest visible band of each gradient per color mode. */
+function gradientBandingDiagnostics(reviewCase: GradientReviewCase): ReviewDiagnostic[] {
+	return reviewCase.modes.flatMap((mode) => {
+		const widest = mode.segments.reduce(
+			(current, segment) => (segment.bandWidth > current.bandWidth ? segment : current),
+			mode.segments[0]!
+		);
+		if (!widest.banded) return [];
+		return [
+			{
+				id: `gradient-banding--${caseIdSegment(reviewCase.gradient)}--${caseIdSegment(mode.mode)}`,
+				severity: 'warning' as const,
+				message: `Gradient "${reviewCase.gradient}" in mode "${mode.mode}" steps through ${widest.levels} 8-bit levels between stops ${widest.from + 1} and ${widest.from + 2}; bands about ${formatNumber(widest.bandWidth)}px wide may show across ${reviewCase.referenceWidth}px.`,
+				path: `${reviewCase.sourcePath}/stops/${widest.from}`,
 			},
 		];
 	});
 }
 
-function reviewDiagnostics(ir: IR): ReviewDiagnostic[] {
+function fontDiagnostics(ir: IR): ReviewDiagnostic[] {
 	if (!ir.typography) return [];
 	return Object.entries(ir.typography.fonts).flatMap(([fontId, font]) => {
 		const path = `/typography/fonts/${pointerSegment(fontId)}`;
@@ -621,7 +999,10 @@ export function createWorkbenchContract(
 ): TfsWorkbenchContract {
 	const typography = typographyCases(system, ir, options.adjustedFallbackFamilies ?? {});
 	const colors = colorCases(system, ir);
+	const contrast = system.colors?.luminance ? createContrastMatrix(system, ir, options) : undefined;
 	const shadows = shadowCases(ir);
+	const focusRings = focusRingCases(ir);
+	const gradients = gradientCases(system, ir);
 	const motion = motionCases(ir);
 	const foundations = foundationCases(ir);
 	const modes = modeGroups(ir);
@@ -634,11 +1015,8 @@ export function createWorkbenchContract(
 		assets: { stylesheets: options.stylesheets },
 		globals: {
 			modes,
-			viewports: [
-				{ id: 'compact', label: 'compact', width: 390, height: 844 },
-				{ id: 'desktop', label: 'desktop', width: 1440, height: 900 },
-				{ id: 'display', label: 'display', width: 1600, height: 900 },
-			],
+			viewports: reviewViewports(ir),
+			defaultViewport: defaultViewport(ir),
 		},
 		labs: [
 			{
@@ -652,12 +1030,28 @@ export function createWorkbenchContract(
 					sizeModes: modes.find((mode) => mode.category === 'size')?.modes.length ?? 0,
 					typographyCases: typography.length,
 					shadowCases: shadows.length,
+					focusRingCases: focusRings.length,
+					gradientCases: gradients.length,
 					motionCases: motion.length,
 					foundationCases: foundations.length,
 				},
 			},
 			...(colors.length > 0
-				? [{ kind: 'color' as const, id: 'color' as const, label: 'color', cases: colors }]
+				? [
+						{
+							kind: 'color' as const,
+							id: 'color' as const,
+							label: 'color',
+							cases: colors,
+							...(contrast
+								? { contrast: { requirements: contrast.requirements, modes: contrast.modes } }
+								: {}),
+							colorVision: colorVisionDeficiencies.map((deficiency) => ({
+								deficiency,
+								matrix: colorVisionMatrix(deficiency),
+							})),
+						},
+					]
 				: []),
 			...(typography.length > 0
 				? [
@@ -672,6 +1066,26 @@ export function createWorkbenchContract(
 			...(shadows.length > 0
 				? [{ kind: 'shadows' as const, id: 'shadows' as const, label: 'shadows', cases: shadows }]
 				: []),
+			...(focusRings.length > 0
+				? [
+						{
+							kind: 'focusRings' as const,
+							id: 'focus-rings' as const,
+							label: 'focus rings',
+							cases: focusRings,
+						},
+					]
+				: []),
+			...(gradients.length > 0
+				? [
+						{
+							kind: 'gradients' as const,
+							id: 'gradients' as const,
+							label: 'gradients',
+							cases: gradients,
+						},
+					]
+				: []),
 			...(motion.length > 0
 				? [{ kind: 'motion' as const, id: 'motion' as const, label: 'motion', cases: motion }]
 				: []),
@@ -686,7 +1100,7 @@ export function createWorkbenchContract(
 					]
 				: []),
 		],
-		diagnostics: reviewDiagnostics(ir),
+		diagnostics: reviewDiagnostics(system, ir, options.gamutOutputs ?? [], gradients),
 		agent: {
 			verification: {
 				generate: options.verification?.generate ?? 'tfs build .',
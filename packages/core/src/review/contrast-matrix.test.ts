@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { generate } from '../generator/index.js';
+import type { PartialDesignSystem } from '../types.js';
+import { oklch } from '../utils.js';
+import { createContrastMatrix } from './contrast-matrix.js';
+import { createWorkbenchContract } from './contract.js';
+
+const system = {
+	colors: {
+		alphaSchedule: { lo: 0.25, hi: 0.75 },
+		luminance: {
+			minimumLuminanceDelta: 0.4,
+			backgroundColors: ['bg', 'ev'],
+			foregroundColors: ['ink'],
+		},
+		modes: [
+			{
+				name: 'dark',
+				isDefault: true,
+				tokens: {
+					bg: oklch(0.15, 0, 0),
+					ev: oklch(0.22, 0.01, 260),
+					ink: oklch(0.95, 0.01, 260),
+				},
+			},
+			{
+				name: 'light',
+				tokens: { bg: oklch(0.98, 0, 0), ev: oklch(0.92, 0.01, 260), ink: oklch(0.2, 0, 0) },
+			},
+			{ name: 'dim', tokens: { bg: oklch(0.3, 0, 0) } },
+		],
+	},
+} satisfies PartialDesignSystem;
+
+describe('createContrastMatrix', () => {
+	const matrix = createContrastMatrix(system, generate(system), { systemFingerprint: 'abc' });
+
+	it('enumerates every foreground token against every background in each mode', () => {
+		expect(matrix).toMatchObject({
+			kind: 'three-forma-styli/contrast-matrix',
+			schemaVersion: 1,
+			systemFingerprint: 'abc',
+			requirements: { minimumContrastRatio: 4.5 },
+		});
+		expect(matrix.modes.map((mode) => mode.mode)).toEqual(['dark', 'light', 'dim']);
+
+		const dark = matrix.modes[0]!;
+		expect(dark.backgrounds).toEqual([
+			{ color: 'bg', token: 'clr-bg' },
+			{ color: 'ev', token: 'clr-ev' },
+		]);
+		expect(dark.foregrounds).toEqual([
+			{ color: 'ink', token: 'clr-ink', level: null, alpha: 1 },
+			{ color: 'ink', token: 'clr-ink-a-lo', level: 'lo', alpha: 0.25 },
+			{ color: 'ink', token: 'clr-ink-a-hi', level: 'hi', alpha: 0.75 },
+		]);
+		expect(dark.cells).toHaveLength(6);
+	});
+
+	it('composites alpha variants over each background before measuring', () => {
+		const light = matrix.modes[1]!;
+		const cell = (foreground: string, background: string) =>
+			light.cells.find(
+				(entry) => entry.foreground === foreground && entry.background === background
+			)!;
+
+		expect(cell('clr-ink', 'clr-bg').passes).toBe(true);
+		expect(cell('clr-ink-a-lo', 'clr-ev')).toMatchObject({ passes: false });
+		expect(cell('clr-ink-a-lo', 'clr-ev').ratio).toBeLessThan(2);
+		expect(cell('clr-ink-a-lo', 'clr-ev').lc).toBeGreaterThan(0);
+		expect(cell('clr-ink-a-hi', 'clr-bg').ratio).toBeLessThan(cell('clr-ink', 'clr-bg').ratio);
+	});
+
+	it('resolves inherited colors from the default mode', () => {
+		const dim = matrix.modes[2]!;
+		expect(dim.foregrounds.map((entry) => entry.token)).toEqual([
+			'clr-ink',
+			'clr-ink-a-lo',
+			'clr-ink-a-hi',
+		]);
+		expect(dim.cells.find((entry) => entry.foreground === 'clr-ink')!.ratio).toBeLessThan(
+			matrix.modes[0]!.cells.find((entry) => entry.foreground === 'clr-ink')!.ratio
+		);
+	});
+
+	it('judges cells against authored WCAG and APCA requirements', () => {
+		const strict = {
+			colors: {
+				...system.colors,
+				luminance: {
+					...system.colors.luminance,
+					contrast: { level: 'AAA' },
+					apca: { minimumLc: 90 },
+				},
+			},
+		} satisfies PartialDesignSystem;
+		// Build-time validation would reject this policy, so measure against the lenient IR.
+		const result = createContrastMatrix(strict, generate(system), { systemFingerprint: 'abc' });
+
+		expect(result.requirements).toEqual({ minimumContrastRatio: 7, minimumLc: 90 });
+		expect(result.modes[0]!.cells.every((cell) => !cell.passes || Math.abs(cell.lc) >= 90)).toBe(
+			true
+		);
+	});
+
+	it('is carried by the workbench color lab only when a luminance policy exists', () => {
+		const options = { systemFingerprint: 'abc', toolVersion: '0.0.0', stylesheets: [] };
+		const withPolicy = createWorkbenchContract(system, generate(system), options).labs.find(
+			(lab) => lab.kind === 'color'
+		);
+		expect(withPolicy?.contrast?.modes).toEqual(matrix.modes);
+
+		const { luminance: _luminance, ...colors } = system.colors;
+		const withoutPolicy = createWorkbenchContract(
+			{ colors },
+			generate({ colors }),
+			options
+		).labs.find((lab) => lab.kind === 'color');
+		expect(withoutPolicy?.contrast).toBeUndefined();
+	});
+});
@@ -0,0 +1,118 @@
+import { apcaContrast } from '../constraints/apca.js';
+import { contrastRatio, wcagMinimumContrastRatio } from '../constraints/contrast.js';
+import { compositeOver } from '../constraints/srgb.js';
+import type { IR, TokenValue } from '../generator/types.js';
+import { resolveColorModes } from '../generator/utils.js';
+import type { PartialDesignSystem } from '../types.js';
+import type {
+	ContrastMatrixCell,
+	ContrastMatrixForeground,
+	ContrastMatrixMode,
+	TfsContrastMatrix,
+} from './types.js';
+
+function colorTokens(tokens: Record<string, TokenValue>, colorName: string): TokenValue[] {
+	return Object.values(tokens).filter(
+		(token) =>
+			token.family === 'color' &&
+			token.metadata?.baseColor === colorName &&
+			// Flattened tokens are already composited over one surface.
+			!token.metadata.surfaceColor
+	);
+}
+
+/**
+ * Measure every foreground token, including alpha variants composited over
+ * each background, against every background in `colors.luminance`.
+ *
+ * Override modes re-declare colors authored along their `extends` chain and
+ * inherit the rest through the CSS cascade, so those keep the default mode's
+ * value and alpha tokens.
+ */
+function contrastMatrixModes(
+	system: PartialDesignSystem,
+	ir: IR,
+	requirements: TfsContrastMatrix['requirements']
+): ContrastMatrixMode[] {
+	const colors = system.colors;
+	const policy = colors?.luminance;
+	if (!colors || !policy) return [];
+	const defaultMode = colors.modes.find((mode) => mode.isDefault) ?? colors.modes[0]!;
+	const resolvedModes = resolveColorModes(colors);
+
+	return colors.modes.map((mode, modeIndex) => {
+		const resolved = resolvedModes[modeIndex]!;
+		const authored = (colorName: string) => mode !== defaultMode && colorName in resolved.tokens;
+		const valueOf = (colorName: string) => resolved.palette[colorName]!;
+		const tokensOf = (colorName: string) =>
+			colorTokens(
+				authored(colorName) ? (ir.overrideTokens[mode.name] ?? {}) : ir.tokens,
+				colorName
+			);
+
+		const backgrounds = policy.backgroundColors.flatMap((color) => {
+			const base = tokensOf(color).find((token) => !token.metadata?.isAlphaVariant);
+			return base ? [{ color, token: base.name }] : [];
+		});
+		const foregrounds: ContrastMatrixForeground[] = policy.foregroundColors.flatMap((color) =>
+			tokensOf(color).map((token) => ({
+				color,
+				token: token.name,
+				level: token.metadata?.isAlphaVariant ? (token.metadata.alphaLevel ?? null) : null,
+				alpha: token.metadata?.isAlphaVariant ? (token.rawValue ?? 1) : 1,
+			}))
+		);
+
+		const cells: ContrastMatrixCell[] = foregrounds.flatMap((foreground) =>
+			backgrounds.map((background) => {
+				const surface = valueOf(background.color);
+				const painted = compositeOver(valueOf(foreground.color), foreground.alpha, surface);
+				const ratio = contrastRatio(painted, surface);
+				const lc = apcaContrast(painted, surface);
+				return {
+					foreground: foreground.token,
+					background: background.token,
+					// Truncated for display so a failing value never reads as passing.
+					ratio: Math.floor(ratio * 100) / 100,
+					lc: Math.trunc(lc * 10) / 10,
+					passes:
+						ratio >= requirements.minimumContrastRatio &&
+						(requirements.minimumLc === undefined || Math.abs(lc) >= requirements.minimumLc),
+				};
+			})
+		);
+
+		return { mode: mode.name, backgrounds, foregrounds, cells };
+	});
+}
+
+function contrastMatrixRequirements(
+	system: PartialDesignSystem
+): TfsContrastMatrix['requirements'] {
+	const policy = system.colors?.luminance;
+	return {
+		minimumContrastRatio: wcagMinimumContrastRatio(policy?.contrast ?? { level: 'AA' }),
+		...(policy?.apca ? { minimumLc: policy.apca.minimumLc } : {}),
+	};
+}
+
+/**
+ * Build the pairwise contrast report for every color mode.
+ *
+ * Cells without an authored `contrast` policy are judged against WCAG AA for
+ * normal text; an authored `apca` policy adds its body-text Lc minimum.
+ */
+export function createContrastMatrix(
+	system: PartialDesignSystem,
+	ir: IR,
+	options: { systemFingerprint: string }
+): TfsContrastMatrix {
+	const requirements = contrastMatrixRequirements(system);
+	return {
+		kind: 'three-forma-styli/contrast-matrix',
+		schemaVersion: 1,
+		systemFingerprint: options.systemFingerprint,
+		requirements,
+		modes: contrastMatrixModes(system, ir, requirements),
+	};
+}
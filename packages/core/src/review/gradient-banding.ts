@@ -0,0 +1,106 @@
+import {
+	converter,
+	fixupHueDecreasing,
+	fixupHueIncreasing,
+	fixupHueLonger,
+	fixupHueShorter,
+	interpolateWithPremultipliedAlpha,
+} from 'culori';
+import type { Oklch } from 'culori';
+import type { GradientContractRecipe } from '../generator/types.js';
+import { resolveColorModes } from '../generator/utils.js';
+import type { PartialDesignSystem } from '../types.js';
+import { applyAlpha, oklchToCss } from '../utils.js';
+import type { GradientBandingSegment, GradientReviewMode } from './types.js';
+
+/** Surface width, in px, that band widths are estimated across. */
+export const gradientBandingReferenceWidth = 1280;
+
+/** Bands at least this wide, in px, read as visible steps on a smooth surface. */
+const gradientVisibleBandWidth = 16;
+
+/** Samples traced along each segment's interpolation path. */
+const pathSamples = 64;
+
+const toRgb = converter('rgb');
+
+const interpolationModes = {
+	oklch: 'oklch',
+	oklab: 'oklab',
+	srgb: 'rgb',
+	'srgb-linear': 'lrgb',
+	'display-p3': 'p3',
+} as const;
+
+const hueFixups = {
+	shorter: fixupHueShorter,
+	longer: fixupHueLonger,
+	increasing: fixupHueIncreasing,
+	decreasing: fixupHueDecreasing,
+};
+
+/**
+ * Count the 8-bit sRGB levels a segment steps through along its interpolation
+ * path. Each channel's travel is summed so hue detours count in full.
+ */
+function segmentLevels(
+	from: Oklch & { alpha: number },
+	to: Oklch & { alpha: number },
+	gradient: GradientContractRecipe
+): number {
+	const mode = interpolationModes[gradient.interpolation];
+	const interpolate =
+		mode === 'oklch'
+			? interpolateWithPremultipliedAlpha([from, to], mode, {
+					l: {},
+					c: {},
+					h: { fixup: hueFixups[gradient.hue ?? 'shorter'] },
+				})
+			: interpolateWithPremultipliedAlpha([from, to], mode);
+	const channels = (t: number) => {
+		const rgb = toRgb(interpolate(t));
+		return [rgb.r, rgb.g, rgb.b, rgb.alpha ?? 1].map((value) => Math.max(0, Math.min(1, value)));
+	};
+	const travel = [0, 0, 0, 0];
+	let previous = channels(0);
+	for (let sample = 1; sample <= pathSamples; sample++) {
+		const current = channels(sample / pathSamples);
+		current.forEach((value, channel) => (travel[channel]! += Math.abs(value - previous[channel]!)));
+		previous = current;
+	}
+	return Math.round(Math.max(...travel) * 255);
+}
+
+/**
+ * Resolve a gradient's stops in every color mode and estimate how wide its
+ * 8-bit bands would be across the reference width.
+ */
+export function gradientReviewModes(
+	system: PartialDesignSystem,
+	gradient: GradientContractRecipe
+): GradientReviewMode[] {
+	if (!system.colors) return [];
+	return resolveColorModes(system.colors).map((mode) => {
+		const stops = gradient.stops.map((stop) => {
+			const color = mode.palette[stop.color.name]!;
+			const alpha = stop.color.alpha ? (mode.alphaSchedule?.[stop.color.alpha] ?? 1) : 1;
+			return {
+				color: { ...color, alpha },
+				css: alpha === 1 ? oklchToCss(color) : applyAlpha(color, alpha),
+			};
+		});
+		const segments: GradientBandingSegment[] = stops.slice(1).map((stop, index) => {
+			const levels = segmentLevels(stops[index]!.color, stop.color, gradient);
+			const span = gradient.stops[index + 1]!.position - gradient.stops[index]!.position;
+			const width = (span / 100) * gradientBandingReferenceWidth;
+			const bandWidth = levels === 0 ? 0 : Math.round((width / levels) * 10) / 10;
+			return {
+				from: index,
+				levels,
+				bandWidth,
+				banded: bandWidth >= gradientVisibleBandWidth,
+			};
+		});
+		return { mode: mode.name, colors: stops.map((stop) => stop.css), segments };
+	});
+}
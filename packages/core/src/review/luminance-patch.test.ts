@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { generate } from '../generator/index.js';
+import type { PartialDesignSystem } from '../types.js';
+import { oklch } from '../utils.js';
+import { createWorkbenchContract } from './contract.js';
+import { createLuminancePatch } from './luminance-patch.js';
+
+const system = {
+	colors: {
+		alphaSchedule: { lo: 0.25 },
+		luminance: {
+			minimumLuminanceDelta: 0.4,
+			backgroundColors: ['bg'],
+			foregroundColors: ['ink'],
+		},
+		modes: [
+			{
+				name: 'dark',
+				isDefault: true,
+				tokens: { bg: oklch(0.15, 0, 0), ink: oklch(0.5, 0.01, 260) },
+			},
+			{
+				name: 'light',
+				metadata: { polarity: 'positive' },
+				tokens: { bg: oklch(0.98, 0, 0), ink: oklch(0.7, 0, 0) },
+			},
+			{ name: 'dim', tokens: { bg: oklch(0.3, 0, 0) } },
+		],
+	},
+} satisfies PartialDesignSystem;
+
+describe('createLuminancePatch', () => {
+	const patch = createLuminancePatch(system, { systemFingerprint: 'abc' });
+
+	it('proposes L-only operations against the workbench color controls', () => {
+		expect(patch).toMatchObject({
+			kind: 'three-forma-styli/review-patch',
+			schemaVersion: 1,
+			systemFingerprint: 'abc',
+		});
+		expect(patch.operations).toEqual([
+			{ path: '/colors/modes/0/tokens/bg/l', previous: 0.15, value: 0.125 },
+			{ path: '/colors/modes/0/tokens/ink/l', previous: 0.5, value: 0.525 },
+			{ path: '/colors/modes/1/tokens/bg/l', previous: 0.98, value: 1 },
+			{ path: '/colors/modes/1/tokens/ink/l', previous: 0.7, value: 0.6 },
+			// dim inherits the corrected ink from dark, so only its own background moves.
+			{ path: '/colors/modes/2/tokens/bg/l', previous: 0.3, value: 0.125 },
+		]);
+
+		const contract = createWorkbenchContract(system, generate(system), {
+			systemFingerprint: 'abc',
+			toolVersion: '0.0.0',
+			stylesheets: [],
+		});
+		const colorLab = contract.labs.find((lab) => lab.kind === 'color')!;
+		const controls = new Map(
+			colorLab.cases.flatMap((reviewCase) =>
+				reviewCase.controls.map((control) => [control.path, control.value])
+			)
+		);
+		for (const operation of patch.operations) {
+			expect(controls.get(operation.path)).toBe(operation.previous);
+		}
+		expect(patch.selectedCases.every((id) => colorLab.cases.some((entry) => entry.id === id))).toBe(
+			true
+		);
+	});
+
+	it('holds inherited and locked colors, naming modes it cannot satisfy', () => {
+		const locked = createLuminancePatch(system, {
+			systemFingerprint: 'abc',
+			lockedColors: ['ink', 'bg'],
+		});
+		expect(locked.operations).toEqual([]);
+		expect(locked.note).toContain('Unsolvable with locked or inherited colors: dark, light, dim.');
+
+		const inferred = createLuminancePatch(system, {
+			systemFingerprint: 'abc',
+			polarities: { light: 'negative' },
+		});
+		expect(inferred.operations.some((operation) => operation.path.includes('/modes/1/'))).toBe(
+			true
+		);
+	});
+
+	it('requires an authored luminance policy', () => {
+		const { luminance: _luminance, ...colors } = system.colors;
+		expect(() => createLuminancePatch({ colors }, { systemFingerprint: 'abc' })).toThrow(
+			'Luminance solving requires colors.luminance'
+		);
+	});
+});
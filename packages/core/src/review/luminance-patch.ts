@@ -0,0 +1,93 @@
+import { solveLuminance } from '../constraints/solve.js';
+import { resolveColorModes } from '../generator/utils.js';
+import type { ColorTokens, PartialDesignSystem } from '../types.js';
+import { caseIdSegment, pointerSegment } from './contract.js';
+import type { LuminancePatchOptions, TfsReviewPatch, WorkbenchDraftOperation } from './types.js';
+
+type Polarity = 'negative' | 'positive';
+
+function average(values: number[]): number {
+	return values.reduce((total, value) => total + value, 0) / Math.max(1, values.length);
+}
+
+/**
+ * Solve `colors.luminance` for every color mode and express the proposed L
+ * changes as workbench draft operations.
+ *
+ * An override mode only owns the colors it authors; the rest are inherited
+ * from its parent mode and held fixed there, because moving them would also
+ * move every other inheriting mode. Modes the solver cannot satisfy are named
+ * in the patch note and contribute no operations.
+ *
+ * Polarity comes from `options.polarities`, then `metadata.polarity`, and is
+ * otherwise inferred: backgrounds darker than foregrounds on average is
+ * negative.
+ */
+export function createLuminancePatch(
+	system: PartialDesignSystem,
+	options: LuminancePatchOptions
+): TfsReviewPatch {
+	const colors = system.colors;
+	const policy = colors?.luminance;
+	if (!colors || !policy) throw new Error('Luminance solving requires colors.luminance');
+	const resolvedModes = resolveColorModes(colors);
+
+	const operations: WorkbenchDraftOperation[] = [];
+	const selectedCases: string[] = [];
+	const unsolved: string[] = [];
+
+	// Solve parents before the modes extending them so inherited colors measure as patched.
+	const patched = new Map<string, ColorTokens>();
+	const ordered = colors.modes
+		.map((mode, modeIndex) => ({ mode, modeIndex, lineage: resolvedModes[modeIndex]!.lineage }))
+		.sort((left, right) => left.lineage.length - right.lineage.length);
+	for (const { mode, modeIndex, lineage } of ordered) {
+		const parent = lineage[0] === undefined ? {} : patched.get(lineage[0])!;
+		const resolved: ColorTokens = { ...parent, ...mode.tokens };
+		patched.set(mode.name, resolved);
+		const inherited = Object.keys(resolved).filter((name) => !(name in mode.tokens));
+		const authoredPolarity = mode.metadata?.polarity;
+		const polarity: Polarity =
+			options.polarities?.[mode.name] ??
+			(authoredPolarity === 'negative' || authoredPolarity === 'positive'
+				? authoredPolarity
+				: average(policy.backgroundColors.flatMap((name) => resolved[name]?.l ?? [])) <=
+					  average(policy.foregroundColors.flatMap((name) => resolved[name]?.l ?? []))
+					? 'negative'
+					: 'positive');
+
+		const solution = solveLuminance(resolved, {
+			...policy,
+			polarity,
+			lockedColors: [...(options.lockedColors ?? []), ...inherited],
+		});
+		if (!solution.solvable) {
+			unsolved.push(mode.name);
+			continue;
+		}
+		for (const adjustment of solution.adjustments) {
+			resolved[adjustment.color] = { ...resolved[adjustment.color]!, l: adjustment.to };
+			operations.push({
+				path: `/colors/modes/${modeIndex}/tokens/${pointerSegment(adjustment.color)}/l`,
+				previous: adjustment.from,
+				value: adjustment.to,
+			});
+			selectedCases.push(`color--${caseIdSegment(mode.name)}--${caseIdSegment(adjustment.color)}`);
+		}
+	}
+
+	const summary = `Luminance solver: ${operations.length} L adjustment${
+		operations.length === 1 ? '' : 's'
+	} for minimumLuminanceDelta ${policy.minimumLuminanceDelta}.`;
+	return {
+		kind: 'three-forma-styli/review-patch',
+		schemaVersion: 1,
+		systemFingerprint: options.systemFingerprint,
+		operations: operations.sort((left, right) => left.path.localeCompare(right.path)),
+		selectedCases: [...new Set(selectedCases)].sort(),
+		note:
+			unsolved.length === 0
+				? summary
+				: `${summary} Unsolvable with locked or inherited colors: ${unsolved.join(', ')}.`,
+	};
+}
@@ -1,13 +1,24 @@
 import type {
+	FocusRingContractRecipe,
+	GradientContractRecipe,
 	MotionContract,
 	ShadowContractLayer,
 	TypographyContractRecipe,
 } from '../generator/types.js';
+import type { ColorVisionDeficiency, ColorVisionMatrix } from '../constraints/types.js';
+import type { GamutOutputTarget } from '../gamut.js';
 import type { FontSizeReference } from '../types.js';
 
 export type ReviewLabId =
-	'overview' | 'color' | 'typography' | 'shadows' | 'motion' | 'foundations';
-export type ReviewModeCategory = 'color' | 'size';
+	| 'overview'
+	| 'color'
+	| 'typography'
+	| 'shadows'
+	| 'focus-rings'
+	| 'gradients'
+	| 'motion'
+	| 'foundations';
+export type ReviewModeCategory = 'color' | 'size' | 'axis';
 
 export interface ReviewAssetContract {
 	/** URLs are relative to review/index.html. */
@@ -19,10 +30,16 @@ export interface ReviewMode {
 	isDefault: boolean;
 	/** Complete inline overrides for the review canvas; the default mode is empty. */
 	tokens: Record<string, string>;
+	/** Color modes only: overrides layered over `tokens` under a simulated contrast preference. */
+	preferences?: Partial<Record<'more' | 'forced', Record<string, string>>>;
+	/** Axis modes only: overrides layered over `tokens` where a color mode is also selected, keyed by that color mode. */
+	colorModes?: Record<string, Record<string, string>>;
 }
 
 export interface ReviewModeGroup {
 	category: ReviewModeCategory;
+	/** For the `axis` category: the declared mode axis name. */
+	axis?: string;
 	default: string;
 	modes: ReviewMode[];
 }
@@ -66,6 +83,8 @@ export interface ReviewCapturePolicy {
 	sizeModes: string[];
 	/** User motion preferences to exercise for this case. */
 	motionPreferences: Array<'no-preference' | 'reduce'>;
+	/** User contrast preferences to exercise: `more` contrast or `forced` colors. */
+	contrastPreferences: Array<'no-preference' | 'more' | 'forced'>;
 }
 
 export interface ReviewCaptureState {
@@ -81,6 +100,7 @@ export interface ReviewCaptureState {
 	colorMode?: string;
 	sizeMode?: string;
 	motionPreference?: 'no-preference' | 'reduce';
+	contrastPreference?: 'no-preference' | 'more' | 'forced';
 	/** URL relative to the generated review directory. */
 	url: string;
 }
@@ -122,6 +142,8 @@ export interface TypographyReviewCase extends ReviewCaseBase {
 	availableWeights: Array<{ alias: string; value: number }>;
 	styleWeights: Record<string, Array<{ alias: string; value: number }>>;
 	recipe: TypographyContractRecipe;
+	/** For a fluid font size: the resolved size at each `globals.viewports` id. */
+	viewportFontSizes?: Record<string, string>;
 }
 
 export interface TypographyReviewLab {
@@ -140,6 +162,8 @@ export interface ShadowReviewCase extends ReviewCaseBase {
 	css: string;
 	unit: string;
 	layers: ShadowContractLayer[];
+	/** Stacking layer the recipe suggests pairing this elevation with. */
+	stackingLayer?: { name: string; token: string; value: number };
 }
 
 export interface ShadowReviewLab {
@@ -149,6 +173,68 @@ export interface ShadowReviewLab {
 	cases: ShadowReviewCase[];
 }
 
+export interface FocusRingReviewCase extends ReviewCaseBase {
+	kind: 'focusRing';
+	ring: string;
+	token: string;
+	offsetToken: string;
+	css: string;
+	width: FocusRingContractRecipe['width'];
+	style: FocusRingContractRecipe['style'];
+	color: FocusRingContractRecipe['color'];
+	offset: number;
+	unit: string;
+}
+
+export interface FocusRingReviewLab {
+	kind: 'focusRings';
+	id: 'focus-rings';
+	label: string;
+	cases: FocusRingReviewCase[];
+}
+
+export interface GradientBandingSegment {
+	/** Index of the stop the segment starts at. */
+	from: number;
+	/** Distinct 8-bit sRGB levels the segment steps through. */
+	levels: number;
+	/** Approximate band width in px across the reference width; 0 for a flat segment. */
+	bandWidth: number;
+	/** Whether the bands are wide enough to read as visible steps. */
+	banded: boolean;
+}
+
+export interface GradientReviewMode {
+	mode: string;
+	/** Stop colors as this color mode renders them. */
+	colors: string[];
+	segments: GradientBandingSegment[];
+}
+
+export interface GradientReviewCase extends ReviewCaseBase {
+	kind: 'gradient';
+	gradient: string;
+	token: string;
+	css: string;
+	gradientKind: GradientContractRecipe['kind'];
+	interpolation: GradientContractRecipe['interpolation'];
+	hue?: GradientContractRecipe['hue'];
+	angle?: number;
+	shape?: GradientContractRecipe['shape'];
+	at?: GradientContractRecipe['at'];
+	stops: GradientContractRecipe['stops'];
+	/** Surface width, in px, that banding is estimated across. */
+	referenceWidth: number;
+	modes: GradientReviewMode[];
+}
+
+export interface GradientReviewLab {
+	kind: 'gradients';
+	id: 'gradients';
+	label: string;
+	cases: GradientReviewCase[];
+}
+
 export interface OverviewReviewLab {
 	kind: 'overview';
 	id: 'overview';
@@ -160,6 +246,8 @@ export interface OverviewReviewLab {
 		sizeModes: number;
 		typographyCases: number;
 		shadowCases: number;
+		focusRingCases: number;
+		gradientCases: number;
 		motionCases: number;
 		foundationCases: number;
 	};
@@ -173,6 +261,60 @@ export interface ColorReviewCase extends ReviewCaseBase {
 	css: string;
 	value: { l: number; c: number; h: number };
 	alphaVariants: Array<{ label: string; alpha: number; token: string; css: string }>;
+	/** Opaque `colors.mixSchedule` variants, with the surface color they mix toward. */
+	mixVariants: Array<{
+		label: string;
+		weight: number;
+		surface: string;
+		surfaceCss: string;
+		token: string;
+		css: string;
+	}>;
+	/** `colors.semantic` aliases that resolve to this color in this mode. */
+	semanticAliases: Array<{ name: string; token: string; alpha: string | null }>;
+}
+
+export interface ContrastMatrixForeground {
+	color: string;
+	token: string;
+	/** Alpha level, or `null` for the opaque base color. */
+	level: string | null;
+	alpha: number;
+}
+
+export interface ContrastMatrixCell {
+	foreground: string;
+	background: string;
+	/** WCAG 2.x ratio of the composited foreground, truncated to two decimals. */
+	ratio: number;
+	/** Signed APCA Lc of the composited foreground, truncated to one decimal. */
+	lc: number;
+	passes: boolean;
+}
+
+export interface ContrastMatrixMode {
+	mode: string;
+	backgrounds: Array<{ color: string; token: string }>;
+	foregrounds: ContrastMatrixForeground[];
+	/** One cell per foreground token and background, in foreground-major order. */
+	cells: ContrastMatrixCell[];
+}
+
+export interface TfsContrastMatrix {
+	kind: 'three-forma-styli/contrast-matrix';
+	schemaVersion: 1;
+	systemFingerprint: string;
+	requirements: {
+		minimumContrastRatio: number;
+		minimumLc?: number;
+	};
+	modes: ContrastMatrixMode[];
+}
+
+export interface ColorVisionSimulation {
+	deficiency: ColorVisionDeficiency;
+	/** Linear sRGB matrix, the same one `simulateColorVision` applies. */
+	matrix: ColorVisionMatrix;
 }
 
 export interface ColorReviewLab {
@@ -180,6 +322,10 @@ export interface ColorReviewLab {
 	id: 'color';
 	label: string;
 	cases: ColorReviewCase[];
+	/** Pairwise foreground/background contrast, present when colors.luminance is authored. */
+	contrast?: Pick<TfsContrastMatrix, 'requirements' | 'modes'>;
+	/** Color vision deficiencies the workbench can simulate over the canvas. */
+	colorVision: ColorVisionSimulation[];
 }
 
 export interface MotionReviewCase extends ReviewCaseBase {
@@ -217,8 +363,15 @@ export interface MotionReviewLab {
 
 export interface FoundationReviewCase extends ReviewCaseBase {
 	kind: 'foundation';
-	family: 'spacing' | 'gap' | 'borderRadius' | 'borderWidth' | 'time';
-	tokens: Array<{ name: string; value: string; rawValue?: number; unit?: string }>;
+	family: 'spacing' | 'gap' | 'borderRadius' | 'borderWidth' | 'sizing' | 'time';
+	tokens: Array<{
+		name: string;
+		value: string;
+		rawValue?: number;
+		unit?: string;
+		/** For fluid tokens: the resolved length at each `globals.viewports` id. */
+		viewportValues?: Record<string, string>;
+	}>;
 }
 
 export interface FoundationReviewLab {
@@ -232,6 +385,8 @@ export type ReviewCase =
 	| ColorReviewCase
 	| TypographyReviewCase
 	| ShadowReviewCase
+	| FocusRingReviewCase
+	| GradientReviewCase
 	| MotionReviewCase
 	| FoundationReviewCase;
 
@@ -240,6 +395,8 @@ export type ReviewLab =
 	| ColorReviewLab
 	| TypographyReviewLab
 	| ShadowReviewLab
+	| FocusRingReviewLab
+	| GradientReviewLab
 	| MotionReviewLab
 	| FoundationReviewLab;
 
@@ -259,7 +416,10 @@ export interface TfsWorkbenchContract {
 	assets: ReviewAssetContract;
 	globals: {
 		modes: ReviewModeGroup[];
+		/** Built-in review sizes, or one per viewport breakpoint at its width. */
 		viewports: Array<{ id: string; label: string; width: number; height: number }>;
+		/** The viewport id captures use unless a case lists its own. */
+		defaultViewport: string;
 	};
 	labs: ReviewLab[];
 	diagnostics: ReviewDiagnostic[];
@@ -309,12 +469,22 @@ export interface WorkbenchContractOptions {
 	toolVersion: string;
 	stylesheets: string[];
 	adjustedFallbackFamilies?: Record<string, string>;
+	/** Build-time gamut-mapped targets; out-of-gamut colors that affect them become warnings. */
+	gamutOutputs?: readonly GamutOutputTarget[];
 	verification?: {
 		generate?: string;
 		check?: string;
 	};
 }
 
+export interface LuminancePatchOptions {
+	systemFingerprint: string;
+	/** Colors the solver must not move in any mode. */
+	lockedColors?: readonly string[];
+	/** Per-mode polarity; otherwise `metadata.polarity`, then inferred from the palette. */
+	polarities?: Readonly<Record<string, 'negative' | 'positive'>>;
+}
+
 export interface TypographySizeOption {
 	label: string;
 	value: FontSizeReference;
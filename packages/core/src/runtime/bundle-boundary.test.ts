@@ -59,7 +59,10 @@ describe('runtime bundle boundary', () => {
 				.sort()
 		).toEqual([
 			'color-css.ts',
+			'constraints/apca.ts',
+			'constraints/contrast.ts',
 			'constraints/luminance.ts',
+			'constraints/srgb.ts',
 			'runtime/index.ts',
 			'runtime/theme.ts',
 			'runtime/types.ts',
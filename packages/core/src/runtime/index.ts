@@ -5,7 +5,12 @@ export {
 } from './theme.js';
 export { formatNativeOklch, formatNativeOklchWithAlpha } from '../color-css.js';
 export type { NativeOklchColor } from '../color-css.js';
-export { RuntimeColorThemeValidationError, RuntimeLuminanceConstraintError } from './types.js';
+export {
+	RuntimeApcaConstraintError,
+	RuntimeColorThemeValidationError,
+	RuntimeContrastConstraintError,
+	RuntimeLuminanceConstraintError,
+} from './types.js';
 export type {
 	RuntimeColorTheme,
 	RuntimeColorThemeConfig,
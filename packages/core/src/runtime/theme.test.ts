@@ -3,7 +3,9 @@ import {
 	generateRuntimeColorTheme,
 	enforceRuntimeColorTheme,
 	parseRuntimeColorTheme,
+	RuntimeApcaConstraintError,
 	RuntimeColorThemeValidationError,
+	RuntimeContrastConstraintError,
 	RuntimeLuminanceConstraintError,
 } from './index.js';
 import { applyAlpha, oklchToCss } from '../utils.js';
@@ -181,6 +183,18 @@ describe('generateRuntimeColorTheme', () => {
 		expect(JSON.stringify(result.customProperties)).not.toMatch(/rgb|#/);
 	});
 
+	it('emits only base colors for CSS that derives alpha variants from them', () => {
+		const result = generateRuntimeColorTheme(theme, {
+			...config,
+			colorFormat: { ...config.colorFormat, alphaVariants: 'relative' },
+		});
+
+		expect(result.customProperties).toEqual({
+			'--color-canvas': 'oklch(0.1800 0.0120 260.00)',
+			'--color-ink': 'oklch(0.9100 0.3000 145.25)',
+		});
+	});
+
 	it('uses the same formatter as static TFS color generation', () => {
 		const preciseTheme = {
 			polarity: 'negative',
@@ -229,6 +243,104 @@ describe('generateRuntimeColorTheme', () => {
 		expect(Object.isFrozen(result.luminance.colors.canvas)).toBe(true);
 	});
 
+	it('adds a separately discriminated WCAG contrast diagnostic when configured', () => {
+		expect(generateRuntimeColorTheme(theme, config).contrast).toBeUndefined();
+
+		const result = generateRuntimeColorTheme(theme, {
+			...config,
+			luminance: { ...config.luminance, contrast: { level: 'AAA' } },
+		});
+
+		expect(result.luminance.metric).toBe('oklch-l');
+		expect(result.contrast).toMatchObject({
+			metric: 'wcag-relative-luminance',
+			ratioValid: true,
+			requiredRatio: 7,
+			pairs: [{ background: 'canvas', foreground: 'ink' }],
+		});
+		expect(result.contrast!.actualRatio).toBeCloseTo(13.78, 2);
+		expect(Object.isFrozen(result.contrast)).toBe(true);
+		expect(Object.isFrozen(result.contrast!.pairs[0])).toBe(true);
+		expect(Object.isFrozen(result.contrast!.colors.canvas)).toBe(true);
+	});
+
+	it('rejects malformed contrast policies', () => {
+		expect(() =>
+			generateRuntimeColorTheme(theme, {
+				...config,
+				luminance: { ...config.luminance, contrast: { level: 'A' as 'AA' } },
+			})
+		).toThrowError('config.luminance.contrast.level must be either "AA" or "AAA"');
+		expect(() =>
+			generateRuntimeColorTheme(theme, {
+				...config,
+				luminance: {
+					...config.luminance,
+					contrast: { level: 'AA', minimumRatio: 2 } as { level: 'AA' },
+				},
+			})
+		).toThrowError('config.luminance.contrast.minimumRatio is not allowed');
+	});
+
+	it('adds signed APCA Lc and per-role requirements when configured', () => {
+		expect(generateRuntimeColorTheme(theme, config).apca).toBeUndefined();
+
+		const result = generateRuntimeColorTheme(theme, {
+			...config,
+			luminance: { ...config.luminance, apca: { minimumLc: 75, roleMinimumLc: { display: 45 } } },
+		});
+
+		expect(result.apca).toMatchObject({
+			metric: 'apca-lc',
+			lcValid: true,
+			requiredLc: 75,
+			pairs: [{ background: 'canvas', foreground: 'ink', polarity: 'negative' }],
+			requirements: [
+				{ role: null, requiredLc: 75, lcValid: true },
+				{ role: 'display', requiredLc: 45, lcValid: true },
+			],
+		});
+		expect(result.apca!.pairs[0]!.lc).toBeLessThan(-75);
+		expect(Object.isFrozen(result.apca!.requirements[1])).toBe(true);
+		expect(() =>
+			generateRuntimeColorTheme(theme, {
+				...config,
+				luminance: {
+					...config.luminance,
+					apca: { minimumLc: 75, roleMinimumLc: { display: 120 } },
+				},
+			})
+		).toThrowError('config.luminance.apca.roleMinimumLc.display must be between 0 and 108');
+	});
+
+	it('measures APCA role minimums over the colors bound to each role', () => {
+		const apca = (roleColors: object) => ({
+			...config,
+			luminance: {
+				...config.luminance,
+				apca: { minimumLc: 108, roleMinimumLc: { display: 45 }, roleColors },
+			},
+		});
+		const result = generateRuntimeColorTheme(
+			theme,
+			apca({ display: { foregroundColors: ['ink'] } })
+		);
+
+		expect(result.apca).toMatchObject({
+			lcValid: true,
+			requirements: [{ role: 'display', requiredLc: 45, lcValid: true }],
+		});
+		expect(result.apca!.requirements[0]!.weakest).toEqual(result.apca!.pairs[0]);
+		expect(() =>
+			generateRuntimeColorTheme(theme, apca({ display: { foregroundColors: ['canvas'] } }))
+		).toThrowError(
+			'config.luminance.apca.roleColors.display.foregroundColors references "canvas", which is not a luminance foreground color'
+		);
+		expect(() =>
+			generateRuntimeColorTheme(theme, apca({ caption: { foregroundColors: ['ink'] } }))
+		).toThrowError('config.luminance.apca.roleColors.caption has no roleMinimumLc entry');
+	});
+
 	it('validates the exact lightness precision emitted to CSS', () => {
 		const result = generateRuntimeColorTheme(
 			{
@@ -396,4 +508,54 @@ describe('enforceRuntimeColorTheme', () => {
 			expect((error as Error).message).toContain('measured delta 0.1, requires at least 0.6');
 		}
 	});
+
+	it('names every failing APCA requirement when enforcing', () => {
+		const mutedTheme = {
+			...theme,
+			colors: { ...theme.colors, ink: { l: 0.6, c: 0.02, h: 145.25 } },
+		};
+		const apcaConfig = {
+			...config,
+			luminance: {
+				...config.luminance,
+				minimumLuminanceDelta: 0.2,
+				apca: { minimumLc: 75, roleMinimumLc: { display: 30 } },
+			},
+		};
+
+		try {
+			enforceRuntimeColorTheme(mutedTheme, apcaConfig);
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(RuntimeApcaConstraintError);
+			expect((error as Error).message).toContain('requires body Lc 75.');
+		}
+	});
+
+	it('enforces a configured contrast requirement after luminance separation passes', () => {
+		const contrastConfig = {
+			...config,
+			luminance: { ...config.luminance, minimumLuminanceDelta: 0.2 },
+		};
+		const lowContrastTheme = {
+			...theme,
+			colors: {
+				canvas: { ...theme.colors.canvas, l: 0.5 },
+				ink: { ...theme.colors.ink, l: 0.75 },
+			},
+		};
+		expect(() => enforceRuntimeColorTheme(lowContrastTheme, contrastConfig)).not.toThrow();
+
+		try {
+			enforceRuntimeColorTheme(lowContrastTheme, {
+				...contrastConfig,
+				luminance: { ...contrastConfig.luminance, contrast: { level: 'AAA' } },
+			});
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(RuntimeContrastConstraintError);
+			expect((error as RuntimeContrastConstraintError).result.contrast?.ratioValid).toBe(false);
+			expect((error as Error).message).toContain('requires at least 7:1');
+		}
+	});
 });
@@ -1,5 +1,8 @@
+import { validateApca } from '../constraints/apca.js';
+import { validateContrast, wcagMinimumContrastRatio } from '../constraints/contrast.js';
 import { validateLuminance } from '../constraints/luminance.js';
 import { formatNativeOklch, formatNativeOklchWithAlpha } from '../color-css.js';
+import type { ApcaPolicy, ApcaRoleColors, WcagContrastPolicy } from '../constraints/types.js';
 import type {
 	RuntimeColorTheme,
 	RuntimeColorThemeConfig,
@@ -7,11 +10,19 @@ import type {
 	RuntimeColorThemeSchema,
 	RuntimeOklchColor,
 } from './types.js';
-import { RuntimeColorThemeValidationError, RuntimeLuminanceConstraintError } from './types.js';
+import {
+	RuntimeApcaConstraintError,
+	RuntimeColorThemeValidationError,
+	RuntimeContrastConstraintError,
+	RuntimeLuminanceConstraintError,
+} from './types.js';
 
 const tokenNamePattern = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/i;
 const rootKeys = ['colors', 'polarity'] as const;
 const colorKeys = ['c', 'h', 'l'] as const;
+const contrastKeys = ['level', 'textSize'] as const;
+const apcaKeys = ['minimumLc', 'roleMinimumLc', 'roleColors'] as const;
+const apcaRoleColorKeys = ['foregroundColors', 'backgroundColors'] as const;
 
 type UnknownRecord = Record<string, unknown>;
 
@@ -147,6 +158,115 @@ function validateColorGroup(
 	return names;
 }
 
+function validateContrastPolicy(
+	value: RuntimeColorThemeConfig['luminance']['contrast']
+): WcagContrastPolicy | undefined {
+	if (value === undefined) return undefined;
+	const path = 'config.luminance.contrast';
+	const record = requirePlainRecord(value, path);
+	for (const key of Object.keys(record)) {
+		if (!contrastKeys.includes(key as (typeof contrastKeys)[number])) {
+			fail(`${path}.${key}`, 'is not allowed');
+		}
+	}
+	const { level, textSize } = record;
+	if (level !== 'AA' && level !== 'AAA') fail(`${path}.level`, 'must be either "AA" or "AAA"');
+	if (textSize !== undefined && textSize !== 'normal' && textSize !== 'large') {
+		fail(`${path}.textSize`, 'must be either "normal" or "large"');
+	}
+	return Object.freeze({ level, ...(textSize ? { textSize } : {}) });
+}
+
+function requireLc(value: unknown, path: string): number {
+	const lc = requireFiniteNumber(value, path);
+	if (lc < 0 || lc > 108) fail(path, 'must be between 0 and 108');
+	return lc;
+}
+
+function validateRoleColors(
+	value: unknown,
+	path: string,
+	group: 'background' | 'foreground',
+	groupColors: readonly string[]
+): readonly string[] {
+	if (!Array.isArray(value) || value.length === 0) fail(path, 'must be a non-empty array');
+	const names = value.map((name, index) => requireTokenName(name, `${path}[${index}]`));
+	for (const name of names) {
+		if (!groupColors.includes(name)) {
+			fail(path, `references "${name}", which is not a luminance ${group} color`);
+		}
+	}
+	return Object.freeze(names);
+}
+
+function validateApcaPolicy(
+	value: RuntimeColorThemeConfig['luminance']['apca'],
+	backgroundColors: readonly string[],
+	foregroundColors: readonly string[]
+): ApcaPolicy | undefined {
+	if (value === undefined) return undefined;
+	const path = 'config.luminance.apca';
+	const record = requirePlainRecord(value, path);
+	for (const key of Object.keys(record)) {
+		if (!apcaKeys.includes(key as (typeof apcaKeys)[number])) {
+			fail(`${path}.${key}`, 'is not allowed');
+		}
+	}
+	const minimumLc = requireLc(record.minimumLc, `${path}.minimumLc`);
+	if (record.roleMinimumLc === undefined) {
+		if (record.roleColors !== undefined) {
+			fail(`${path}.roleColors`, 'requires roleMinimumLc');
+		}
+		return Object.freeze({ minimumLc });
+	}
+
+	const roles = requirePlainRecord(record.roleMinimumLc, `${path}.roleMinimumLc`);
+	const roleMinimumLc = Object.create(null) as Record<string, number>;
+	for (const [role, lc] of Object.entries(roles)) {
+		requireTokenName(role, `${path}.roleMinimumLc.${role}`);
+		roleMinimumLc[role] = requireLc(lc, `${path}.roleMinimumLc.${role}`);
+	}
+	if (record.roleColors === undefined) {
+		return Object.freeze({ minimumLc, roleMinimumLc: Object.freeze(roleMinimumLc) });
+	}
+
+	const bindings = requirePlainRecord(record.roleColors, `${path}.roleColors`);
+	const roleColors = Object.create(null) as Record<string, ApcaRoleColors>;
+	for (const [role, value] of Object.entries(bindings)) {
+		const rolePath = `${path}.roleColors.${role}`;
+		if (roleMinimumLc[role] === undefined) fail(rolePath, 'has no roleMinimumLc entry');
+		const bound = requirePlainRecord(value, rolePath);
+		for (const key of Object.keys(bound)) {
+			if (!apcaRoleColorKeys.includes(key as (typeof apcaRoleColorKeys)[number])) {
+				fail(`${rolePath}.${key}`, 'is not allowed');
+			}
+		}
+		roleColors[role] = Object.freeze({
+			foregroundColors: validateRoleColors(
+				bound.foregroundColors,
+				`${rolePath}.foregroundColors`,
+				'foreground',
+				foregroundColors
+			),
+			...(bound.backgroundColors !== undefined
+				? {
+						backgroundColors: validateRoleColors(
+							bound.backgroundColors,
+							`${rolePath}.backgroundColors`,
+							'background',
+							backgroundColors
+						),
+					}
+				: {}),
+		});
+	}
+	return Object.freeze({
+		minimumLc,
+		roleMinimumLc: Object.freeze(roleMinimumLc),
+		roleColors: Object.freeze(roleColors),
+	});
+}
+
 /**
  * Parse, validate and generate browser-ready color custom properties.
  *
@@ -167,6 +287,10 @@ export function generateRuntimeColorTheme<const ColorNames extends readonly stri
 		config.colorFormat?.alphaModifier ?? 'a',
 		'config.colorFormat.alphaModifier'
 	);
+	const alphaVariants = config.colorFormat?.alphaVariants ?? 'literal';
+	if (alphaVariants !== 'literal' && alphaVariants !== 'relative') {
+		fail('config.colorFormat.alphaVariants', 'must be either "literal" or "relative"');
+	}
 
 	const minimumLuminanceDelta = requireFiniteNumber(
 		config.luminance?.minimumLuminanceDelta,
@@ -190,6 +314,8 @@ export function generateRuntimeColorTheme<const ColorNames extends readonly stri
 			fail('config.luminance', `color "${colorName}" cannot belong to both groups`);
 		}
 	}
+	const contrastPolicy = validateContrastPolicy(config.luminance?.contrast);
+	const apcaPolicy = validateApcaPolicy(config.luminance?.apca, backgroundColors, foregroundColors);
 
 	const customProperties = Object.create(null) as Record<string, string>;
 	const generatedNames = new Set<string>();
@@ -204,6 +330,7 @@ export function generateRuntimeColorTheme<const ColorNames extends readonly stri
 	for (const colorName of colorNames) {
 		const color = theme.colors[colorName];
 		addProperty(`--${prefix}-${colorName}`, formatNativeOklch(color));
+		if (alphaVariants === 'relative') continue;
 		for (const [level, alpha] of alphaSchedule) {
 			addProperty(
 				`--${prefix}-${colorName}-${alphaModifier}-${level}`,
@@ -236,16 +363,56 @@ export function generateRuntimeColorTheme<const ColorNames extends readonly stri
 		colors: Object.freeze(diagnosticColors),
 	});
 
+	const contrast =
+		contrastPolicy &&
+		validateContrast(emittedColors, {
+			minimumContrastRatio: wcagMinimumContrastRatio(contrastPolicy),
+			backgroundColors,
+			foregroundColors,
+		});
+	const contrastColors = Object.create(null) as Record<
+		string,
+		Readonly<{ group: 'background' | 'foreground'; relativeLuminance: number }>
+	>;
+	for (const [name, diagnostic] of Object.entries(contrast?.colors ?? {})) {
+		contrastColors[name] = Object.freeze({ ...diagnostic });
+	}
+
+	const apca =
+		apcaPolicy &&
+		validateApca(emittedColors, { ...apcaPolicy, backgroundColors, foregroundColors });
+
 	return Object.freeze({
 		theme,
 		customProperties: Object.freeze(customProperties),
 		luminance: frozenDiagnostics,
+		...(contrast
+			? {
+					contrast: Object.freeze({
+						...contrast,
+						pairs: Object.freeze(contrast.pairs.map((pair) => Object.freeze({ ...pair }))),
+						colors: Object.freeze(contrastColors),
+					}),
+				}
+			: {}),
+		...(apca
+			? {
+					apca: Object.freeze({
+						...apca,
+						pairs: Object.freeze(apca.pairs.map((pair) => Object.freeze({ ...pair }))),
+						requirements: Object.freeze(
+							apca.requirements.map((requirement) => Object.freeze({ ...requirement }))
+						),
+					}),
+				}
+			: {}),
 	});
 }
 
 /**
  * Generate a runtime theme and reject a valid payload when its emitted palette
- * violates the configured TFS OKLCH-L separation constraint.
+ * violates the configured TFS OKLCH-L separation constraint or any configured
+ * WCAG 2.x contrast or APCA Lc requirement.
  *
  * Use `generateRuntimeColorTheme` when invalid separation is useful diagnostic
  * state in an editor. Use this explicit enforcing boundary before persistence
@@ -257,5 +424,9 @@ export function enforceRuntimeColorTheme<const ColorNames extends readonly strin
 ): RuntimeColorThemeResult<ColorNames> {
 	const result = generateRuntimeColorTheme(input, config);
 	if (!result.luminance.deltaValid) throw new RuntimeLuminanceConstraintError(result);
+	if (result.contrast && !result.contrast.ratioValid) {
+		throw new RuntimeContrastConstraintError(result);
+	}
+	if (result.apca && !result.apca.lcValid) throw new RuntimeApcaConstraintError(result);
 	return result;
 }
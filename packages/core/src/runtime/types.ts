@@ -1,4 +1,9 @@
-import type { LuminancePolicy, LuminanceValidation } from '../constraints/types.js';
+import type {
+	ApcaValidation,
+	ContrastValidation,
+	LuminancePolicy,
+	LuminanceValidation,
+} from '../constraints/types.js';
 
 /** Storage-friendly OKLCH color accepted by the browser runtime API. */
 export interface RuntimeOklchColor {
@@ -31,8 +36,15 @@ export interface RuntimeColorThemeConfig<
 	readonly luminance: RuntimeLuminanceConfig<NoInfer<ColorNames[number]>>;
 	/** Mirrors the color member of TFS's build-time generator prefixes. */
 	readonly prefixes?: Readonly<{ color?: string }>;
-	/** Native OKLCH is fixed; alpha naming mirrors the build-time generator option. */
-	readonly colorFormat?: Readonly<{ alphaModifier?: string }>;
+	/**
+	 * Native OKLCH is fixed; alpha naming mirrors the build-time generator option.
+	 * `alphaVariants: 'relative'` matches CSS that derives variants from base
+	 * colors, so only base colors are emitted.
+	 */
+	readonly colorFormat?: Readonly<{
+		alphaModifier?: string;
+		alphaVariants?: 'literal' | 'relative';
+	}>;
 }
 
 export interface RuntimeColorThemeResult<ColorNames extends readonly string[] = readonly string[]> {
@@ -41,6 +53,10 @@ export interface RuntimeColorThemeResult<ColorNames extends readonly string[] =
 	readonly customProperties: Readonly<Record<string, string>>;
 	/** TFS palette-separation diagnostics measured from the emitted 4dp OKLCH L values. */
 	readonly luminance: LuminanceValidation;
+	/** WCAG 2.x contrast ratios for every group pair; present when `luminance.contrast` is configured. */
+	readonly contrast?: ContrastValidation;
+	/** APCA Lc for every group pair and role requirement; present when `luminance.apca` is configured. */
+	readonly apca?: ApcaValidation;
 }
 
 /** A path-aware failure raised before untrusted theme data reaches CSS. */
@@ -72,3 +88,46 @@ export class RuntimeLuminanceConstraintError<
 		this.result = result;
 	}
 }
+
+/**
+ * A valid runtime payload whose emitted palette fails the configured WCAG 2.x
+ * contrast requirement for at least one background/foreground pair.
+ */
+export class RuntimeContrastConstraintError<
+	ColorNames extends readonly string[] = readonly string[],
+> extends Error {
+	readonly result: RuntimeColorThemeResult<ColorNames>;
+
+	constructor(result: RuntimeColorThemeResult<ColorNames>) {
+		const { actualRatio, requiredRatio, metric } = result.contrast!;
+		super(
+			`Runtime theme violates the ${metric} contrast constraint: weakest pair measures ${actualRatio}:1, requires at least ${requiredRatio}:1.`
+		);
+		this.name = 'RuntimeContrastConstraintError';
+		this.result = result;
+	}
+}
+
+/**
+ * A valid runtime payload whose emitted palette falls below a configured APCA
+ * Lc requirement for body text or a typography role.
+ */
+export class RuntimeApcaConstraintError<
+	ColorNames extends readonly string[] = readonly string[],
+> extends Error {
+	readonly result: RuntimeColorThemeResult<ColorNames>;
+
+	constructor(result: RuntimeColorThemeResult<ColorNames>) {
+		const { requirements, metric } = result.apca!;
+		const failing = requirements.filter((requirement) => !requirement.lcValid);
+		const actualLc = Math.min(...failing.map((requirement) => requirement.actualLc));
+		const required = failing.map(
+			(requirement) => `${requirement.role ?? 'body'} Lc ${requirement.requiredLc}`
+		);
+		super(
+			`Runtime theme violates the ${metric} constraint: weakest failing pair measures Lc ${actualLc}, requires ${required.join(', ')}.`
+		);
+		this.name = 'RuntimeApcaConstraintError';
+		this.result = result;
+	}
+}
@@ -102,6 +102,32 @@ describe('toCss', () => {
 			expect(css).toContain('.theme-dark');
 			expect(css).toContain('.size-small');
 		});
+
+		it('generates mode axis overrides with the axis selector template', () => {
+			const css = toCss({
+				...irWithModes,
+				modes: {
+					...irWithModes.modes,
+					axes: {
+						brand: {
+							default: 'acme',
+							overrides: ['zest'],
+							selector: '.brand-{mode}',
+							families: ['colors'],
+						},
+					},
+				},
+				overrideTokens: {
+					...irWithModes.overrideTokens,
+					zest: {
+						'clr-bg': { family: 'color', name: 'clr-bg', value: 'oklch(0.3 0.1 120)' },
+					},
+				},
+			});
+
+			expect(css).toContain('.brand-zest {\n  --clr-bg: oklch(0.3 0.1 120);\n}');
+			expect(css).toContain('[data-color-mode="dark"]');
+		});
 	});
 
 	describe('output format', () => {
@@ -273,5 +299,252 @@ describe('toCss', () => {
 				'@media (prefers-reduced-motion: reduce) {\n  html {\n    --motion-hover-duration: 0ms;\n  }\n}'
 			);
 		});
+
+		describe('light-dark() color modes', () => {
+			const color = (name: string, value: string) => ({ family: 'color' as const, name, value });
+			const polarIR: IR = {
+				...minimalIR,
+				tokens: {
+					...minimalIR.tokens,
+					'clr-bg': color('clr-bg', 'oklch(0.15 0 0)'),
+					'clr-ink': color('clr-ink', 'oklch(0.95 0 0)'),
+				},
+				modes: {
+					...minimalIR.modes,
+					color: {
+						default: 'dark',
+						overrides: ['light', 'brand'],
+						polarities: { dark: 'negative', light: 'positive' },
+					},
+				},
+				overrideTokens: {
+					light: { 'clr-bg': color('clr-bg', 'oklch(0.98 0 0)') },
+					brand: { 'clr-ink': color('clr-ink', 'oklch(0.7 0.1 30)') },
+				},
+			};
+
+			it('folds the opposite-polarity mode into root light-dark() values', () => {
+				const css = toCss(polarIR, { colorModes: 'light-dark' });
+
+				expect(css).toContain(
+					':root {\n  color-scheme: dark;\n  --sp-1: 8px;\n  --clr-bg: light-dark(oklch(0.98 0 0), oklch(0.15 0 0));\n  --clr-ink: oklch(0.95 0 0);\n}'
+				);
+				expect(css).toContain('[data-color-mode="light"] {\n  color-scheme: light;\n}');
+				expect(css).toContain('[data-color-mode="dark"] {\n  color-scheme: dark;\n}');
+				// Modes without a polarity keep their selector blocks.
+				expect(css).toContain('[data-color-mode="brand"] {\n  --clr-ink: oklch(0.7 0.1 30);\n}');
+			});
+
+			it('follows the OS through color-scheme when the partner is scheme-bound', () => {
+				const light = polarIR.overrideTokens.light!;
+				const css = toCss(
+					{
+						...polarIR,
+						modes: {
+							...polarIR.modes,
+							color: {
+								...polarIR.modes.color,
+								mediaConditions: { light: '(prefers-color-scheme: light)' },
+							},
+						},
+						mediaOverrides: { '(prefers-color-scheme: light)': light },
+					},
+					{ colorModes: 'light-dark' }
+				);
+
+				expect(css).toContain('  color-scheme: light dark;');
+				expect(css).not.toContain('@media');
+			});
+
+			it("folds both modes' contrast refinements into one root block", () => {
+				const css = toCss(
+					{
+						...polarIR,
+						modes: {
+							...polarIR.modes,
+							color: { ...polarIR.modes.color, refinementConditions: ['(forced-colors: active)'] },
+						},
+						mediaOverrides: {
+							'(forced-colors: active)': { 'clr-ink': color('clr-ink', 'CanvasText') },
+						},
+						modeMediaOverrides: {
+							light: { '(forced-colors: active)': { 'clr-bg': color('clr-bg', 'Canvas') } },
+						},
+					},
+					{ colorModes: 'light-dark' }
+				);
+
+				expect(css).toContain(
+					'@media (forced-colors: active) {\n  :root {\n    --clr-ink: CanvasText;\n    --clr-bg: light-dark(Canvas, oklch(0.15 0 0));\n  }\n}'
+				);
+			});
+
+			it('requires exactly one mode of each polarity, one of them the default', () => {
+				const withPolarities = (polarities: Record<string, 'negative' | 'positive'>) =>
+					toCss(
+						{
+							...polarIR,
+							modes: { ...polarIR.modes, color: { ...polarIR.modes.color, polarities } },
+						},
+						{ colorModes: 'light-dark' }
+					);
+
+				expect(() => withPolarities({ dark: 'negative' })).toThrowError(
+					'requires exactly one negative- and one positive-polarity color mode'
+				);
+				expect(() => withPolarities({ brand: 'negative', light: 'positive' })).toThrowError(
+					'requires the default color mode "dark" to have a polarity'
+				);
+			});
+		});
+
+		describe('relative alpha variants', () => {
+			const base = (name: string, value: string) => ({
+				family: 'color' as const,
+				name: `clr-${name}`,
+				value,
+				metadata: { baseColor: name },
+			});
+			const variant = (name: string, level: string, alpha: number) => ({
+				family: 'color' as const,
+				name: `clr-${name}-a-${level}`,
+				value: `literal-${name}-${alpha}`,
+				rawValue: alpha,
+				metadata: { isAlphaVariant: true, alphaLevel: level, baseColor: name },
+			});
+			const alphaIR: IR = {
+				...minimalIR,
+				tokens: {
+					'clr-bg': base('bg', 'oklch(0.15 0 0)'),
+					'clr-bg-a-lo': variant('bg', 'lo', 0.25),
+				},
+				modes: { ...minimalIR.modes, color: { default: 'dark', overrides: ['light', 'dim'] } },
+				overrideTokens: {
+					light: {
+						'clr-bg': base('bg', 'oklch(0.98 0 0)'),
+						'clr-bg-a-lo': variant('bg', 'lo', 0.25),
+					},
+					dim: { 'clr-bg-a-lo': variant('bg', 'lo', 0.4) },
+				},
+			};
+
+			it('declares each variant once over its base color on every color mode selector', () => {
+				const css = toCss(alphaIR, { alphaVariants: 'relative' });
+
+				expect(css).toContain(':root {\n  --clr-bg: oklch(0.15 0 0);\n}');
+				expect(css).toContain(
+					':root,\n[data-color-mode="light"],\n[data-color-mode="dim"] {\n  --clr-bg-a-lo: oklch(from var(--clr-bg) l c h / 0.25);\n}'
+				);
+				expect(css).toContain('[data-color-mode="light"] {\n  --clr-bg: oklch(0.98 0 0);\n}');
+				expect(css).not.toContain('literal-');
+			});
+
+			it('keeps mode overrides for variants whose alpha differs from the root', () => {
+				const css = toCss(alphaIR, { alphaVariants: 'relative' });
+
+				expect(css).toContain(
+					'[data-color-mode="dim"] {\n  --clr-bg-a-lo: oklch(from var(--clr-bg) l c h / 0.4);\n}'
+				);
+				expect(toCss(alphaIR)).toContain('--clr-bg-a-lo: literal-bg-0.4;');
+			});
+		});
+
+		it('declares mix variants as color-mix() over their base and surface tokens', () => {
+			const css = toCss({
+				...minimalIR,
+				tokens: {
+					'clr-pri-mix-lo': {
+						family: 'color',
+						name: 'clr-pri-mix-lo',
+						value: 'oklch(0.9000 0.0500 250.00)',
+						rawValue: 0.25,
+						metadata: {
+							mixLevel: 'lo',
+							baseColor: 'pri',
+							surfaceColor: 'bg',
+							colorMix: 'color-mix(in oklch, var(--clr-pri) 25%, var(--clr-bg))',
+						},
+					},
+				},
+			});
+
+			expect(css).toContain(
+				'--clr-pri-mix-lo: color-mix(in oklch, var(--clr-pri) 25%, var(--clr-bg));'
+			);
+		});
+
+		it('scopes contrast preference refinements to the color mode they refine', () => {
+			const token = (name: string, value: string) => ({ family: 'color' as const, name, value });
+			const lightTokens = { 'clr-bg': token('clr-bg', 'oklch(0.98 0 0)') };
+			const refinedIR: IR = {
+				...minimalIR,
+				modes: {
+					...minimalIR.modes,
+					color: {
+						default: 'dark',
+						overrides: ['light'],
+						mediaConditions: { light: '(prefers-color-scheme: light)' },
+						refinementConditions: ['(prefers-contrast: more)'],
+					},
+				},
+				overrideTokens: { light: lightTokens },
+				mediaOverrides: {
+					'(prefers-contrast: more)': { 'clr-ink': token('clr-ink', 'oklch(1 0 0)') },
+					'(prefers-color-scheme: light)': lightTokens,
+				},
+				modeMediaOverrides: {
+					light: {
+						'(prefers-contrast: more)': { 'clr-ink': token('clr-ink', 'oklch(0 0 0)') },
+					},
+				},
+			};
+			const css = toCss(refinedIR);
+
+			expect(css).toContain(
+				'[data-color-mode="light"] {\n  --clr-bg: oklch(0.98 0 0);\n}\n\n' +
+					'@media (prefers-contrast: more) {\n  [data-color-mode="light"] {\n    --clr-ink: oklch(0 0 0);\n  }\n}'
+			);
+			expect(css).toContain(
+				'@media (prefers-contrast: more) {\n  :root:not([data-color-mode]),\n  [data-color-mode="dark"] {\n    --clr-ink: oklch(1 0 0);\n  }\n}'
+			);
+			expect(css).toContain(
+				'@media (prefers-color-scheme: light) and (prefers-contrast: more) {\n  :root:not([data-color-mode]) {\n    --clr-ink: oklch(0 0 0);\n  }\n}'
+			);
+			// The default refinement precedes the scheme-bound mode that re-declares its colors.
+			expect(css.indexOf('@media (prefers-contrast: more) {\n  :root')).toBeLessThan(
+				css.indexOf('@media (prefers-color-scheme: light) {')
+			);
+		});
+
+		it('applies scheme-bound color modes only where no color mode is set explicitly', () => {
+			const lightTokens = {
+				'clr-bg': { family: 'color' as const, name: 'clr-bg', value: 'oklch(0.98 0 0)' },
+			};
+			const schemeIR: IR = {
+				...minimalIR,
+				modes: {
+					...minimalIR.modes,
+					color: {
+						default: 'dark',
+						overrides: ['light'],
+						mediaConditions: { light: '(prefers-color-scheme: light)' },
+					},
+				},
+				overrideTokens: { light: lightTokens },
+				mediaOverrides: { '(prefers-color-scheme: light)': lightTokens },
+			};
+
+			expect(toCss(schemeIR)).toContain(
+				'@media (prefers-color-scheme: light) {\n  :root:not([data-color-mode]) {\n    --clr-bg: oklch(0.98 0 0);\n  }\n}'
+			);
+			expect(toCss(schemeIR)).toContain(
+				'[data-color-mode="light"] {\n  --clr-bg: oklch(0.98 0 0);'
+			);
+			expect(
+				toCss(schemeIR, {
+					selectors: { colorMode: '.theme-{mode}', colorSchemeRoot: 'html:not([class*="theme-"])' },
+				})
+			).toContain('  html:not([class*="theme-"]) {\n');
+		});
 	});
 });
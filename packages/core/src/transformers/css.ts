@@ -5,6 +5,7 @@
  */
 
 import type { IR, TokenValue } from '../generator/types.js';
+import type { ColorScheme } from '../types.js';
 import type { FileHeaderInfo } from '../header.js';
 import { getHeaderLines, formatHeaderComment } from '../header.js';
 
@@ -34,8 +35,42 @@ export interface CssTransformerConfig {
 		root?: string;
 		colorMode?: string;
 		sizeMode?: string;
+		/**
+		 * Root selector for color modes applied by `prefers-color-scheme`. It must
+		 * not match once a color mode is chosen explicitly, so the choice wins.
+		 */
+		colorSchemeRoot?: string;
+		/**
+		 * Root selector for size modes applied from a viewport breakpoint. It must
+		 * not match once a size mode is chosen explicitly, so the choice wins.
+		 */
+		sizeMediaRoot?: string;
 	};
 
+	/**
+	 * How color modes switch. `selectors` (default) emits one block per mode.
+	 * `light-dark` folds the default mode and its opposite-polarity partner into
+	 * `light-dark()` values on the root, switched by `color-scheme`; requires
+	 * exactly one `negative` and one `positive` `metadata.polarity` mode.
+	 */
+	colorModes?: CssColorModeStrategy;
+
+	/**
+	 * How color alpha variants are written. `literal` (default) precomputes every
+	 * variant in every mode. `relative` declares each variant once as
+	 * `oklch(from var(--base) l c h / alpha)`, so mode overrides and runtime
+	 * themes only set base colors.
+	 */
+	alphaVariants?: CssAlphaVariantStrategy;
+
+	/**
+	 * How nested border radii are written. `resolved` (default) declares each
+	 * mode's computed length. `calc` declares `max(0px, outer - inset)` over the
+	 * radius and spacing variables wherever the radius is declared, so the inner
+	 * corner follows runtime overrides of either.
+	 */
+	nestedRadii?: CssNestedRadiusStrategy;
+
 	/**
 	 * File header configuration.
 	 * Set to false to disable header entirely.
@@ -44,6 +79,12 @@ export interface CssTransformerConfig {
 	fileHeader?: FileHeaderConfig | false;
 }
 
+export type CssColorModeStrategy = 'selectors' | 'light-dark';
+
+export type CssAlphaVariantStrategy = 'literal' | 'relative';
+
+export type CssNestedRadiusStrategy = 'resolved' | 'calc';
+
 /**
  * Default CSS transformer configuration (internal, with all values)
  */
@@ -51,6 +92,8 @@ const defaultSelectors = Object.freeze({
 	root: ':root',
 	colorMode: '[data-color-mode="{mode}"]',
 	sizeMode: '[data-size-mode="{mode}"]',
+	colorSchemeRoot: ':root:not([data-color-mode])',
+	sizeMediaRoot: ':root:not([data-size-mode])',
 }) satisfies ResolvedCssConfig['selectors'];
 
 /**
@@ -58,6 +101,9 @@ const defaultSelectors = Object.freeze({
  */
 export const defaultCssConfig = Object.freeze({
 	selectors: defaultSelectors,
+	colorModes: 'selectors',
+	alphaVariants: 'literal',
+	nestedRadii: 'resolved',
 	// fileHeader is undefined by default (no header unless caller provides config)
 }) satisfies CssTransformerConfig;
 
@@ -69,7 +115,12 @@ interface ResolvedCssConfig {
 		root: string;
 		colorMode: string;
 		sizeMode: string;
+		colorSchemeRoot: string;
+		sizeMediaRoot: string;
 	};
+	colorModes: CssColorModeStrategy;
+	alphaVariants: CssAlphaVariantStrategy;
+	nestedRadii: CssNestedRadiusStrategy;
 }
 
 /**
@@ -81,6 +132,9 @@ function mergeConfig(userConfig?: CssTransformerConfig): ResolvedCssConfig {
 			...defaultSelectors,
 			...userConfig?.selectors,
 		},
+		colorModes: userConfig?.colorModes ?? 'selectors',
+		alphaVariants: userConfig?.alphaVariants ?? 'literal',
+		nestedRadii: userConfig?.nestedRadii ?? 'resolved',
 	};
 }
 
@@ -117,6 +171,59 @@ function getSelectorForMode(
 	}
 }
 
+/**
+ * Get the selector for an override mode of a user-declared mode axis
+ */
+function getAxisSelectorForMode(modeName: string, ir: IR): string | null {
+	const axis = Object.values(ir.modes.axes ?? {}).find((info) => info.overrides.includes(modeName));
+	return axis ? axis.selector.replace('{mode}', modeName) : null;
+}
+
+/**
+ * Select an axis mode together with a color mode, on one element or on nested
+ * ones. Two attribute selectors outrank either mode's own block, whatever the
+ * block order.
+ */
+function getAxisColorSelector(
+	colorSelector: string,
+	axisSelector: string,
+	separator = ',\n'
+): string {
+	return [
+		`${colorSelector}${axisSelector}`,
+		`${colorSelector} ${axisSelector}`,
+		`${axisSelector} ${colorSelector}`,
+	].join(separator);
+}
+
+/**
+ * The value CSS declares: mix variants follow their colors through `color-mix()`
+ */
+function cssValue(token: TokenValue): string {
+	return token.metadata?.colorMix ?? token.value;
+}
+
+/**
+ * Declare nested radii as their `max()` expressions. Each mode block keeps the
+ * radii it overrides, since var() resolves where the property is declared.
+ */
+function withNestedRadiusExpressions(ir: IR): IR {
+	const expression = (tokens: Record<string, TokenValue>) =>
+		mapTokens(tokens, (_, token) =>
+			token.metadata?.radiusExpression
+				? { ...token, value: token.metadata.radiusExpression }
+				: token
+		);
+	const byKey = <T>(records: Record<string, T>, map: (value: T) => T) =>
+		Object.fromEntries(Object.entries(records).map(([key, value]) => [key, map(value)]));
+	return {
+		...ir,
+		tokens: expression(ir.tokens),
+		overrideTokens: byKey(ir.overrideTokens, expression),
+		mediaOverrides: byKey(ir.mediaOverrides, expression),
+	};
+}
+
 /**
  * Format tokens as CSS variable declarations
  */
@@ -124,12 +231,179 @@ function formatTokensAsCss(tokens: Record<string, TokenValue>): string[] {
 	const lines: string[] = [];
 
 	for (const [name, token] of Object.entries(tokens)) {
-		lines.push(`  --${name}: ${token.value};`);
+		lines.push(`  --${name}: ${cssValue(token)};`);
 	}
 
 	return lines;
 }
 
+/**
+ * Resolve the color mode pair folded into `light-dark()` values: the default
+ * mode and the one mode of opposite polarity.
+ */
+function getLightDarkPair(ir: IR): { partner: string; schemes: Record<string, ColorScheme> } {
+	const { default: defaultMode, overrides, polarities = {} } = ir.modes.color;
+	const modes = [defaultMode, ...overrides];
+	const dark = modes.filter((mode) => polarities[mode] === 'negative');
+	const light = modes.filter((mode) => polarities[mode] === 'positive');
+	if (dark.length !== 1 || light.length !== 1) {
+		throw new Error(
+			'light-dark() color output requires exactly one negative- and one positive-polarity color mode'
+		);
+	}
+	if (dark[0] !== defaultMode && light[0] !== defaultMode) {
+		throw new Error(
+			`light-dark() color output requires the default color mode "${defaultMode}" to have a polarity`
+		);
+	}
+	return {
+		partner: dark[0] === defaultMode ? light[0]! : dark[0]!,
+		schemes: { [dark[0]!]: 'dark', [light[0]!]: 'light' },
+	};
+}
+
+/**
+ * Fold the partner mode's color overrides into the default tokens as
+ * `light-dark()` values. Tokens both modes resolve identically stay plain.
+ */
+function foldLightDarkTokens(
+	ir: IR,
+	partner: string,
+	schemes: Record<string, ColorScheme>
+): Record<string, TokenValue> {
+	const overrides = ir.overrideTokens[partner] ?? {};
+	const partnerIsLight = schemes[partner] === 'light';
+	for (const name of Object.keys(overrides)) {
+		if (!ir.tokens[name]) {
+			throw new Error(
+				`light-dark() color output cannot fold "--${name}": color mode "${partner}" declares it but the default mode does not`
+			);
+		}
+	}
+	return foldLightDarkValues(ir.tokens, overrides, partnerIsLight);
+}
+
+/** Pair each token with the partner's value for the same name as `light-dark()`. */
+function foldLightDarkValues(
+	tokens: Record<string, TokenValue>,
+	overrides: Record<string, TokenValue>,
+	partnerIsLight: boolean
+): Record<string, TokenValue> {
+	return Object.fromEntries(
+		Object.entries(tokens).map(([name, token]) => {
+			const override = overrides[name];
+			if (!override || cssValue(override) === cssValue(token)) return [name, token];
+			const [light, dark] = partnerIsLight
+				? [cssValue(override), cssValue(token)]
+				: [cssValue(token), cssValue(override)];
+			return [name, { ...token, value: `light-dark(${light}, ${dark})` }];
+		})
+	);
+}
+
+function mapTokens(
+	tokens: Record<string, TokenValue>,
+	map: (name: string, token: TokenValue) => TokenValue | undefined
+): Record<string, TokenValue> {
+	return Object.fromEntries(
+		Object.entries(tokens).flatMap(([name, token]) => {
+			const mapped = map(name, token);
+			return mapped ? [[name, mapped]] : [];
+		})
+	);
+}
+
+/**
+ * Rewrite color alpha variants as relative colors over their base token. Mode
+ * and media overrides drop variants whose alpha matches the root's, since the
+ * relative root variant already follows their base colors.
+ */
+function withRelativeAlphaVariants(ir: IR): IR {
+	const baseTokens = new Map<string, string>();
+	for (const tokens of [ir.tokens, ...Object.values(ir.overrideTokens)]) {
+		for (const [name, token] of Object.entries(tokens)) {
+			const { baseColor, isAlphaVariant, surfaceColor } = token.metadata ?? {};
+			if (baseColor && !isAlphaVariant && !surfaceColor) baseTokens.set(baseColor, name);
+		}
+	}
+	const relative = (token: TokenValue): TokenValue => {
+		if (!token.metadata?.isAlphaVariant) return token;
+		const base = baseTokens.get(token.metadata.baseColor!);
+		return { ...token, value: `oklch(from var(--${base}) l c h / ${token.rawValue})` };
+	};
+	const overrides = (tokens: Record<string, TokenValue>) =>
+		mapTokens(tokens, (name, token) =>
+			token.metadata?.isAlphaVariant && ir.tokens[name]?.rawValue === token.rawValue
+				? undefined
+				: relative(token)
+		);
+	return {
+		...ir,
+		tokens: mapTokens(ir.tokens, (_, token) => relative(token)),
+		overrideTokens: Object.fromEntries(
+			Object.entries(ir.overrideTokens).map(([mode, tokens]) => [mode, overrides(tokens)])
+		),
+		mediaOverrides: Object.fromEntries(
+			Object.entries(ir.mediaOverrides).map(([condition, tokens]) => [condition, overrides(tokens)])
+		),
+		...(ir.modeMediaOverrides
+			? {
+					modeMediaOverrides: Object.fromEntries(
+						Object.entries(ir.modeMediaOverrides).map(([mode, refinements]) => [
+							mode,
+							Object.fromEntries(
+								Object.entries(refinements).map(([condition, tokens]) => [
+									condition,
+									overrides(tokens),
+								])
+							),
+						])
+					),
+				}
+			: {}),
+	};
+}
+
+/**
+ * Fold the default mode's and partner mode's refinements under one preference
+ * into `light-dark()` values. A color only one of them refines keeps the other
+ * side's value.
+ */
+function foldLightDarkRefinement(
+	ir: IR,
+	condition: string,
+	partner: string,
+	schemes: Record<string, ColorScheme>
+): Record<string, TokenValue> {
+	const own = ir.mediaOverrides[condition] ?? {};
+	const partnerOwn = ir.modeMediaOverrides?.[partner]?.[condition] ?? {};
+	const partnerIsLight = schemes[partner] === 'light';
+	return Object.fromEntries(
+		[...new Set([...Object.keys(own), ...Object.keys(partnerOwn)])].map((name) => {
+			const token = own[name] ?? ir.tokens[name]!;
+			const override = partnerOwn[name] ?? ir.overrideTokens[partner]?.[name] ?? token;
+			if (cssValue(override) === cssValue(token)) return [name, token];
+			const [light, dark] = partnerIsLight
+				? [cssValue(override), cssValue(token)]
+				: [cssValue(token), cssValue(override)];
+			return [name, { ...token, value: `light-dark(${light}, ${dark})` }];
+		})
+	);
+}
+
+/**
+ * Wrap declarations in a media block around one selector
+ */
+function mediaBlock(
+	condition: string,
+	selector: string,
+	tokens: Record<string, TokenValue>
+): string {
+	return `@media ${condition} {\n  ${selector} {\n${formatTokensAsCss(tokens)
+		.map((line) => `  ${line}`)
+		.join('\n')}\n  }\n}`;
+}
+
 /**
  * Generate file header if configured
  */
@@ -152,8 +426,11 @@ function generateHeader(fileHeaderConfig: FileHeaderConfig | false | undefined):
 /**
  * Transform IR to CSS string
  */
-export function toCss(ir: IR, userConfig?: Partial<CssTransformerConfig>): string {
+export function toCss(source: IR, userConfig?: Partial<CssTransformerConfig>): string {
 	const config = mergeConfig(userConfig);
+	const relativeAlpha = config.alphaVariants === 'relative';
+	const radiusSource = config.nestedRadii === 'calc' ? withNestedRadiusExpressions(source) : source;
+	const ir = relativeAlpha ? withRelativeAlphaVariants(radiusSource) : radiusSource;
 	const blocks: string[] = [];
 
 	// Add file header if configured
@@ -162,34 +439,164 @@ export function toCss(ir: IR, userConfig?: Partial<CssTransformerConfig>): strin
 		blocks.push(header.trimEnd()); // Remove trailing newlines, we'll add separator
 	}
 
+	// Media queries cannot read custom properties, so viewport breakpoints are
+	// also declared as custom media for PostCSS and future native support.
+	const customMedia = Object.values(ir.breakpoints?.viewport ?? {}).map(
+		(breakpoint) => `@custom-media ${breakpoint.customMedia} ${breakpoint.query};`
+	);
+	if (customMedia.length > 0) {
+		blocks.push(customMedia.join('\n'));
+	}
+
+	const lightDark =
+		config.colorModes === 'light-dark' && ir.modes.color.default ? getLightDarkPair(ir) : undefined;
+	const partnerCondition = lightDark && ir.modes.color.mediaConditions?.[lightDark.partner];
+
 	// Generate :root block with all default tokens
-	const rootVars = formatTokensAsCss(ir.tokens);
+	const rootTokens = lightDark
+		? foldLightDarkTokens(ir, lightDark.partner, lightDark.schemes)
+		: ir.tokens;
+	const alphaTokens = relativeAlpha
+		? mapTokens(rootTokens, (_, token) => (token.metadata?.isAlphaVariant ? token : undefined))
+		: {};
+	const rootVars = [
+		// A scheme-bound partner follows the OS through color-scheme instead of @media.
+		...(lightDark
+			? [
+					`  color-scheme: ${
+						partnerCondition ? 'light dark' : lightDark.schemes[ir.modes.color.default]
+					};`,
+				]
+			: []),
+		...formatTokensAsCss(
+			mapTokens(rootTokens, (name, token) => (alphaTokens[name] ? undefined : token))
+		),
+	];
 	blocks.push(`${config.selectors.root} {\n${rootVars.join('\n')}\n}`);
 
-	// Generate override blocks for each mode
-	for (const [modeName, tokens] of Object.entries(ir.overrideTokens)) {
+	// var() resolves where a custom property is declared, so relative variants are
+	// declared on every color mode selector to follow the base colors in a subtree.
+	if (Object.keys(alphaTokens).length > 0) {
+		const selectors = [
+			config.selectors.root,
+			...ir.modes.color.overrides.map((modeName) => getSelectorForMode(modeName, 'color', config)),
+			...Object.values(ir.modes.axes ?? {})
+				.filter((axis) => axis.families.includes('colors'))
+				.flatMap((axis) => axis.overrides.map((modeName) => getAxisSelectorForMode(modeName, ir)!)),
+		];
+		blocks.push(`${selectors.join(',\n')} {\n${formatTokensAsCss(alphaTokens).join('\n')}\n}`);
+	}
+
+	// Explicit mode attributes still work: they pin color-scheme for their subtree.
+	if (lightDark) {
+		for (const [modeName, scheme] of Object.entries(lightDark.schemes)) {
+			const selector = getSelectorForMode(modeName, 'color', config);
+			blocks.push(`${selector} {\n  color-scheme: ${scheme};\n}`);
+		}
+	}
+
+	// Generate override blocks for each mode, each followed by its preference refinements
+	const modeNames = new Set([
+		...Object.keys(ir.overrideTokens),
+		...Object.keys(ir.modeMediaOverrides ?? {}),
+	]);
+	for (const modeName of modeNames) {
 		const category = getModeCategory(modeName, ir);
+		const axisColors = category ? undefined : ir.axisColorOverrides?.[modeName];
+		// light-dark() folds the partner's combination into the axis block itself.
+		const partnerColors = lightDark && axisColors?.[lightDark.partner];
+		const tokens = partnerColors
+			? foldLightDarkValues(
+					ir.overrideTokens[modeName] ?? {},
+					partnerColors,
+					lightDark.schemes[lightDark.partner] === 'light'
+				)
+			: (ir.overrideTokens[modeName] ?? {});
+		const selector = category
+			? getSelectorForMode(modeName, category, config)
+			: getAxisSelectorForMode(modeName, ir);
 
-		if (!category) {
-			// Skip modes we can't categorize
+		if (!selector || modeName === lightDark?.partner) {
+			// Skip modes we can't categorize, and the partner already folded into :root
 			continue;
 		}
 
-		const selector = getSelectorForMode(modeName, category, config);
 		const modeVars = formatTokensAsCss(tokens);
 
 		if (modeVars.length > 0) {
 			blocks.push(`${selector} {\n${modeVars.join('\n')}\n}`);
 		}
+		for (const [condition, refinement] of Object.entries(ir.modeMediaOverrides?.[modeName] ?? {})) {
+			blocks.push(mediaBlock(condition, selector, refinement));
+		}
+		for (const [colorMode, colorTokens] of Object.entries(axisColors ?? {})) {
+			if (colorMode === lightDark?.partner) continue;
+			const colorSelector = getSelectorForMode(colorMode, 'color', config);
+			blocks.push(
+				`${getAxisColorSelector(colorSelector, selector)} {\n${formatTokensAsCss(colorTokens).join('\n')}\n}`
+			);
+			const condition = ir.modes.color.mediaConditions?.[colorMode];
+			if (condition) {
+				const schemeSelector = getAxisColorSelector(
+					config.selectors.colorSchemeRoot,
+					selector,
+					',\n  '
+				);
+				blocks.push(mediaBlock(condition, schemeSelector, colorTokens));
+			}
+		}
 	}
 
+	// The default mode's refinements skip explicitly chosen override modes, whose
+	// own refinements re-declare every color they inherit.
+	const refinementConditions = new Set(ir.modes.color.refinementConditions ?? []);
+	const defaultRefinementSelector = [
+		config.selectors.colorSchemeRoot,
+		getSelectorForMode(ir.modes.color.default, 'color', config),
+	].join(',\n  ');
+	const schemeModes = new Map(
+		Object.entries(ir.modes.color.mediaConditions ?? {}).map(([modeName, condition]) => [
+			condition,
+			modeName,
+		])
+	);
+	const sizeConditions = new Set(Object.values(ir.modes.size.mediaConditions ?? {}));
 	for (const [condition, tokens] of Object.entries(ir.mediaOverrides)) {
-		const mediaVars = formatTokensAsCss(tokens);
-		if (mediaVars.length > 0) {
+		if (condition === partnerCondition || (lightDark && refinementConditions.has(condition))) {
+			continue;
+		}
+		const schemeMode = schemeModes.get(condition);
+		const selector = schemeMode
+			? config.selectors.colorSchemeRoot
+			: sizeConditions.has(condition)
+				? config.selectors.sizeMediaRoot
+				: refinementConditions.has(condition)
+					? defaultRefinementSelector
+					: config.selectors.root;
+		if (Object.keys(tokens).length > 0) {
+			blocks.push(mediaBlock(condition, selector, tokens));
+		}
+		for (const [refinementCondition, refinement] of Object.entries(
+			(schemeMode && ir.modeMediaOverrides?.[schemeMode]) || {}
+		)) {
+			blocks.push(
+				mediaBlock(
+					`${condition} and ${refinementCondition}`,
+					config.selectors.colorSchemeRoot,
+					refinement
+				)
+			);
+		}
+	}
+	// light-dark() values already follow color-scheme, so both modes share one refinement.
+	if (lightDark) {
+		for (const condition of refinementConditions) {
 			blocks.push(
-				`@media ${condition} {\n  ${config.selectors.root} {\n${mediaVars
-					.map((line) => `  ${line}`)
-					.join('\n')}\n  }\n}`
+				mediaBlock(
+					condition,
+					config.selectors.root,
+					foldLightDarkRefinement(ir, condition, lightDark.partner, lightDark.schemes)
+				)
 			);
 		}
 	}
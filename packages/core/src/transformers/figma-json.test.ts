@@ -79,6 +79,292 @@ describe('toFigmaJson', () => {
 		expect(extension.modes.dark.hex).toBe('#ffffff');
 	});
 
+	it('describes flattened alpha tokens as opaque colors over their surface', () => {
+		const output = JSON.parse(
+			toFigmaJson(
+				generate(
+					{
+						colors: {
+							...colors.colors!,
+							modes: [
+								{
+									...colors.colors!.modes[0]!,
+									tokens: {
+										...colors.colors!.modes[0]!.tokens,
+										bg: { mode: 'oklch', l: 1, c: 0, h: 0 },
+									},
+								},
+								colors.colors!.modes[1]!,
+							],
+							flattenAlpha: { surfaces: ['bg'] },
+						},
+					},
+					{ colorFormat: { base: 'hex', alpha: 'hexa', alphaModifier: 'a' } }
+				)
+			)
+		);
+		const entry = output.color['clr-ink-a-half-on-bg'];
+
+		expect(entry.$value.alpha).toBeUndefined();
+		for (const component of entry.$value.components) expect(component).toBeCloseTo(0.5, 2);
+		expect(entry.$description).toBe('ink (alpha: half, flattened over bg)');
+		expect(entry.$extensions['com.three-forma-styli']).toMatchObject({
+			flattened: { baseColor: 'ink', alphaLevel: 'half', surfaceColor: 'bg' },
+			modes: { dark: { hex: '#ffffff' } },
+		});
+		expect(validatesDtcg(output)).toBe(true);
+	});
+
+	it('exports mix variants as precomputed colors per mode', () => {
+		const output = JSON.parse(
+			toFigmaJson(
+				generate(
+					{
+						colors: {
+							...colors.colors!,
+							modes: [
+								{
+									...colors.colors!.modes[0]!,
+									tokens: {
+										...colors.colors!.modes[0]!.tokens,
+										bg: { mode: 'oklch', l: 1, c: 0, h: 0 },
+									},
+								},
+								colors.colors!.modes[1]!,
+							],
+							mixSchedule: { surface: 'bg', levels: { half: 0.5 } },
+						},
+					},
+					{ colorFormat: { base: 'hex', alpha: 'hexa' } }
+				)
+			)
+		);
+		const entry = output.color['clr-ink-mix-half'];
+
+		expect(entry.$value.alpha).toBeUndefined();
+		expect(entry.$description).toBe('ink (mix: half, toward bg)');
+		expect(entry.$extensions['com.three-forma-styli']).toMatchObject({
+			mixed: { baseColor: 'ink', mixLevel: 'half', surfaceColor: 'bg' },
+			modes: { dark: { hex: '#ffffff' } },
+		});
+		expect(validatesDtcg(output)).toBe(true);
+	});
+
+	it('exports state colors and their overlays with the state they belong to', () => {
+		const output = JSON.parse(
+			toFigmaJson(
+				generate(
+					{
+						colors: {
+							...colors.colors!,
+							modes: [
+								{
+									...colors.colors!.modes[0]!,
+									tokens: {
+										...colors.colors!.modes[0]!.tokens,
+										bg: { mode: 'oklch', l: 1, c: 0, h: 0 },
+									},
+								},
+								colors.colors!.modes[1]!,
+							],
+							states: { overlays: { ink: 'bg' }, levels: { hover: 0.1 } },
+						},
+					},
+					{ colorFormat: { base: 'hex', alpha: 'hexa' } }
+				)
+			)
+		);
+
+		expect(output.color['clr-ink-state-hover'].$description).toBe(
+			'ink (state: hover, bg overlaid)'
+		);
+		expect(output.color['clr-ink-state-hover-layer'].$description).toBe(
+			'bg (state: hover, layer over ink)'
+		);
+		expect(output.color['clr-ink-state-hover'].$extensions['com.three-forma-styli'].state).toEqual({
+			stateColor: 'ink',
+			stateLevel: 'hover',
+			stateOverlay: 'bg',
+		});
+		expect(validatesDtcg(output)).toBe(true);
+	});
+
+	it('exports mode axes beside color modes and as their own Figma collection', () => {
+		const ir = generate(
+			{
+				colors: {
+					...colors.colors!,
+					modes: [
+						...colors.colors!.modes,
+						{ name: 'zest', tokens: { ink: { mode: 'oklch', l: 0.5, c: 0, h: 0 } } },
+					],
+				},
+				modeAxes: { brand: { default: 'acme', families: ['colors'], modes: ['zest'] } },
+			},
+			{ colorFormat: { base: 'hex', alpha: 'hexa' } }
+		);
+		const dtcg = JSON.parse(toFigmaJson(ir));
+		const extension = dtcg.color['clr-ink'].$extensions['com.three-forma-styli'];
+
+		expect(Object.keys(extension.modes)).toEqual(['light', 'dark']);
+		expect(extension.axes.brand).toEqual({
+			acme: expect.objectContaining({ hex: '#000000' }),
+			zest: expect.objectContaining({ hex: '#636363' }),
+		});
+		expect(validatesDtcg(dtcg)).toBe(true);
+
+		const { collections } = JSON.parse(toFigmaJson(ir, {}, 'figma-variables'));
+		expect(collections.map((collection: { name: string }) => collection.name)).toEqual([
+			'Color',
+			'Color brand',
+		]);
+		expect(collections[1]).toMatchObject({ defaultMode: 'acme', modes: ['acme', 'zest'] });
+		expect(collections[1].variables.map((variable: { name: string }) => variable.name)).toEqual([
+			'clr-ink',
+			'clr-ink-a-half',
+		]);
+	});
+
+	it('exports axis-mode colors resolved over each color mode they depend on', () => {
+		const color = (l: number, c = 0, h = 0) => ({ mode: 'oklch' as const, l, c, h });
+		const system = (light: Record<string, ReturnType<typeof color>>): PartialDesignSystem => ({
+			colors: {
+				alphaSchedule: { min: 0.07 },
+				flattenAlpha: { surfaces: ['bg'] },
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { bg: color(0.2), pri: color(0.6, 0.1, 250) },
+					},
+					{ name: 'light', tokens: light },
+					{ name: 'acme', tokens: { pri: color(0.55, 0.2, 30) } },
+				],
+			},
+			modeAxes: { brand: { default: 'house', families: ['colors'], modes: ['acme'] } },
+		});
+		const format = { colorFormat: { base: 'hex', alpha: 'hexa' } } as const;
+		const ir = generate(system({ bg: color(0.95) }), format);
+		// The same brand authored directly into light mode is the expected combined value.
+		const expected = generate(system({ bg: color(0.95), pri: color(0.55, 0.2, 30) }), format)
+			.overrideTokens.light!['clr-pri-a-min-on-bg']!.value;
+		const overDefault = ir.overrideTokens.acme!['clr-pri-a-min-on-bg']!.value;
+		expect(expected).not.toBe(overDefault);
+
+		const dtcg = JSON.parse(toFigmaJson(ir));
+		const extension = dtcg.color['clr-pri-a-min-on-bg'].$extensions['com.three-forma-styli'];
+		expect(extension.axes.brand.acme.hex).toBe(overDefault);
+		expect(extension.axisColorModes).toEqual({
+			brand: { acme: { light: expect.objectContaining({ hex: expected }) } },
+		});
+		expect(dtcg.color['clr-pri'].$extensions['com.three-forma-styli']).not.toHaveProperty(
+			'axisColorModes'
+		);
+		expect(validatesDtcg(dtcg)).toBe(true);
+
+		const { collections } = JSON.parse(toFigmaJson(ir, format, 'figma-variables'));
+		const brand = collections.find(
+			(collection: { name: string }) => collection.name === 'Color brand'
+		);
+		const values = (name: string) =>
+			brand.variables.find((variable: { name: string }) => variable.name === name).values;
+		expect(brand.modes).toEqual(['house', 'acme', 'acme / light']);
+		expect(values('clr-pri-a-min-on-bg').acme.hex).toBe(overDefault);
+		expect(values('clr-pri-a-min-on-bg')['acme / light'].hex).toBe(expected);
+		expect(values('clr-pri')['acme / light'].hex).toBe(ir.overrideTokens.acme!['clr-pri']!.value);
+	});
+
+	it('exports semantic colors as DTCG aliases and resolved Figma values', () => {
+		const ir = generate(
+			{
+				colors: {
+					...colors.colors!,
+					semantic: {
+						'text-muted': { color: 'ink', alpha: 'half', modes: { dark: { color: 'ink' } } },
+					},
+				},
+			},
+			{ colorFormat: { base: 'hex', alpha: 'hexa', alphaModifier: 'a' } }
+		);
+		const dtcg = JSON.parse(toFigmaJson(ir, { collectionName: 'Brand' }));
+
+		expect(dtcg.color['clr-text-muted']).toEqual({
+			$value: '{color.clr-ink-a-half}',
+			$extensions: {
+				'com.three-forma-styli': {
+					collection: 'Brand',
+					modes: { light: '{color.clr-ink-a-half}', dark: '{color.clr-ink}' },
+				},
+			},
+		});
+		expect(validatesDtcg(dtcg)).toBe(true);
+
+		const figma = JSON.parse(toFigmaJson(ir, {}, 'figma-variables'));
+		const muted = figma.collections[0].variables.find(
+			(variable: { name: string }) => variable.name === 'clr-text-muted'
+		);
+		expect(muted.values.light.hex).toBe('#00000080');
+		expect(muted.values.dark.hex).toBe('#ffffff');
+	});
+
+	it('resolves semantic aliases to colors only their override mode authors', () => {
+		const ir = generate(
+			{
+				colors: {
+					...colors.colors!,
+					modes: [
+						colors.colors!.modes[0]!,
+						{
+							name: 'dark',
+							alphaSchedule: { hi: 0.75 },
+							tokens: {
+								ink: { mode: 'oklch', l: 1, c: 0, h: 0 },
+								accent: { mode: 'oklch', l: 0.7, c: 0.15, h: 250 },
+							},
+						},
+					],
+					semantic: {
+						'text-link': { color: 'ink', modes: { dark: { color: 'accent', alpha: 'hi' } } },
+					},
+				},
+			},
+			{ colorFormat: { base: 'hex', alpha: 'hexa', alphaModifier: 'a' } }
+		);
+		const target = ir.overrideTokens.dark!['clr-accent-a-hi']!.value;
+
+		const dtcg = JSON.parse(toFigmaJson(ir));
+		expect(dtcg.color['clr-text-link'].$extensions['com.three-forma-styli'].modes).toEqual({
+			light: '{color.clr-ink}',
+			dark: expect.objectContaining({ hex: target.slice(0, 7), alpha: 0.74902 }),
+		});
+		expect(validatesDtcg(dtcg)).toBe(true);
+
+		const figma = JSON.parse(toFigmaJson(ir, {}, 'figma-variables'));
+		const link = figma.collections[0].variables.find(
+			(variable: { name: string }) => variable.name === 'clr-text-link'
+		);
+		expect(link.values.dark.hex).toBe(target);
+	});
+
+	it('emits fully resolved values for color modes that extend another override', () => {
+		const ir = generate(
+			{
+				colors: {
+					alphaSchedule: { half: 0.5 },
+					modes: [...colors.colors!.modes, { name: 'dark-dim', extends: 'dark', tokens: {} }],
+				},
+			},
+			{ colorFormat: { base: 'hex', alpha: 'hexa', alphaModifier: 'a' } }
+		);
+		const figma = JSON.parse(toFigmaJson(ir, {}, 'figma-variables'));
+		const values = (name: string) =>
+			figma.collections[0].variables.find((variable: { name: string }) => variable.name === name)
+				.values;
+
+		expect(values('clr-ink')['dark-dim'].hex).toBe('#ffffff');
+		expect(values('clr-ink-a-half')['dark-dim'].hex).toBe('#ffffff80');
+	});
+
 	it('emits layered box/text recipes as DTCG shadow composites', () => {
 		const system: PartialDesignSystem = {
 			...colors,
@@ -195,6 +481,102 @@ describe('toFigmaJson', () => {
 		expect(output.dimension['sp-2'].$value).toEqual({ value: 16, unit: 'px' });
 	});
 
+	it('keeps the narrow-viewport step as a fluid dimension value and records both bounds', () => {
+		const fluid = generate({
+			spacing: {
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { unit: 'px', base: 8, min: 4, range: 2 },
+						fluid: { minViewport: 360, maxViewport: 1280, tokens: { base: 12 } },
+					},
+				],
+			},
+		});
+
+		const output = JSON.parse(toFigmaJson(fluid));
+		expect(output.dimension['sp-1']).toEqual({
+			$value: { value: 8, unit: 'px' },
+			$extensions: {
+				'com.three-forma-styli': {
+					fluid: {
+						minViewport: { value: 360, unit: 'px' },
+						maxViewport: { value: 1280, unit: 'px' },
+						min: { value: 8, unit: 'px' },
+						max: { value: 12, unit: 'px' },
+						css: 'clamp(8px, 6.4348px + 0.4348vw, 12px)',
+					},
+				},
+			},
+		});
+		expect(output.dimension['sp-min']).not.toHaveProperty('$extensions');
+	});
+
+	it('exports sizing tokens as dimensions with their size-mode values', () => {
+		const sizing = generate({
+			spacing: {
+				modes: [
+					{ name: 'default', isDefault: true, tokens: { unit: 'px', base: 8, min: 4, range: 4 } },
+					{ name: 'touch', tokens: { unit: 'px', base: 11, min: 6, range: 4 } },
+				],
+			},
+			typography: {
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { unit: 'rem', base: 1, min: 0.75, increment: 0.25, range: 2 },
+					},
+				],
+			},
+			sizing: {
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { sizes: { 'icon-s': { fontSize: 1 }, 'control-m': { spacing: 4 } } },
+					},
+					{ name: 'touch', tokens: { sizes: { 'control-m': { spacing: 4 } } } },
+				],
+			},
+		});
+
+		const output = JSON.parse(toFigmaJson(sizing));
+		expect(output.dimension['size-icon-s'].$value).toEqual({ value: 1, unit: 'rem' });
+		expect(output.dimension['size-control-m']).toEqual({
+			$value: { value: 32, unit: 'px' },
+			$extensions: {
+				'com.three-forma-styli': {
+					modes: { default: { value: 32, unit: 'px' }, touch: { value: 44, unit: 'px' } },
+				},
+			},
+		});
+		expect(validatesDtcg(output), JSON.stringify(validatesDtcg.errors)).toBe(true);
+	});
+
+	it('fails rather than silently dropping a sizing token in a non-DTCG unit', () => {
+		const ir = generate({
+			typography: {
+				modes: [
+					{
+						name: 'default',
+						isDefault: true,
+						tokens: { unit: 'em', base: 1, min: 0.75, increment: 0.25, range: 2 },
+					},
+				],
+			},
+			sizing: {
+				modes: [
+					{ name: 'default', isDefault: true, tokens: { sizes: { 'icon-s': { fontSize: 1 } } } },
+				],
+			},
+		});
+		expect(() => toFigmaJson(ir)).toThrow(
+			'Token --size-icon-s uses CSS unit "em", but DTCG 2025.10 dimensions support only px and rem'
+		);
+	});
+
 	it('exports durations, easing curves, transitions, and semantic typography composites', () => {
 		const ir = generate({
 			typography: {
@@ -6,6 +6,7 @@
  */
 
 import type { IR, TokenValue } from '../generator/types.js';
+import { breakpointQuery } from '../generator/breakpoints.js';
 import type { FileHeaderInfo } from '../header.js';
 import { getHeaderLines } from '../header.js';
 
@@ -132,6 +133,19 @@ function dtcgDimension(value: number, unit: string, context: string): DtcgDimens
 	return { value, unit };
 }
 
+/** A fluid step's bounds: `$value` carries `min`, the step at `minViewport` and below. */
+function dtcgFluid(token: TokenValue, context: string): Record<string, unknown> | undefined {
+	const fluid = token.metadata?.fluid;
+	if (!fluid) return undefined;
+	return {
+		minViewport: { value: fluid.minViewport, unit: 'px' },
+		maxViewport: { value: fluid.maxViewport, unit: 'px' },
+		min: dtcgDimension(fluid.min, token.unit!, context),
+		max: dtcgDimension(fluid.max, token.unit!, context),
+		css: token.value,
+	};
+}
+
 function dtcgDuration(value: number, unit: string, context: string): DtcgDuration {
 	if (unit !== 'ms' && unit !== 's') {
 		throw new Error(
@@ -141,18 +155,66 @@ function dtcgDuration(value: number, unit: string, context: string): DtcgDuratio
 	return { value, unit };
 }
 
+function isAxisMode(ir: IR, modeName: string): boolean {
+	return Object.values(ir.modes.axes ?? {}).some((axis) => axis.overrides.includes(modeName));
+}
+
 function tokenModeValues(
 	ir: IR,
 	token: TokenValue,
 	map: (candidate: TokenValue) => unknown
 ): Record<string, unknown> | undefined {
 	const values = Object.entries(ir.overrideTokens)
-		.filter(([, tokens]) => tokens[token.name])
-		.map(([modeName, tokens]) => [modeName, map(tokens[token.name]!)]);
+		.filter(([modeName, tokens]) => tokens[token.name] && !isAxisMode(ir, modeName))
+		.map(([modeName, tokens]) => [modeName, map(tokens[token.name]!)])
+		.filter(([, value]) => value !== undefined);
 	if (values.length === 0) return undefined;
 	return Object.fromEntries([[ir.modes.size.default || 'default', map(token)], ...values]);
 }
 
+/** Values by mode for every declared mode axis with a member that overrides the token. */
+function tokenAxisValues(
+	ir: IR,
+	token: TokenValue,
+	map: (candidate: TokenValue) => unknown
+): Record<string, Record<string, unknown>> | undefined {
+	const axes = Object.entries(ir.modes.axes ?? {}).flatMap(([axisName, axis]) => {
+		const values = axis.overrides
+			.filter((modeName) => ir.overrideTokens[modeName]?.[token.name])
+			.map((modeName) => [modeName, map(ir.overrideTokens[modeName]![token.name]!)])
+			.filter(([, value]) => value !== undefined);
+		return values.length === 0
+			? []
+			: [[axisName, Object.fromEntries([[axis.default, map(token)], ...values])]];
+	});
+	return axes.length === 0 ? undefined : Object.fromEntries(axes);
+}
+
+/**
+ * Values where an axis member and a color mode both apply, by axis, member and
+ * color mode, for the derived colors that depend on both.
+ */
+function tokenAxisColorValues(
+	ir: IR,
+	token: TokenValue,
+	map: (candidate: TokenValue) => unknown
+): Record<string, Record<string, Record<string, unknown>>> | undefined {
+	const axes = Object.entries(ir.modes.axes ?? {}).flatMap(([axisName, axis]) => {
+		const members = axis.overrides.flatMap((modeName) => {
+			const values = Object.entries(ir.axisColorOverrides?.[modeName] ?? {})
+				.filter(([, tokens]) => tokens[token.name])
+				.map(([colorMode, tokens]) => [colorMode, map(tokens[token.name]!)]);
+			return values.length === 0 ? [] : [[modeName, Object.fromEntries(values)]];
+		});
+		return members.length === 0 ? [] : [[axisName, Object.fromEntries(members)]];
+	});
+	return axes.length === 0 ? undefined : Object.fromEntries(axes);
+}
+
+/**
+ * The token's `$extensions` entry. Mode values `map` returns as `undefined`
+ * have no DTCG form and are left out.
+ */
 function tokenExtension(
 	ir: IR,
 	token: TokenValue,
@@ -160,8 +222,11 @@ function tokenExtension(
 	extra?: Record<string, unknown>
 ): Record<string, unknown> | undefined {
 	const modes = tokenModeValues(ir, token, map);
-	if (!modes && !extra) return undefined;
-	return { [EXTENSION_KEY]: { ...(modes ? { modes } : {}), ...extra } };
+	const axes = tokenAxisValues(ir, token, map);
+	if (!modes && !axes && !extra) return undefined;
+	return {
+		[EXTENSION_KEY]: { ...(modes ? { modes } : {}), ...(axes ? { axes } : {}), ...extra },
+	};
 }
 
 function rawToken(ir: IR, name: string, mode?: string): TokenValue {
@@ -208,6 +273,7 @@ function typographyComposite(
 	const font = typography.fonts[role.font]!;
 	const optionalTokenValue = (name?: string): string | undefined =>
 		name ? rawToken(ir, name, mode).value : undefined;
+	const fluidFontSize = dtcgFluid(fontSize, `${roleName}/${variantName}`);
 
 	return {
 		value: {
@@ -226,6 +292,7 @@ function typographyComposite(
 			variant: variantName,
 			fontStyle,
 			letterSpacingEm,
+			...(fluidFontSize ? { fluidFontSize } : {}),
 			...(optionalTokenValue(recipe.textTransformToken)
 				? { textTransform: optionalTokenValue(recipe.textTransformToken) }
 				: {}),
@@ -245,11 +312,64 @@ function typographyComposite(
 	};
 }
 
-function getModeValue(ir: IR, token: TokenValue, modeName: string, defaultMode: string): string {
+function getModeToken(
+	ir: IR,
+	token: TokenValue,
+	modeName: string,
+	defaultMode: string
+): TokenValue {
 	if (modeName === defaultMode) {
-		return token.value;
+		return token;
 	}
-	return ir.overrideTokens[modeName]?.[token.name]?.value ?? token.value;
+	return ir.overrideTokens[modeName]?.[token.name] ?? token;
+}
+
+function getModeValue(ir: IR, token: TokenValue, modeName: string, defaultMode: string): string {
+	return getModeToken(ir, token, modeName, defaultMode).value;
+}
+
+/** Follow a semantic alias to the concrete color value it resolves to in a mode. */
+function getResolvedColorValue(
+	ir: IR,
+	token: TokenValue,
+	modeName: string,
+	defaultMode: string
+): string {
+	const modeToken = getModeToken(ir, token, modeName, defaultMode);
+	if (!modeToken.metadata?.semanticColor) return modeToken.value;
+	return getAliasTarget(ir, modeToken.reference!, modeName, defaultMode)?.value ?? modeToken.value;
+}
+
+/** Follow a color where an axis member layers over a color mode, as the CSS cascade does. */
+function getAxisColorValue(
+	ir: IR,
+	token: TokenValue,
+	axisMode: string,
+	colorMode: string,
+	defaultMode: string
+): string {
+	const layered = (name: string) =>
+		ir.axisColorOverrides?.[axisMode]?.[colorMode]?.[name] ?? ir.overrideTokens[axisMode]?.[name];
+	const modeToken = layered(token.name) ?? getModeToken(ir, token, colorMode, defaultMode);
+	if (!modeToken.metadata?.semanticColor) return modeToken.value;
+	const reference = modeToken.reference!;
+	return (
+		(layered(reference) ?? getAliasTarget(ir, reference, colorMode, defaultMode))?.value ??
+		modeToken.value
+	);
+}
+
+/** A semantic alias target in a mode, which may be a color only that mode authors. */
+function getAliasTarget(
+	ir: IR,
+	reference: string,
+	modeName: string,
+	defaultMode: string
+): TokenValue | undefined {
+	return (
+		(modeName === defaultMode ? undefined : ir.overrideTokens[modeName]?.[reference]) ??
+		ir.tokens[reference]
+	);
 }
 
 function buildMetadata(
@@ -278,8 +398,14 @@ function generateDtcg(
 		'gap',
 		'borderRadius',
 		'borderWidth',
+		'sizing',
 	]);
 	for (const token of Object.values(ir.tokens)) {
+		if (token.metadata?.radiusExpression && token.rawValue === undefined) {
+			throw new Error(
+				`Token --${token.name} is a nested radius over a fluid or mixed-unit source in the default mode, but DTCG 2025.10 dimensions need a single length`
+			);
+		}
 		if (
 			directlyRepresentedDimensionFamilies.has(token.family) &&
 			token.rawValue !== undefined &&
@@ -302,7 +428,15 @@ function generateDtcg(
 		(token) =>
 			token.rawValue !== undefined &&
 			(token.unit === 'px' || token.unit === 'rem') &&
-			['spacing', 'gap', 'typography', 'borderRadius', 'borderWidth'].includes(token.family)
+			[
+				'spacing',
+				'gap',
+				'typography',
+				'borderRadius',
+				'borderWidth',
+				'sizing',
+				'breakpoint',
+			].includes(token.family)
 	);
 	const durationTokens = Object.values(ir.tokens).filter(
 		(token) =>
@@ -317,6 +451,12 @@ function generateDtcg(
 	const shadowGroup: Record<string, unknown> | undefined = ir.shadows
 		? { $type: 'shadow' }
 		: undefined;
+	const borderGroup: Record<string, unknown> | undefined = ir.focusRings
+		? { $type: 'border' }
+		: undefined;
+	const gradientGroup: Record<string, unknown> | undefined = ir.gradients
+		? { $type: 'gradient' }
+		: undefined;
 	const easingGroup: Record<string, unknown> | undefined = ir.motion
 		? { $type: 'cubicBezier' }
 		: undefined;
@@ -328,27 +468,89 @@ function generateDtcg(
 		: undefined;
 
 	for (const [name, token] of Object.entries(colorTokens)) {
+		if (token.metadata?.semanticColor) {
+			// A target only the mode authors has no DTCG token to alias, so it carries its value.
+			const alias = (modeName: string) => {
+				const reference = getModeToken(ir, token, modeName, colorModes!.defaultMode).reference!;
+				return ir.tokens[reference]
+					? `{color.${reference}}`
+					: toDtcgColor(
+							getResolvedColorValue(ir, token, modeName, colorModes!.defaultMode),
+							config.colorSpace
+						);
+			};
+			colorGroup![name] = {
+				$value: `{color.${token.reference}}`,
+				...(colorModes!.allModes.length > 1
+					? {
+							$extensions: {
+								[EXTENSION_KEY]: {
+									collection: config.collectionName,
+									modes: Object.fromEntries(
+										colorModes!.allModes.map((modeName) => [modeName, alias(modeName)])
+									),
+								},
+							},
+						}
+					: {}),
+			};
+			continue;
+		}
+
 		const entry: Record<string, unknown> = {
 			$value: toDtcgColor(token.value, config.colorSpace),
 		};
 
-		if (token.metadata?.isAlphaVariant && token.metadata.alphaLevel) {
-			entry.$description = `${token.metadata.baseColor} (alpha: ${token.metadata.alphaLevel})`;
+		const { alphaLevel, baseColor, surfaceColor, mixLevel, stateColor, stateLevel, stateOverlay } =
+			token.metadata ?? {};
+		if (surfaceColor && alphaLevel) {
+			entry.$description = `${baseColor} (alpha: ${alphaLevel}, flattened over ${surfaceColor})`;
+		} else if (surfaceColor && mixLevel) {
+			entry.$description = `${baseColor} (mix: ${mixLevel}, toward ${surfaceColor})`;
+		} else if (token.metadata?.isAlphaVariant && alphaLevel) {
+			entry.$description = `${baseColor} (alpha: ${alphaLevel})`;
+		} else if (stateColor && stateLevel) {
+			entry.$description = token.metadata?.isStateLayer
+				? `${stateOverlay} (state: ${stateLevel}, layer over ${stateColor})`
+				: `${stateColor} (state: ${stateLevel}, ${stateOverlay} overlaid)`;
 		}
 
-		if (colorModes && colorModes.allModes.length > 1) {
+		const flattened = surfaceColor && alphaLevel ? { baseColor, alphaLevel, surfaceColor } : null;
+		const mixed = surfaceColor && mixLevel ? { baseColor, mixLevel, surfaceColor } : null;
+		const state =
+			stateColor && stateLevel
+				? {
+						stateColor,
+						stateLevel,
+						stateOverlay,
+						...(token.metadata?.isStateLayer ? { isStateLayer: true } : {}),
+					}
+				: null;
+		const map = (candidate: TokenValue) => toDtcgColor(candidate.value, config.colorSpace);
+		const axes = tokenAxisValues(ir, token, map);
+		const axisColorModes = tokenAxisColorValues(ir, token, map);
+		if (flattened || mixed || state || axes || (colorModes && colorModes.allModes.length > 1)) {
 			entry.$extensions = {
 				[EXTENSION_KEY]: {
-					collection: config.collectionName,
-					modes: Object.fromEntries(
-						colorModes.allModes.map((modeName) => [
-							modeName,
-							toDtcgColor(
-								getModeValue(ir, token, modeName, colorModes.defaultMode),
-								config.colorSpace
-							),
-						])
-					),
+					...(flattened ? { flattened } : {}),
+					...(mixed ? { mixed } : {}),
+					...(state ? { state } : {}),
+					...(axes ? { axes } : {}),
+					...(axisColorModes ? { axisColorModes } : {}),
+					...(colorModes && colorModes.allModes.length > 1
+						? {
+								collection: config.collectionName,
+								modes: Object.fromEntries(
+									colorModes.allModes.map((modeName) => [
+										modeName,
+										toDtcgColor(
+											getModeValue(ir, token, modeName, colorModes.defaultMode),
+											config.colorSpace
+										),
+									])
+								),
+							}
+						: {}),
 				},
 			};
 		}
@@ -358,7 +560,21 @@ function generateDtcg(
 	for (const token of dimensionTokens) {
 		const map = (candidate: TokenValue) =>
 			dtcgDimension(candidate.rawValue!, candidate.unit!, `Token --${candidate.name}`);
-		const extension = tokenExtension(ir, token, map);
+		// A nested radius over a fluid inset is a CSS expression with no single length.
+		const modeMap = (candidate: TokenValue) =>
+			candidate.rawValue === undefined || !candidate.unit ? undefined : map(candidate);
+		const fluid = dtcgFluid(token, `Token --${token.name}`);
+		const breakpoint = token.metadata?.breakpointKind;
+		const extension = tokenExtension(
+			ir,
+			token,
+			modeMap,
+			fluid
+				? { fluid }
+				: breakpoint
+					? { breakpoint: { kind: breakpoint, query: breakpointQuery(token.rawValue!) } }
+					: undefined
+		);
 		dimensionGroup![token.name] = {
 			$value: map(token),
 			...(extension ? { $extensions: extension } : {}),
@@ -406,6 +622,43 @@ function generateDtcg(
 			}
 		}
 	}
+	if (borderGroup && ir.focusRings) {
+		for (const [name, ring] of Object.entries(ir.focusRings)) {
+			borderGroup[name] = {
+				$value: {
+					color: `{color.${ring.color.token}}`,
+					width: `{dimension.${ring.width.token}}`,
+					style: ring.style,
+				},
+				$extensions: {
+					[EXTENSION_KEY]: {
+						outlineOffset: dtcgDimension(ring.offset, ring.unit, `Focus ring "${name}"`),
+					},
+				},
+			};
+		}
+	}
+	if (gradientGroup && ir.gradients) {
+		for (const [name, gradient] of Object.entries(ir.gradients)) {
+			const { kind, interpolation, hue, angle, shape, at } = gradient;
+			gradientGroup[name] = {
+				$value: gradient.stops.map((stop) => ({
+					color: `{color.${stop.color.token}}`,
+					position: stop.position / 100,
+				})),
+				$extensions: {
+					[EXTENSION_KEY]: {
+						kind,
+						interpolation,
+						...(hue !== undefined ? { hue } : {}),
+						...(angle !== undefined ? { angle } : {}),
+						...(shape !== undefined ? { shape } : {}),
+						...(at !== undefined ? { at } : {}),
+					},
+				},
+			};
+		}
+	}
 	if (ir.motion && easingGroup && transitionGroup) {
 		for (const [name, easing] of Object.entries(ir.motion.easings)) {
 			easingGroup[name] = { $value: [...easing.value] };
@@ -483,6 +736,8 @@ function generateDtcg(
 		...(transitionGroup ? { transition: transitionGroup } : {}),
 		...(typographyGroup ? { typography: typographyGroup } : {}),
 		...(shadowGroup ? { shadow: shadowGroup } : {}),
+		...(borderGroup ? { border: borderGroup } : {}),
+		...(gradientGroup ? { gradient: gradientGroup } : {}),
 	};
 	if (Object.keys(groups).length === 0) {
 		throw new Error('DTCG export requires at least one representable design-token family');
@@ -507,7 +762,7 @@ function generateFigmaVariables(
 	for (const [name, token] of Object.entries(tokens)) {
 		const values = Object.fromEntries(
 			allModes.map((modeName) => {
-				const value = getModeValue(ir, token, modeName, defaultMode);
+				const value = getResolvedColorValue(ir, token, modeName, defaultMode);
 				const parsed = parseHexColor(value);
 				return [modeName, { hex: value.toLowerCase(), rgba: parsed.rgba }];
 			})
@@ -522,12 +777,58 @@ function generateFigmaVariables(
 		variables,
 	};
 
+	// Figma modes within one collection are exclusive, so each mode axis gets its own
+	// collection holding the colors its members override. A member whose derived colors
+	// depend on a color mode also gets a "member / color mode" mode per combination.
+	const axisCollections = Object.entries(ir.modes.axes ?? {}).flatMap(([axisName, axis]) => {
+		const combinations = axis.overrides.flatMap((modeName) =>
+			allModes
+				.filter((colorMode) => ir.axisColorOverrides?.[modeName]?.[colorMode])
+				.map((colorMode) => ({ name: `${modeName} / ${colorMode}`, modeName, colorMode }))
+		);
+		const axisModes = [
+			axis.default,
+			...axis.overrides,
+			...combinations.map((combination) => combination.name),
+		];
+		const axisVariables = Object.entries(tokens)
+			.filter(([name]) => axis.overrides.some((modeName) => ir.overrideTokens[modeName]?.[name]))
+			.map(([name, token]): FigmaVariable => {
+				const entry = (modeName: string, value: string) => [
+					modeName,
+					{ hex: value.toLowerCase(), rgba: parseHexColor(value).rgba },
+				];
+				const values = Object.fromEntries([
+					...[axis.default, ...axis.overrides].map((modeName) =>
+						entry(modeName, getResolvedColorValue(ir, token, modeName, axis.default))
+					),
+					...combinations.map((combination) =>
+						entry(
+							combination.name,
+							getAxisColorValue(ir, token, combination.modeName, combination.colorMode, defaultMode)
+						)
+					),
+				]);
+				return { name, type: 'COLOR', values };
+			});
+		return axisVariables.length === 0
+			? []
+			: [
+					{
+						name: `${config.collectionName} ${axisName}`,
+						defaultMode: axis.default,
+						modes: axisModes,
+						variables: axisVariables,
+					} satisfies FigmaCollection,
+				];
+	});
+
 	return {
 		_meta: {
 			...(metadata ?? {}),
 			colorSpace: config.colorSpace,
 		},
-		collections: [collection],
+		collections: [collection, ...axisCollections],
 	};
 }
 
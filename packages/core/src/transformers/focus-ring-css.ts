@@ -0,0 +1,36 @@
+import type { IR } from '../generator/types.js';
+
+export interface FocusRingCssConfig {
+	/** Global helper prefix. Defaults to ring; TFS adds `--`. */
+	classPrefix?: string;
+	/** Ordinary global classes by default; `zero` wraps them in :where(). */
+	specificity?: 'class' | 'zero';
+}
+
+const cssNamespacePattern = /^[a-z][a-z0-9-]*$/i;
+
+/**
+ * Emit optional helper classes that draw each focus ring on `:focus-visible`.
+ * The outline reads the generated variables, so modes restyle it in place.
+ */
+export function toFocusRingCss(ir: IR, options: FocusRingCssConfig = {}): string {
+	if (!ir.focusRings) return '';
+	const config: Required<FocusRingCssConfig> = {
+		classPrefix: options.classPrefix ?? 'ring',
+		specificity: options.specificity ?? 'class',
+	};
+	if (!cssNamespacePattern.test(config.classPrefix)) {
+		throw new Error('Focus ring classPrefix must be a CSS-safe namespace beginning with a letter');
+	}
+	const blocks = Object.entries(ir.focusRings).map(([name, ring]) => {
+		const ordinary = `.${config.classPrefix}--${name}:focus-visible`;
+		const selector = config.specificity === 'zero' ? `:where(${ordinary})` : ordinary;
+		return [
+			`${selector} {`,
+			`  outline: var(--${ring.token});`,
+			`  outline-offset: var(--${ring.offsetToken});`,
+			'}',
+		].join('\n');
+	});
+	return blocks.length ? `${blocks.join('\n\n')}\n` : '';
+}
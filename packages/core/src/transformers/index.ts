@@ -3,7 +3,13 @@
  */
 
 export { toCss, defaultCssConfig } from './css.js';
-export type { CssTransformerConfig, FileHeaderConfig } from './css.js';
+export type {
+	CssAlphaVariantStrategy,
+	CssColorModeStrategy,
+	CssNestedRadiusStrategy,
+	CssTransformerConfig,
+	FileHeaderConfig,
+} from './css.js';
 
 export { toFigmaJson } from './figma-json.js';
 export type {
@@ -27,6 +33,8 @@ export { toTypographyCss, toTypographyCssModuleTypes } from './typography-css.js
 export type { TypographyCssConfig } from './typography-css.js';
 export { toShadowCss, toShadowCssModuleTypes } from './shadow-css.js';
 export type { ShadowCssConfig } from './shadow-css.js';
+export { toFocusRingCss } from './focus-ring-css.js';
+export type { FocusRingCssConfig } from './focus-ring-css.js';
 export { toShadowSpecimen } from './shadow-specimen.js';
 export type { ShadowSpecimenConfig } from './shadow-specimen.js';
 
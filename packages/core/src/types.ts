@@ -28,14 +28,60 @@ export type ColorTokens = Record<string, Oklch>;
 /** Portable author-owned facts attached to a mode (for example a label or polarity). */
 export type ModeMetadata = Readonly<Record<string, string | number | boolean | null>>;
 
+/** Operating-system theme a color mode satisfies, as in `prefers-color-scheme`. */
+export type ColorScheme = 'light' | 'dark';
+
+/** CSS system colors, the palette `forced-colors: active` paints with. */
+export type SystemColor =
+	| 'AccentColor'
+	| 'AccentColorText'
+	| 'ActiveText'
+	| 'ButtonBorder'
+	| 'ButtonFace'
+	| 'ButtonText'
+	| 'Canvas'
+	| 'CanvasText'
+	| 'Field'
+	| 'FieldText'
+	| 'GrayText'
+	| 'Highlight'
+	| 'HighlightText'
+	| 'LinkText'
+	| 'Mark'
+	| 'MarkText'
+	| 'SelectedItem'
+	| 'SelectedItemText'
+	| 'VisitedText';
+
+/**
+ * Accessibility preferences a color mode refines itself for. Each refinement
+ * is partial against the mode's palette and applies only while that mode is.
+ */
+export interface ColorModePreferences {
+	/**
+	 * Colors that replace the mode's values under `@media (prefers-contrast: more)`.
+	 * `colors.luminance` checks them at a stricter threshold: WCAG AAA, and APCA
+	 * minimums raised by 15 Lc.
+	 */
+	moreContrast?: ColorTokens;
+	/**
+	 * System colors the mode's colors map to under `@media (forced-colors: active)`,
+	 * e.g. `{ bg: 'Canvas', ink: 'CanvasText', pri: 'Highlight' }`.
+	 */
+	forcedColors?: Readonly<Record<string, SystemColor>>;
+}
+
 /**
  * Default color mode - defines the base color tokens
  */
 export interface DefaultColorMode {
 	isDefault: true;
+	/** Scheme the default palette satisfies; `:root` already applies it. */
+	colorScheme?: ColorScheme;
 	metadata?: ModeMetadata;
 	tokens: ColorTokens;
 	alphaSchedule?: AlphaSchedule;
+	preferences?: ColorModePreferences;
 }
 
 /**
@@ -43,9 +89,24 @@ export interface DefaultColorMode {
  */
 export interface OverrideColorMode {
 	isDefault?: false;
+	/**
+	 * Color mode this mode is partial against. Defaults to the default mode;
+	 * chains resolve transitively, e.g. `light-high-contrast` extending `light`.
+	 */
+	extends?: string;
+	/**
+	 * Apply this mode when the OS prefers the scheme and no explicit color mode
+	 * is set on the root.
+	 */
+	colorScheme?: ColorScheme;
 	metadata?: ModeMetadata;
 	tokens: ColorTokens; // Partial by nature - only override what changes
 	alphaSchedule?: AlphaSchedule;
+	/**
+	 * Inherited along `extends`. Authoring a color drops its ancestors'
+	 * `moreContrast` value for it; `forcedColors` roles carry over unchanged.
+	 */
+	preferences?: ColorModePreferences;
 }
 
 /**
@@ -68,23 +129,119 @@ export interface AlphaSchedule {
 	[level: string]: number;
 }
 
+/**
+ * Opt-in opaque alpha variants for contexts that cannot composite, such as
+ * email, native apps, PDF, or Figma fills on an unknown backdrop.
+ *
+ * Every alpha variant is precomputed over each surface per mode and emitted as
+ * `--clr-{color}-a-{level}-on-{surface}`.
+ */
+export interface AlphaFlatteningPolicy {
+	/** Default-mode colors to composite over, e.g. `['bg', 'ev']`. */
+	readonly surfaces: readonly string[];
+}
+
+/**
+ * Opaque variants that mix each color toward one surface color, emitted as
+ * `--clr-{color}-mix-{level}`. Unlike alpha variants, stacked or overlapping
+ * tints stay clean, which suits borders and layered surfaces.
+ *
+ * Each level is the share of the color itself: `lo: 0.25` is 25% color and
+ * 75% surface, as in `color-mix(in oklch, var(--clr-pri) 25%, var(--clr-bg))`.
+ */
+export interface MixSchedule {
+	/** Default-mode color every variant mixes toward, e.g. `'bg'`. */
+	readonly surface: string;
+	readonly levels: Readonly<Record<string, number>>;
+}
+
+/**
+ * Interactive state layers in the Material sense: an overlay color painted over
+ * an interactive color at each level's opacity. Every level is emitted per mode
+ * as the opaque `--clr-{color}-state-{level}` and as the translucent
+ * `--clr-{color}-state-{level}-layer` for stacking over the live color.
+ *
+ * Opaque state colors join their interactive color's luminance group, so
+ * `colors.luminance` contrast and APCA requirements cover them too.
+ */
+export interface StateLayerSchedule {
+	/** Default-mode interactive colors mapped to the color overlaid on them, e.g. `{ pri: 'bg' }`. */
+	readonly overlays: Readonly<Record<string, string>>;
+	/** Overlay opacity per state, e.g. `{ hover: 0.08, pressed: 0.12, disabled: 0.38 }`. */
+	readonly levels: Readonly<Record<string, number>>;
+	/** Levels left out of contrast checks, e.g. `['disabled']`; WCAG exempts inactive controls. */
+	readonly exempt?: readonly string[];
+}
+
+/** Reference a color token and, optionally, one alpha-ramp member. */
+export interface ColorReference {
+	color: string;
+	alpha?: string;
+}
+
+/**
+ * Intent-named alias such as `text-muted`, emitted as a `var()` reference to
+ * the underlying `--clr-*` token so changing intent is a one-line edit.
+ */
+export interface SemanticColor extends ColorReference {
+	/** Replacement references keyed by color mode name. */
+	modes?: Record<string, ColorReference>;
+}
+
 /** Deliberate subset accepted from user-authored runtime theme payloads. */
 export interface RuntimeColorThemesPolicy {
 	readonly colorNames: readonly string[];
 }
 
+// SCALES ----------------------------------------------- //
+
+/**
+ * How a numbered scale grows from `base` at step 1:
+ *
+ * - `linear`: `base + step * (n - 1)`; `step` defaults to `base`, giving `base * n`
+ * - `ratio`: `base * ratio ** (n - 1)`, a modular scale such as 1.25
+ * - `steps`: `base * multipliers[n - 1]`, one unitless multiple per step
+ * - `fibonacci`: `base` times 1, 2, 3, 5, 8, …, each multiple the sum of the two before
+ *
+ * Without a strategy, spacing and time steps are `base * n` and font sizes
+ * `base + increment * (n - 1)`. `min` stays an authored value below step 1.
+ */
+export type ScaleStrategy =
+	| { kind: 'linear'; step?: number }
+	| { kind: 'ratio'; ratio: number }
+	| { kind: 'steps'; multipliers: readonly number[] }
+	| { kind: 'fibonacci' };
+
 // SPACING ---------------------------------------------- //
 export interface SpacingSystem {
 	unit: string;
 	base: number;
 	min: number;
 	range: number;
+	scale?: ScaleStrategy;
+}
+
+/**
+ * Interpolates a size scale between two viewport widths with `clamp()`. The
+ * mode's own tokens apply at `minViewport` and below, these `tokens` at
+ * `maxViewport` and above; scale values left out stay static.
+ *
+ * The scale unit must be `px` or `rem`; `rem` converts at the 16px browser default.
+ */
+export interface FluidScale<Scale> {
+	/** Viewport widths in px, or the names of viewport breakpoints. */
+	minViewport: ViewportWidth;
+	maxViewport: ViewportWidth;
+	tokens: Partial<Scale>;
 }
 
 export interface SpacingMode {
 	isDefault?: boolean;
 	metadata?: ModeMetadata;
+	/** Viewport breakpoint from which this override mode applies while no size mode is selected. */
+	breakpoint?: string;
 	tokens: SpacingSystem;
+	fluid?: FluidScale<Pick<SpacingSystem, 'base' | 'min'>>;
 }
 
 // GAP ---------------------------------------------- //
@@ -100,6 +257,7 @@ export interface GapSystem {
 export interface GapMode {
 	isDefault?: boolean;
 	metadata?: ModeMetadata;
+	breakpoint?: string;
 	tokens: GapSystem;
 }
 
@@ -108,17 +266,43 @@ export interface FontSizeSystem {
 	unit: string; // e.g., 'rem'
 	base: number; // Base font size (1rem = 16px typically)
 	min: number; // Minimum font size (smaller than base)
-	increment: number; // Fixed increment between sizes (e.g., 0.25rem)
+	increment?: number; // Fixed increment between sizes (e.g., 0.25rem); required without `scale`
 	range: number; // Number of steps in the scale
+	scale?: ScaleStrategy;
 }
 
 export interface TypographyMode {
 	isDefault?: boolean;
 	metadata?: ModeMetadata;
+	breakpoint?: string;
 	tokens: FontSizeSystem;
+	fluid?: FluidScale<Pick<FontSizeSystem, 'base' | 'min' | 'increment'>>;
 }
 
 export type FontSizeReference = 'min' | number;
+
+// SIZING ----------------------------------------------- //
+
+/** The spacing step (`--sp-*`) or font-size step (`--fs-*`) a size resolves to. */
+export type SizingReference = { spacing: number | 'min' } | { fontSize: FontSizeReference };
+
+export interface SizingSystem {
+	spacingMode?: string; // If not specified, uses the same-named or default spacing mode
+	typographyMode?: string; // If not specified, uses the same-named or default typography mode
+	/** Component dimensions by name, such as `icon-s`, `control-m`, or `target-min`. */
+	sizes: Record<string, SizingReference>;
+	/** Sizes used as pointer hit targets, each checked against `minHitTarget`. */
+	hitTargets?: readonly string[];
+	/** Smallest hit target in px. Defaults to 24 (WCAG 2.5.8); 44 meets 2.5.5. */
+	minHitTarget?: number;
+}
+
+export interface SizingMode {
+	isDefault?: boolean;
+	metadata?: ModeMetadata;
+	breakpoint?: string;
+	tokens: SizingSystem;
+}
 export type TypographyFontStyle = 'normal' | 'italic' | 'oblique';
 export type TypographyAvailableWeights = number[] | { min: number; max: number };
 
@@ -293,17 +477,21 @@ export interface BorderRadiusSystem {
 export interface BorderRadiusMode {
 	isDefault?: boolean;
 	metadata?: ModeMetadata;
+	breakpoint?: string;
 	tokens: BorderRadiusSystem;
 }
 
 export interface BorderWidthSystem {
 	unit: string; // Unit for border width (px, rem, etc.)
-	value: number; // Single discrete value
+	value?: number; // Single discrete value, emitted as the bare `--bdw`
+	/** Named widths such as `hairline`, `s`, `l`, `focus`, emitted as `--bdw-{name}`. */
+	scale?: Record<string, number>;
 }
 
 export interface BorderWidthMode {
 	isDefault?: boolean;
 	metadata?: ModeMetadata;
+	breakpoint?: string;
 	tokens: BorderWidthSystem;
 }
 
@@ -314,19 +502,48 @@ export interface BorderSystem {
 	width: {
 		modes: Array<BorderWidthMode & { name: string }>;
 	};
-	// Future border properties can be added here
+	/** Named outline recipes, emitted as `--ring-{name}` and `--ring-{name}-offset`. */
+	focusRings?: Record<string, FocusRingRecipe>;
+	/** Inner radii for nested surfaces, emitted as `--bdr-{name}` in declaration order. */
+	nestedRadii?: Record<string, NestedRadiusRecipe>;
+}
+
+/**
+ * A concentric inner radius: the outer radius less the padding between the
+ * two edges, floored at 0. `outer` names a radius step or an earlier nested
+ * radius, so cards within cards chain.
+ */
+export interface NestedRadiusRecipe {
+	outer: string;
+	inset: { spacing: number | 'min' } | { gap: 'min' | 's' | 'l' | 'max' };
+}
+
+export type FocusRingStyle = 'solid' | 'dashed' | 'dotted' | 'double';
+
+/**
+ * A composite focus outline. The width names a step of the border width
+ * scale, so it follows size modes; the color follows color modes.
+ */
+export interface FocusRingRecipe {
+	width: string;
+	style?: FocusRingStyle; // Defaults to 'solid'
+	color: ColorReference;
+	/** Gap between the element edge and the ring, in the border width unit. */
+	offset: number;
 }
 
 // TIME ------------------------------------------------- //
 
 /**
- * One atomic time scale. Values use the multiplicative formula `base * step`.
+ * One atomic time scale. Values use the multiplicative formula `base * step`
+ * unless `scale` picks another strategy.
  */
 export interface TimeScaleTokens {
 	unit: string; // e.g., 'ms'
 	base: number; // base increment (e.g., 100)
 	min: number; // minimum time value
 	range: number; // number of steps
+	scale?: ScaleStrategy;
 }
 
 /**
@@ -421,10 +638,7 @@ export interface MotionSystem {
 // SHADOWS ---------------------------------------------- //
 
 /** Reference a semantic color token and, optionally, one alpha-ramp member. */
-export interface ShadowColorReference {
-	color: string;
-	alpha?: string;
-}
+export type ShadowColorReference = ColorReference;
 
 interface ShadowLayerBase {
 	x: number;
@@ -447,6 +661,8 @@ export interface ShadowRecipe<Layer extends ShadowLayerBase> {
 	variants?: Record<string, readonly Layer[]>;
 	/** Optional review order containing base and every variant exactly once. */
 	displayOrder?: string[];
+	/** Stacking layer this elevation pairs with, suggested beside the recipe in review. */
+	stackingLayer?: string;
 }
 
 /**
@@ -459,6 +675,122 @@ export interface ShadowSystem {
 	text?: Record<string, ShadowRecipe<TextShadowLayer>>;
 }
 
+// GRADIENTS -------------------------------------------- //
+
+/** Color space a gradient interpolates in, written as `in {space}`. */
+export type GradientInterpolation = 'oklch' | 'oklab' | 'srgb' | 'srgb-linear' | 'display-p3';
+
+/** Hue path around the OKLCH wheel. CSS uses `shorter` when omitted. */
+export type GradientHueInterpolation = 'shorter' | 'longer' | 'increasing' | 'decreasing';
+
+export interface GradientStop {
+	color: ShadowColorReference;
+	/** Percentage along the gradient. Omitted positions are spread evenly, as in CSS. */
+	position?: number;
+}
+
+/** A point inside the painted box as percentages of its width and height. */
+export interface GradientPosition {
+	x: number;
+	y: number;
+}
+
+interface GradientRecipeBase {
+	/** At least two stops in paint order. */
+	stops: readonly GradientStop[];
+	/** Defaults to `oklch`. */
+	interpolation?: GradientInterpolation;
+	/** Only valid when interpolating in `oklch`. */
+	hue?: GradientHueInterpolation;
+}
+
+export interface LinearGradientRecipe extends GradientRecipeBase {
+	kind: 'linear';
+	/** Direction in degrees. Defaults to 180, top to bottom. */
+	angle?: number;
+}
+
+export interface RadialGradientRecipe extends GradientRecipeBase {
+	kind: 'radial';
+	/** Defaults to `ellipse`. */
+	shape?: 'circle' | 'ellipse';
+	/** Defaults to the center, `{ x: 50, y: 50 }`. */
+	at?: GradientPosition;
+}
+
+export interface ConicGradientRecipe extends GradientRecipeBase {
+	kind: 'conic';
+	/** Starting angle in degrees. Defaults to 0. */
+	angle?: number;
+	/** Defaults to the center, `{ x: 50, y: 50 }`. */
+	at?: GradientPosition;
+}
+
+export type GradientRecipe = LinearGradientRecipe | RadialGradientRecipe | ConicGradientRecipe;
+
+/**
+ * Named gradient recipes. Stops reference color tokens, so each gradient
+ * follows color modes without override blocks.
+ */
+export type GradientSystem = Record<string, GradientRecipe>;
+
+// BREAKPOINTS ------------------------------------------ //
+
+/** A viewport width in px, or the name of a viewport breakpoint. */
+export type ViewportWidth = number | string;
+
+/**
+ * Named minimum widths in px. Viewport breakpoints emit `--bp-{name}` and
+ * `@custom-media --bp-{name} (width >= {width}px)`; container sizes emit
+ * `--cq-{name}` for `@container` queries, which have no custom-media form.
+ *
+ * Size override modes bind to a viewport breakpoint through `breakpoint`, and
+ * fluid scales may name one as `minViewport` or `maxViewport`.
+ */
+export interface BreakpointSystem {
+	viewport: Record<string, number>;
+	container?: Record<string, number>;
+}
+
+// LAYERS ----------------------------------------------- //
+
+/** A stacking layer name, or a name pinned to an explicit z-index. */
+export type LayerDeclaration = string | { name: string; value: number };
+
+/**
+ * Named stacking layers, lowest first, each emitted as `--z-{name}`. A layer
+ * without an explicit value sits `step` above the one before it; the first
+ * starts at 0. Explicit values must keep every layer above the previous one.
+ */
+export interface LayerSystem {
+	order: readonly LayerDeclaration[];
+	/** Gap between consecutive layers without explicit values. Defaults to 10. */
+	step?: number;
+}
+
+// MODE AXES -------------------------------------------- //
+
+/** Token families whose override modes may join a mode axis. */
+export type ModeAxisFamily = 'colors' | 'spacing' | 'gap' | 'typography' | 'border' | 'sizing';
+
+/**
+ * A user-declared mode axis such as `brand`, `contrast`, or `density`. The
+ * override modes it lists leave the color and size categories and switch under
+ * the axis's own selector, so a brand combines freely with light and dark.
+ * Members are ordinary family modes: a brand recolors through `colors.modes`
+ * and may also respace through `spacing.modes` under the same name.
+ */
+export interface ModeAxis {
+	/** Selector template with a `{mode}` placeholder; defaults to `[data-{axis}-mode="{mode}"]`. */
+	selector?: string;
+	/** Name for the `:root` state, shown in mode pickers when no member is selected. */
+	default: string;
+	/** Families whose override modes may join this axis. */
+	families: readonly ModeAxisFamily[];
+	/** Override mode names that belong to this axis, in picker order. */
+	modes: readonly string[];
+}
+
 // MAIN CONFIG ------------------------------------------ //
 
 /**
@@ -469,6 +801,10 @@ export interface DesignSystem {
 	colors: {
 		modes: Array<ColorMode & { name: string }>;
 		alphaSchedule: AlphaSchedule;
+		flattenAlpha?: AlphaFlatteningPolicy;
+		mixSchedule?: MixSchedule;
+		states?: StateLayerSchedule;
+		semantic?: Record<string, SemanticColor>;
 		luminance?: LuminancePolicy;
 		runtimeThemes?: RuntimeColorThemesPolicy;
 	};
@@ -480,9 +816,16 @@ export interface DesignSystem {
 	};
 	typography: TypographySystem;
 	border: BorderSystem;
+	sizing?: {
+		modes: Array<SizingMode & { name: string }>;
+	};
 	time: TimeSystem;
 	motion?: MotionSystem;
 	shadows?: ShadowSystem;
+	gradients?: GradientSystem;
+	breakpoints?: BreakpointSystem;
+	layers?: LayerSystem;
+	modeAxes?: Record<string, ModeAxis>;
 }
 
 /**
@@ -492,6 +835,7 @@ export interface DesignSystem {
  * Note: Some families have dependencies:
  * - gap requires spacing (for resolving references)
  * - border.radius requires spacing (for resolving references)
+ * - sizing requires spacing or typography, whichever its sizes reference
  *
  * @example
  * ```ts
@@ -508,6 +852,10 @@ export interface PartialDesignSystem {
 	colors?: {
 		modes: Array<ColorMode & { name: string }>;
 		alphaSchedule: AlphaSchedule;
+		flattenAlpha?: AlphaFlatteningPolicy;
+		mixSchedule?: MixSchedule;
+		states?: StateLayerSchedule;
+		semantic?: Record<string, SemanticColor>;
 		luminance?: LuminancePolicy;
 		runtimeThemes?: RuntimeColorThemesPolicy;
 	};
@@ -519,7 +867,14 @@ export interface PartialDesignSystem {
 	};
 	typography?: TypographySystem;
 	border?: BorderSystem;
+	sizing?: {
+		modes: Array<SizingMode & { name: string }>;
+	};
 	time?: TimeSystem;
 	motion?: MotionSystem;
 	shadows?: ShadowSystem;
+	gradients?: GradientSystem;
+	breakpoints?: BreakpointSystem;
+	layers?: LayerSystem;
+	modeAxes?: Record<string, ModeAxis>;
 }
@@ -7,6 +7,7 @@ import type {
 	TypographySettings,
 	TypographySystem,
 } from '../types.js';
+import { fontSizeValue } from '../generator/scale.js';
 
 /** Preserve literal role/variant names without adding hidden defaults or policy. */
 export function defineTypography<
@@ -60,24 +61,19 @@ export type DerivedTypographyRange<
 	displayOrder: Array<Extract<keyof Anchors | keyof Derived, string>>;
 };
 
-function fontSizeValue(reference: FontSizeReference, scale: FontSizeSystem): number {
-	if (reference === 'min') return scale.min;
-	return reference === 1 ? scale.base : scale.base + scale.increment * (reference - 1);
-}
-
 function nearestFontSizeReference(
 	from: FontSizeReference,
 	to: FontSizeReference,
 	at: number,
 	scale: FontSizeSystem
 ): FontSizeReference {
-	const fromValue = fontSizeValue(from, scale);
-	const toValue = fontSizeValue(to, scale);
+	const fromValue = fontSizeValue(scale, from);
+	const toValue = fontSizeValue(scale, to);
 	const target = fromValue + (toValue - fromValue) * at;
 	const candidates: FontSizeReference[] = ['min'];
 	for (let step = 1; step <= scale.range; step++) candidates.push(step);
 	const result = candidates
-		.map((reference) => ({ reference, value: fontSizeValue(reference, scale) }))
+		.map((reference) => ({ reference, value: fontSizeValue(scale, reference) }))
 		.filter(
 			({ value }) => value > Math.min(fromValue, toValue) && value < Math.max(fromValue, toValue)
 		)
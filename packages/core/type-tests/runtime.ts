@@ -26,6 +26,8 @@ void nativeAlphaCss;
 
 parsed.polarity satisfies 'negative' | 'positive';
 result.luminance.metric satisfies 'oklch-l';
+result.contrast?.metric satisfies 'wcag-relative-luminance' | undefined;
+result.apca?.pairs[0]?.polarity satisfies 'negative' | 'positive' | undefined;
 result.customProperties satisfies Readonly<Record<string, string>>;
 result.theme.colors.canvas.l satisfies number;
 new RuntimeColorThemeValidationError('theme.colors', 'is invalid');